@@ -3,6 +3,8 @@
 import { CURRENT_PROFILE } from '@/lib/currentProfile';
 import { ContextSelector } from '@/components/dashboard/ContextSelector';
 import { PermissionsList } from '@/components/dashboard/PermissionsList';
+import { AccessAlerts } from '@/components/dashboard/AccessAlerts';
+import { WriteInbox } from '@/components/dashboard/WriteInbox';
 import ConnectWallet from '@/components/dashboard/ConnectWallet';
 import { IdentityCard } from '@/components/dashboard/IdentityCard';
 import { DashboardShell } from '@/components/layout/DashboardShell';
@@ -137,6 +139,9 @@ export default function Home() {
               <span className="text-[10px] font-bold text-stone-300">POLY-AMOY</span>
             </div>
           </div>
+
+          <AccessAlerts />
+          <WriteInbox />
         </div>
       </div>
 
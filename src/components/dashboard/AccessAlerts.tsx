@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { AuditEntry } from '@/lib/mcp/audit';
+import { vault } from '@/lib/vault/manager';
+
+/**
+ * Access anomalies flagged by the MCP server's AnomalyDetector, read from
+ * the server's audit log with query_audit_log.
+ */
+export function AccessAlerts({ limit = 5 }: { limit?: number }) {
+    const [alerts, setAlerts] = useState<AuditEntry[]>([]);
+    const [loadError, setLoadError] = useState<string | null>(null);
+
+    useEffect(() => {
+        vault.getAccessAlerts()
+            .then(entries => {
+                setAlerts(entries);
+                setLoadError(null);
+            }, (e: Error) => setLoadError(e.message));
+    }, []);
+
+    return (
+        <div className="glass-panel p-8 rounded-3xl space-y-6">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <ShieldAlert size={18} className="text-stone-400" />
+                    <h3 className="text-xs font-black text-stone-400 uppercase tracking-widest">Access Alerts</h3>
+                </div>
+                {alerts.length > 0 && (
+                    <span className="text-[10px] font-black text-amber-600 bg-amber-50 border border-amber-100 px-2 py-0.5 rounded-lg">
+                        {alerts.length}
+                    </span>
+                )}
+            </div>
+
+            {loadError && (
+                <p className="text-[11px] font-bold text-red-500">Could not reach the MCP server: {loadError}</p>
+            )}
+
+            {alerts.length === 0 ? !loadError && (
+                <div className="flex items-center gap-2 text-xs font-bold text-stone-400">
+                    <ShieldCheck size={14} className="text-emerald-500" />
+                    No unusual access detected
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {alerts.slice(0, limit).map(alert => {
+                        const critical = alert.metadata?.severity === 'critical';
+                        return (
+                            <div key={alert.id} className="flex items-start gap-3">
+                                <div className={`p-2 rounded-xl bg-stone-50 border border-stone-100 ${critical ? 'text-red-500' : 'text-amber-500'}`}>
+                                    <AlertTriangle size={14} />
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-xs font-bold text-stone-900 truncate">{alert.reason}</p>
+                                    <p className="text-[10px] font-medium text-stone-400">
+                                        {alert.client ?? 'unknown client'}
+                                        {alert.metadata?.suspended ? ' · session suspended' : ''}
+                                        {' · '}
+                                        {new Date(alert.timestamp).toLocaleString()}
+                                    </p>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -8,6 +8,9 @@ export function PermissionsList({ profile }: { profile: PortableProfile }) {
     const [grants, setGrants] = useState<AccessGrant[]>(profile.activeGrants || []);
     const [isCreating, setIsCreating] = useState(false);
     const [newGrantee, setNewGrantee] = useState('');
+    const [newPersona, setNewPersona] = useState('');
+    const personas = profile.personas || [];
+    const personaName = (id: string) => personas.find(p => p.id === id)?.name ?? id;
 
     useEffect(() => {
         // Ensure vault has keys for signing
@@ -22,7 +25,8 @@ export function PermissionsList({ profile }: { profile: PortableProfile }) {
             const newGrant = await vault.grantAccess(
                 newGrantee,
                 ['read_memory', 'read_identity'],
-                3600
+                3600,
+                newPersona || undefined
             );
 
             setGrants([...grants, newGrant]);
@@ -34,6 +38,16 @@ export function PermissionsList({ profile }: { profile: PortableProfile }) {
         }
     };
 
+    const handleRevokeGrant = async (grant: AccessGrant) => {
+        if (!confirm(`Revoke access for ${grant.grantee}? Its sessions lose access immediately.`)) return;
+        try {
+            await vault.revokeGrant(grant.id);
+            setGrants(grants.filter(g => g.id !== grant.id));
+        } catch (e) {
+            alert("Failed to revoke grant: " + (e as Error).message);
+        }
+    };
+
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text);
         alert("Copied to clipboard!");
@@ -55,6 +69,18 @@ export function PermissionsList({ profile }: { profile: PortableProfile }) {
                         value={newGrantee}
                         onChange={(e) => setNewGrantee(e.target.value)}
                     />
+                    {personas.length > 0 && (
+                        <select
+                            className="bg-white dark:bg-stone-800 border border-stone-300 dark:border-stone-700 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-[#1E90FF] focus:border-transparent shadow-sm"
+                            value={newPersona}
+                            onChange={(e) => setNewPersona(e.target.value)}
+                        >
+                            <option value="">All personas</option>
+                            {personas.map(p => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                    )}
                     <button
                         onClick={handleCreateGrant}
                         disabled={isCreating || !newGrantee}
@@ -79,6 +105,11 @@ export function PermissionsList({ profile }: { profile: PortableProfile }) {
                                     <span className="px-2 py-0.5 rounded-full text-xs bg-stone-100 text-stone-600 dark:bg-stone-800 dark:text-stone-400 border border-stone-200 dark:border-stone-700 font-medium">
                                         {grant.permissions.join(', ')}
                                     </span>
+                                    {grant.persona && (
+                                        <span className="px-2 py-0.5 rounded-full text-xs bg-sky-50 text-sky-600 border border-sky-100 font-medium">
+                                            {personaName(grant.persona)}
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="flex gap-4 text-xs text-stone-500 font-mono">
                                     <span>ID: {grant.id.substring(0, 12)}...</span>
@@ -86,12 +117,20 @@ export function PermissionsList({ profile }: { profile: PortableProfile }) {
                                 </div>
                             </div>
 
-                            <button
-                                onClick={() => copyToClipboard(JSON.stringify(grant, null, 2))}
-                                className="text-xs text-[#1E90FF] font-medium opacity-0 group-hover:opacity-100 transition-opacity"
-                            >
-                                COPY JSON
-                            </button>
+                            <div className="flex gap-3 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button
+                                    onClick={() => copyToClipboard(JSON.stringify(grant, null, 2))}
+                                    className="text-xs text-[#1E90FF] font-medium"
+                                >
+                                    COPY JSON
+                                </button>
+                                <button
+                                    onClick={() => handleRevokeGrant(grant)}
+                                    className="text-xs text-red-600 font-medium"
+                                >
+                                    REVOKE
+                                </button>
+                            </div>
                         </div>
                     ))
                 )}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Check, Inbox, Pencil, RefreshCw, X } from 'lucide-react';
+import { Conversation, MemoryFragment, PendingWrite } from '@/lib/types';
+import { vault } from '@/lib/vault/manager';
+
+/**
+ * Writes from remote MCP clients held for review (MCP_WRITE_REVIEW=on).
+ * Each can be approved as is, edited and approved, or rejected. The list is
+ * loaded from the MCP server, which stores the decisions.
+ */
+export function WriteInbox() {
+    // Bumped to re-read the vault's pending writes after they change
+    const [, setVersion] = useState(0);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState('');
+    const writes = vault.getPendingWrites();
+
+    const refresh = useCallback(() => vault.refreshPendingWrites()
+        .then(() => setLoadError(null), (e: Error) => setLoadError(e.message))
+        .finally(() => setVersion(v => v + 1)), []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // Memories are reviewed by content, conversations by title
+    const itemText = (write: PendingWrite, item: MemoryFragment | Conversation) => write.tool === 'add_memory'
+        ? (item as MemoryFragment).content
+        : (item as Conversation).title;
+    const editableText = (write: PendingWrite) => itemText(write, write.diff.after);
+
+    const startEditing = (write: PendingWrite) => {
+        setEditingId(write.id);
+        setDraft(editableText(write));
+    };
+
+    const approve = async (write: PendingWrite) => {
+        let edited: MemoryFragment | Conversation | undefined;
+        if (editingId === write.id && draft.trim() && draft !== editableText(write)) {
+            edited = write.tool === 'add_memory'
+                ? { ...(write.diff.after as MemoryFragment), content: draft.trim() }
+                : { ...(write.diff.after as Conversation), title: draft.trim() };
+        }
+        try {
+            await vault.approvePendingWrite(write.id, edited);
+        } catch (e) {
+            alert('Failed to approve write: ' + (e as Error).message);
+        }
+        setEditingId(null);
+        setVersion(v => v + 1);
+    };
+
+    const reject = async (write: PendingWrite) => {
+        const note = prompt('Reason for rejecting (shown to the client, optional):') ?? undefined;
+        try {
+            await vault.rejectPendingWrite(write.id, note || undefined);
+        } catch (e) {
+            alert('Failed to reject write: ' + (e as Error).message);
+        }
+        setVersion(v => v + 1);
+    };
+
+    return (
+        <div className="glass-panel p-8 rounded-3xl space-y-6">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <Inbox size={18} className="text-stone-400" />
+                    <h3 className="text-xs font-black text-stone-400 uppercase tracking-widest">Write Review</h3>
+                </div>
+                <div className="flex items-center gap-2">
+                    {writes.length > 0 && (
+                        <span className="text-[10px] font-black text-sky-600 bg-sky-50 border border-sky-100 px-2 py-0.5 rounded-lg">
+                            {writes.length}
+                        </span>
+                    )}
+                    <button onClick={refresh} className="text-stone-400 hover:text-stone-600" title="Refresh">
+                        <RefreshCw size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {loadError && (
+                <p className="text-[11px] font-bold text-red-500">Could not reach the MCP server: {loadError}</p>
+            )}
+
+            {writes.length === 0 ? (
+                <p className="text-xs font-bold text-stone-400">No writes waiting for review</p>
+            ) : (
+                <div className="space-y-4">
+                    {writes.map(write => (
+                        <div key={write.id} className="space-y-2">
+                            <p className="text-xs font-bold text-stone-900 break-words">{write.summary}</p>
+                            <p className="text-[10px] font-medium text-stone-400">
+                                {write.client}
+                                {' · '}
+                                {new Date(write.createdAt).toLocaleString()}
+                            </p>
+                            {write.reason && (
+                                <p className="text-[11px] text-stone-500 italic">&ldquo;{write.reason}&rdquo;</p>
+                            )}
+                            {editingId === write.id ? (
+                                <textarea
+                                    className="w-full text-xs bg-white border border-stone-200 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-[#1E90FF]"
+                                    rows={3}
+                                    value={draft}
+                                    onChange={e => setDraft(e.target.value)}
+                                />
+                            ) : (
+                                <pre className="text-[10px] text-stone-500 bg-stone-50 border border-stone-100 rounded-lg p-2 max-h-32 overflow-auto whitespace-pre-wrap">
+                                    {write.diff.before ? `- ${itemText(write, write.diff.before)}\n` : ''}
+                                    {`+ ${editableText(write)}`}
+                                </pre>
+                            )}
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => approve(write)}
+                                    className="flex items-center gap-1 text-[10px] font-black uppercase text-emerald-600 bg-emerald-50 border border-emerald-100 px-2 py-1 rounded-lg"
+                                >
+                                    <Check size={12} /> {editingId === write.id ? 'Save & approve' : 'Approve'}
+                                </button>
+                                {editingId !== write.id && (
+                                    <button
+                                        onClick={() => startEditing(write)}
+                                        className="flex items-center gap-1 text-[10px] font-black uppercase text-stone-600 bg-stone-50 border border-stone-100 px-2 py-1 rounded-lg"
+                                    >
+                                        <Pencil size={12} /> Edit
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => reject(write)}
+                                    className="flex items-center gap-1 text-[10px] font-black uppercase text-red-600 bg-red-50 border border-red-100 px-2 py-1 rounded-lg"
+                                >
+                                    <X size={12} /> Reject
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
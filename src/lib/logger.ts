@@ -35,10 +35,23 @@ export interface LogMetadata {
     [key: string]: unknown;
 }
 
+export interface LogRecord {
+    level: LogLevel;
+    message: string;
+    metadata?: LogMetadata;
+    timestamp: number;
+}
+
+/** Receives every record, whatever the console level; sinks filter for themselves */
+export type LogSink = (record: LogRecord) => void;
+
 class Logger {
     private env: 'development' | 'production' | 'test';
     private isNode: boolean;
     private currentLevel: LogLevel;
+    private sinks: Set<LogSink> = new Set();
+    /** Set while sinks run, so records they log themselves are not fed back */
+    private dispatching = false;
 
     constructor() {
         this.isNode = typeof process !== 'undefined' && process.versions != null && process.versions.node != null;
@@ -62,7 +75,37 @@ class Logger {
         this.currentLevel = level;
     }
 
+    /**
+     * Forward records to another destination (e.g. MCP clients).
+     * Returns a function that removes the sink.
+     */
+    addSink(sink: LogSink): () => void {
+        this.sinks.add(sink);
+        return () => {
+            this.sinks.delete(sink);
+        };
+    }
+
+    private dispatch(level: LogLevel, message: string, metadata?: LogMetadata): void {
+        if (this.sinks.size === 0 || this.dispatching) return;
+
+        this.dispatching = true;
+        const record: LogRecord = { level, message, metadata, timestamp: Date.now() };
+        try {
+            for (const sink of this.sinks) {
+                try {
+                    sink(record);
+                } catch {
+                    // A failing sink must not break logging
+                }
+            }
+        } finally {
+            this.dispatching = false;
+        }
+    }
+
     private formatMessage(level: LogLevel, message: string, metadata?: LogMetadata): void {
+        this.dispatch(level, message, metadata);
         if (level < this.currentLevel) return;
 
         const timestamp = new Date().toISOString();
@@ -0,0 +1,277 @@
+/**
+ * MCP Access Anomaly Detection
+ *
+ * Watches the audit stream and flags unusual access: bursts of denied
+ * requests, a client reading a sensitive resource it has never read before,
+ * a known client showing up from a new IP, and activity at hours the client
+ * is rarely active. Alerts are written back to the audit log as
+ * `anomaly_detected` entries.
+ */
+
+import { AuditEntry, AuditLogger, getAuditLogger } from './audit';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type AnomalyKind = 'authorization_burst' | 'sensitive_resource' | 'new_ip' | 'unusual_hour';
+
+export interface AnomalyAlert {
+    kind: AnomalyKind;
+    severity: 'warning' | 'critical';
+    reason: string;
+    sessionId?: string;
+    did?: string;
+    client?: string;
+    ip?: string;
+    /** Audit entry that triggered the alert */
+    entryId: string;
+}
+
+export interface AnomalyDetectorOptions {
+    auditLogger?: AuditLogger;
+    /** Authorization failures within failureWindowMs that count as a burst */
+    failureBurst?: number;
+    failureWindowMs?: number;
+    /** Resources whose first read by an established client is flagged */
+    sensitiveResources?: string[];
+    /** Events a client needs before its habits (resources, hours) are judged */
+    minHistory?: number;
+    /** Share of a client's activity below which an hour counts as unusual */
+    unusualHourShare?: number;
+    /** Clients, sessions and failure sources tracked at once; the least recently seen are dropped */
+    maxTracked?: number;
+    /** Called for every alert; return true if the session was suspended */
+    onAnomaly?: (alert: AnomalyAlert) => boolean | void;
+}
+
+export const DEFAULT_SENSITIVE_RESOURCES = ['profile://memory/all', 'profile://audit'];
+
+export const DEFAULT_MAX_TRACKED = 1000;
+
+export interface AnomalyConfig {
+    /** Severities whose alerts suspend the offending session */
+    suspendOn: AnomalyAlert['severity'][];
+}
+
+/** What the detector has learned about one client */
+interface ClientProfile {
+    events: number;
+    hours: number[];
+    ips: Set<string>;
+    resources: Set<string>;
+    /** Hour (ms since epoch / 1h) an unusual-hour alert was last raised */
+    lastUnusualHour?: number;
+}
+
+/**
+ * Read detector settings from the environment.
+ * MCP_ANOMALY_DETECTION=off disables detection. MCP_ANOMALY_AUTO_SUSPEND=true
+ * suspends the offending session on critical alerts; =all also on warnings,
+ * which a client raises just by connecting from a new network or at night.
+ */
+export function anomalyConfigFromEnv(
+    env: Record<string, string | undefined> = process.env
+): AnomalyConfig | null {
+    if (env.MCP_ANOMALY_DETECTION === 'off') {
+        return null;
+    }
+    switch (env.MCP_ANOMALY_AUTO_SUSPEND) {
+        case 'true':
+            return { suspendOn: ['critical'] };
+        case 'all':
+            return { suspendOn: ['warning', 'critical'] };
+        default:
+            return { suspendOn: [] };
+    }
+}
+
+/** Failed logins, and requests refused for missing permissions or credentials */
+function isFailure(entry: AuditEntry): boolean {
+    return entry.type === 'authorization_failure' || entry.type === 'auth_failure'
+        || ((entry.type === 'tool_call' || entry.type === 'resource_read') && entry.result === 'denied');
+}
+
+/**
+ * Set a map entry as the most recently used, dropping the least recently
+ * used entries past the limit.
+ */
+function touch<K, V>(map: Map<K, V>, key: K, value: V, limit: number): void {
+    map.delete(key);
+    map.set(key, value);
+    while (map.size > limit) {
+        map.delete(map.keys().next().value as K);
+    }
+}
+
+// ============================================================
+// Detector
+// ============================================================
+
+export class AnomalyDetector {
+    private readonly auditLogger: AuditLogger;
+    private readonly failureBurst: number;
+    private readonly failureWindowMs: number;
+    private readonly sensitiveResources: Set<string>;
+    private readonly minHistory: number;
+    private readonly unusualHourShare: number;
+    private readonly maxTracked: number;
+    private readonly onAnomaly?: (alert: AnomalyAlert) => boolean | void;
+
+    private sessions: Map<string, { did?: string; client?: string; ip?: string }> = new Map();
+    private clients: Map<string, ClientProfile> = new Map();
+    private failures: Map<string, number[]> = new Map();
+    private unsubscribe: (() => void) | null = null;
+    private startedAt = 0;
+    /** Entries from before start() that have been learned */
+    private historyIds: Set<string> = new Set();
+
+    constructor(options: AnomalyDetectorOptions = {}) {
+        this.auditLogger = options.auditLogger ?? getAuditLogger();
+        this.failureBurst = options.failureBurst ?? 5;
+        this.failureWindowMs = options.failureWindowMs ?? 60000;
+        this.sensitiveResources = new Set(options.sensitiveResources ?? DEFAULT_SENSITIVE_RESOURCES);
+        this.minHistory = options.minHistory ?? 20;
+        this.unusualHourShare = options.unusualHourShare ?? 0.02;
+        this.maxTracked = options.maxTracked ?? DEFAULT_MAX_TRACKED;
+        this.onAnomaly = options.onAnomaly;
+    }
+
+    /**
+     * Learn from the entries already in the log, then watch new ones.
+     */
+    start(): void {
+        if (this.unsubscribe) return;
+
+        this.startedAt = Date.now();
+        this.learnHistory();
+        this.unsubscribe = this.auditLogger.subscribe(entry => this.inspect(entry));
+    }
+
+    /**
+     * Learn from entries logged before start() without raising alerts, e.g.
+     * after the persisted audit log was loaded on unlock.
+     */
+    learnHistory(): void {
+        for (const entry of this.auditLogger.getLogsForSync()) {
+            if (entry.timestamp < this.startedAt && !this.historyIds.has(entry.id)) {
+                this.historyIds.add(entry.id);
+                this.learn(entry, this.attribute(entry));
+            }
+        }
+    }
+
+    stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    /**
+     * Check one entry against the client's history, then add it to the history.
+     * Returns the alerts raised.
+     */
+    inspect(entry: AuditEntry): AnomalyAlert[] {
+        if (entry.type === 'anomaly_detected') {
+            return [];
+        }
+
+        const identity = this.attribute(entry);
+        const alerts = this.detect(entry, identity);
+        this.learn(entry, identity);
+
+        for (const alert of alerts) {
+            const suspended = this.onAnomaly?.(alert) === true;
+            this.auditLogger.logAnomaly({ ...alert, suspended });
+        }
+        return alerts;
+    }
+
+    private detect(entry: AuditEntry, identity: { did?: string; client?: string; ip?: string }): AnomalyAlert[] {
+        const alerts: AnomalyAlert[] = [];
+        const profile = identity.client ? this.clients.get(identity.client) : undefined;
+        const alert = (kind: AnomalyKind, severity: AnomalyAlert['severity'], reason: string) => {
+            alerts.push({ kind, severity, reason, sessionId: entry.sessionId, ...identity, entryId: entry.id });
+        };
+
+        if (isFailure(entry)) {
+            // Failed logins name whatever client the caller claims, so they count by address
+            const key = entry.type === 'auth_failure'
+                ? entry.ip ?? 'unknown'
+                : entry.sessionId ?? identity.client ?? entry.ip ?? 'unknown';
+            const recent = (this.failures.get(key) ?? []).filter(t => entry.timestamp - t < this.failureWindowMs);
+            recent.push(entry.timestamp);
+
+            if (recent.length >= this.failureBurst) {
+                alert('authorization_burst', 'critical',
+                    `${recent.length} denied requests within ${Math.round(this.failureWindowMs / 1000)}s`);
+                this.failures.delete(key);
+            } else {
+                touch(this.failures, key, recent, this.maxTracked);
+            }
+        }
+
+        if (!profile) {
+            return alerts;
+        }
+
+        if (entry.type === 'resource_read' && entry.resource && entry.result === 'allowed'
+            && this.sensitiveResources.has(entry.resource)
+            && !profile.resources.has(entry.resource)
+            && profile.events >= this.minHistory) {
+            alert('sensitive_resource', 'warning', `First read of ${entry.resource} by ${identity.client}`);
+        }
+
+        if (entry.type === 'auth_success' && entry.ip && profile.ips.size > 0 && !profile.ips.has(entry.ip)) {
+            alert('new_ip', 'warning', `${identity.client} connected from new address ${entry.ip}`);
+        }
+
+        if (profile.events >= this.minHistory) {
+            const hour = new Date(entry.timestamp).getHours();
+            const hourBucket = Math.floor(entry.timestamp / 3600000);
+            if (profile.hours[hour] / profile.events < this.unusualHourShare && profile.lastUnusualHour !== hourBucket) {
+                profile.lastUnusualHour = hourBucket;
+                alert('unusual_hour', 'warning', `${identity.client} is active at ${hour}:00, outside its usual hours`);
+            }
+        }
+
+        return alerts;
+    }
+
+    private learn(entry: AuditEntry, identity: { did?: string; client?: string; ip?: string }): void {
+        if (entry.type === 'connection_closed' && entry.sessionId) {
+            this.sessions.delete(entry.sessionId);
+            this.failures.delete(entry.sessionId);
+            return;
+        }
+        // Only authenticated activity shapes a client's habits
+        if (!identity.client || entry.type === 'anomaly_detected' || entry.type === 'auth_failure') {
+            return;
+        }
+
+        const profile = this.clients.get(identity.client)
+            ?? { events: 0, hours: new Array(24).fill(0), ips: new Set<string>(), resources: new Set<string>() };
+        touch(this.clients, identity.client, profile, this.maxTracked);
+
+        profile.events++;
+        profile.hours[new Date(entry.timestamp).getHours()]++;
+        if (entry.ip) {
+            profile.ips.add(entry.ip);
+        }
+        if (entry.type === 'resource_read' && entry.resource && entry.result === 'allowed') {
+            profile.resources.add(entry.resource);
+        }
+    }
+
+    /** Client, DID and IP of an entry, falling back to the session it belongs to */
+    private attribute(entry: AuditEntry): { did?: string; client?: string; ip?: string } {
+        if (entry.sessionId && entry.type === 'auth_success') {
+            touch(this.sessions, entry.sessionId, { did: entry.did, client: entry.client, ip: entry.ip }, this.maxTracked);
+        }
+        const session = entry.sessionId ? this.sessions.get(entry.sessionId) : undefined;
+        return {
+            did: entry.did ?? session?.did,
+            client: entry.client ?? session?.client,
+            ip: entry.ip ?? session?.ip
+        };
+    }
+}
@@ -3,8 +3,13 @@
  *
  * Comprehensive audit logging for MCP server operations.
  * Logs are encrypted and synced with the vault for persistence.
+ *
+ * Every entry carries the hash of the entry before it, so a persisted log
+ * (see auditstore.ts) can be checked for deleted or edited entries.
  */
 
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js';
 import { log } from './config';
 
 // ============================================================
@@ -22,7 +27,11 @@ export type AuditEventType =
     | 'grant_revoked'
     | 'grant_created'
     | 'connection_opened'
-    | 'connection_closed';
+    | 'connection_closed'
+    | 'memory_modified'
+    | 'rate_limited'
+    | 'anomaly_detected'
+    | 'audit_chain_broken';
 
 export interface AuditEntry {
     id: string;
@@ -40,8 +49,52 @@ export interface AuditEntry {
     ip?: string;
     duration?: number;  // Operation duration in ms
     metadata?: Record<string, unknown>;
+    prevHash?: string;  // Hash of the previous entry in the chain
+    hash?: string;      // Hash of this entry, including prevHash
+}
+
+/**
+ * Where the logger persists entries, e.g. the encrypted AuditStore.
+ */
+export interface AuditSink {
+    /** Hash of the last persisted entry; new entries chain from it */
+    readonly head: string;
+    append(entry: AuditEntry): void;
+    readRecent(count: number): Promise<AuditEntry[]>;
+}
+
+/**
+ * Filters for AuditLogger.query. All given filters must match. Client and DID
+ * also match entries of a session opened by that client or DID.
+ */
+export interface AuditQuery {
+    client?: string;
+    did?: string;
+    tool?: string;
+    resource?: string;
+    type?: AuditEventType;
+    sessionId?: string;
+    result?: 'allowed' | 'denied';
+    /** Inclusive time range, ms since epoch */
+    since?: number;
+    until?: number;
+    offset?: number;
+    limit?: number;
+}
+
+export interface AuditQueryResult {
+    /** Matching entries, newest first */
+    entries: AuditEntry[];
+    total: number;
+    offset: number;
+    limit: number;
+    /** Offset of the next page, if there is one */
+    nextOffset?: number;
 }
 
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
 export interface AuditLogStats {
     totalEntries: number;
     entriesByType: Record<AuditEventType, number>;
@@ -55,7 +108,8 @@ export interface AuditLogStats {
 // Sensitive Data Sanitization
 // ============================================================
 
-const SENSITIVE_KEYS = new Set([
+/** Parameter and metadata keys whose values are never logged */
+export const SENSITIVE_KEYS = new Set([
     'password',
     'mnemonic',
     'privateKey',
@@ -68,7 +122,10 @@ const SENSITIVE_KEYS = new Set([
     'seed'
 ]);
 
-function sanitizeParams(params: unknown): unknown {
+/**
+ * Copy of a value with every SENSITIVE_KEYS field replaced by [REDACTED].
+ */
+export function sanitizeParams(params: unknown): unknown {
     if (params === null || params === undefined) {
         return params;
     }
@@ -95,6 +152,37 @@ function sanitizeParams(params: unknown): unknown {
     return sanitized;
 }
 
+// ============================================================
+// Hash Chain
+// ============================================================
+
+/** prevHash of the first entry in a chain */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** JSON with sorted keys, so the hash does not depend on property order */
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(v => canonicalJson(v ?? null)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        const fields = Object.keys(value as Record<string, unknown>)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+        return `{${fields.join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Hash of an entry, covering every field except the hash itself.
+ */
+export function hashAuditEntry(entry: AuditEntry): string {
+    const unhashed: AuditEntry = { ...entry };
+    delete unhashed.hash;
+    return bytesToHex(sha256(utf8ToBytes(canonicalJson(unhashed))));
+}
+
 // ============================================================
 // Audit Logger Class
 // ============================================================
@@ -103,6 +191,11 @@ export class AuditLogger {
     private logs: AuditEntry[] = [];
     private readonly maxLogs: number;
     private readonly syncCallback?: (logs: AuditEntry[]) => Promise<void>;
+    private lastHash: string = GENESIS_HASH;
+    private sink: AuditSink | null = null;
+    /** Entries logged while no sink was attached */
+    private unpersisted: AuditEntry[] = [];
+    private listeners: Set<(entry: AuditEntry) => void> = new Set();
 
     constructor(options: {
         maxLogs?: number;
@@ -123,8 +216,17 @@ export class AuditLogger {
             // Sanitize params if present
             params: entry.params ? sanitizeParams(entry.params) as Record<string, unknown> : undefined
         };
+        this.chain(fullEntry);
 
         this.logs.push(fullEntry);
+        if (this.sink) {
+            this.sink.append(fullEntry);
+        } else {
+            this.unpersisted.push(fullEntry);
+            if (this.unpersisted.length > this.maxLogs) {
+                this.unpersisted.shift();
+            }
+        }
 
         // Rotate logs if we exceed max
         if (this.logs.length > this.maxLogs) {
@@ -132,6 +234,14 @@ export class AuditLogger {
             log(`Audit log rotated, removed ${removed.length} old entries`);
         }
 
+        for (const listener of this.listeners) {
+            try {
+                listener(fullEntry);
+            } catch (error) {
+                log(`Audit listener failed: ${(error as Error).message}`);
+            }
+        }
+
         // Log to console for debugging (in non-production)
         if (process.env.DEBUG === 'true') {
             log(`[AUDIT] ${entry.type}`, {
@@ -216,6 +326,7 @@ export class AuditLogger {
         sessionId: string;
         tool?: string;
         resource?: string;
+        grantId?: string;
         reason: string;
     }): AuditEntry {
         return this.log({
@@ -268,6 +379,22 @@ export class AuditLogger {
         });
     }
 
+    /**
+     * Log a connection refused before authentication, e.g. from a browser
+     * origin that is not allowlisted.
+     */
+    logConnectionRejected(data: {
+        ip?: string;
+        reason: string;
+        metadata?: Record<string, unknown>;
+    }): AuditEntry {
+        return this.log({
+            type: 'connection_opened',
+            result: 'denied',
+            ...data
+        });
+    }
+
     /**
      * Log connection closed.
      */
@@ -281,6 +408,131 @@ export class AuditLogger {
         });
     }
 
+    /**
+     * Log an edit to a stored memory, keeping both versions for review.
+     */
+    logMemoryChange(data: {
+        sessionId?: string;
+        action: 'update' | 'forget' | 'pin' | 'unpin';
+        memoryId: string;
+        before: unknown;
+        after: unknown;
+        reason?: string;
+    }): AuditEntry {
+        const { action, memoryId, before, after, ...rest } = data;
+        return this.log({
+            type: 'memory_modified',
+            ...rest,
+            metadata: { action, memoryId, before, after }
+        });
+    }
+
+    /**
+     * Log a request rejected by the rate limiter.
+     */
+    logRateLimited(data: {
+        sessionId: string;
+        did?: string;
+        client?: string;
+        tool?: string;
+        resource?: string;
+        tier: string;
+        bucket: string;
+        retryAfterMs: number;
+    }): AuditEntry {
+        const { tier, bucket, retryAfterMs, ...rest } = data;
+        return this.log({
+            type: 'rate_limited',
+            result: 'denied',
+            reason: `Rate limit exceeded for ${bucket}`,
+            ...rest,
+            metadata: { tier, bucket, retryAfterMs }
+        });
+    }
+
+    /**
+     * Log an alert raised by the AnomalyDetector.
+     */
+    logAnomaly(data: {
+        kind: string;
+        severity: 'warning' | 'critical';
+        reason: string;
+        sessionId?: string;
+        did?: string;
+        client?: string;
+        ip?: string;
+        entryId: string;
+        suspended?: boolean;
+    }): AuditEntry {
+        const { kind, severity, entryId, suspended, ...rest } = data;
+        return this.log({
+            type: 'anomaly_detected',
+            ...rest,
+            metadata: { kind, severity, entryId, suspended: suspended ?? false }
+        });
+    }
+
+    /**
+     * Log that the persisted audit log failed hash chain verification.
+     */
+    logAuditChainBroken(data: {
+        issues: Array<{ segment: number; line?: number; message: string }>;
+        segments: number;
+        entries: number;
+    }): AuditEntry {
+        return this.log({
+            type: 'audit_chain_broken',
+            reason: data.issues[0]?.message,
+            metadata: data
+        });
+    }
+
+    /**
+     * Call a listener for every entry logged from now on (imported entries are
+     * not replayed). Returns a function that removes the listener.
+     */
+    subscribe(listener: (entry: AuditEntry) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // ============================================================
+    // Persistence
+    // ============================================================
+
+    /**
+     * Persist entries to a sink from now on. Recent persisted entries are
+     * loaded back into memory, and entries logged before the sink was
+     * attached are re-chained onto its head and written.
+     */
+    async attachSink(sink: AuditSink): Promise<void> {
+        const history = await sink.readRecent(this.maxLogs);
+        if (history.length > 0) {
+            this.importLogs(history);
+        }
+
+        this.sink = sink;
+        this.lastHash = sink.head;
+        for (const entry of this.unpersisted) {
+            this.chain(entry);
+            sink.append(entry);
+        }
+        this.unpersisted = [];
+    }
+
+    /**
+     * Stop persisting (e.g. when the vault is locked).
+     */
+    detachSink(): void {
+        this.sink = null;
+    }
+
+    private chain(entry: AuditEntry): void {
+        entry.prevHash = this.lastHash;
+        entry.hash = hashAuditEntry(entry);
+        this.lastHash = entry.hash;
+    }
+
     // ============================================================
     // Query Methods
     // ============================================================
@@ -327,6 +579,53 @@ export class AuditLogger {
         return this.logs.filter(e => e.client === client);
     }
 
+    /**
+     * Find entries matching all given filters, newest first, one page at a time.
+     * Entries that only carry a session ID are attributed to the client and DID
+     * that opened the session.
+     */
+    query(filter: AuditQuery = {}): AuditQueryResult {
+        const identities = new Map<string, { did?: string; client?: string }>();
+        for (const entry of this.logs) {
+            if (entry.sessionId && (entry.did || entry.client)) {
+                const known = identities.get(entry.sessionId);
+                identities.set(entry.sessionId, { did: known?.did ?? entry.did, client: known?.client ?? entry.client });
+            }
+        }
+
+        const matches: AuditEntry[] = [];
+        for (let i = this.logs.length - 1; i >= 0; i--) {
+            const entry = this.logs[i];
+            const identity = entry.sessionId ? identities.get(entry.sessionId) : undefined;
+            const did = entry.did ?? identity?.did;
+            const client = entry.client ?? identity?.client;
+
+            if (filter.client !== undefined && client !== filter.client) continue;
+            if (filter.did !== undefined && did !== filter.did) continue;
+            if (filter.tool !== undefined && entry.tool !== filter.tool) continue;
+            if (filter.resource !== undefined && entry.resource !== filter.resource) continue;
+            if (filter.type !== undefined && entry.type !== filter.type) continue;
+            if (filter.sessionId !== undefined && entry.sessionId !== filter.sessionId) continue;
+            if (filter.result !== undefined && entry.result !== filter.result) continue;
+            if (filter.since !== undefined && entry.timestamp < filter.since) continue;
+            if (filter.until !== undefined && entry.timestamp > filter.until) continue;
+
+            matches.push(did === entry.did && client === entry.client ? entry : { ...entry, did, client });
+        }
+
+        const offset = Math.max(0, filter.offset ?? 0);
+        const limit = Math.min(Math.max(1, filter.limit ?? DEFAULT_AUDIT_QUERY_LIMIT), MAX_AUDIT_QUERY_LIMIT);
+        const entries = matches.slice(offset, offset + limit);
+
+        return {
+            entries,
+            total: matches.length,
+            offset,
+            limit,
+            ...(offset + limit < matches.length && { nextOffset: offset + limit })
+        };
+    }
+
     /**
      * Get audit statistics.
      */
@@ -417,6 +716,46 @@ export class AuditLogger {
     }
 }
 
+// ============================================================
+// Export Formats
+// ============================================================
+
+/** Columns of the CSV export, in order */
+export const AUDIT_CSV_COLUMNS = [
+    'id', 'timestamp', 'type', 'sessionId', 'did', 'client', 'tool', 'resource',
+    'result', 'reason', 'grantId', 'ip', 'duration'
+] as const;
+
+/**
+ * One JSON entry per line.
+ */
+export function auditEntriesToJsonl(entries: AuditEntry[]): string {
+    return entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+}
+
+function csvCell(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    let text = String(value);
+    // Keep spreadsheets from evaluating client-supplied strings as formulas
+    if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a header row (see AUDIT_CSV_COLUMNS). Timestamps are ISO 8601;
+ * params and metadata are left out.
+ */
+export function auditEntriesToCsv(entries: AuditEntry[]): string {
+    const rows = entries.map(entry => AUDIT_CSV_COLUMNS
+        .map(column => csvCell(column === 'timestamp' ? new Date(entry.timestamp).toISOString() : entry[column]))
+        .join(','));
+    return [AUDIT_CSV_COLUMNS.join(','), ...rows].map(row => `${row}\r\n`).join('');
+}
+
 // ============================================================
 // Singleton Instance
 // ============================================================
@@ -0,0 +1,345 @@
+/**
+ * MCP Audit Store
+ *
+ * Append-only, encrypted on-disk audit log. Entries are written as JSON lines
+ * to numbered segment files in VAULT_PATH/audit, each entry encrypted with the
+ * vault key. Entries form a hash chain (see hashAuditEntry), and segments are
+ * chained too: a segment starts from the hash its predecessor ended with, and
+ * is sealed with its entry count and final hash when it is rotated.
+ *
+ * Without the vault key an entry cannot be edited or forged, and removing one
+ * breaks the chain. Truncating the newest segment can only be detected by
+ * comparing against a known head hash.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { encryptData, decryptData } from '../vault/crypto';
+import { AuditEntry, AuditSink, GENESIS_HASH, hashAuditEntry } from './audit';
+import { VAULT_PATH, logError } from './config';
+
+/** Audit segments directory inside VAULT_PATH */
+export const AUDIT_DIRNAME = 'audit';
+
+/** Entries per segment before it is sealed and a new one started */
+export const DEFAULT_SEGMENT_SIZE = 5000;
+
+const SEGMENT_PATTERN = /^audit-(\d{6})\.jsonl$/;
+
+type SegmentLine =
+    | { kind: 'header'; segment: number; startHash: string; createdAt: number }
+    | { kind: 'entry'; hash: string; ciphertext: string; iv: string }
+    | { kind: 'seal'; count: number; endHash: string; sealedAt: number };
+
+export interface AuditChainIssue {
+    segment: number;
+    /** 1-based line in the segment file */
+    line?: number;
+    message: string;
+}
+
+export interface AuditSegmentVerification {
+    segment: number;
+    entries: number;
+    startHash: string | null;
+    endHash: string | null;
+    sealed: boolean;
+    issues: AuditChainIssue[];
+}
+
+export interface AuditVerification {
+    valid: boolean;
+    segments: number;
+    entries: number;
+    /** Hash of the last entry on disk */
+    head: string;
+    issues: AuditChainIssue[];
+}
+
+export function segmentFileName(segment: number): string {
+    return `audit-${String(segment).padStart(6, '0')}.jsonl`;
+}
+
+function listSegments(dir: string): number[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir)
+        .map(name => SEGMENT_PATTERN.exec(name))
+        .filter((match): match is RegExpExecArray => match !== null)
+        .map(match => parseInt(match[1], 10))
+        .sort((a, b) => a - b);
+}
+
+/** Parsed lines of a segment; null where a line is not valid JSON */
+function readSegmentLines(filePath: string): Array<SegmentLine | null> {
+    return fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(line => line.length > 0)
+        .map(line => {
+            try {
+                return JSON.parse(line) as SegmentLine;
+            } catch {
+                return null;
+            }
+        });
+}
+
+/**
+ * Check a single segment: every entry decrypts, hashes to the recorded value
+ * and links to the previous one, and a seal (if present) matches the entries.
+ * Works on rotated segments on their own, e.g. after they were archived.
+ */
+export async function verifyAuditSegment(filePath: string, key: CryptoKey): Promise<AuditSegmentVerification> {
+    const match = SEGMENT_PATTERN.exec(path.basename(filePath));
+    const result: AuditSegmentVerification = {
+        segment: match ? parseInt(match[1], 10) : 0,
+        entries: 0,
+        startHash: null,
+        endHash: null,
+        sealed: false,
+        issues: []
+    };
+    const issue = (message: string, line?: number) => {
+        result.issues.push({ segment: result.segment, line, message });
+    };
+
+    const lines = readSegmentLines(filePath);
+    const header = lines[0];
+    if (!header || header.kind !== 'header') {
+        issue('Segment header is missing', 1);
+        return result;
+    }
+    if (header.segment !== result.segment) {
+        issue(`Header names segment ${header.segment}`, 1);
+    }
+
+    result.startHash = header.startHash;
+    let expectedPrev = header.startHash;
+
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i];
+        const lineNumber = i + 1;
+
+        if (!line) {
+            issue('Line is not valid JSON', lineNumber);
+            continue;
+        }
+        if (result.sealed) {
+            issue('Line after the segment seal', lineNumber);
+            continue;
+        }
+        if (line.kind === 'seal') {
+            result.sealed = true;
+            if (line.count !== result.entries) {
+                issue(`Seal records ${line.count} entries, found ${result.entries}`, lineNumber);
+            }
+            if (line.endHash !== expectedPrev) {
+                issue('Seal hash does not match the last entry', lineNumber);
+            }
+            continue;
+        }
+        if (line.kind !== 'entry') {
+            issue(`Unexpected ${line.kind} line`, lineNumber);
+            continue;
+        }
+
+        let entry: AuditEntry;
+        try {
+            entry = JSON.parse(await decryptData(line.ciphertext, line.iv, key)) as AuditEntry;
+        } catch {
+            issue('Entry could not be decrypted', lineNumber);
+            continue;
+        }
+
+        result.entries++;
+        if (entry.prevHash !== expectedPrev) {
+            issue(`Entry ${entry.id} does not follow the previous entry`, lineNumber);
+        }
+        if (hashAuditEntry(entry) !== entry.hash || entry.hash !== line.hash) {
+            issue(`Entry ${entry.id} does not match its hash`, lineNumber);
+        }
+        expectedPrev = line.hash;
+    }
+
+    result.endHash = expectedPrev;
+    return result;
+}
+
+export class AuditStore implements AuditSink {
+    private queue: Promise<void> = Promise.resolve();
+    private headHash: string;
+
+    private constructor(
+        private readonly key: CryptoKey,
+        readonly dir: string,
+        private readonly segmentSize: number,
+        /** Segment being written, and how many entries it holds */
+        private segment: number,
+        private segmentEntries: number
+    ) {
+        this.headHash = GENESIS_HASH;
+    }
+
+    /**
+     * Open the store and find the head of the chain. Nothing is decrypted.
+     */
+    static async open(options: {
+        /** Vault encryption key */
+        key: CryptoKey;
+        dir?: string;
+        segmentSize?: number;
+    }): Promise<AuditStore> {
+        const dir = options.dir ?? path.join(VAULT_PATH, AUDIT_DIRNAME);
+        const segments = listSegments(dir);
+        const last = segments[segments.length - 1];
+
+        const store = new AuditStore(options.key, dir, options.segmentSize ?? DEFAULT_SEGMENT_SIZE, last ?? 1, 0);
+        if (last === undefined) {
+            return store;
+        }
+
+        for (const line of readSegmentLines(store.segmentPath(last))) {
+            if (line?.kind === 'header') {
+                store.headHash = line.startHash;
+            } else if (line?.kind === 'entry') {
+                store.headHash = line.hash;
+                store.segmentEntries++;
+            } else if (line?.kind === 'seal') {
+                store.segment = last + 1;
+                store.segmentEntries = 0;
+            }
+        }
+        return store;
+    }
+
+    get head(): string {
+        return this.headHash;
+    }
+
+    /**
+     * Queue an entry for writing. The entry must already be chained onto head.
+     */
+    append(entry: AuditEntry): void {
+        if (entry.hash) {
+            this.headHash = entry.hash;
+        }
+        this.queue = this.queue
+            .then(() => this.write(entry))
+            .catch(error => logError('Audit entry could not be persisted', { id: entry.id, error: (error as Error).message }));
+    }
+
+    /** Wait for queued entries to reach the disk */
+    flush(): Promise<void> {
+        return this.queue;
+    }
+
+    /**
+     * Decrypt the newest entries, oldest first.
+     */
+    async readRecent(count: number): Promise<AuditEntry[]> {
+        const recent: AuditEntry[] = [];
+        const segments = listSegments(this.dir).reverse();
+
+        for (const segment of segments) {
+            const lines = readSegmentLines(this.segmentPath(segment)).reverse();
+            for (const line of lines) {
+                if (recent.length >= count) {
+                    return recent.reverse();
+                }
+                if (line?.kind === 'entry') {
+                    recent.push(JSON.parse(await decryptData(line.ciphertext, line.iv, this.key)) as AuditEntry);
+                }
+            }
+        }
+        return recent.reverse();
+    }
+
+    /**
+     * Verify every segment and the links between them. Pass the head hash
+     * kept elsewhere (e.g. by the running logger) to also catch a truncated tail.
+     */
+    async verify(expectedHead?: string): Promise<AuditVerification> {
+        await this.flush();
+
+        const segments = listSegments(this.dir);
+        const issues: AuditChainIssue[] = [];
+        let entries = 0;
+        let previous: AuditSegmentVerification | null = null;
+
+        if (segments.length > 0 && segments[0] !== 1) {
+            issues.push({ segment: 1, message: `Segments before ${segments[0]} are missing` });
+        }
+
+        for (let i = 0; i < segments.length; i++) {
+            const result = await verifyAuditSegment(this.segmentPath(segments[i]), this.key);
+            issues.push(...result.issues);
+            entries += result.entries;
+
+            if (previous) {
+                if (segments[i] !== previous.segment + 1) {
+                    const missing = previous.segment + 1 === segments[i] - 1
+                        ? `Segment ${previous.segment + 1} is missing`
+                        : `Segments ${previous.segment + 1}-${segments[i] - 1} are missing`;
+                    issues.push({ segment: previous.segment + 1, message: missing });
+                }
+                if (result.startHash !== null && result.startHash !== previous.endHash) {
+                    issues.push({ segment: result.segment, line: 1, message: `Segment does not continue segment ${previous.segment}` });
+                }
+            } else if (segments[i] === 1 && result.startHash !== null && result.startHash !== GENESIS_HASH) {
+                issues.push({ segment: 1, line: 1, message: 'First segment does not start the chain' });
+            }
+            if (!result.sealed && i < segments.length - 1) {
+                issues.push({ segment: result.segment, message: 'Rotated segment was not sealed' });
+            }
+            previous = result;
+        }
+
+        const head = previous?.endHash ?? GENESIS_HASH;
+        if (expectedHead !== undefined && expectedHead !== head) {
+            issues.push({ segment: previous?.segment ?? 1, message: 'Log ends before the expected head; entries were removed' });
+        }
+
+        return { valid: issues.length === 0, segments: segments.length, entries, head, issues };
+    }
+
+    private segmentPath(segment: number): string {
+        return path.join(this.dir, segmentFileName(segment));
+    }
+
+    private async write(entry: AuditEntry): Promise<void> {
+        const { ciphertext, iv } = await encryptData(JSON.stringify(entry), this.key);
+        const hash = entry.hash ?? hashAuditEntry(entry);
+        const filePath = this.segmentPath(this.segment);
+
+        if (!fs.existsSync(filePath)) {
+            if (!fs.existsSync(this.dir)) {
+                fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+            }
+            this.appendLine(filePath, {
+                kind: 'header',
+                segment: this.segment,
+                startHash: entry.prevHash ?? GENESIS_HASH,
+                createdAt: Date.now()
+            });
+        }
+
+        this.appendLine(filePath, { kind: 'entry', hash, ciphertext, iv });
+        this.segmentEntries++;
+
+        if (this.segmentEntries >= this.segmentSize) {
+            this.appendLine(filePath, {
+                kind: 'seal',
+                count: this.segmentEntries,
+                endHash: hash,
+                sealedAt: Date.now()
+            });
+            this.segment++;
+            this.segmentEntries = 0;
+        }
+    }
+
+    private appendLine(filePath: string, line: SegmentLine): void {
+        fs.appendFileSync(filePath, `${JSON.stringify(line)}\n`, { mode: 0o600 });
+    }
+}
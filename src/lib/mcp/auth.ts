@@ -5,9 +5,11 @@
  * for the MCP server. Implements the spec's dual-layer security model.
  */
 
-import { verifyJwt, verifySignature, JwtPayload } from '../vault/identity';
+import { verifyJwt, verifyAccessGrantSignature, JwtPayload } from '../vault/identity';
 import { AccessGrant } from '../types';
+import { TransportMode } from './types';
 import { AuditLogger, getAuditLogger } from './audit';
+import { RateLimiter, RateLimitConfig, RateLimitTier, DEFAULT_RATE_LIMITS } from './ratelimit';
 import { log, logError } from './config';
 
 // ============================================================
@@ -25,7 +27,10 @@ export type Permission =
     | 'write:conversations'
     | 'admin:grants'
     | 'admin:sync'
-    | 'admin:settings';
+    | 'admin:settings'
+    | 'admin:tokens'
+    | 'admin:audit'
+    | 'admin:review';
 
 export interface AuthenticatedSession {
     sessionId: string;
@@ -35,6 +40,16 @@ export interface AuthenticatedSession {
     lastActivity: number;
     scope: string[];
     ip?: string;
+    /** Set for sessions opened with an AccessGrant instead of a JWT */
+    grantId?: string;
+    grantExpiresAt?: number;
+    /** jti of the JWT the session was opened with */
+    tokenId?: string;
+    /** Persona the token or grant binds the session to */
+    persona?: string;
+    /** Set when the session was suspended, e.g. after an access anomaly */
+    suspendedAt?: number;
+    suspendedReason?: string;
 }
 
 export interface AuthResult {
@@ -46,6 +61,9 @@ export interface AuthResult {
 export interface AuthorizationResult {
     authorized: boolean;
     reason?: string;
+    /** Set when the request was refused by the rate limiter rather than by scope */
+    rateLimited?: boolean;
+    retryAfterMs?: number;
 }
 
 export interface McpAuthRequest {
@@ -54,6 +72,21 @@ export interface McpAuthRequest {
     sessionId?: string;  // For existing sessions (SSE)
 }
 
+/** Header carrying a base64-encoded AccessGrant, as an alternative to a JWT */
+export const ACCESS_GRANT_HEADER = 'x-access-grant';
+
+/** Permission a remote session needs to send vault/unlock */
+const UNLOCK_PERMISSION: Permission = 'admin:settings';
+
+/** Failed vault/unlock attempts a remote client may make per window */
+export const MAX_UNLOCK_FAILURES = 5;
+export const UNLOCK_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+/** Source of revoked JWT IDs, e.g. the TokenService */
+export interface TokenDenylist {
+    isRevoked(jti: string): boolean;
+}
+
 // ============================================================
 // Permission Mapping
 // ============================================================
@@ -67,21 +100,49 @@ const TOOL_PERMISSIONS: Record<string, Permission> = {
     'search_memory': 'read:memories',
     'get_context_for_task': 'read:memories',
     'get_conversation_history': 'read:conversations',
+    'list_personas': 'read:identity',
+    'select_persona': 'read:identity',
+    'list_projects': 'read:projects',
+    'get_project_context': 'read:projects',
 
     // Write operations
     'add_memory': 'write:memories',
+    'update_memory': 'write:memories',
+    'forget_memory': 'write:memories',
+    'pin_memory': 'write:memories',
     'archive_conversation': 'write:conversations',
+    'append_to_conversation': 'write:conversations',
+    'enrich_profile': 'write:memories',
 
     // Admin operations
     'grant_access': 'admin:grants',
+    'revoke_grant': 'admin:grants',
     'sync_vault': 'admin:sync',
     'toggle_auto_archive': 'admin:settings',
     'toggle_auto_sync': 'admin:settings',
-    'analyze_vault': 'admin:settings'
+    'set_active_project': 'admin:settings',
+    'save_persona': 'admin:settings',
+    'delete_persona': 'admin:settings',
+    'analyze_vault': 'admin:settings',
+    'issue_token': 'admin:tokens',
+    'list_tokens': 'admin:tokens',
+    'revoke_token': 'admin:tokens',
+    'query_audit_log': 'admin:audit',
+    'list_pending_writes': 'admin:review',
+    'review_write': 'admin:review'
+};
+
+/**
+ * Permissions some tools need besides their main one. enrich_profile sends
+ * conversation transcripts to the caller's model, so it also reads them.
+ */
+const ADDITIONAL_TOOL_PERMISSIONS: Record<string, Permission[]> = {
+    'enrich_profile': ['read:conversations']
 };
 
 /**
  * Maps MCP resources to required permissions.
+ * Entries ending in `*` match any URI with that prefix (resource templates).
  */
 const RESOURCE_PERMISSIONS: Record<string, Permission> = {
     'profile://identity': 'read:identity',
@@ -90,7 +151,24 @@ const RESOURCE_PERMISSIONS: Record<string, Permission> = {
     'profile://memory/all': 'read:memories',
     'profile://insights': 'read:memories',
     'profile://conversations/recent': 'read:conversations',
-    'profile://stats': 'read:stats'
+    'profile://projects': 'read:projects',
+    'profile://stats': 'read:stats',
+    'profile://audit': 'admin:audit',
+
+    // Templated resources
+    'profile://conversations/*': 'read:conversations',
+    'profile://memory/*': 'read:memories',
+    'profile://insights/*': 'read:memories',
+    'profile://projects/*': 'read:projects'
+};
+
+/**
+ * Maps built-in MCP prompts to required permissions.
+ * User-defined templates can embed identity fields, so they default to read:identity.
+ */
+const PROMPT_PERMISSIONS: Record<string, Permission> = {
+    'introduce_user': 'read:identity',
+    'summarize_history': 'read:conversations'
 };
 
 /**
@@ -109,6 +187,47 @@ function mapLegacyPermission(legacyPerm: string): Permission[] {
     }
 }
 
+/**
+ * Check that a value has the shape of an AccessGrant. Returns null otherwise.
+ */
+export function parseAccessGrant(value: unknown): AccessGrant | null {
+    if (typeof value !== 'object' || value === null) {
+        return null;
+    }
+    const grant = value as Record<string, unknown>;
+    if (
+        typeof grant.id !== 'string' ||
+        typeof grant.grantee !== 'string' ||
+        !Array.isArray(grant.permissions) ||
+        !grant.permissions.every(p => typeof p === 'string') ||
+        typeof grant.expiresAt !== 'number' ||
+        typeof grant.signature !== 'string' ||
+        (grant.issuer !== undefined && typeof grant.issuer !== 'string') ||
+        (grant.persona !== undefined && typeof grant.persona !== 'string')
+    ) {
+        return null;
+    }
+    return grant as unknown as AccessGrant;
+}
+
+/**
+ * Decode the X-Access-Grant header (base64 JSON). Returns null if malformed.
+ */
+export function decodeAccessGrantHeader(header: string): AccessGrant | null {
+    try {
+        return parseAccessGrant(JSON.parse(Buffer.from(header, 'base64').toString('utf8')));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Rate limit budget a permission draws from. Public tools count as reads.
+ */
+function permissionTier(permission: Permission | null | undefined): RateLimitTier {
+    return permission ? permission.split(':')[0] as RateLimitTier : 'read';
+}
+
 // ============================================================
 // MCP Auth Middleware
 // ============================================================
@@ -118,16 +237,29 @@ export class McpAuthMiddleware {
     private revokedGrants: Set<string> = new Set();
     private auditLogger: AuditLogger;
     private jwtPublicKey: Uint8Array | string | null = null;
-    private transport: 'stdio' | 'sse';
+    private transport: TransportMode;
+    private rateLimiter: RateLimiter | null;
+    private ownerDid: string | null;
+    private tokenDenylist: TokenDenylist | null = null;
+    /** Times of recent failed vault/unlock attempts, by client */
+    private unlockFailures: Map<string, number[]> = new Map();
 
     constructor(options: {
-        transport: 'stdio' | 'sse';
+        transport: TransportMode;
         jwtPublicKey?: Uint8Array | string;
+        /** DID of the vault owner, the only accepted grant issuer */
+        ownerDid?: string;
         auditLogger?: AuditLogger;
+        /** Per-tier request budgets for remote sessions; null disables rate limiting */
+        rateLimits?: RateLimitConfig | null;
     }) {
         this.transport = options.transport;
         this.jwtPublicKey = options.jwtPublicKey ?? null;
+        this.ownerDid = options.ownerDid ?? null;
         this.auditLogger = options.auditLogger ?? getAuditLogger();
+        this.rateLimiter = options.rateLimits === null
+            ? null
+            : new RateLimiter(options.rateLimits ?? DEFAULT_RATE_LIMITS);
 
         log(`Auth middleware initialized for ${this.transport} transport`);
     }
@@ -141,10 +273,27 @@ export class McpAuthMiddleware {
         log('JWT public key configured');
     }
 
+    /**
+     * Set the denylist of revoked JWT IDs, checked on every authentication.
+     * Called when vault is unlocked.
+     */
+    setTokenDenylist(denylist: TokenDenylist): void {
+        this.tokenDenylist = denylist;
+    }
+
+    /**
+     * Set the vault owner's DID, used to verify AccessGrant signatures.
+     * Called when vault is unlocked.
+     */
+    setOwnerDid(did: string): void {
+        this.ownerDid = did;
+        log('Grant issuer DID configured');
+    }
+
     /**
      * Authenticate an incoming request.
      * STDIO transport is trusted (no auth required).
-     * SSE transport requires JWT authentication.
+     * SSE and Streamable HTTP transports require JWT authentication.
      */
     async authenticate(request: McpAuthRequest): Promise<AuthResult> {
         // STDIO is trusted - create a local session
@@ -153,8 +302,13 @@ export class McpAuthMiddleware {
             return { authenticated: true, session };
         }
 
-        // SSE requires JWT
+        // Remote transports require a JWT or a signed AccessGrant
         const authHeader = request.headers?.authorization || request.headers?.Authorization;
+        const grantHeader = request.headers?.[ACCESS_GRANT_HEADER];
+        if (!authHeader && grantHeader) {
+            return this.authenticateWithGrant(decodeAccessGrantHeader(grantHeader), request.ip);
+        }
+
         if (!authHeader) {
             this.auditLogger.logAuthFailure({
                 reason: 'missing_authorization_header',
@@ -182,6 +336,9 @@ export class McpAuthMiddleware {
 
         try {
             const payload = await verifyJwt(token, this.jwtPublicKey);
+            if (this.tokenDenylist?.isRevoked(payload.jti)) {
+                throw new Error('Token has been revoked');
+            }
             const session = this.createSession(payload, request.ip);
 
             this.auditLogger.logAuthSuccess({
@@ -202,13 +359,183 @@ export class McpAuthMiddleware {
     }
 
     /**
-     * Create a local session for STDIO transport.
+     * Trust a caller that a local transport has verified itself (the Unix
+     * socket checks that only the vault owner can reach it). The session has
+     * the same full access as STDIO.
+     */
+    authenticateLocal(client: string): AuthResult {
+        const session = this.createLocalSession(client);
+        this.auditLogger.logAuthSuccess({
+            sessionId: session.sessionId,
+            did: session.did,
+            client: session.client
+        });
+        return { authenticated: true, session };
+    }
+
+    /**
+     * Authenticate with a signed AccessGrant, presented as a header or an initialize parameter.
+     * The session scope comes from the grant's permissions.
+     */
+    async authenticateWithGrant(grant: unknown, ip?: string): Promise<AuthResult> {
+        const parsed = parseAccessGrant(grant);
+        if (!parsed) {
+            this.auditLogger.logAuthFailure({ reason: 'invalid_access_grant', ip });
+            return { authenticated: false, error: 'Invalid access grant' };
+        }
+
+        const error = await this.validateGrant(parsed);
+        if (error) {
+            this.auditLogger.logAuthFailure({ reason: error, ip, client: parsed.grantee });
+            return { authenticated: false, error };
+        }
+
+        const scope = Array.from(new Set(parsed.permissions.flatMap(mapLegacyPermission)));
+        const session = this.createSession({
+            sub: this.ownerDid!,
+            client: parsed.grantee,
+            scope,
+            persona: parsed.persona
+        }, ip, parsed);
+
+        this.auditLogger.logAuthSuccess({
+            sessionId: session.sessionId,
+            did: session.did,
+            client: session.client,
+            ip
+        });
+
+        return { authenticated: true, session };
+    }
+
+    /**
+     * Re-verify credentials on a follow-up request of an existing session.
+     * Used by Streamable HTTP, where every request carries its own Authorization header
+     * and the session ID alone must not be enough to act as the client.
+     */
+    async verifySessionRequest(sessionId: string, request: McpAuthRequest): Promise<AuthResult> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return { authenticated: false, error: 'Session not found' };
+        }
+
+        if (this.transport === 'stdio') {
+            session.lastActivity = Date.now();
+            return { authenticated: true, session };
+        }
+
+        if (session.grantId) {
+            return this.verifyGrantSessionRequest(session, request);
+        }
+
+        const authHeader = request.headers?.authorization || request.headers?.Authorization || '';
+        const token = authHeader.replace(/^Bearer\s+/i, '');
+
+        try {
+            if (!token) {
+                throw new Error('Missing token');
+            }
+            if (!this.jwtPublicKey) {
+                throw new Error('Authentication not configured');
+            }
+
+            const payload = await verifyJwt(token, this.jwtPublicKey);
+            if (payload.sub !== session.did || payload.client !== session.client || payload.persona !== session.persona) {
+                throw new Error('Token does not match session');
+            }
+            if (this.tokenDenylist?.isRevoked(payload.jti)) {
+                throw new Error('Token has been revoked');
+            }
+
+            session.lastActivity = Date.now();
+            return { authenticated: true, session };
+        } catch (error) {
+            this.auditLogger.logAuthFailure({
+                reason: (error as Error).message,
+                ip: request.ip,
+                client: session.client
+            });
+            return { authenticated: false, error: (error as Error).message };
+        }
+    }
+
+    /**
+     * Follow-up requests of a grant session must present the same, still valid grant.
+     */
+    private async verifyGrantSessionRequest(session: AuthenticatedSession, request: McpAuthRequest): Promise<AuthResult> {
+        const header = request.headers?.[ACCESS_GRANT_HEADER];
+        const grant = header ? decodeAccessGrantHeader(header) : null;
+
+        let error: string | null;
+        if (!grant) {
+            error = 'Missing access grant';
+        } else if (grant.id !== session.grantId) {
+            error = 'Grant does not match session';
+        } else {
+            error = await this.validateGrant(grant);
+        }
+
+        if (error) {
+            this.auditLogger.logAuthFailure({ reason: error, ip: request.ip, client: session.client });
+            return { authenticated: false, error };
+        }
+
+        session.lastActivity = Date.now();
+        return { authenticated: true, session };
+    }
+
+    /**
+     * Returns why a presented grant cannot be used, or null if it is valid.
+     */
+    private async validateGrant(grant: AccessGrant): Promise<string | null> {
+        if (this.revokedGrants.has(grant.id)) {
+            return 'Grant has been revoked';
+        }
+        if (grant.expiresAt < Date.now()) {
+            return 'Grant has expired';
+        }
+        return this.checkGrantSignature(grant);
+    }
+
+    /**
+     * Sessions lose access as soon as the grant or token they were opened with
+     * is revoked, or the grant expires.
+     */
+    private checkSessionCredentials(
+        session: AuthenticatedSession,
+        target: { tool?: string; resource?: string }
+    ): AuthorizationResult | null {
+        let reason: string | null = null;
+        if (session.grantId && this.revokedGrants.has(session.grantId)) {
+            reason = 'Grant has been revoked';
+        } else if (session.grantExpiresAt !== undefined && session.grantExpiresAt < Date.now()) {
+            reason = 'Grant has expired';
+        } else if (session.tokenId && this.tokenDenylist?.isRevoked(session.tokenId)) {
+            reason = 'Token has been revoked';
+        } else if (session.suspendedAt !== undefined) {
+            reason = `Session suspended: ${session.suspendedReason}`;
+        }
+        if (!reason) {
+            return null;
+        }
+
+        this.auditLogger.logAuthorizationFailure({
+            sessionId: session.sessionId,
+            ...target,
+            grantId: session.grantId,
+            reason
+        });
+        return { authorized: false, reason };
+    }
+
+    /**
+     * Create a local session for STDIO transport, or a caller a local transport verified.
      */
-    private createLocalSession(): AuthenticatedSession {
+    private createLocalSession(client: string = 'local-stdio'): AuthenticatedSession {
         const session: AuthenticatedSession = {
             sessionId: `local-${crypto.randomUUID()}`,
             did: 'local',
-            client: 'local-stdio',
+            client,
             connectedAt: Date.now(),
             lastActivity: Date.now(),
             scope: ['*']  // Full access for local
@@ -219,9 +546,13 @@ export class McpAuthMiddleware {
     }
 
     /**
-     * Create a session from a verified JWT payload.
+     * Create a session from a verified JWT payload or AccessGrant.
      */
-    private createSession(payload: JwtPayload, ip?: string): AuthenticatedSession {
+    private createSession(
+        payload: Pick<JwtPayload, 'sub' | 'client' | 'scope' | 'persona'> & { jti?: string },
+        ip?: string,
+        grant?: AccessGrant
+    ): AuthenticatedSession {
         const session: AuthenticatedSession = {
             sessionId: crypto.randomUUID(),
             did: payload.sub,
@@ -229,7 +560,10 @@ export class McpAuthMiddleware {
             connectedAt: Date.now(),
             lastActivity: Date.now(),
             scope: payload.scope,
-            ip
+            ip,
+            ...(payload.jti && { tokenId: payload.jti }),
+            ...(payload.persona && { persona: payload.persona }),
+            ...(grant && { grantId: grant.id, grantExpiresAt: grant.expiresAt })
         };
 
         this.sessions.set(session.sessionId, session);
@@ -267,7 +601,23 @@ export class McpAuthMiddleware {
                 duration: Date.now() - session.connectedAt
             });
             this.sessions.delete(sessionId);
+            this.rateLimiter?.forgetSession(sessionId);
+        }
+    }
+
+    /**
+     * Refuse all further requests of a remote session. Local sessions cannot
+     * be suspended. Returns false if there is no such session.
+     */
+    suspendSession(sessionId: string, reason: string): boolean {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.did === 'local') {
+            return false;
         }
+        session.suspendedAt = session.suspendedAt ?? Date.now();
+        session.suspendedReason = session.suspendedReason ?? reason;
+        log('MCP session suspended', { sessionId, client: session.client, reason });
+        return true;
     }
 
     /**
@@ -306,8 +656,19 @@ export class McpAuthMiddleware {
             return { authorized: true };
         }
 
+        const revoked = this.checkSessionCredentials(session, { tool: toolName });
+        if (revoked) {
+            return revoked;
+        }
+
         // Check if tool requires permission
         const requiredPermission = TOOL_PERMISSIONS[toolName];
+
+        const limited = this.checkRateLimit(session, permissionTier(requiredPermission), { tool: toolName });
+        if (limited) {
+            return limited;
+        }
+
         if (!requiredPermission) {
             // Public tool - allowed
             this.auditLogger.logToolCall({
@@ -321,7 +682,10 @@ export class McpAuthMiddleware {
         }
 
         // Check session scope
-        if (session.scope.includes('*') || session.scope.includes(requiredPermission)) {
+        const missing = session.scope.includes('*')
+            ? []
+            : [requiredPermission, ...(ADDITIONAL_TOOL_PERMISSIONS[toolName] || [])].filter(p => !session.scope.includes(p));
+        if (missing.length === 0) {
             this.auditLogger.logToolCall({
                 sessionId,
                 tool: toolName,
@@ -334,8 +698,15 @@ export class McpAuthMiddleware {
 
         // Check access grant if provided
         if (accessGrant) {
-            const grantResult = await this.verifyAccessGrant(accessGrant, requiredPermission);
-            if (grantResult.authorized) {
+            let grantAuthorized = true;
+            for (const permission of missing) {
+                const grantResult = await this.verifyAccessGrant(accessGrant, permission, { sessionId, tool: toolName });
+                if (!grantResult.authorized) {
+                    grantAuthorized = false;
+                    break;
+                }
+            }
+            if (grantAuthorized) {
                 this.auditLogger.logToolCall({
                     sessionId,
                     tool: toolName,
@@ -355,13 +726,13 @@ export class McpAuthMiddleware {
             tool: toolName,
             params,
             result: 'denied',
-            reason: `Missing permission: ${requiredPermission}`,
+            reason: `Missing permission: ${missing.join(', ')}`,
             duration: Date.now() - startTime
         });
 
         return {
             authorized: false,
-            reason: `Permission denied: ${requiredPermission} required`
+            reason: `Permission denied: ${missing.join(' and ')} required`
         };
     }
 
@@ -399,8 +770,19 @@ export class McpAuthMiddleware {
             return { authorized: true };
         }
 
+        const revoked = this.checkSessionCredentials(session, { resource: resourceUri });
+        if (revoked) {
+            return revoked;
+        }
+
         // Find matching permission for resource
         const requiredPermission = this.getResourcePermission(resourceUri);
+
+        const limited = this.checkRateLimit(session, permissionTier(requiredPermission), { resource: resourceUri });
+        if (limited) {
+            return limited;
+        }
+
         if (!requiredPermission) {
             // No specific permission required
             this.auditLogger.logResourceRead({
@@ -425,7 +807,7 @@ export class McpAuthMiddleware {
 
         // Check access grant if provided
         if (accessGrant) {
-            const grantResult = await this.verifyAccessGrant(accessGrant, requiredPermission);
+            const grantResult = await this.verifyAccessGrant(accessGrant, requiredPermission, { sessionId, resource: resourceUri });
             if (grantResult.authorized) {
                 this.auditLogger.logResourceRead({
                     sessionId,
@@ -452,6 +834,161 @@ export class McpAuthMiddleware {
         };
     }
 
+    /**
+     * Authorize rendering a prompt.
+     * Built-in prompts have fixed permissions; user templates pass the
+     * permissions derived from the placeholders they render.
+     */
+    async authorizePromptGet(
+        sessionId: string,
+        promptName: string,
+        templatePermissions?: Permission[] | null
+    ): Promise<AuthorizationResult> {
+        const session = this.sessions.get(sessionId);
+        const resource = `prompt://${promptName}`;
+
+        if (!session) {
+            this.auditLogger.logAuthorizationFailure({
+                sessionId,
+                resource,
+                reason: 'session_not_found'
+            });
+            return { authorized: false, reason: 'Session not found' };
+        }
+
+        session.lastActivity = Date.now();
+
+        const builtinPermission = PROMPT_PERMISSIONS[promptName];
+        const requiredPermissions: Permission[] = builtinPermission
+            ? [builtinPermission]
+            : templatePermissions?.length ? templatePermissions : ['read:identity'];
+
+        if (session.did !== 'local') {
+            const revoked = this.checkSessionCredentials(session, { resource });
+            if (revoked) {
+                return revoked;
+            }
+
+            const limited = this.checkRateLimit(session, permissionTier(requiredPermissions[0]), { resource });
+            if (limited) {
+                return limited;
+            }
+        }
+
+        const missing = session.did === 'local' || session.scope.includes('*')
+            ? []
+            : requiredPermissions.filter(p => !session.scope.includes(p));
+        if (missing.length === 0) {
+            this.auditLogger.logResourceRead({ sessionId, resource, result: 'allowed' });
+            return { authorized: true };
+        }
+
+        this.auditLogger.logResourceRead({
+            sessionId,
+            resource,
+            result: 'denied',
+            reason: `Missing permission: ${missing.join(', ')}`
+        });
+
+        return {
+            authorized: false,
+            reason: `Permission denied: ${missing.join(' and ')} required`
+        };
+    }
+
+    /**
+     * Authorize a vault/unlock request. Only local sessions and sessions with
+     * admin:settings may unlock, and a remote client that keeps failing has
+     * to wait, so the method cannot be used to guess passwords.
+     */
+    authorizeUnlock(sessionId: string): AuthorizationResult {
+        const session = this.sessions.get(sessionId);
+        const resource = 'vault/unlock';
+
+        if (!session) {
+            this.auditLogger.logAuthorizationFailure({ sessionId, resource, reason: 'session_not_found' });
+            return { authorized: false, reason: 'Session not found' };
+        }
+        session.lastActivity = Date.now();
+
+        if (session.did === 'local') {
+            return { authorized: true };
+        }
+
+        const revoked = this.checkSessionCredentials(session, { resource });
+        if (revoked) {
+            return revoked;
+        }
+
+        if (!session.scope.includes('*') && !session.scope.includes(UNLOCK_PERMISSION)) {
+            this.auditLogger.logAuthorizationFailure({ sessionId, resource, reason: `Missing permission: ${UNLOCK_PERMISSION}` });
+            return { authorized: false, reason: `Permission denied: ${UNLOCK_PERMISSION} required` };
+        }
+
+        const now = Date.now();
+        const failures = (this.unlockFailures.get(session.client) || []).filter(t => t > now - UNLOCK_FAILURE_WINDOW_MS);
+        this.unlockFailures.set(session.client, failures);
+        if (failures.length >= MAX_UNLOCK_FAILURES) {
+            const retryAfterMs = failures[0] + UNLOCK_FAILURE_WINDOW_MS - now;
+            this.auditLogger.logAuthorizationFailure({ sessionId, resource, reason: 'too_many_unlock_failures' });
+            return {
+                authorized: false,
+                rateLimited: true,
+                retryAfterMs,
+                reason: `Too many failed unlock attempts, retry in ${Math.ceil(retryAfterMs / 1000)}s`
+            };
+        }
+
+        return { authorized: true };
+    }
+
+    /**
+     * Count a failed vault/unlock against the session's client.
+     */
+    recordUnlockFailure(sessionId: string): void {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.did === 'local') {
+            return;
+        }
+        this.unlockFailures.set(session.client, [...(this.unlockFailures.get(session.client) || []), Date.now()]);
+    }
+
+    /**
+     * Draw from the session's rate limit buckets.
+     * Returns a denial if any bucket is empty, or null if the request may proceed.
+     */
+    private checkRateLimit(
+        session: AuthenticatedSession,
+        tier: RateLimitTier,
+        target: { tool?: string; resource?: string }
+    ): AuthorizationResult | null {
+        if (!this.rateLimiter) {
+            return null;
+        }
+
+        const result = this.rateLimiter.consume(session, tier);
+        if (result.allowed) {
+            return null;
+        }
+
+        this.auditLogger.logRateLimited({
+            sessionId: session.sessionId,
+            did: session.did,
+            client: session.client,
+            ...target,
+            tier,
+            bucket: result.key!,
+            retryAfterMs: result.retryAfterMs!
+        });
+
+        return {
+            authorized: false,
+            rateLimited: true,
+            retryAfterMs: result.retryAfterMs,
+            reason: `Rate limit exceeded for ${tier} operations, retry in ${Math.ceil(result.retryAfterMs! / 1000)}s`
+        };
+    }
+
     /**
      * Get required permission for a resource URI.
      */
@@ -461,9 +998,9 @@ export class McpAuthMiddleware {
             return RESOURCE_PERMISSIONS[uri];
         }
 
-        // Pattern match (e.g., profile://conversation/*)
+        // Pattern match (e.g., profile://conversations/*)
         for (const [pattern, permission] of Object.entries(RESOURCE_PERMISSIONS)) {
-            if (uri.startsWith(pattern.replace('*', ''))) {
+            if (pattern.endsWith('*') && uri.startsWith(pattern.slice(0, -1))) {
                 return permission;
             }
         }
@@ -473,10 +1010,12 @@ export class McpAuthMiddleware {
 
     /**
      * Verify an AccessGrant token.
+     * Forged or tampered grants are audited as authorization failures.
      */
     private async verifyAccessGrant(
         grant: AccessGrant,
-        requiredPermission: Permission
+        requiredPermission: Permission,
+        context: { sessionId: string; tool?: string; resource?: string }
     ): Promise<AuthorizationResult> {
         // Check if grant is revoked
         if (this.revokedGrants.has(grant.id)) {
@@ -488,6 +1027,17 @@ export class McpAuthMiddleware {
             return { authorized: false, reason: 'Grant has expired' };
         }
 
+        // Verify the signature against the vault owner's did:key
+        const signatureError = await this.checkGrantSignature(grant);
+        if (signatureError) {
+            this.auditLogger.logAuthorizationFailure({
+                ...context,
+                grantId: grant.id,
+                reason: signatureError
+            });
+            return { authorized: false, reason: signatureError };
+        }
+
         // Map legacy permissions to new system and check
         const grantedPermissions: Permission[] = [];
         for (const legacyPerm of grant.permissions) {
@@ -498,13 +1048,32 @@ export class McpAuthMiddleware {
             return { authorized: false, reason: 'Grant does not include required permission' };
         }
 
-        // Verify signature (would need public key from DID resolution in production)
-        // For now, we trust the grant if it passes other checks
-        // TODO: Implement full signature verification with DID resolution
-
         return { authorized: true };
     }
 
+    /**
+     * Returns why a grant's signature is not acceptable, or null if it is valid.
+     */
+    private async checkGrantSignature(grant: AccessGrant): Promise<string | null> {
+        if (!this.ownerDid) {
+            return 'Grant issuer not configured';
+        }
+        if (grant.issuer && grant.issuer !== this.ownerDid) {
+            return 'Grant was not issued by the vault owner';
+        }
+
+        try {
+            if (!(await verifyAccessGrantSignature(grant, this.ownerDid))) {
+                return 'Invalid grant signature';
+            }
+        } catch (error) {
+            logError('Grant issuer DID could not be resolved', { error: (error as Error).message });
+            return 'Grant issuer could not be resolved';
+        }
+
+        return null;
+    }
+
     /**
      * Revoke an access grant.
      * Graceful expiry: existing sessions continue, new requests are blocked.
@@ -512,9 +1081,9 @@ export class McpAuthMiddleware {
     revokeGrant(grantId: string): void {
         this.revokedGrants.add(grantId);
 
-        // Count sessions that might be using this grant
+        // Sessions opened with this grant lose access on their next request
         const affectedSessions = Array.from(this.sessions.values()).filter(
-            s => s.did !== 'local'
+            s => s.grantId === grantId
         ).length;
 
         this.auditLogger.logGrantRevoked({
@@ -522,7 +1091,7 @@ export class McpAuthMiddleware {
             metadata: { affectedSessions }
         });
 
-        log(`Grant ${grantId} revoked. ${affectedSessions} active sessions may be affected.`);
+        log(`Grant ${grantId} revoked. ${affectedSessions} active sessions affected.`);
     }
 
     /**
@@ -563,10 +1132,13 @@ export class McpAuthMiddleware {
                     duration: now - session.connectedAt
                 });
                 this.sessions.delete(sessionId);
+                this.rateLimiter?.forgetSession(sessionId);
                 cleaned++;
             }
         }
 
+        this.rateLimiter?.prune();
+
         if (cleaned > 0) {
             log(`Cleaned up ${cleaned} expired sessions`);
         }
@@ -589,9 +1161,11 @@ export class McpAuthMiddleware {
 let authMiddlewareInstance: McpAuthMiddleware | null = null;
 
 export function createAuthMiddleware(options: {
-    transport: 'stdio' | 'sse';
+    transport: TransportMode;
     jwtPublicKey?: Uint8Array | string;
+    ownerDid?: string;
     auditLogger?: AuditLogger;
+    rateLimits?: RateLimitConfig | null;
 }): McpAuthMiddleware {
     authMiddlewareInstance = new McpAuthMiddleware(options);
     return authMiddlewareInstance;
@@ -0,0 +1,146 @@
+/**
+ * MCP Admin Client
+ *
+ * Lets the dashboard act on the MCP server's copy of the vault over the
+ * Streamable HTTP transport. The server keeps its own encrypted vault file,
+ * so a decision recorded only in the dashboard's IndexedDB never reaches it:
+ * held writes are decided, grants revoked and access alerts read through here.
+ *
+ * Every request carries a fresh JWT from `getToken`. The dashboard signs it
+ * with the key derived from the vault mnemonic, the same key the server
+ * verifies with. Browsers only reach the server from an origin listed in
+ * MCP_ALLOWED_ORIGINS.
+ */
+
+import { McpResponse } from './types';
+
+/** Client name the dashboard's sessions are audited under */
+export const DASHBOARD_CLIENT = 'dashboard';
+
+/** Permissions the dashboard asks for: no reads of profile data it already holds */
+export const DASHBOARD_SCOPE = ['admin:review', 'admin:audit', 'admin:grants'];
+
+const PROTOCOL_VERSION = '2024-11-05';
+
+export interface McpAdminClientOptions {
+    /** Streamable HTTP endpoint, e.g. http://localhost:3001/mcp */
+    url: string;
+    /** Bearer token for the next request */
+    getToken: () => Promise<string>;
+    fetch?: typeof fetch;
+}
+
+export class McpAdminClient {
+    private url: string;
+    private getToken: () => Promise<string>;
+    private fetchFn: typeof fetch;
+    private sessionId: Promise<string> | null = null;
+    private nextId = 1;
+
+    constructor(options: McpAdminClientOptions) {
+        this.url = options.url;
+        this.getToken = options.getToken;
+        this.fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+    }
+
+    /**
+     * Call a tool and return its structured result. Tool errors are thrown
+     * with the server's message.
+     */
+    async callTool<T>(name: string, args: Record<string, unknown> = {}): Promise<T> {
+        const result = await this.request('tools/call', { name, arguments: args }) as {
+            structuredContent?: Record<string, unknown>;
+            isError?: boolean;
+        };
+        const structured = result.structuredContent ?? {};
+        if (result.isError) {
+            throw new Error(String(structured.error ?? `${name} failed`));
+        }
+        return structured as T;
+    }
+
+    /**
+     * End the server session. The next call opens a new one.
+     */
+    async close(): Promise<void> {
+        const pending = this.sessionId;
+        this.sessionId = null;
+        if (!pending) return;
+
+        const sessionId = await pending.catch(() => null);
+        if (!sessionId) return;
+        await this.fetchFn(this.url, {
+            method: 'DELETE',
+            headers: { Authorization: `Bearer ${await this.getToken()}`, 'Mcp-Session-Id': sessionId }
+        }).catch(() => undefined);
+    }
+
+    private async request(method: string, params: Record<string, unknown>): Promise<unknown> {
+        const sessionId = await this.session();
+        try {
+            return await this.post({ jsonrpc: '2.0', id: this.nextId++, method, params }, sessionId);
+        } catch (error) {
+            // The server restarted or dropped the session: start a new one once
+            if ((error as { status?: number }).status !== 404) {
+                throw error;
+            }
+            this.sessionId = null;
+            return this.post({ jsonrpc: '2.0', id: this.nextId++, method, params }, await this.session());
+        }
+    }
+
+    private session(): Promise<string> {
+        if (!this.sessionId) {
+            this.sessionId = this.initialize();
+            this.sessionId.catch(() => this.sessionId = null);
+        }
+        return this.sessionId;
+    }
+
+    private async initialize(): Promise<string> {
+        const res = await this.send({
+            jsonrpc: '2.0',
+            id: this.nextId++,
+            method: 'initialize',
+            params: {
+                protocolVersion: PROTOCOL_VERSION,
+                capabilities: {},
+                clientInfo: { name: DASHBOARD_CLIENT, version: '1.0.0' }
+            }
+        });
+        const sessionId = res.headers.get('mcp-session-id');
+        await this.readResult(res);
+        if (!sessionId) {
+            throw new Error('MCP server did not return a session ID');
+        }
+
+        await this.send({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+        return sessionId;
+    }
+
+    private async post(message: Record<string, unknown>, sessionId: string): Promise<unknown> {
+        return this.readResult(await this.send(message, sessionId));
+    }
+
+    private async send(message: Record<string, unknown>, sessionId?: string): Promise<Response> {
+        return this.fetchFn(this.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Accept: 'application/json',
+                Authorization: `Bearer ${await this.getToken()}`,
+                ...(sessionId && { 'Mcp-Session-Id': sessionId })
+            },
+            body: JSON.stringify(message)
+        });
+    }
+
+    private async readResult(res: Response): Promise<unknown> {
+        const body = await res.json().catch(() => null) as McpResponse | null;
+        if (!res.ok || !body || body.error) {
+            const error = new Error(body?.error?.message ?? `MCP server responded with ${res.status}`);
+            throw Object.assign(error, { status: res.status });
+        }
+        return body.result;
+    }
+}
@@ -15,12 +15,18 @@ export const VAULT_PATH = process.env.VAULT_PATH ||
 /** Enable debug logging */
 export const DEBUG = process.env.DEBUG === 'true';
 
-/** MCP transport mode: 'stdio' or 'sse' */
+/** MCP transport mode: 'stdio', 'sse', 'http' (Streamable HTTP), 'websocket' or 'unix' */
 export const TRANSPORT_MODE = process.env.MCP_TRANSPORT || 'stdio';
 
-/** SSE transport port */
+/** SSE / Streamable HTTP / WebSocket transport port */
 export const SSE_PORT = parseInt(process.env.MCP_PORT || '3001', 10);
 
+/** Endpoint path for the Streamable HTTP transport */
+export const HTTP_PATH = process.env.MCP_HTTP_PATH || '/mcp';
+
+/** Socket file for the Unix-socket transport */
+export const SOCKET_PATH = process.env.MCP_SOCKET_PATH || path.join(VAULT_PATH, 'mcp.sock');
+
 import { logger, LogLevel } from '../logger';
 
 // --- Logging ---
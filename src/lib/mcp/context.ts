@@ -0,0 +1,303 @@
+/**
+ * MCP Context Assembly
+ *
+ * Picks the profile items most relevant to a task for get_context_for_task.
+ * Memories, insights, conversation summaries and preferences are scored with
+ * BM25 against the task, blended with recency and confidence, deduplicated,
+ * and added best-first until the caller's token budget is spent. Every
+ * included item carries the reasons it was picked.
+ */
+
+import { Conversation, MemoryFragment, SystemPreference, UserInsight } from '../types';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ContextItemKind = 'memory' | 'insight' | 'conversation' | 'preference';
+
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    provider: string;
+    summary: string;
+}
+
+export interface ContextItem {
+    kind: ContextItemKind;
+    id: string;
+    score: number;
+    /** Estimated tokens the item adds to the context */
+    tokens: number;
+    reasons: string[];
+}
+
+export interface AssembledContext {
+    memories: MemoryFragment[];
+    insights: UserInsight[];
+    conversations: ConversationSummary[];
+    preferences: SystemPreference[];
+    items: ContextItem[];
+    usedTokens: number;
+    omitted: { duplicates: number; overBudget: number };
+}
+
+export interface ContextSources {
+    memories: MemoryFragment[];
+    insights: UserInsight[];
+    conversations: Conversation[];
+    preferences: SystemPreference[];
+}
+
+export interface AssembleOptions {
+    maxTokens?: number;
+    now?: number;
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 2000;
+
+/** BM25 term saturation and length normalization */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Weights of the blended score; relevance is normalized to 0-1 first */
+const RELEVANCE_WEIGHT = 1;
+const RECENCY_WEIGHT = 0.2;
+const CONFIDENCE_WEIGHT = 0.2;
+const PINNED_BONUS = 0.1;
+
+const RECENCY_HALF_LIFE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Token-set overlap at which two items count as the same */
+const DUPLICATE_SIMILARITY = 0.8;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+    'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'need', 'of', 'on', 'or', 'our',
+    'please', 'so', 'that', 'the', 'their', 'this', 'to', 'up', 'use', 'using', 'want', 'was', 'we',
+    'what', 'when', 'which', 'with', 'you', 'your'
+]);
+
+/**
+ * Lowercased word tokens without stopwords. Keeps `c++`, `c#` and `node.js`
+ * style tokens intact.
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z0-9]/g) || [])
+        .filter(token => !STOPWORDS.has(token));
+}
+
+/** Rough token count of a serialized item (about four characters per token) */
+export function estimateTokens(value: unknown): number {
+    return Math.ceil(JSON.stringify(value).length / 4);
+}
+
+// ============================================================
+// Assembly
+// ============================================================
+
+interface Candidate {
+    kind: ContextItemKind;
+    id: string;
+    payload: MemoryFragment | UserInsight | ConversationSummary | SystemPreference;
+    terms: string[];
+    timestamp?: number;
+    confidence?: number;
+    pinned?: boolean;
+}
+
+function toCandidates(sources: ContextSources): Candidate[] {
+    const memories = sources.memories.map<Candidate>(m => ({
+        kind: 'memory',
+        id: m.id,
+        payload: m,
+        terms: tokenize(`${m.content} ${m.tags.join(' ')}`),
+        timestamp: Date.parse(m.timestamp),
+        confidence: m.confidence,
+        pinned: m.pinned
+    }));
+
+    const insights = sources.insights.map<Candidate>(i => ({
+        kind: 'insight',
+        id: i.id,
+        payload: i,
+        terms: tokenize(`${i.category} ${i.content}`),
+        timestamp: i.updatedAt,
+        confidence: i.confidence
+    }));
+
+    const conversations = sources.conversations.map<Candidate>(c => ({
+        kind: 'conversation',
+        id: c.id,
+        payload: {
+            id: c.id,
+            title: c.title,
+            provider: c.metadata?.provider,
+            summary: c.summary || 'No summary available'
+        },
+        terms: tokenize(`${c.title} ${(c.tags || []).join(' ')} ${c.summary ?? ''}`),
+        timestamp: c.metadata?.updatedAt
+    }));
+
+    const preferences = sources.preferences
+        .filter(p => p.isEnabled)
+        .map<Candidate>(p => ({
+            kind: 'preference',
+            id: p.id,
+            payload: p,
+            terms: tokenize(`${p.key} ${p.value} ${p.category.replace('_', ' ')}`)
+        }));
+
+    return [...memories, ...insights, ...conversations, ...preferences];
+}
+
+/** BM25 score of every candidate against the query, plus the query terms each matched */
+function bm25(candidates: Candidate[], query: string[]): Array<{ score: number; matched: string[] }> {
+    const queryTerms = [...new Set(query)];
+    const avgLength = candidates.reduce((sum, c) => sum + c.terms.length, 0) / Math.max(1, candidates.length);
+
+    const documentFrequency = new Map<string, number>();
+    for (const candidate of candidates) {
+        for (const term of new Set(candidate.terms)) {
+            documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+        }
+    }
+
+    return candidates.map(candidate => {
+        const frequencies = new Map<string, number>();
+        for (const term of candidate.terms) {
+            frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        }
+
+        let score = 0;
+        const matched: string[] = [];
+        for (const term of queryTerms) {
+            const tf = frequencies.get(term);
+            if (!tf) continue;
+
+            const df = documentFrequency.get(term)!;
+            const idf = Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5));
+            const lengthNorm = 1 - BM25_B + BM25_B * (candidate.terms.length / (avgLength || 1));
+            score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+            matched.push(term);
+        }
+        return { score, matched };
+    });
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    for (const term of a) {
+        if (b.has(term)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+function describeAge(ms: number): string {
+    const days = Math.floor(ms / DAY_MS);
+    if (days < 1) return 'today';
+    if (days === 1) return '1 day ago';
+    return `${days} days ago`;
+}
+
+/**
+ * Rank the profile against a task and fill the token budget best-first.
+ * Items that match no task term are left out, except enabled preferences,
+ * which fill whatever budget remains.
+ */
+export function assembleContext(task: string, sources: ContextSources, options: AssembleOptions = {}): AssembledContext {
+    const maxTokens = options.maxTokens ?? DEFAULT_CONTEXT_TOKENS;
+    const now = options.now ?? Date.now();
+
+    const candidates = toCandidates(sources);
+    const relevance = bm25(candidates, tokenize(task));
+    const maxRelevance = Math.max(0, ...relevance.map(r => r.score));
+
+    const ranked = candidates
+        .map((candidate, index) => {
+            const { score: raw, matched } = relevance[index];
+            const reasons: string[] = [];
+            let score = 0;
+
+            if (raw > 0) {
+                score += RELEVANCE_WEIGHT * raw / maxRelevance;
+                reasons.push(`matches ${matched.join(', ')}`);
+            } else if (candidate.kind === 'preference') {
+                reasons.push('enabled preference');
+            } else {
+                return null;
+            }
+
+            if (candidate.timestamp !== undefined && Number.isFinite(candidate.timestamp)) {
+                const age = Math.max(0, now - candidate.timestamp);
+                const recency = Math.pow(0.5, age / (RECENCY_HALF_LIFE_DAYS * DAY_MS));
+                score += RECENCY_WEIGHT * recency;
+                if (recency >= 0.5) {
+                    reasons.push(`recent (${describeAge(age)})`);
+                }
+            }
+            if (candidate.confidence !== undefined) {
+                score += CONFIDENCE_WEIGHT * candidate.confidence;
+                if (candidate.confidence >= 0.8) {
+                    reasons.push(`confidence ${candidate.confidence}`);
+                }
+            }
+            if (candidate.pinned) {
+                score += PINNED_BONUS;
+                reasons.push('pinned');
+            }
+
+            return { candidate, score, reasons, relevant: raw > 0 };
+        })
+        .filter((r): r is NonNullable<typeof r> => r !== null)
+        // Relevant items first; unmatched preferences only fill leftover budget
+        .sort((a, b) => Number(b.relevant) - Number(a.relevant) || b.score - a.score);
+
+    const result: AssembledContext = {
+        memories: [],
+        insights: [],
+        conversations: [],
+        preferences: [],
+        items: [],
+        usedTokens: 0,
+        omitted: { duplicates: 0, overBudget: 0 }
+    };
+    const selected: Set<string>[] = [];
+
+    for (const { candidate, score, reasons } of ranked) {
+        const terms = new Set(candidate.terms);
+        if (selected.some(other => jaccard(terms, other) >= DUPLICATE_SIMILARITY)) {
+            result.omitted.duplicates++;
+            continue;
+        }
+
+        const tokens = estimateTokens(candidate.payload);
+        if (result.usedTokens + tokens > maxTokens) {
+            result.omitted.overBudget++;
+            continue;
+        }
+
+        result.usedTokens += tokens;
+        selected.push(terms);
+        result.items.push({ kind: candidate.kind, id: candidate.id, score: Math.round(score * 1000) / 1000, tokens, reasons });
+
+        switch (candidate.kind) {
+            case 'memory':
+                result.memories.push(candidate.payload as MemoryFragment);
+                break;
+            case 'insight':
+                result.insights.push(candidate.payload as UserInsight);
+                break;
+            case 'conversation':
+                result.conversations.push(candidate.payload as ConversationSummary);
+                break;
+            case 'preference':
+                result.preferences.push(candidate.payload as SystemPreference);
+                break;
+        }
+    }
+
+    return result;
+}
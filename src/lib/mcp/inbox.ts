@@ -0,0 +1,127 @@
+/**
+ * MCP Write Review Inbox
+ *
+ * Optional review mode for writes from remote clients. With
+ * MCP_WRITE_REVIEW=on, add_memory and archive_conversation calls from
+ * non-local sessions are not stored; they are queued in
+ * `profile.pendingWrites` with the client, its reason and a before/after
+ * diff. The user approves (optionally after editing) or rejects them in the
+ * dashboard, and the client polls get_write_status for the outcome. Tools that
+ * edit or delete stored items are refused for those sessions.
+ */
+
+import { Conversation, MemoryFragment, PendingWrite, PendingWriteTool, PortableProfile } from '../types';
+
+/** Pending writes allowed at once, so a client cannot flood the inbox */
+export const MAX_PENDING_WRITES = 100;
+
+/**
+ * Tools that change stored items in place or write content the client
+ * controls. They cannot be held as a reviewable diff, so they are refused
+ * while review mode applies.
+ */
+export const UNREVIEWABLE_WRITE_TOOLS = ['update_memory', 'forget_memory', 'pin_memory', 'enrich_profile'];
+
+/** How long decided writes are kept for clients to poll */
+export const DECIDED_WRITE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** What get_write_status reports to the client */
+export interface WriteStatus {
+    id: string;
+    tool: PendingWriteTool;
+    status: PendingWrite['status'];
+    summary: string;
+    createdAt: number;
+    decidedAt?: number;
+    edited?: boolean;
+    note?: string;
+    /** ID of the stored memory or conversation, once approved */
+    resultId?: string;
+}
+
+/**
+ * Whether remote writes are held for review. Off unless MCP_WRITE_REVIEW=on.
+ */
+export function writeReviewFromEnv(env: Record<string, string | undefined> = process.env): boolean {
+    return env.MCP_WRITE_REVIEW === 'on';
+}
+
+function describeWrite(tool: PendingWriteTool, after: MemoryFragment | Conversation): string {
+    if (tool === 'add_memory') {
+        const content = (after as MemoryFragment).content;
+        return `Add memory: ${content.length > 80 ? `${content.slice(0, 77)}...` : content}`;
+    }
+    const conversation = after as Conversation;
+    return `Archive conversation "${conversation.title}" (${conversation.messages.length} messages)`;
+}
+
+export function createPendingWrite(params: {
+    tool: PendingWriteTool;
+    client: string;
+    reason?: string;
+    before?: MemoryFragment | Conversation | null;
+    after: MemoryFragment | Conversation;
+}, now = Date.now()): PendingWrite {
+    return {
+        id: `write_${now}_${Math.random().toString(36).slice(2, 7)}`,
+        tool: params.tool,
+        client: params.client,
+        ...(params.reason && { reason: params.reason }),
+        summary: describeWrite(params.tool, params.after),
+        diff: { before: params.before ?? null, after: params.after },
+        status: 'pending',
+        createdAt: now
+    };
+}
+
+export function pendingWrites(profile: PortableProfile): PendingWrite[] {
+    return (profile.pendingWrites || []).filter(write => write.status === 'pending');
+}
+
+/**
+ * Drop decided writes older than the retention period. Pending writes stay
+ * until the user decides.
+ */
+export function pruneDecidedWrites(writes: PendingWrite[], now = Date.now()): PendingWrite[] {
+    return writes.filter(write => write.status === 'pending' || (write.decidedAt ?? write.createdAt) > now - DECIDED_WRITE_RETENTION_MS);
+}
+
+/**
+ * Approve a write, optionally replacing what it stores with the user's
+ * edit. The stored item keeps the ID the client was told about.
+ */
+export function approveWrite(write: PendingWrite, edited?: MemoryFragment | Conversation, now = Date.now()): PendingWrite {
+    if (write.status !== 'pending') {
+        throw new Error(`Write ${write.id} is already ${write.status}`);
+    }
+    return {
+        ...write,
+        status: 'approved',
+        decidedAt: now,
+        ...(edited && {
+            edited: true,
+            diff: { ...write.diff, after: { ...edited, id: write.diff.after.id } as MemoryFragment | Conversation }
+        })
+    };
+}
+
+export function rejectWrite(write: PendingWrite, note?: string, now = Date.now()): PendingWrite {
+    if (write.status !== 'pending') {
+        throw new Error(`Write ${write.id} is already ${write.status}`);
+    }
+    return { ...write, status: 'rejected', decidedAt: now, ...(note && { note }) };
+}
+
+export function writeStatus(write: PendingWrite): WriteStatus {
+    return {
+        id: write.id,
+        tool: write.tool,
+        status: write.status,
+        summary: write.summary,
+        createdAt: write.createdAt,
+        ...(write.decidedAt !== undefined && { decidedAt: write.decidedAt }),
+        ...(write.edited && { edited: true }),
+        ...(write.note && { note: write.note }),
+        ...(write.status === 'approved' && { resultId: write.diff.after.id })
+    };
+}
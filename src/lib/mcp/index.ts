@@ -7,7 +7,18 @@
 export * from './types';
 export * from './config';
 export * from './vault';
+export * from './store';
+export * from './prompts';
 export * from './transports';
 export * from './server';
 export * from './auth';
+export * from './ratelimit';
 export * from './audit';
+export * from './auditstore';
+export * from './anomaly';
+export * from './sampling';
+export * from './context';
+export * from './logging';
+export * from './inbox';
+export * from './transcript';
+export * from './persona';
@@ -0,0 +1,109 @@
+/**
+ * MCP Logging
+ *
+ * Forwards server log records to clients as `notifications/message`, so logs
+ * that would otherwise only reach stderr are visible in the client. Clients
+ * opt in with `logging/setLevel`; metadata is redacted with the audit log's
+ * SENSITIVE_KEYS before it leaves the server.
+ */
+
+import { logger, LogLevel, LogRecord } from '../logger';
+import { McpNotification } from './types';
+import { sanitizeParams } from './audit';
+
+/** RFC 5424 severities used by MCP, least severe first */
+export const MCP_LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+export type McpLogLevel = typeof MCP_LOG_LEVELS[number];
+
+/** Logger name reported to clients */
+const LOGGER_NAME = 'profile-context-protocol';
+
+/** Key for the single STDIO client, which has no session ID */
+const STDIO_SESSION_KEY = 'stdio';
+
+export function isMcpLogLevel(value: unknown): value is McpLogLevel {
+    return typeof value === 'string' && (MCP_LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * The LogLevel a client's requested level maps onto. LogLevel has no
+ * notice or critical-and-above levels, so those round to INFO and ERROR.
+ */
+export function toLogLevel(level: McpLogLevel): LogLevel {
+    switch (level) {
+        case 'debug': return LogLevel.DEBUG;
+        case 'info':
+        case 'notice': return LogLevel.INFO;
+        case 'warning': return LogLevel.WARN;
+        default: return LogLevel.ERROR;
+    }
+}
+
+/** The MCP severity a record is sent with; audit records are notices */
+export function toMcpLogLevel(level: LogLevel): McpLogLevel {
+    switch (level) {
+        case LogLevel.DEBUG: return 'debug';
+        case LogLevel.INFO: return 'info';
+        case LogLevel.WARN: return 'warning';
+        case LogLevel.ERROR: return 'error';
+        default: return 'notice';
+    }
+}
+
+export class LogForwarder {
+    /** Minimum level per opted-in session */
+    private levels: Map<string, LogLevel> = new Map();
+    private detach: (() => void) | null = null;
+
+    constructor(private readonly send: (notification: McpNotification, sessionId?: string) => Promise<void>) { }
+
+    /** Start receiving records from the shared logger */
+    attach(): void {
+        if (this.detach) return;
+        this.detach = logger.addSink(record => this.forward(record));
+    }
+
+    stop(): void {
+        this.detach?.();
+        this.detach = null;
+    }
+
+    setLevel(sessionId: string | undefined, level: McpLogLevel): void {
+        this.levels.set(sessionId ?? STDIO_SESSION_KEY, toLogLevel(level));
+    }
+
+    forgetSession(sessionId: string): void {
+        this.levels.delete(sessionId);
+    }
+
+    /**
+     * Send a record to every session whose level it meets. Audit records
+     * rank above ERROR, so they reach every opted-in session.
+     */
+    forward(record: LogRecord): void {
+        if (this.levels.size === 0) return;
+
+        const notification: McpNotification = {
+            jsonrpc: '2.0',
+            method: 'notifications/message',
+            params: {
+                level: toMcpLogLevel(record.level),
+                logger: LOGGER_NAME,
+                data: {
+                    message: record.message,
+                    ...(record.metadata && { metadata: sanitizeParams(record.metadata) }),
+                    timestamp: new Date(record.timestamp).toISOString()
+                }
+            }
+        };
+
+        for (const [key, level] of this.levels) {
+            if (record.level < level) continue;
+
+            const sessionId = key === STDIO_SESSION_KEY ? undefined : key;
+            // Delivery failures are not logged: that would be forwarded again
+            this.send(notification, sessionId).catch(() => undefined);
+        }
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * MCP Personas
+ *
+ * A persona is a named overlay on the profile: its own identity fields,
+ * the preferences in effect, and rules for which memories, conversations and
+ * projects are visible. Calls made under a persona read a filtered view of the
+ * profile, and what they write is tagged so the persona keeps seeing it.
+ *
+ * A session runs under the persona its token or grant is bound to. Sessions
+ * with unbound credentials may pick one with select_persona, and MCP_PERSONA
+ * sets the default for the server (e.g. one STDIO entry per persona).
+ */
+
+import {
+    Conversation,
+    MemoryFragment,
+    Persona,
+    PortableProfile,
+    ProjectContext,
+    UserInsight
+} from '../types';
+
+/**
+ * Persona selected by default for sessions that are not bound to one.
+ */
+export function personaFromEnv(env: Record<string, string | undefined> = process.env): string | undefined {
+    return env.MCP_PERSONA || undefined;
+}
+
+/** Find a persona by ID, or by name ignoring case */
+export function findPersona(profile: PortableProfile, idOrName: string): Persona | undefined {
+    const personas = profile.personas || [];
+    const name = idOrName.toLowerCase();
+    return personas.find(p => p.id === idOrName) ?? personas.find(p => p.name.toLowerCase() === name);
+}
+
+function lowerTags(tags: string[] | undefined): string[] {
+    return (tags || []).map(tag => tag.toLowerCase());
+}
+
+function tagsVisible(persona: Persona, tags: string[] = []): boolean {
+    const itemTags = lowerTags(tags);
+    const include = lowerTags(persona.visibility?.includeTags);
+    const exclude = lowerTags(persona.visibility?.excludeTags);
+    if (include.length > 0 && !itemTags.some(tag => include.includes(tag))) {
+        return false;
+    }
+    return !itemTags.some(tag => exclude.includes(tag));
+}
+
+export function isMemoryVisible(persona: Persona, memory: MemoryFragment): boolean {
+    if (persona.visibility?.excludeMemoryTypes?.includes(memory.type)) {
+        return false;
+    }
+    return tagsVisible(persona, memory.tags);
+}
+
+export function isConversationVisible(persona: Persona, conversation: Conversation): boolean {
+    return tagsVisible(persona, conversation.tags);
+}
+
+export function isProjectVisible(persona: Persona, project: ProjectContext): boolean {
+    const projectIds = persona.visibility?.projectIds;
+    return !projectIds || projectIds.includes(project.id);
+}
+
+/**
+ * Insights are only visible when every conversation they were derived from
+ * is, since they summarize those conversations.
+ */
+function isInsightVisible(persona: Persona, insight: UserInsight, visibleConversations: Set<string>): boolean {
+    const { includeTags, excludeTags } = persona.visibility || {};
+    if (!includeTags?.length && !excludeTags?.length) {
+        return true;
+    }
+    return insight.derivedFrom.length > 0 && insight.derivedFrom.every(id => visibleConversations.has(id));
+}
+
+/**
+ * The profile as seen under a persona. Items are filtered, not copied, so the
+ * view must only be used for reads.
+ */
+export function personaView(profile: PortableProfile, persona: Persona): PortableProfile {
+    const conversations = (profile.conversations || []).filter(c => isConversationVisible(persona, c));
+    const visibleConversations = new Set(conversations.map(c => c.id));
+    const projects = (profile.projects || []).filter(p => isProjectVisible(persona, p));
+    const activeProjectId = persona.activeProjectId !== undefined ? persona.activeProjectId : profile.activeProjectId;
+
+    const preferences = persona.preferenceIds
+        ? profile.preferences
+            .filter(p => persona.preferenceIds!.includes(p.id))
+            .map(p => ({ ...p, isEnabled: true }))
+        : profile.preferences;
+
+    return {
+        ...profile,
+        identity: { ...profile.identity, ...persona.identity },
+        preferences,
+        shortTermMemory: (profile.shortTermMemory || []).filter(m => isMemoryVisible(persona, m)),
+        longTermMemory: (profile.longTermMemory || []).filter(m => isMemoryVisible(persona, m)),
+        conversations,
+        insights: (profile.insights || []).filter(i => isInsightVisible(persona, i, visibleConversations)),
+        projects,
+        activeProjectId: projects.some(p => p.id === activeProjectId) ? activeProjectId! : undefined,
+        // Access control and other personas are not part of what a persona sees
+        activeGrants: [],
+        pendingWrites: [],
+        personas: [persona]
+    };
+}
+
+/**
+ * Tags for an item written under a persona: its include rule's first tag is
+ * added when the item has none of them, so the persona keeps seeing it.
+ */
+export function tagsForPersona(persona: Persona | null, tags: string[]): string[] {
+    const include = persona?.visibility?.includeTags || [];
+    if (include.length === 0) {
+        return tags;
+    }
+    const lower = lowerTags(include);
+    return tags.some(tag => lower.includes(tag.toLowerCase())) ? tags : [...tags, include[0]];
+}
@@ -0,0 +1,247 @@
+/**
+ * MCP Prompt Templates
+ *
+ * Built-in and user-defined prompts rendered against the user's profile.
+ * Built-in prompts are code-backed; user templates live in `profile.promptTemplates`
+ * and use `{{placeholder}}` substitution.
+ */
+
+import { PortableProfile, Conversation } from '../types';
+import { McpPrompt, GetPromptResult } from './types';
+import { Permission } from './auth';
+
+// ============================================================
+// Built-in Prompts
+// ============================================================
+
+interface BuiltinPrompt extends McpPrompt {
+    render(profile: PortableProfile, args: Record<string, string>): string;
+}
+
+/** Maximum insights included in the user introduction */
+const MAX_INTRO_INSIGHTS = 5;
+
+/** Maximum conversations included in a history summary */
+const MAX_HISTORY_CONVERSATIONS = 10;
+
+/** Characters of the first message used when a conversation has no summary */
+const PREVIEW_LENGTH = 300;
+
+const BUILTIN_PROMPTS: BuiltinPrompt[] = [
+    {
+        name: 'introduce_user',
+        description: 'Get an introduction to the user',
+        arguments: [],
+        render: (profile) => {
+            const { identity } = profile;
+            const lines: string[] = ['Here is some background about the user you are working with.', ''];
+
+            lines.push('## Identity');
+            lines.push(`- Name: ${identity.fullName || identity.displayName}`);
+            if (identity.role) lines.push(`- Role: ${identity.role}`);
+            if (identity.location) lines.push(`- Location: ${identity.location}`);
+
+            const preferences = profile.preferences.filter(p => p.isEnabled);
+            if (preferences.length > 0) {
+                lines.push('', '## Preferences');
+                for (const pref of preferences) {
+                    lines.push(`- ${pref.key}: ${pref.value}`);
+                }
+            }
+
+            const insights = [...(profile.insights || [])]
+                .sort((a, b) => b.confidence - a.confidence)
+                .slice(0, MAX_INTRO_INSIGHTS);
+            if (insights.length > 0) {
+                lines.push('', '## Insights');
+                for (const insight of insights) {
+                    lines.push(`- (${insight.category}) ${insight.content}`);
+                }
+            }
+
+            lines.push('', 'Keep these details in mind and tailor your responses accordingly.');
+            return lines.join('\n');
+        }
+    },
+    {
+        name: 'summarize_history',
+        description: 'Summarize history on a topic',
+        arguments: [{ name: 'topic', description: 'Topic', required: true }],
+        render: (profile, args) => {
+            const topic = args.topic;
+            const matches = findConversationsByTopic(profile.conversations || [], topic)
+                .slice(0, MAX_HISTORY_CONVERSATIONS);
+
+            if (matches.length === 0) {
+                return `The user has no archived conversations about "${topic}". Let them know, and ask what they would like to discuss.`;
+            }
+
+            const lines: string[] = [
+                `Summarize the user's past conversations about "${topic}".`,
+                'Highlight recurring questions, decisions that were made and anything left unresolved.',
+                ''
+            ];
+
+            for (const conv of matches) {
+                const date = conv.metadata?.createdAt
+                    ? new Date(conv.metadata.createdAt).toISOString().split('T')[0]
+                    : 'unknown date';
+                lines.push(`## ${conv.title} (${conv.metadata?.provider || 'unknown'}, ${date})`);
+                lines.push(conv.summary || conv.messages?.[0]?.content.slice(0, PREVIEW_LENGTH) || 'No content available');
+                lines.push('');
+            }
+
+            return lines.join('\n').trimEnd();
+        }
+    }
+];
+
+function findConversationsByTopic(conversations: Conversation[], topic: string): Conversation[] {
+    const lowerTopic = topic.toLowerCase();
+    return conversations
+        .filter(c =>
+            c.title.toLowerCase().includes(lowerTopic) ||
+            c.tags?.some(t => t.toLowerCase().includes(lowerTopic)) ||
+            c.summary?.toLowerCase().includes(lowerTopic)
+        )
+        .sort((a, b) => (b.metadata?.createdAt || 0) - (a.metadata?.createdAt || 0));
+}
+
+// ============================================================
+// User Template Rendering
+// ============================================================
+
+/**
+ * Substitute `{{name}}` placeholders in a user template.
+ * Supports prompt arguments, `identity.<field>`, `preferences` and `insights`.
+ * Unknown placeholders are left untouched so mistakes are visible to the user.
+ */
+export function renderTemplate(
+    template: string,
+    profile: PortableProfile,
+    args: Record<string, string>
+): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => {
+        if (Object.hasOwn(args, key)) {
+            return args[key];
+        }
+
+        if (key.startsWith('identity.')) {
+            const field = key.slice('identity.'.length) as keyof PortableProfile['identity'];
+            const value = profile.identity[field];
+            return typeof value === 'string' ? value : match;
+        }
+
+        if (key === 'preferences') {
+            return profile.preferences
+                .filter(p => p.isEnabled)
+                .map(p => `- ${p.key}: ${p.value}`)
+                .join('\n');
+        }
+
+        if (key === 'insights') {
+            return (profile.insights || [])
+                .map(i => `- (${i.category}) ${i.content}`)
+                .join('\n');
+        }
+
+        return match;
+    });
+}
+
+/** Permission a user template needs for each profile placeholder it renders */
+const PLACEHOLDER_PERMISSIONS: Record<string, Permission> = {
+    preferences: 'read:preferences',
+    insights: 'read:memories'
+};
+
+/**
+ * Permissions needed to render a user template.
+ * The template text itself is profile data, so `read:identity` is always required;
+ * each profile placeholder adds the permission for the data it expands to.
+ * Placeholders count even when an argument of the same name may fill them,
+ * since an omitted argument falls through to the profile.
+ */
+export function templatePermissions(template: string): Permission[] {
+    const permissions = new Set<Permission>(['read:identity']);
+    for (const [, key] of template.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)) {
+        if (Object.hasOwn(PLACEHOLDER_PERMISSIONS, key)) {
+            permissions.add(PLACEHOLDER_PERMISSIONS[key]);
+        }
+    }
+    return [...permissions];
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * List all prompts: built-ins first, then user templates.
+ * User templates cannot shadow a built-in prompt name.
+ */
+export function listPrompts(profile: PortableProfile): McpPrompt[] {
+    const builtinNames = new Set(BUILTIN_PROMPTS.map(p => p.name));
+
+    const builtins = BUILTIN_PROMPTS.map(({ name, description, arguments: args }) => ({
+        name,
+        description,
+        arguments: args
+    }));
+
+    const userPrompts = (profile.promptTemplates || [])
+        .filter(t => !builtinNames.has(t.name))
+        .map(t => ({
+            name: t.name,
+            description: t.description,
+            arguments: t.arguments
+        }));
+
+    return [...builtins, ...userPrompts];
+}
+
+/**
+ * Find a prompt definition by name.
+ */
+export function findPrompt(profile: PortableProfile, name: string): McpPrompt | null {
+    return listPrompts(profile).find(p => p.name === name) ?? null;
+}
+
+/**
+ * Permissions needed to render a user template, or null for built-in and unknown prompts.
+ */
+export function promptPermissions(profile: PortableProfile, name: string): Permission[] | null {
+    if (BUILTIN_PROMPTS.some(p => p.name === name)) {
+        return null;
+    }
+    const template = (profile.promptTemplates || []).find(t => t.name === name);
+    return template ? templatePermissions(template.template) : null;
+}
+
+/**
+ * Render a prompt against the profile.
+ * Callers are expected to validate required arguments with `findPrompt` first.
+ */
+export function renderPrompt(
+    profile: PortableProfile,
+    name: string,
+    args: Record<string, string> = {}
+): GetPromptResult | null {
+    const builtin = BUILTIN_PROMPTS.find(p => p.name === name);
+    if (builtin) {
+        return {
+            description: builtin.description,
+            messages: [{ role: 'user', content: { type: 'text', text: builtin.render(profile, args) } }]
+        };
+    }
+
+    const template = (profile.promptTemplates || []).find(t => t.name === name);
+    if (template) {
+        return {
+            description: template.description,
+            messages: [{ role: 'user', content: { type: 'text', text: renderTemplate(template.template, profile, args) } }]
+        };
+    }
+
+    return null;
+}
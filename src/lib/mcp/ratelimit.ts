@@ -0,0 +1,158 @@
+/**
+ * MCP Rate Limiting
+ *
+ * Token-bucket limits for remote clients. Every request draws from three
+ * buckets at once - the session, the DID and the client name - so opening
+ * more sessions or rotating tokens does not raise a client's budget.
+ * Read, write and admin operations have separate budgets.
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export type RateLimitTier = 'read' | 'write' | 'admin';
+
+export interface RateLimit {
+    /** Maximum burst size */
+    capacity: number;
+    /** Tokens restored per minute */
+    refillPerMinute: number;
+}
+
+export type RateLimitConfig = Record<RateLimitTier, RateLimit>;
+
+export interface RateLimitSubject {
+    sessionId: string;
+    did: string;
+    client: string;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Bucket that ran out, e.g. `did:did:key:z6Mk...` */
+    key?: string;
+    /** Time until the request would be allowed */
+    retryAfterMs?: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+    read: { capacity: 120, refillPerMinute: 120 },
+    write: { capacity: 30, refillPerMinute: 30 },
+    admin: { capacity: 10, refillPerMinute: 10 }
+};
+
+const TIERS: RateLimitTier[] = ['read', 'write', 'admin'];
+
+/**
+ * Read limits from the environment.
+ * MCP_RATE_LIMIT_READ / _WRITE / _ADMIN set requests per minute for each tier
+ * (the burst equals the per-minute rate). MCP_RATE_LIMIT=off disables limiting.
+ */
+export function rateLimitsFromEnv(env: Record<string, string | undefined> = process.env): RateLimitConfig | null {
+    if (env.MCP_RATE_LIMIT === 'off') {
+        return null;
+    }
+
+    const config = { ...DEFAULT_RATE_LIMITS };
+    for (const tier of TIERS) {
+        const raw = env[`MCP_RATE_LIMIT_${tier.toUpperCase()}`];
+        if (raw === undefined) continue;
+
+        const perMinute = parseInt(raw, 10);
+        if (!Number.isFinite(perMinute) || perMinute <= 0) {
+            throw new Error(`Invalid MCP_RATE_LIMIT_${tier.toUpperCase()}: ${raw}`);
+        }
+        config[tier] = { capacity: perMinute, refillPerMinute: perMinute };
+    }
+    return config;
+}
+
+// ============================================================
+// Token Bucket
+// ============================================================
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+export class RateLimiter {
+    private buckets: Map<string, Bucket> = new Map();
+
+    constructor(
+        private readonly config: RateLimitConfig = DEFAULT_RATE_LIMITS,
+        private readonly now: () => number = Date.now
+    ) { }
+
+    /**
+     * Take one token from each of the subject's buckets for the tier.
+     * Nothing is consumed unless every bucket has a token.
+     */
+    consume(subject: RateLimitSubject, tier: RateLimitTier): RateLimitResult {
+        const limit = this.config[tier];
+        const keys = [
+            `session:${subject.sessionId}`,
+            `did:${subject.did}`,
+            `client:${subject.client}`
+        ];
+
+        const buckets = keys.map(key => this.refill(`${tier}:${key}`, limit));
+        const emptyIndex = buckets.findIndex(b => b.tokens < 1);
+
+        if (emptyIndex !== -1) {
+            const missing = 1 - buckets[emptyIndex].tokens;
+            return {
+                allowed: false,
+                key: keys[emptyIndex],
+                retryAfterMs: Math.ceil((missing * 60000) / limit.refillPerMinute)
+            };
+        }
+
+        for (const bucket of buckets) {
+            bucket.tokens -= 1;
+        }
+        return { allowed: true };
+    }
+
+    /**
+     * Drop a session's buckets (on disconnect).
+     */
+    forgetSession(sessionId: string): void {
+        for (const tier of TIERS) {
+            this.buckets.delete(`${tier}:session:${sessionId}`);
+        }
+    }
+
+    /**
+     * Drop buckets that have refilled completely; they behave like new ones.
+     */
+    prune(): number {
+        let pruned = 0;
+        for (const key of Array.from(this.buckets.keys())) {
+            const tier = key.slice(0, key.indexOf(':')) as RateLimitTier;
+            const limit = this.config[tier];
+            if (this.refill(key, limit).tokens >= limit.capacity) {
+                this.buckets.delete(key);
+                pruned++;
+            }
+        }
+        return pruned;
+    }
+
+    private refill(key: string, limit: RateLimit): Bucket {
+        const now = this.now();
+        let bucket = this.buckets.get(key);
+
+        if (!bucket) {
+            bucket = { tokens: limit.capacity, updatedAt: now };
+            this.buckets.set(key, bucket);
+            return bucket;
+        }
+
+        const elapsed = now - bucket.updatedAt;
+        bucket.tokens = Math.min(limit.capacity, bucket.tokens + (elapsed * limit.refillPerMinute) / 60000);
+        bucket.updatedAt = now;
+        return bucket;
+    }
+}
@@ -0,0 +1,260 @@
+/**
+ * MCP Resource Catalogue
+ *
+ * Static resources and parameterized resource templates exposed by the server,
+ * plus URI matching and parameter validation for the templates.
+ */
+
+import { McpResource, McpResourceTemplate } from './types';
+
+// ============================================================
+// Static Resources
+// ============================================================
+
+export const STATIC_RESOURCES: McpResource[] = [
+    {
+        uri: 'profile://identity',
+        name: 'User Identity',
+        description: 'Basic user information and role',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://preferences',
+        name: 'User Preferences',
+        description: 'Communication style and output preferences',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://memory/recent',
+        name: 'Recent Memory',
+        description: 'Last 20 memory fragments from conversations',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://memory/all',
+        name: 'All Memories',
+        description: 'Complete long-term memory storage',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://insights',
+        name: 'User Insights',
+        description: 'AI-derived insights about user preferences and expertise',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://conversations/recent',
+        name: 'Recent Conversations',
+        description: 'Summary of recent conversations across all providers',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://projects',
+        name: 'Projects',
+        description: 'Projects with their tech stacks and the active project',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://projects/active',
+        name: 'Active Project',
+        description: 'Context for the currently active project',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://stats',
+        name: 'Profile Statistics',
+        description: 'Overview of profile data and sources',
+        mimeType: 'application/json'
+    },
+    {
+        uri: 'profile://audit',
+        name: 'Audit Log',
+        description: 'Audit statistics and the 50 most recent entries (query_audit_log for more)',
+        mimeType: 'application/json'
+    }
+];
+
+// ============================================================
+// Resource Templates
+// ============================================================
+
+export interface TemplateParam {
+    name: string;
+    required: boolean;
+    type?: 'string' | 'integer';
+    enum?: readonly string[];
+    pattern?: RegExp;
+    minimum?: number;
+    maximum?: number;
+}
+
+export interface ResourceTemplateDefinition extends McpResourceTemplate {
+    params: TemplateParam[];
+}
+
+/** Identifiers generated by importers and the MCP tools (conv_..., mem_..., UUIDs) */
+const ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const MEMORY_TYPES = ['technical', 'personal', 'preference', 'fact'] as const;
+const INSIGHT_CATEGORIES = ['preference', 'expertise', 'style', 'project', 'interest'] as const;
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+    {
+        uriTemplate: 'profile://conversations/{id}',
+        name: 'Conversation',
+        description: 'A single archived conversation with all messages',
+        mimeType: 'application/json',
+        params: [{ name: 'id', required: true, pattern: ID_PATTERN }]
+    },
+    {
+        uriTemplate: 'profile://memory/search{?q,limit}',
+        name: 'Memory Search',
+        description: 'Memories whose content or tags match the query',
+        mimeType: 'application/json',
+        params: [
+            { name: 'q', required: true },
+            { name: 'limit', required: false, type: 'integer', minimum: 1, maximum: 100 }
+        ]
+    },
+    {
+        uriTemplate: 'profile://memory/tag/{tag}',
+        name: 'Memories by Tag',
+        description: 'All memories carrying the given tag',
+        mimeType: 'application/json',
+        params: [{ name: 'tag', required: true }]
+    },
+    {
+        uriTemplate: 'profile://memory/type/{type}',
+        name: 'Memories by Type',
+        description: `All memories of one type (${MEMORY_TYPES.join(', ')})`,
+        mimeType: 'application/json',
+        params: [{ name: 'type', required: true, enum: MEMORY_TYPES }]
+    },
+    {
+        uriTemplate: 'profile://insights/{category}',
+        name: 'Insights by Category',
+        description: `Insights in one category (${INSIGHT_CATEGORIES.join(', ')})`,
+        mimeType: 'application/json',
+        params: [{ name: 'category', required: true, enum: INSIGHT_CATEGORIES }]
+    },
+    {
+        uriTemplate: 'profile://projects/{id}',
+        name: 'Project',
+        description: 'A single project context with its tech stack',
+        mimeType: 'application/json',
+        params: [{ name: 'id', required: true, pattern: ID_PATTERN }]
+    }
+];
+
+export interface ResourceTemplateMatch {
+    template: ResourceTemplateDefinition;
+    params: Record<string, string>;
+    errors: string[];
+}
+
+/**
+ * Build a regex for the path part of a template and collect the query parameter names.
+ * Supports simple `{name}` path expansion and `{?a,b}` form-style query expansion.
+ */
+function compileTemplate(uriTemplate: string): { regex: RegExp; pathParams: string[]; queryParams: string[] } {
+    const queryMatch = uriTemplate.match(/\{\?([^}]+)\}$/);
+    const pathTemplate = queryMatch ? uriTemplate.slice(0, queryMatch.index) : uriTemplate;
+    const queryParams = queryMatch ? queryMatch[1].split(',') : [];
+
+    const pathParams: string[] = [];
+    const pattern = pathTemplate
+        .split(/(\{[^}]+\})/)
+        .map(part => {
+            const param = part.match(/^\{([^}]+)\}$/);
+            if (param) {
+                pathParams.push(param[1]);
+                return '([^/?]+)';
+            }
+            return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+
+    return { regex: new RegExp(`^${pattern}${queryParams.length > 0 ? '(?:\\?(.*))?' : ''}$`), pathParams, queryParams };
+}
+
+const COMPILED_TEMPLATES = RESOURCE_TEMPLATES.map(template => ({
+    template,
+    ...compileTemplate(template.uriTemplate)
+}));
+
+function validateParam(spec: TemplateParam, value: string | undefined): string | null {
+    if (value === undefined || value === '') {
+        return spec.required ? `Missing required parameter: ${spec.name}` : null;
+    }
+
+    if (spec.type === 'integer') {
+        if (!/^-?\d+$/.test(value)) {
+            return `Parameter ${spec.name} must be an integer`;
+        }
+        const num = parseInt(value, 10);
+        if (spec.minimum !== undefined && num < spec.minimum) {
+            return `Parameter ${spec.name} must be >= ${spec.minimum}`;
+        }
+        if (spec.maximum !== undefined && num > spec.maximum) {
+            return `Parameter ${spec.name} must be <= ${spec.maximum}`;
+        }
+    }
+
+    if (spec.enum && !spec.enum.includes(value)) {
+        return `Parameter ${spec.name} must be one of: ${spec.enum.join(', ')}`;
+    }
+
+    if (spec.pattern && !spec.pattern.test(value)) {
+        return `Parameter ${spec.name} has an invalid format`;
+    }
+
+    return null;
+}
+
+/**
+ * Check whether a URI is one of the static resources.
+ */
+export function isStaticResource(uri: string): boolean {
+    return STATIC_RESOURCES.some(r => r.uri === uri);
+}
+
+/**
+ * Match a URI against the resource templates and validate its parameters.
+ * Static resources take precedence and never match a template.
+ * Returns null when no template matches.
+ */
+export function matchResourceTemplate(uri: string): ResourceTemplateMatch | null {
+    if (isStaticResource(uri)) {
+        return null;
+    }
+
+    for (const { template, regex, pathParams, queryParams } of COMPILED_TEMPLATES) {
+        const match = uri.match(regex);
+        if (!match) continue;
+
+        const params: Record<string, string> = {};
+        try {
+            pathParams.forEach((name, i) => {
+                params[name] = decodeURIComponent(match[i + 1]);
+            });
+        } catch {
+            return { template, params, errors: ['Malformed percent-encoding in URI'] };
+        }
+
+        if (queryParams.length > 0 && match[pathParams.length + 1]) {
+            const search = new URLSearchParams(match[pathParams.length + 1]);
+            for (const name of queryParams) {
+                const value = search.get(name);
+                if (value !== null) params[name] = value;
+            }
+        }
+
+        const errors = template.params
+            .map(spec => validateParam(spec, params[spec.name]))
+            .filter((e): e is string => e !== null);
+
+        return { template, params, errors };
+    }
+
+    return null;
+}
@@ -0,0 +1,361 @@
+/**
+ * MCP Sampling
+ *
+ * Lets the server borrow the connected client's LLM through
+ * `sampling/createMessage`, to summarize conversations, extract memories and
+ * derive insights. Without it, summaries fall back to keyword lists.
+ *
+ * Sampling sends vault data to the client's model, so it is off unless the
+ * user opts in with MCP_SAMPLING=on, and every request is held to a character
+ * budget for the vault data it carries.
+ */
+
+import { randomUUID } from 'crypto';
+import { Conversation, MemoryFragment, UserInsight } from '../types';
+import { McpResponse, McpServerRequest } from './types';
+import { log } from './config';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SamplingMessage {
+    role: 'user' | 'assistant';
+    content: { type: 'text'; text: string };
+}
+
+export interface CreateMessageParams {
+    messages: SamplingMessage[];
+    systemPrompt?: string;
+    maxTokens: number;
+    temperature?: number;
+    /** The server never asks the client to add its own context */
+    includeContext?: 'none';
+    modelPreferences?: {
+        intelligencePriority?: number;
+        speedPriority?: number;
+        costPriority?: number;
+    };
+}
+
+export interface CreateMessageResult {
+    role: 'assistant';
+    content: { type: 'text'; text: string } | { type: string; [key: string]: unknown };
+    model: string;
+    stopReason?: string;
+}
+
+export interface SamplingConfig {
+    /** Characters of vault data allowed in one request */
+    maxInputChars: number;
+    /** Tokens the client may generate per request */
+    maxTokens: number;
+    /** Sampling requests allowed per tool call */
+    maxRequestsPerCall: number;
+    /** How long to wait for the client (which may ask the user first) */
+    timeoutMs: number;
+}
+
+export const DEFAULT_SAMPLING_CONFIG: SamplingConfig = {
+    maxInputChars: 8000,
+    maxTokens: 512,
+    maxRequestsPerCall: 10,
+    timeoutMs: 120000
+};
+
+/** Sends one sampling request on behalf of a tool call and returns the text reply */
+export type Sampler = (params: Omit<CreateMessageParams, 'maxTokens'> & { maxTokens?: number }) => Promise<string>;
+
+/**
+ * Read sampling settings from the environment. Sampling is disabled (null)
+ * unless MCP_SAMPLING=on. MCP_SAMPLING_MAX_CHARS, MCP_SAMPLING_MAX_TOKENS and
+ * MCP_SAMPLING_MAX_REQUESTS override the budget.
+ */
+export function samplingConfigFromEnv(env: Record<string, string | undefined> = process.env): SamplingConfig | null {
+    if (env.MCP_SAMPLING !== 'on') {
+        return null;
+    }
+
+    const config = { ...DEFAULT_SAMPLING_CONFIG };
+    const overrides: Array<[string, 'maxInputChars' | 'maxTokens' | 'maxRequestsPerCall']> = [
+        ['MCP_SAMPLING_MAX_CHARS', 'maxInputChars'],
+        ['MCP_SAMPLING_MAX_TOKENS', 'maxTokens'],
+        ['MCP_SAMPLING_MAX_REQUESTS', 'maxRequestsPerCall']
+    ];
+    for (const [name, field] of overrides) {
+        const raw = env[name];
+        if (raw === undefined) continue;
+
+        const value = parseInt(raw, 10);
+        if (!Number.isFinite(value) || value <= 0) {
+            throw new Error(`Invalid ${name}: ${raw}`);
+        }
+        config[field] = value;
+    }
+    return config;
+}
+
+// ============================================================
+// Sampling Client
+// ============================================================
+
+/** Key for the single STDIO client, which has no session ID */
+const STDIO_SESSION_KEY = 'stdio';
+
+interface PendingRequest {
+    sessionKey: string;
+    resolve: (result: CreateMessageResult) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+export class SamplingClient {
+    private capable: Set<string> = new Set();
+    // Keyed by `${session}:${requestId}` so only the session that was asked can answer
+    private pending: Map<string, PendingRequest> = new Map();
+
+    constructor(
+        private readonly send: (request: McpServerRequest, sessionId?: string) => Promise<void>,
+        readonly config: SamplingConfig = DEFAULT_SAMPLING_CONFIG
+    ) { }
+
+    /**
+     * Remember whether a client declared the sampling capability in initialize.
+     */
+    setClientCapabilities(sessionId: string | undefined, capabilities: Record<string, unknown> | undefined): void {
+        const key = sessionId ?? STDIO_SESSION_KEY;
+        if (capabilities?.sampling) {
+            this.capable.add(key);
+        } else {
+            this.capable.delete(key);
+        }
+    }
+
+    /**
+     * Drop a disconnected session, failing the requests still waiting on it.
+     */
+    forgetSession(sessionId: string): void {
+        this.capable.delete(sessionId);
+        for (const [key, pending] of Array.from(this.pending.entries())) {
+            if (pending.sessionKey === sessionId) {
+                this.settle(key)?.reject(new Error('Client disconnected'));
+            }
+        }
+    }
+
+    supports(sessionId: string | undefined): boolean {
+        return this.capable.has(sessionId ?? STDIO_SESSION_KEY);
+    }
+
+    /**
+     * Send `sampling/createMessage` to a client and wait for its answer.
+     * Refuses requests that carry more vault data than the budget allows.
+     */
+    async createMessage(sessionId: string | undefined, params: CreateMessageParams): Promise<CreateMessageResult> {
+        if (!this.supports(sessionId)) {
+            throw new Error('Client does not support sampling');
+        }
+
+        const chars = params.messages.reduce((sum, m) => sum + m.content.text.length, 0);
+        if (chars > this.config.maxInputChars) {
+            throw new Error(`Sampling request carries ${chars} characters, budget is ${this.config.maxInputChars}`);
+        }
+
+        // Unguessable, so other clients cannot answer in the caller's place
+        const id = `sampling-${randomUUID()}`;
+        const sessionKey = sessionId ?? STDIO_SESSION_KEY;
+        const key = this.pendingKey(sessionKey, id);
+        const request: McpServerRequest = {
+            jsonrpc: '2.0',
+            id,
+            method: 'sampling/createMessage',
+            params: {
+                ...params,
+                maxTokens: Math.min(params.maxTokens, this.config.maxTokens),
+                includeContext: 'none'
+            }
+        };
+
+        const result = new Promise<CreateMessageResult>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(key);
+                reject(new Error('Sampling request timed out'));
+            }, this.config.timeoutMs);
+            this.pending.set(key, { sessionKey, resolve, reject, timer });
+        });
+
+        try {
+            await this.send(request, sessionId);
+        } catch (error) {
+            this.settle(key);
+            throw error;
+        }
+        return result;
+    }
+
+    /**
+     * Route a client response to the request waiting for it. Returns false if
+     * the response does not answer a sampling request sent to that session.
+     */
+    handleResponse(response: McpResponse, sessionId?: string): boolean {
+        const pending = this.settle(this.pendingKey(sessionId ?? STDIO_SESSION_KEY, String(response.id)));
+        if (!pending) {
+            return false;
+        }
+
+        if (response.error) {
+            pending.reject(new Error(`Client declined sampling: ${response.error.message}`));
+        } else {
+            pending.resolve(response.result as CreateMessageResult);
+        }
+        return true;
+    }
+
+    /**
+     * A Sampler bound to one session, for a single tool call.
+     * Stops after the configured number of requests.
+     */
+    samplerFor(sessionId: string | undefined): Sampler {
+        let used = 0;
+        return async params => {
+            if (used >= this.config.maxRequestsPerCall) {
+                throw new Error(`Sampling budget of ${this.config.maxRequestsPerCall} requests per call is used up`);
+            }
+            used++;
+
+            const result = await this.createMessage(sessionId, { ...params, maxTokens: params.maxTokens ?? this.config.maxTokens });
+            if (result.content.type !== 'text' || typeof result.content.text !== 'string') {
+                throw new Error('Client returned a non-text sampling result');
+            }
+            log('Sampling request completed', { model: result.model, stopReason: result.stopReason });
+            return result.content.text;
+        };
+    }
+
+    private pendingKey(sessionKey: string, requestId: string): string {
+        return `${sessionKey}:${requestId}`;
+    }
+
+    private settle(key: string): PendingRequest | undefined {
+        const pending = this.pending.get(key);
+        if (pending) {
+            clearTimeout(pending.timer);
+            this.pending.delete(key);
+        }
+        return pending;
+    }
+}
+
+// ============================================================
+// Profile Tasks
+// ============================================================
+
+const MEMORY_TYPES: MemoryFragment['type'][] = ['technical', 'personal', 'preference', 'fact'];
+const INSIGHT_CATEGORIES: UserInsight['category'][] = ['preference', 'expertise', 'style', 'project', 'interest'];
+
+export type ExtractedMemory = Pick<MemoryFragment, 'content' | 'type' | 'tags' | 'confidence'>;
+export type GeneratedInsight = Pick<UserInsight, 'category' | 'content' | 'confidence' | 'derivedFrom'>;
+
+/**
+ * Conversation text cut to a character budget. Later messages are dropped,
+ * and a message that does not fit is truncated.
+ */
+export function conversationTranscript(conversation: Conversation, maxChars: number): string {
+    let transcript = `Title: ${conversation.title}\n`;
+    for (const message of conversation.messages) {
+        const line = `${message.role}: ${message.content}\n`;
+        if (transcript.length + line.length > maxChars) {
+            const room = maxChars - transcript.length - '[truncated]'.length;
+            if (room > 0) {
+                transcript += `${line.slice(0, room)}[truncated]`;
+            }
+            break;
+        }
+        transcript += line;
+    }
+    return transcript.slice(0, maxChars);
+}
+
+/** First JSON array in a reply; models like to wrap JSON in prose or code fences */
+function parseJsonArray(text: string): unknown[] {
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    if (start === -1 || end < start) {
+        return [];
+    }
+    try {
+        const parsed = JSON.parse(text.slice(start, end + 1));
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function clampConfidence(value: unknown, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+}
+
+export async function summarizeConversation(sample: Sampler, conversation: Conversation, maxChars: number): Promise<string> {
+    const text = await sample({
+        systemPrompt: 'You summarize conversations between a user and an AI assistant for the user\'s personal profile. Reply with two or three plain sentences and nothing else.',
+        messages: [{ role: 'user', content: { type: 'text', text: conversationTranscript(conversation, maxChars) } }],
+        modelPreferences: { speedPriority: 0.8, costPriority: 0.8 }
+    });
+    return text.trim();
+}
+
+export async function extractMemories(sample: Sampler, conversation: Conversation, maxChars: number): Promise<ExtractedMemory[]> {
+    const text = await sample({
+        systemPrompt: 'Extract durable facts about the user from this conversation: skills, preferences, personal details, ongoing work. '
+            + `Reply with a JSON array of objects {"content": string, "type": one of ${MEMORY_TYPES.join('|')}, "tags": string[], "confidence": 0-1}. `
+            + 'Reply [] if there is nothing worth remembering.',
+        messages: [{ role: 'user', content: { type: 'text', text: conversationTranscript(conversation, maxChars) } }]
+    });
+
+    return parseJsonArray(text)
+        .filter((m): m is Record<string, unknown> => !!m && typeof m === 'object' && typeof (m as { content?: unknown }).content === 'string')
+        .map(m => ({
+            content: (m.content as string).trim(),
+            type: MEMORY_TYPES.includes(m.type as MemoryFragment['type']) ? m.type as MemoryFragment['type'] : 'fact',
+            tags: Array.isArray(m.tags) ? m.tags.filter((t): t is string => typeof t === 'string') : [],
+            confidence: clampConfidence(m.confidence, 0.7)
+        }))
+        .filter(m => m.content.length > 0);
+}
+
+/**
+ * Derive insights from conversation titles and summaries (not full transcripts).
+ */
+export async function generateInsights(sample: Sampler, conversations: Conversation[], maxChars: number): Promise<GeneratedInsight[]> {
+    let digest = '';
+    const included: string[] = [];
+    for (const conversation of conversations) {
+        const line = `[${conversation.id}] ${conversation.title}: ${conversation.summary ?? ''}\n`;
+        if (digest.length + line.length > maxChars) break;
+        digest += line;
+        included.push(conversation.id);
+    }
+    if (included.length === 0) {
+        return [];
+    }
+
+    const text = await sample({
+        systemPrompt: 'From these conversation summaries, infer what characterizes the user. '
+            + `Reply with a JSON array of objects {"category": one of ${INSIGHT_CATEGORIES.join('|')}, "content": string, "confidence": 0-1, "derivedFrom": conversation ids}. `
+            + 'Reply [] if nothing stands out.',
+        messages: [{ role: 'user', content: { type: 'text', text: digest } }]
+    });
+
+    return parseJsonArray(text)
+        .filter((i): i is Record<string, unknown> => !!i && typeof i === 'object'
+            && typeof (i as { content?: unknown }).content === 'string'
+            && INSIGHT_CATEGORIES.includes((i as { category?: unknown }).category as UserInsight['category']))
+        .map(i => ({
+            category: i.category as UserInsight['category'],
+            content: (i.content as string).trim(),
+            confidence: clampConfidence(i.confidence, 0.6),
+            derivedFrom: Array.isArray(i.derivedFrom)
+                ? i.derivedFrom.filter((id): id is string => typeof id === 'string' && included.includes(id))
+                : included
+        }));
+}
@@ -0,0 +1,140 @@
+/**
+ * MCP Tool Argument Validation
+ *
+ * A small JSON Schema validator covering the keywords used by the tool
+ * input schemas in tools.ts. Collects every violation rather than
+ * stopping at the first, so clients can fix all of them in one go.
+ */
+
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    description?: string;
+    default?: unknown;
+    enum?: readonly unknown[];
+    // Objects
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    // Arrays
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    // Strings
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    // Numbers
+    minimum?: number;
+    maximum?: number;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface SchemaViolation {
+    /** Location of the offending value, e.g. `messages[0].role`; empty for the root */
+    path: string;
+    message: string;
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'undefined' {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    if (typeof value === 'object') return 'object';
+    return typeof value as JsonSchemaType | 'undefined';
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+    const actual = typeOf(value);
+    // Every integer is also a number
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function join(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Validate a value against a schema. Returns an empty array if it is valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = ''): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const fail = (message: string) => violations.push({ path, message });
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(t => matchesType(value, t))) {
+            fail(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+            // Further keywords assume the right type
+            return violations;
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        fail(`must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            fail(`must be at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            fail(`must match ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            fail(`must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            fail(`must be <= ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            fail(`must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, i) => violations.push(...validateSchema(item, schema.items!, join(path, i))));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const obj = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (obj[key] === undefined) {
+                violations.push({ path: join(path, key), message: 'is required' });
+            }
+        }
+        for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+            if (obj[key] !== undefined) {
+                violations.push(...validateSchema(obj[key], propSchema, join(path, key)));
+            }
+        }
+        if (schema.additionalProperties === false) {
+            for (const key of Object.keys(obj)) {
+                if (!schema.properties || !(key in schema.properties)) {
+                    violations.push({ path: join(path, key), message: 'is not allowed' });
+                }
+            }
+        }
+    }
+
+    return violations;
+}
+
+/**
+ * Render violations as a single message, e.g. `limit must be <= 100; query is required`.
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+    return violations.map(v => (v.path ? `${v.path} ${v.message}` : v.message)).join('; ');
+}
@@ -5,46 +5,125 @@
  * Enhanced with JWT authentication and audit logging.
  */
 
-import { ProfileVault } from './vault';
+import { ProfileVault, ProfileSection, PersonaContext } from './vault';
 import {
     McpRequest,
     McpResponse,
+    TransportMode,
     InitializeRequest,
+    CancelledNotification,
+    SetLevelRequest,
     ListResourcesRequest,
+    ListResourceTemplatesRequest,
     ReadResourceRequest,
+    SubscribeRequest,
+    UnsubscribeRequest,
     ListToolsRequest,
     CallToolRequest,
-    ListPromptsRequest
+    ListPromptsRequest,
+    GetPromptRequest,
+    UnlockVaultRequest,
+    CallToolResult
 } from './types';
-import { McpTransport, createTransport, SseTransport } from './transports';
+import { McpTransport, createTransport } from './transports';
 import { TRANSPORT_MODE, SSE_PORT, VAULT_PATH, log, logError, logAudit } from './config';
-import { McpAuthMiddleware, createAuthMiddleware } from './auth';
+import { McpAuthMiddleware, AuthorizationResult, createAuthMiddleware } from './auth';
+import { rateLimitsFromEnv } from './ratelimit';
 import { getAuditLogger, AuditLogger } from './audit';
+import { AnomalyDetector, anomalyConfigFromEnv } from './anomaly';
+import { SamplingClient, samplingConfigFromEnv } from './sampling';
+import { LogForwarder, MCP_LOG_LEVELS, isMcpLogLevel } from './logging';
+import { writeReviewFromEnv } from './inbox';
+import { SubscriptionManager } from './subscriptions';
+import { VaultUnlockCredentials } from './store';
+import { TOOL_DEFINITIONS, findTool, isToolError, toolError } from './tools';
+import { JsonSchema, validateSchema, formatViolations } from './schema';
+import { STATIC_RESOURCES, RESOURCE_TEMPLATES, isStaticResource, matchResourceTemplate } from './resources';
+
+/** Subscription key for the single STDIO client (which has no transport session ID) */
+const STDIO_SESSION_KEY = 'stdio';
+
+/** JSON-RPC error returned for profile data requests while the vault is locked */
+const VAULT_LOCKED_ERROR = -32003;
+
+/** JSON-RPC error for requests refused by the rate limiter (the HTTP 429 equivalent) */
+const RATE_LIMITED_ERROR = -32029;
+
+/** Methods that read or write profile data and therefore need an unlocked vault */
+const VAULT_METHODS = new Set([
+    'resources/read',
+    'resources/subscribe',
+    'tools/call',
+    'prompts/get'
+]);
 
 export class ProfileMcpServer {
     private vault: ProfileVault;
     private transport: McpTransport;
     private authMiddleware: McpAuthMiddleware | null = null;
     private auditLogger: AuditLogger;
-    private transportMode: 'stdio' | 'sse';
-
-    constructor(vault: ProfileVault, transport: McpTransport, transportMode: 'stdio' | 'sse' = 'stdio') {
+    private transportMode: TransportMode;
+    private subscriptions = new SubscriptionManager();
+    private anomalyDetector: AnomalyDetector | null = null;
+    /** Tool calls that can still be cancelled, by session and request ID */
+    private inFlight: Map<string, AbortController> = new Map();
+    private logForwarder: LogForwarder;
+    /** Null unless sampling was enabled with MCP_SAMPLING=on */
+    private sampling: SamplingClient | null = null;
+    /** Hold remote writes for review (MCP_WRITE_REVIEW=on) */
+    private writeReview = writeReviewFromEnv();
+
+    constructor(vault: ProfileVault, transport: McpTransport, transportMode: TransportMode = 'stdio') {
         this.vault = vault;
         this.transport = transport;
         this.transportMode = transportMode;
         this.auditLogger = getAuditLogger();
 
-        // Create auth middleware (STDIO is trusted, SSE requires auth)
+        // Create auth middleware (STDIO is trusted, SSE and HTTP require auth)
         this.authMiddleware = createAuthMiddleware({
             transport: transportMode,
-            auditLogger: this.auditLogger
+            auditLogger: this.auditLogger,
+            rateLimits: rateLimitsFromEnv()
         });
 
-        // Attach auth middleware to SSE transport
-        if (transportMode === 'sse' && transport.setAuthMiddleware) {
+        // Attach auth middleware to remote transports
+        if (transportMode !== 'stdio' && transport.setAuthMiddleware) {
             transport.setAuthMiddleware(this.authMiddleware);
         }
 
+        // Tokens revoked through the token service are refused on every authentication
+        this.authMiddleware.setTokenDenylist({
+            isRevoked: jti => this.vault.tokenService?.isRevoked(jti) ?? false
+        });
+        transport.setTokenRefresher?.(refreshToken => this.vault.refreshToken(refreshToken));
+
+        const anomalyConfig = transportMode !== 'stdio' ? anomalyConfigFromEnv() : null;
+        if (anomalyConfig) {
+            const authMiddleware = this.authMiddleware;
+            this.anomalyDetector = new AnomalyDetector({
+                auditLogger: this.auditLogger,
+                onAnomaly: alert => anomalyConfig.suspendOn.includes(alert.severity) && !!alert.sessionId
+                    && authMiddleware.suspendSession(alert.sessionId, alert.reason)
+            });
+            this.anomalyDetector.start();
+        }
+
+        this.logForwarder = new LogForwarder((notification, sessionId) => this.transport.notify(notification, sessionId));
+
+        const samplingConfig = samplingConfigFromEnv();
+        if (samplingConfig) {
+            this.sampling = new SamplingClient((request, sessionId) => this.transport.notify(request, sessionId), samplingConfig);
+        }
+
+        this.vault.onChange(sections => {
+            if (sections.includes('grants')) {
+                this.applyRevokedGrants();
+            }
+            this.notifyResourceUpdates(sections).catch(err =>
+                logError('Failed to send resource updates', { error: (err as Error).message })
+            );
+        });
+
         log('Server logic initialized', { transport: transportMode, authEnabled: !!this.authMiddleware });
     }
 
@@ -74,6 +153,14 @@ export class ProfileMcpServer {
     }
 
     async start() {
+        this.transport.onSessionClosed?.(sessionId => {
+            this.subscriptions.removeSession(sessionId);
+            this.sampling?.forgetSession(sessionId);
+            this.logForwarder.forgetSession(sessionId);
+            this.vault.endSession(sessionId)
+                .catch(err => logError('Failed to end session transcript', { sessionId, error: (err as Error).message }));
+        });
+        this.logForwarder.attach();
         await this.transport.start((req, sessionId) => this.handleRequest(req, sessionId));
 
         // Start session cleanup interval (clean sessions older than 1 hour)
@@ -87,36 +174,79 @@ export class ProfileMcpServer {
     private async handleRequest(req: McpRequest, sessionId?: string) {
         log('Received MCP Request', { method: req.method, id: req.id, sessionId });
 
+        // Client responses to server-initiated requests carry no method
+        if (!req.method) {
+            const response = req as unknown as McpResponse;
+            if (!this.sampling?.handleResponse(response, sessionId)) {
+                log('Ignoring response to unknown request', { id: response.id, sessionId });
+            }
+            return;
+        }
+
+        if (VAULT_METHODS.has(req.method) && this.vault.isLocked) {
+            return this.sendError(
+                req.id,
+                VAULT_LOCKED_ERROR,
+                'Vault is locked. Unlock it with vault/unlock or the PROFILE_VAULT_* environment variables.',
+                sessionId
+            );
+        }
+
         try {
             switch (req.method) {
                 case 'initialize':
-                    return this.handleInitialize(req as InitializeRequest);
+                    return this.handleInitialize(req as InitializeRequest, sessionId);
                 case 'notifications/initialized':
                     return; // Acknowledgment, no response needed
+                case 'notifications/cancelled':
+                    return this.handleCancelled(req as CancelledNotification, sessionId);
+                case 'logging/setLevel':
+                    return this.handleSetLevel(req as SetLevelRequest, sessionId);
                 case 'resources/list':
-                    return this.handleResourcesList(req as ListResourcesRequest);
+                    return this.handleResourcesList(req as ListResourcesRequest, sessionId);
+                case 'resources/templates/list':
+                    return this.handleResourceTemplatesList(req as ListResourceTemplatesRequest, sessionId);
                 case 'resources/read':
                     return this.handleResourcesRead(req as ReadResourceRequest, sessionId);
+                case 'resources/subscribe':
+                    return this.handleResourcesSubscribe(req as SubscribeRequest, sessionId);
+                case 'resources/unsubscribe':
+                    return this.handleResourcesUnsubscribe(req as UnsubscribeRequest, sessionId);
                 case 'tools/list':
-                    return this.handleToolsList(req as ListToolsRequest);
+                    return this.handleToolsList(req as ListToolsRequest, sessionId);
                 case 'tools/call':
                     return this.handleToolsCall(req as CallToolRequest, sessionId);
                 case 'prompts/list':
-                    return this.handlePromptsList(req as ListPromptsRequest);
+                    return this.handlePromptsList(req as ListPromptsRequest, sessionId);
+                case 'prompts/get':
+                    return this.handlePromptsGet(req as GetPromptRequest, sessionId);
+                case 'vault/unlock':
+                    return this.handleVaultUnlock(req as UnlockVaultRequest, sessionId);
                 default:
                     const unknownReq = req as any;
-                    await this.sendError(unknownReq.id, -32601, `Method not found: ${unknownReq.method}`);
+                    await this.sendError(unknownReq.id, -32601, `Method not found: ${unknownReq.method}`, sessionId);
             }
         } catch (error) {
-            await this.sendError(req.id, -32603, (error as Error).message);
+            await this.sendError(req.id, -32603, (error as Error).message, sessionId);
         }
     }
 
+    /**
+     * The connection a request came in on and the persona its credentials
+     * bind it to, for reads the vault scopes to a persona.
+     */
+    private personaContext(sessionId?: string): PersonaContext {
+        const caller = this.authMiddleware && this.transportMode !== 'stdio'
+            ? this.authMiddleware.getSession(this.getAuthSessionId(sessionId))
+            : undefined;
+        return { connectionId: sessionId ?? STDIO_SESSION_KEY, persona: caller?.persona };
+    }
+
     /**
      * Get or create an auth session ID for authorization.
-     * For STDIO, creates a local session. For SSE, uses the provided session.
+     * For STDIO, creates a local session. For remote transports, maps the transport session.
      */
-    private getAuthSessionId(sseSessionId?: string): string {
+    private getAuthSessionId(sessionId?: string): string {
         if (this.transportMode === 'stdio') {
             // For STDIO, create a local session if we don't have one
             const sessions = this.authMiddleware?.getActiveSessions() || [];
@@ -129,106 +259,102 @@ export class ProfileMcpServer {
             return 'local-session';
         }
 
-        // For SSE, we need to map the SSE session ID to the auth session ID
-        if (sseSessionId && this.transport instanceof SseTransport) {
-            const authSession = (this.transport as SseTransport).getAuthSession(sseSessionId);
+        // Map the transport session ID to the auth session ID
+        if (sessionId && this.transport.getAuthSession) {
+            const authSession = this.transport.getAuthSession(sessionId);
             if (authSession) {
                 return authSession.sessionId;
             }
         }
 
-        return sseSessionId || 'unknown';
+        return sessionId || 'unknown';
     }
 
     // --- Protocol Handlers ---
 
-    private async handleInitialize(req: InitializeRequest) {
+    private async handleInitialize(req: InitializeRequest, sessionId?: string) {
+        this.sampling?.setClientCapabilities(sessionId, req.params?.capabilities);
+
         await this.sendResponse(req.id, {
             protocolVersion: '2024-11-05',
             capabilities: {
                 resources: {
-                    subscribe: false,
+                    subscribe: true,
                     listChanged: false
                 },
                 tools: {},
-                prompts: {}
+                prompts: {},
+                logging: {}
             },
             serverInfo: {
                 name: 'profile-context-protocol',
                 version: '1.0.0',
                 description: 'User\'s portable AI profile with conversation history and preferences'
             }
-        });
+        }, sessionId);
     }
 
-    private async handleResourcesList(req: ListResourcesRequest) {
-        const resources = [
-            {
-                uri: 'profile://identity',
-                name: 'User Identity',
-                description: 'Basic user information and role',
-                mimeType: 'application/json'
-            },
-            {
-                uri: 'profile://preferences',
-                name: 'User Preferences',
-                description: 'Communication style and output preferences',
-                mimeType: 'application/json'
-            },
-            {
-                uri: 'profile://memory/recent',
-                name: 'Recent Memory',
-                description: 'Last 20 memory fragments from conversations',
-                mimeType: 'application/json'
-            },
-            {
-                uri: 'profile://memory/all',
-                name: 'All Memories',
-                description: 'Complete long-term memory storage',
-                mimeType: 'application/json'
-            },
-            {
-                uri: 'profile://insights',
-                name: 'User Insights',
-                description: 'AI-derived insights about user preferences and expertise',
-                mimeType: 'application/json'
-            },
-            {
-                uri: 'profile://conversations/recent',
-                name: 'Recent Conversations',
-                description: 'Summary of recent conversations across all providers',
-                mimeType: 'application/json'
-            },
-            {
-                uri: 'profile://stats',
-                name: 'Profile Statistics',
-                description: 'Overview of profile data and sources',
-                mimeType: 'application/json'
-            }
-        ];
+    private async handleResourcesList(req: ListResourcesRequest, sessionId?: string) {
+        await this.sendResponse(req.id, { resources: STATIC_RESOURCES }, sessionId);
+    }
+
+    private async handleResourceTemplatesList(req: ListResourceTemplatesRequest, sessionId?: string) {
+        const resourceTemplates = RESOURCE_TEMPLATES.map(({ uriTemplate, name, description, mimeType }) => ({
+            uriTemplate,
+            name,
+            description,
+            mimeType
+        }));
 
-        await this.sendResponse(req.id, { resources });
+        await this.sendResponse(req.id, { resourceTemplates }, sessionId);
     }
 
-    private async handleResourcesRead(req: ReadResourceRequest, sseSessionId?: string) {
+    /**
+     * Check that a URI names a known resource with valid parameters.
+     * Sends the JSON-RPC error and returns false if it does not.
+     */
+    private async validateResourceUri(id: number | string, uri: string, sessionId?: string): Promise<boolean> {
+        if (isStaticResource(uri)) {
+            return true;
+        }
+
+        const match = matchResourceTemplate(uri);
+        if (!match) {
+            await this.sendError(id, -32002, `Resource not found: ${uri}`, sessionId);
+            return false;
+        }
+
+        if (match.errors.length > 0) {
+            await this.sendError(id, -32602, `Invalid resource parameters: ${match.errors.join('; ')}`, sessionId);
+            return false;
+        }
+
+        return true;
+    }
+
+    private async handleResourcesRead(req: ReadResourceRequest, sessionId?: string) {
         const { uri } = req.params || {};
 
         if (!uri) {
-            return this.sendError(req.id, -32602, 'Missing uri parameter');
+            return this.sendError(req.id, -32602, 'Missing uri parameter', sessionId);
+        }
+
+        if (!(await this.validateResourceUri(req.id, uri, sessionId))) {
+            return;
         }
 
-        // Authorization check (for SSE transport)
-        if (this.authMiddleware && this.transportMode === 'sse') {
-            const authSessionId = this.getAuthSessionId(sseSessionId);
+        // Authorization check (for remote transports)
+        if (this.authMiddleware && this.transportMode !== 'stdio') {
+            const authSessionId = this.getAuthSessionId(sessionId);
             const authResult = await this.authMiddleware.authorizeResourceRead(authSessionId, uri);
 
             if (!authResult.authorized) {
                 logError('Resource read denied', { uri, reason: authResult.reason });
-                return this.sendError(req.id, -32600, authResult.reason || 'Authorization denied');
+                return this.sendAuthorizationError(req.id, authResult, sessionId);
             }
         }
 
-        const content = await this.vault.readResource(uri);
+        const content = await this.vault.readResource(uri, this.personaContext(sessionId));
 
         await this.sendResponse(req.id, {
             contents: [{
@@ -236,136 +362,84 @@ export class ProfileMcpServer {
                 mimeType: 'application/json',
                 text: JSON.stringify(content, null, 2)
             }]
-        });
+        }, sessionId);
     }
 
-    private async handleToolsList(req: ListToolsRequest) {
-        const tools = [
-            {
-                name: 'search_memory',
-                description: 'Search the user\'s long-term memory for relevant context.',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        query: { type: 'string', description: 'Search query' },
-                        limit: { type: 'integer', description: 'Max results', default: 10 }
-                    },
-                    required: ['query']
-                }
-            },
-            {
-                name: 'add_memory',
-                description: 'Store a new insight or fact about the user.',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        content: { type: 'string', description: 'The insight to remember' },
-                        tags: { type: 'array', items: { type: 'string' } },
-                        type: { type: 'string', enum: ['technical', 'personal', 'preference', 'fact'] }
-                    },
-                    required: ['content']
-                }
-            },
-            {
-                name: 'archive_conversation',
-                description: 'Archive the current conversation into the Profile Vault.',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        title: { type: 'string', description: 'Conversation title' },
-                        messages: {
-                            type: 'array',
-                            items: {
-                                type: 'object',
-                                properties: {
-                                    role: { type: 'string' },
-                                    content: { type: 'string' },
-                                    timestamp: { type: 'number' }
-                                }
-                            }
-                        },
-                        summary: { type: 'string', description: 'Brief summary' }
-                    },
-                    required: ['title', 'messages']
-                }
-            },
-            {
-                name: 'toggle_auto_archive',
-                description: 'Enable or disable automatic archiving.',
-                inputSchema: {
-                    type: 'object',
-                    properties: { enabled: { type: 'boolean' } },
-                    required: ['enabled']
-                }
-            },
-            {
-                name: 'toggle_auto_sync',
-                description: 'Enable or disable automatic cloud sync.',
-                inputSchema: {
-                    type: 'object',
-                    properties: { enabled: { type: 'boolean' } },
-                    required: ['enabled']
-                }
-            },
-            {
-                name: 'sync_vault',
-                description: 'Trigger a manual sync to Cloud (IPFS).',
-                inputSchema: { type: 'object', properties: {} }
-            },
-            {
-                name: 'analyze_vault',
-                description: 'Analyzes the vault for topics and duplicates.',
-                inputSchema: { type: 'object', properties: {} }
-            },
-            {
-                name: 'grant_access',
-                description: 'Generate a signed Access Grant.',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        grantee: { type: 'string' },
-                        permissions: { type: 'array', items: { type: 'string' } },
-                        durationSeconds: { type: 'number' }
-                    },
-                    required: ['grantee']
-                }
-            },
-            {
-                name: 'get_context_for_task',
-                description: 'Get relevant background context for a specific task.',
-                inputSchema: {
-                    type: 'object',
-                    properties: { task_description: { type: 'string' } },
-                    required: ['task_description']
-                }
-            },
-            {
-                name: 'get_conversation_history',
-                description: 'Retrieve past conversations on a specific topic.',
-                inputSchema: {
-                    type: 'object',
-                    properties: {
-                        topic: { type: 'string' },
-                        provider: { type: 'string', enum: ['openai', 'anthropic', 'google', 'all'] }
-                    },
-                    required: ['topic']
-                }
+    private async handleResourcesSubscribe(req: SubscribeRequest, sessionId?: string) {
+        const { uri } = req.params || {};
+
+        if (!uri) {
+            return this.sendError(req.id, -32602, 'Missing uri parameter', sessionId);
+        }
+
+        if (!(await this.validateResourceUri(req.id, uri, sessionId))) {
+            return;
+        }
+
+        // Subscribing leaks the same data as reading, so it needs the same permission
+        if (this.authMiddleware && this.transportMode !== 'stdio') {
+            const authSessionId = this.getAuthSessionId(sessionId);
+            const authResult = await this.authMiddleware.authorizeResourceRead(authSessionId, uri);
+
+            if (!authResult.authorized) {
+                logError('Resource subscription denied', { uri, reason: authResult.reason });
+                return this.sendAuthorizationError(req.id, authResult, sessionId);
             }
-        ];
+        }
 
-        await this.sendResponse(req.id, { tools });
+        this.subscriptions.subscribe(sessionId ?? STDIO_SESSION_KEY, uri);
+        log('Resource subscribed', { uri, sessionId: sessionId });
+
+        // Start watching only once someone cares about updates
+        this.vault.watchForExternalChanges();
+
+        await this.sendResponse(req.id, {}, sessionId);
+    }
+
+    private async handleResourcesUnsubscribe(req: UnsubscribeRequest, sessionId?: string) {
+        const { uri } = req.params || {};
+
+        if (!uri) {
+            return this.sendError(req.id, -32602, 'Missing uri parameter', sessionId);
+        }
+
+        this.subscriptions.unsubscribe(sessionId ?? STDIO_SESSION_KEY, uri);
+        log('Resource unsubscribed', { uri, sessionId: sessionId });
+
+        await this.sendResponse(req.id, {}, sessionId);
+    }
+
+    /**
+     * Push notifications/resources/updated to every session subscribed to an affected resource.
+     */
+    private async notifyResourceUpdates(sections: ProfileSection[]) {
+        for (const { sessionId, uri } of this.subscriptions.getAffected(sections)) {
+            await this.transport.notify(
+                { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } },
+                sessionId === STDIO_SESSION_KEY ? undefined : sessionId
+            );
+        }
     }
 
-    private async handleToolsCall(req: CallToolRequest, sseSessionId?: string) {
+    private async handleToolsList(req: ListToolsRequest, sessionId?: string) {
+        await this.sendResponse(req.id, { tools: TOOL_DEFINITIONS }, sessionId);
+    }
+
+    private async handleToolsCall(req: CallToolRequest, sessionId?: string) {
         const { name, arguments: args } = req.params || {};
 
         if (!name) {
-            return this.sendError(req.id, -32602, 'Missing tool name');
+            return this.sendError(req.id, -32602, 'Missing tool name', sessionId);
+        }
+
+        const tool = findTool(name);
+        if (!tool) {
+            return this.sendError(req.id, -32602, `Unknown tool: ${name}`, sessionId);
         }
 
-        // Authorization check (for SSE transport)
-        if (this.authMiddleware && this.transportMode === 'sse') {
-            const authSessionId = this.getAuthSessionId(sseSessionId);
+        // Authorization check (for remote transports)
+        if (this.authMiddleware && this.transportMode !== 'stdio') {
+            const authSessionId = this.getAuthSessionId(sessionId);
             const authResult = await this.authMiddleware.authorizeToolCall(
                 authSessionId,
                 name,
@@ -374,50 +448,282 @@ export class ProfileMcpServer {
 
             if (!authResult.authorized) {
                 logError('Tool call denied', { name, reason: authResult.reason });
-                return this.sendError(req.id, -32600, authResult.reason || 'Authorization denied');
+                return this.sendAuthorizationError(req.id, authResult, sessionId);
+            }
+        }
+
+        // Validate against the declared input schema before dispatch
+        const violations = validateSchema(args ?? {}, tool.inputSchema as JsonSchema);
+        if (violations.length > 0) {
+            return this.sendError(
+                req.id,
+                -32602,
+                `Invalid arguments for ${name}: ${formatViolations(violations)}`,
+                sessionId,
+                { violations }
+            );
+        }
+
+        // Debug logs are forwarded to clients, so argument values (memory content, queries) stay out
+        log('Executing tool', { name, arguments: Object.keys(args ?? {}) });
+        const progressToken = req.params._meta?.progressToken;
+        const progress = progressToken !== undefined
+            ? (progress: number, total?: number, message?: string) => {
+                this.transport.notify({
+                    jsonrpc: '2.0',
+                    method: 'notifications/progress',
+                    params: { progressToken, progress, total, message }
+                }, sessionId).catch(err => logError('Failed to send progress', { error: (err as Error).message }));
             }
+            : undefined;
+
+        const inFlightKey = this.inFlightKey(req.id, sessionId);
+        const controller = new AbortController();
+        this.inFlight.set(inFlightKey, controller);
+
+        let result: unknown;
+        try {
+            const sampling = this.sampling?.supports(sessionId)
+                ? { sample: this.sampling.samplerFor(sessionId), maxInputChars: this.sampling.config.maxInputChars }
+                : undefined;
+            // Writes from non-local sessions may be held for review
+            const caller = this.authMiddleware && this.transportMode !== 'stdio'
+                ? this.authMiddleware.getSession(this.getAuthSessionId(sessionId))
+                : undefined;
+            const remoteClient = caller && caller.did !== 'local' ? caller.client : undefined;
+            result = await this.vault.callTool(name, args || {}, {
+                sessionId: this.getAuthSessionId(sessionId),
+                connectionId: sessionId ?? STDIO_SESSION_KEY,
+                persona: caller?.persona,
+                scope: caller?.scope,
+                client: remoteClient,
+                reviewWrites: this.writeReview && remoteClient !== undefined,
+                sampling,
+                progress,
+                signal: controller.signal
+            });
+        } catch (error) {
+            result = toolError('internal_error', (error as Error).message);
+        } finally {
+            this.inFlight.delete(inFlightKey);
         }
 
-        log('Executing tool', { name, args });
-        const result = await this.vault.callTool(name, args || {});
-        logAudit('Tool executed', { name, success: !('error' in (result as any)) });
+        // A cancelled request gets no response
+        if (controller.signal.aborted) {
+            logAudit('Tool cancelled', { name, reason: String(controller.signal.reason) });
+            return;
+        }
 
-        await this.sendResponse(req.id, {
+        const code = isToolError(result) ? result.code : undefined;
+        logAudit('Tool executed', { name, success: !code, code });
+
+        await this.sendResponse(req.id, this.toCallToolResult(result), sessionId);
+    }
+
+    /**
+     * Opt a client in to log notifications at or above a level. Server logs
+     * can describe other sessions' activity, so remote clients need admin:audit.
+     */
+    private async handleSetLevel(req: SetLevelRequest, sessionId?: string) {
+        const level = req.params?.level;
+        if (!isMcpLogLevel(level)) {
+            return this.sendError(req.id, -32602, `Invalid level: must be one of ${MCP_LOG_LEVELS.join(', ')}`, sessionId);
+        }
+
+        if (this.authMiddleware && this.transportMode !== 'stdio') {
+            const session = this.authMiddleware.getSession(this.getAuthSessionId(sessionId));
+            if (!session || !(session.scope.includes('*') || session.scope.includes('admin:audit'))) {
+                return this.sendError(req.id, -32600, 'Permission denied: admin:audit required', sessionId);
+            }
+        }
+
+        this.logForwarder.setLevel(sessionId, level);
+        await this.sendResponse(req.id, {}, sessionId);
+    }
+
+    /**
+     * Stop an in-flight tool call the client no longer wants answered.
+     * Unknown or finished requests are ignored, as the cancellation may race the response.
+     */
+    private handleCancelled(req: CancelledNotification, sessionId?: string) {
+        const requestId = req.params?.requestId;
+        if (requestId === undefined) return;
+
+        const controller = this.inFlight.get(this.inFlightKey(requestId, sessionId));
+        if (controller) {
+            log('Cancelling request', { requestId, reason: req.params.reason, sessionId });
+            controller.abort(req.params.reason ?? 'Cancelled by client');
+        }
+    }
+
+    private inFlightKey(requestId: string | number, sessionId?: string): string {
+        return `${sessionId ?? STDIO_SESSION_KEY}:${requestId}`;
+    }
+
+    /**
+     * Wrap a tool result for tools/call: structured content plus a text copy
+     * for clients that predate structuredContent.
+     */
+    private toCallToolResult(result: unknown): CallToolResult {
+        const structured = (typeof result === 'object' && result !== null && !Array.isArray(result))
+            ? result as Record<string, unknown>
+            : { result: result ?? null };
+
+        return {
             content: [{
                 type: 'text',
-                text: JSON.stringify(result, null, 2)
-            }]
-        });
+                text: JSON.stringify(structured, null, 2)
+            }],
+            structuredContent: structured,
+            ...(isToolError(result) && { isError: true })
+        };
     }
 
-    private async handlePromptsList(req: ListPromptsRequest) {
-        const prompts = [
-            {
-                name: 'introduce_user',
-                description: 'Get an introduction to the user',
-                arguments: []
-            },
-            {
-                name: 'summarize_history',
-                description: 'Summarize history on a topic',
-                arguments: [{ name: 'topic', description: 'Topic', required: true }]
+    private async handlePromptsList(req: ListPromptsRequest, sessionId?: string) {
+        await this.sendResponse(req.id, { prompts: this.vault.listPrompts(this.personaContext(sessionId)) }, sessionId);
+    }
+
+    private async handlePromptsGet(req: GetPromptRequest, sessionId?: string) {
+        const { name, arguments: args = {} } = req.params || {};
+
+        if (!name) {
+            return this.sendError(req.id, -32602, 'Missing prompt name', sessionId);
+        }
+
+        const prompt = this.vault.findPrompt(name, this.personaContext(sessionId));
+        if (!prompt) {
+            return this.sendError(req.id, -32602, `Unknown prompt: ${name}`, sessionId);
+        }
+
+        const missing = prompt.arguments
+            .filter(a => a.required && !(typeof args[a.name] === 'string' && args[a.name].trim()))
+            .map(a => a.name);
+        if (missing.length > 0) {
+            return this.sendError(req.id, -32602, `Missing required arguments: ${missing.join(', ')}`, sessionId);
+        }
+
+        // Authorization check (for remote transports)
+        if (this.authMiddleware && this.transportMode !== 'stdio') {
+            const authSessionId = this.getAuthSessionId(sessionId);
+            const authResult = await this.authMiddleware.authorizePromptGet(
+                authSessionId,
+                name,
+                this.vault.getPromptPermissions(name, this.personaContext(sessionId))
+            );
+
+            if (!authResult.authorized) {
+                logError('Prompt denied', { name, reason: authResult.reason });
+                return this.sendAuthorizationError(req.id, authResult, sessionId);
+            }
+        }
+
+        const result = this.vault.getPrompt(name, args, this.personaContext(sessionId));
+        if (!result) {
+            return this.sendError(req.id, -32602, `Unknown prompt: ${name}`, sessionId);
+        }
+
+        log('Prompt rendered', { name });
+        await this.sendResponse(req.id, result, sessionId);
+    }
+
+    // --- Vault Unlock ---
+
+    /**
+     * Pass the keys of a freshly unlocked vault to the auth middleware.
+     */
+    private configureAuth(result: { did: string | null; jwtPublicKey: string | null }): void {
+        if (result.jwtPublicKey) {
+            this.setJwtPublicKey(result.jwtPublicKey);
+        }
+        if (result.did && this.authMiddleware) {
+            this.authMiddleware.setOwnerDid(result.did);
+        }
+        // The persisted audit log is loaded on unlock; it is the detector's baseline
+        this.anomalyDetector?.learnHistory();
+        this.applyRevokedGrants();
+    }
+
+    /**
+     * Refuse the grants revoked in the vault, whether by revoke_grant here or
+     * by another process writing the vault file.
+     */
+    private applyRevokedGrants(): void {
+        for (const grantId of this.vault.revokedGrantIds) {
+            if (this.authMiddleware && !this.authMiddleware.isGrantRevoked(grantId)) {
+                this.authMiddleware.revokeGrant(grantId);
             }
-        ];
+        }
+    }
+
+    /**
+     * Unlock the vault from the environment, if credentials are configured.
+     * Otherwise the vault stays locked until a client sends vault/unlock.
+     */
+    async unlockFromEnv(): Promise<boolean> {
+        const result = await this.vault.unlockFromEnv();
+        if (!result) {
+            log('Vault is locked; waiting for vault/unlock');
+            return false;
+        }
+        this.configureAuth(result);
+        return true;
+    }
+
+    private async handleVaultUnlock(req: UnlockVaultRequest, sessionId?: string) {
+        // Remote callers need admin:settings, and repeated failures are throttled
+        const authSessionId = this.getAuthSessionId(sessionId);
+        if (this.authMiddleware && this.transportMode !== 'stdio') {
+            const authResult = this.authMiddleware.authorizeUnlock(authSessionId);
+            if (!authResult.authorized) {
+                logError('Vault unlock denied', { reason: authResult.reason });
+                return this.sendAuthorizationError(req.id, authResult, sessionId);
+            }
+        }
 
-        await this.sendResponse(req.id, { prompts });
+        const { mnemonic, password, key } = req.params || {};
+
+        let credentials: VaultUnlockCredentials;
+        if (typeof key === 'string' && key) {
+            credentials = { key };
+        } else if (typeof mnemonic === 'string' && typeof password === 'string' && mnemonic && password) {
+            credentials = { mnemonic, password };
+        } else {
+            return this.sendError(req.id, -32602, 'Provide either key, or mnemonic and password', sessionId);
+        }
+
+        try {
+            const result = await this.vault.unlock(credentials);
+            this.configureAuth(result);
+            await this.sendResponse(req.id, { unlocked: true, did: result.did }, sessionId);
+        } catch (error) {
+            // Never echo credentials; the store's messages do not include them
+            logAudit('MCP vault unlock failed', { reason: (error as Error).message, sessionId });
+            this.authMiddleware?.recordUnlockFailure(authSessionId);
+            await this.sendError(req.id, -32602, `Unlock failed: ${(error as Error).message}`, sessionId);
+        }
     }
 
     // --- Response Helpers ---
 
-    private async sendResponse(id: number | string, result: any) {
+    private async sendResponse(id: number | string, result: any, sessionId?: string) {
         const msg: McpResponse = { jsonrpc: '2.0', id, result };
-        await this.transport.send(msg);
+        await this.transport.send(msg, sessionId);
         log('Response sent', { id });
     }
 
-    private async sendError(id: number | string, code: number, message: string) {
-        const msg: McpResponse = { jsonrpc: '2.0', id, error: { code, message } };
-        await this.transport.send(msg);
+    private async sendAuthorizationError(id: number | string, authResult: AuthorizationResult, sessionId?: string) {
+        if (authResult.rateLimited) {
+            return this.sendError(id, RATE_LIMITED_ERROR, authResult.reason || 'Rate limit exceeded', sessionId, {
+                status: 429,
+                retryAfterMs: authResult.retryAfterMs
+            });
+        }
+        return this.sendError(id, -32600, authResult.reason || 'Authorization denied', sessionId);
+    }
+
+    private async sendError(id: number | string, code: number, message: string, sessionId?: string, data?: unknown) {
+        const msg: McpResponse = { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } };
+        await this.transport.send(msg, sessionId);
         logError('Error sent', { id, code, message });
     }
 }
@@ -426,16 +732,20 @@ export class ProfileMcpServer {
 
 if (require.main === module) {
     const vault = new ProfileVault();
-    const transportMode = TRANSPORT_MODE as 'stdio' | 'sse';
+    const transportMode = TRANSPORT_MODE as TransportMode;
     const transport = createTransport(transportMode, SSE_PORT);
     const server = new ProfileMcpServer(vault, transport, transportMode);
 
     log(`Profile Context Protocol MCP Server running in ${TRANSPORT_MODE} mode...`);
     log('Vault path:', VAULT_PATH);
-    log('Authentication:', transportMode === 'stdio' ? 'trusted (local)' : 'JWT required');
-
-    server.start().catch((err) => {
-        log('Server error:', err);
-        process.exit(1);
-    });
+    log('Authentication:', transportMode === 'stdio' ? 'trusted (local)'
+        : transportMode === 'unix' ? 'socket owner, or access grant' : 'JWT or access grant required');
+
+    server.unlockFromEnv()
+        .catch((err) => logError('Vault unlock from environment failed', { error: (err as Error).message }))
+        .then(() => server.start())
+        .catch((err) => {
+            log('Server error:', err);
+            process.exit(1);
+        });
 }
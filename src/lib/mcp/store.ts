@@ -0,0 +1,274 @@
+/**
+ * MCP Encrypted Vault Store
+ *
+ * Persists the profile in the dashboard's encrypted vault format instead of
+ * plaintext JSON. The file is laid out like a .pvault backup, so the dashboard
+ * can import it and the MCP server can open a backup exported by the dashboard.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    EncryptedProfile,
+    PortableProfile,
+    Conversation,
+    MemoryFragment,
+    UserInsight
+} from '../types';
+import { encryptData, decryptData } from '../vault/crypto';
+import {
+    WalletIdentity,
+    createWalletIdentity,
+    deriveEncryptionKey,
+    deriveJwtSigningKey
+} from '../vault/identity';
+import { mergeById } from '../sync/merge';
+import { VAULT_PATH } from './config';
+
+/** Encrypted vault file inside VAULT_PATH */
+export const VAULT_FILENAME = 'vault.pvault';
+
+/** Plaintext profile written by earlier versions of the server */
+export const LEGACY_PROFILE_FILENAME = 'profile.json';
+
+/** AES-256 key length in bytes */
+const RAW_KEY_LENGTH = 32;
+
+/**
+ * Ways to unlock the vault: the dashboard's mnemonic + password,
+ * or the base64 AES key derived from them (see exportVaultKey).
+ */
+export type VaultUnlockCredentials =
+    | { mnemonic: string; password: string }
+    | { key: string };
+
+/** On-disk envelope, compatible with VaultManager.importVaultBackup */
+interface VaultFile {
+    version: number;
+    exportedAt: number;
+    identity: WalletIdentity | null;
+    vault: EncryptedProfile;
+    /** Hex JWT public key, so key-only unlocks can still verify client tokens */
+    jwtPublicKey?: string;
+    /** JWT signing key encrypted with the vault key, so key-only unlocks can mint tokens */
+    jwtSigningKey?: { ciphertext: string; iv: string };
+    // Plaintext stores included in dashboard backups
+    conversations?: Conversation[];
+    memories?: MemoryFragment[];
+    insights?: UserInsight[];
+}
+
+export interface OpenedVault {
+    /** Decrypted profile, or null if no vault exists yet */
+    profile: PortableProfile | null;
+    did: string | null;
+    jwtPublicKey: string | null;
+}
+
+/**
+ * Read unlock credentials from the environment.
+ * PROFILE_VAULT_KEY takes precedence over PROFILE_VAULT_MNEMONIC + PROFILE_VAULT_PASSWORD.
+ */
+export function credentialsFromEnv(env: Record<string, string | undefined> = process.env): VaultUnlockCredentials | null {
+    if (env.PROFILE_VAULT_KEY) {
+        return { key: env.PROFILE_VAULT_KEY };
+    }
+    if (env.PROFILE_VAULT_MNEMONIC && env.PROFILE_VAULT_PASSWORD) {
+        return { mnemonic: env.PROFILE_VAULT_MNEMONIC, password: env.PROFILE_VAULT_PASSWORD };
+    }
+    return null;
+}
+
+/**
+ * Derive the base64 vault key for PROFILE_VAULT_KEY, so the mnemonic
+ * does not have to be stored in the server's environment.
+ */
+export async function exportVaultKey(mnemonic: string, password: string): Promise<string> {
+    const { keys } = await createWalletIdentity(mnemonic);
+    const key = await deriveEncryptionKey(keys.privateKey, password);
+    const raw = await globalThis.crypto.subtle.exportKey('raw', key);
+    return Buffer.from(raw).toString('base64');
+}
+
+async function importVaultKey(base64Key: string): Promise<CryptoKey> {
+    const raw = Buffer.from(base64Key, 'base64');
+    if (raw.length !== RAW_KEY_LENGTH) {
+        throw new Error(`Invalid vault key: expected ${RAW_KEY_LENGTH} bytes`);
+    }
+    return globalThis.crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+}
+
+export class EncryptedVaultStore {
+    private key: CryptoKey | null = null;
+    private identity: WalletIdentity | null = null;
+    private jwtPublicKey: string | null = null;
+    private signingKey: Uint8Array | null = null;
+
+    constructor(private readonly dir: string = VAULT_PATH) { }
+
+    get filePath(): string {
+        return path.join(this.dir, VAULT_FILENAME);
+    }
+
+    get legacyFilePath(): string {
+        return path.join(this.dir, LEGACY_PROFILE_FILENAME);
+    }
+
+    get isOpen(): boolean {
+        return this.key !== null;
+    }
+
+    get did(): string | null {
+        return this.identity?.did ?? null;
+    }
+
+    /** Vault encryption key, shared with the audit store; null while locked */
+    get encryptionKey(): CryptoKey | null {
+        return this.key;
+    }
+
+    /** JWT signing key for the token service, when known */
+    get jwtSigningKey(): Uint8Array | null {
+        return this.signingKey;
+    }
+
+    exists(): boolean {
+        return fs.existsSync(this.filePath);
+    }
+
+    /**
+     * Derive the key and decrypt the vault.
+     * Throws without changing state if the credentials do not match the vault.
+     */
+    async open(credentials: VaultUnlockCredentials): Promise<OpenedVault> {
+        let key: CryptoKey;
+        let identity: WalletIdentity | null = null;
+        let jwtPublicKey: string | null = null;
+        let signingKey: Uint8Array | null = null;
+
+        if ('mnemonic' in credentials) {
+            const wallet = await createWalletIdentity(credentials.mnemonic);
+            identity = wallet.identity;
+            key = await deriveEncryptionKey(wallet.keys.privateKey, credentials.password);
+            const jwtKeys = await deriveJwtSigningKey(credentials.mnemonic);
+            jwtPublicKey = jwtKeys.publicKeyHex;
+            signingKey = jwtKeys.privateKey;
+        } else {
+            key = await importVaultKey(credentials.key);
+        }
+
+        if (!this.exists()) {
+            if (!identity) {
+                throw new Error('No encrypted vault found. The first unlock needs the mnemonic and password.');
+            }
+            this.key = key;
+            this.identity = identity;
+            this.jwtPublicKey = jwtPublicKey;
+            this.signingKey = signingKey;
+            return { profile: null, did: identity.did, jwtPublicKey };
+        }
+
+        const file = this.readFile();
+        if (identity && file.identity && file.identity.did !== identity.did) {
+            throw new Error('Vault belongs to a different identity');
+        }
+
+        const profile = await this.decrypt(file, key);
+        if (!signingKey && file.jwtSigningKey) {
+            const hex = await decryptData(file.jwtSigningKey.ciphertext, file.jwtSigningKey.iv, key);
+            signingKey = new Uint8Array(Buffer.from(hex, 'hex'));
+        }
+
+        this.key = key;
+        this.identity = file.identity ?? identity;
+        this.jwtPublicKey = jwtPublicKey ?? file.jwtPublicKey ?? null;
+        this.signingKey = signingKey;
+
+        return { profile, did: this.did, jwtPublicKey: this.jwtPublicKey };
+    }
+
+    /** Re-read the vault from disk with the current key */
+    async read(): Promise<PortableProfile> {
+        if (!this.key) {
+            throw new Error('Vault is locked');
+        }
+        return this.decrypt(this.readFile(), this.key);
+    }
+
+    /**
+     * Encrypt and write the profile. Returns the new file mtime.
+     * Writes go to a temp file first so readers never see a partial vault.
+     */
+    async write(profile: PortableProfile): Promise<number> {
+        if (!this.key) {
+            throw new Error('Vault is locked');
+        }
+
+        const { ciphertext, iv } = await encryptData(JSON.stringify(profile), this.key);
+        const jwtSigningKey = this.signingKey
+            ? await encryptData(Buffer.from(this.signingKey).toString('hex'), this.key)
+            : undefined;
+        const createdAt = this.exists() ? this.readFile().vault.metadata.createdAt : Date.now();
+
+        const file: VaultFile = {
+            version: 2,
+            exportedAt: Date.now(),
+            identity: this.identity,
+            vault: {
+                metadata: {
+                    ownerDid: this.identity?.did ?? '',
+                    createdAt,
+                    lastModified: Date.now(),
+                    version: 1
+                },
+                ciphertext,
+                iv,
+                salt: '' // Salt is derived from the private key, as in VaultManager
+            },
+            ...(this.jwtPublicKey ? { jwtPublicKey: this.jwtPublicKey } : {}),
+            ...(jwtSigningKey ? { jwtSigningKey } : {})
+        };
+
+        if (!fs.existsSync(this.dir)) {
+            fs.mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+        }
+
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+        fs.renameSync(tmpPath, this.filePath);
+
+        return fs.statSync(this.filePath).mtimeMs;
+    }
+
+    /** Forget the key; the vault must be opened again before use */
+    close(): void {
+        this.key = null;
+        this.identity = null;
+        this.jwtPublicKey = null;
+        this.signingKey = null;
+    }
+
+    private readFile(): VaultFile {
+        const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as VaultFile;
+        if (!file.vault?.ciphertext || !file.vault?.iv) {
+            throw new Error(`Not an encrypted vault: ${this.filePath}`);
+        }
+        return file;
+    }
+
+    private async decrypt(file: VaultFile, key: CryptoKey): Promise<PortableProfile> {
+        const profile = JSON.parse(await decryptData(file.vault.ciphertext, file.vault.iv, key)) as PortableProfile;
+
+        // Dashboard backups also carry conversations, memories and insights as separate stores
+        profile.conversations = mergeById(profile.conversations || [], file.conversations);
+        profile.insights = mergeById(profile.insights || [], file.insights);
+        const known = [...(profile.shortTermMemory || []), ...(profile.longTermMemory || [])];
+        profile.longTermMemory = [
+            ...(profile.longTermMemory || []),
+            ...mergeById(known, file.memories).slice(known.length)
+        ];
+        profile.shortTermMemory = profile.shortTermMemory || [];
+
+        return profile;
+    }
+}
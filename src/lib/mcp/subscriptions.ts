@@ -0,0 +1,96 @@
+/**
+ * MCP Resource Subscriptions
+ *
+ * Tracks which resources each session has subscribed to and works out
+ * which subscriptions are affected when a section of the profile changes.
+ */
+
+import { ProfileSection } from './vault';
+
+/**
+ * Maps resource URI prefixes to the profile sections they are derived from.
+ * Checked in order; the first matching prefix wins.
+ */
+const RESOURCE_SECTIONS: Array<[string, ProfileSection[]]> = [
+    ['profile://identity', ['identity']],
+    ['profile://preferences', ['preferences']],
+    ['profile://memory/', ['memories']],
+    ['profile://insights', ['insights']],
+    ['profile://conversations/', ['conversations']],
+    ['profile://projects', ['projects']],
+    ['profile://stats', ['identity', 'preferences', 'memories', 'conversations', 'insights']]
+];
+
+/**
+ * Get the profile sections a resource URI depends on.
+ */
+export function getResourceSections(uri: string): ProfileSection[] {
+    for (const [prefix, sections] of RESOURCE_SECTIONS) {
+        if (uri.startsWith(prefix)) {
+            return sections;
+        }
+    }
+    return [];
+}
+
+export class SubscriptionManager {
+    private subscriptions: Map<string, Set<string>> = new Map();
+
+    /**
+     * Subscribe a session to updates for a resource URI.
+     */
+    subscribe(sessionId: string, uri: string): void {
+        let uris = this.subscriptions.get(sessionId);
+        if (!uris) {
+            uris = new Set();
+            this.subscriptions.set(sessionId, uris);
+        }
+        uris.add(uri);
+    }
+
+    /**
+     * Remove a single subscription. Returns false if it did not exist.
+     */
+    unsubscribe(sessionId: string, uri: string): boolean {
+        const uris = this.subscriptions.get(sessionId);
+        if (!uris) return false;
+
+        const removed = uris.delete(uri);
+        if (uris.size === 0) {
+            this.subscriptions.delete(sessionId);
+        }
+        return removed;
+    }
+
+    /**
+     * Drop all subscriptions for a session (on disconnect).
+     */
+    removeSession(sessionId: string): void {
+        this.subscriptions.delete(sessionId);
+    }
+
+    /**
+     * Get the URIs a session is subscribed to.
+     */
+    getSubscriptions(sessionId: string): string[] {
+        return Array.from(this.subscriptions.get(sessionId) ?? []);
+    }
+
+    /**
+     * Find every (session, uri) pair affected by a change to the given sections.
+     */
+    getAffected(sections: ProfileSection[]): Array<{ sessionId: string; uri: string }> {
+        const changed = new Set(sections);
+        const affected: Array<{ sessionId: string; uri: string }> = [];
+
+        for (const [sessionId, uris] of this.subscriptions) {
+            for (const uri of uris) {
+                if (getResourceSections(uri).some(s => changed.has(s))) {
+                    affected.push({ sessionId, uri });
+                }
+            }
+        }
+
+        return affected;
+    }
+}
@@ -0,0 +1,252 @@
+/**
+ * MCP Token Service
+ *
+ * Mints short-lived, scoped JWTs for named clients, together with refresh
+ * tokens that can be exchanged for a new pair. Refresh tokens rotate on every
+ * use; presenting one twice revokes the whole chain, since that means it leaked.
+ *
+ * Issued tokens and the jti denylist are kept in tokens.json next to the vault.
+ * Only hashes of refresh tokens are stored.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { createJwt } from '../vault/identity';
+import { VAULT_PATH } from './config';
+
+/** Token registry inside VAULT_PATH */
+export const TOKENS_FILENAME = 'tokens.json';
+
+export const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const MAX_ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** An issued token as shown by list; never includes the token itself */
+export interface IssuedToken {
+    jti: string;
+    client: string;
+    scope: string[];
+    /** Persona the token binds sessions to */
+    persona?: string;
+    issuedAt: number;
+    expiresAt: number;
+    refreshExpiresAt: number;
+    revokedAt?: number;
+    /** jti of the pair this one was refreshed into */
+    replacedBy?: string;
+}
+
+export interface TokenPair {
+    accessToken: string;
+    refreshToken: string;
+    jti: string;
+    expiresAt: number;
+    refreshExpiresAt: number;
+}
+
+interface TokenRecord extends IssuedToken {
+    refreshHash: string;
+}
+
+interface TokenFile {
+    version: 1;
+    tokens: TokenRecord[];
+    /** Revoked jtis, kept until the access token would have expired anyway */
+    denylist: Array<{ jti: string; expiresAt: number }>;
+}
+
+function hashSecret(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+}
+
+export class TokenService {
+    private readonly signingKey: Uint8Array;
+    private readonly did: string;
+    private readonly filePath: string;
+    private readonly now: () => number;
+    private tokens: Map<string, TokenRecord> = new Map();
+    private denylist: Map<string, number> = new Map();
+
+    constructor(options: {
+        /** JWT signing key, see deriveJwtSigningKey */
+        signingKey: Uint8Array;
+        /** Vault owner DID, used as the token subject */
+        did: string;
+        dir?: string;
+        now?: () => number;
+    }) {
+        this.signingKey = options.signingKey;
+        this.did = options.did;
+        this.filePath = path.join(options.dir ?? VAULT_PATH, TOKENS_FILENAME);
+        this.now = options.now ?? Date.now;
+        this.load();
+    }
+
+    /**
+     * Mint an access token and a refresh token for a client.
+     */
+    async issue(options: { client: string; scope: string[]; ttlSeconds?: number; persona?: string }): Promise<TokenPair> {
+        const ttl = options.ttlSeconds ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS;
+        if (!Number.isInteger(ttl) || ttl <= 0 || ttl > MAX_ACCESS_TOKEN_TTL_SECONDS) {
+            throw new Error(`Token lifetime must be between 1 and ${MAX_ACCESS_TOKEN_TTL_SECONDS} seconds`);
+        }
+
+        const pair = await this.mint(options.client, options.scope, ttl, options.persona);
+        this.save();
+        return pair;
+    }
+
+    /**
+     * Exchange a refresh token for a new pair. The old pair is revoked.
+     */
+    async refresh(refreshToken: string): Promise<TokenPair> {
+        const [jti, secret] = refreshToken.split('.');
+        const record = jti ? this.tokens.get(jti) : undefined;
+
+        if (!record || !secret || !this.secretMatches(record, secret)) {
+            throw new Error('Invalid refresh token');
+        }
+        if (record.replacedBy || record.revokedAt) {
+            // A rotated token was presented again: assume it leaked and cut off the chain
+            this.revokeChain(record);
+            this.save();
+            throw new Error('Refresh token has already been used');
+        }
+        if (record.refreshExpiresAt < this.now()) {
+            throw new Error('Refresh token has expired');
+        }
+
+        const ttl = Math.round((record.expiresAt - record.issuedAt) / 1000);
+        const pair = await this.mint(record.client, record.scope, ttl, record.persona);
+
+        record.replacedBy = pair.jti;
+        this.denylist.set(record.jti, record.expiresAt);
+        this.save();
+
+        return pair;
+    }
+
+    /**
+     * Issued tokens whose refresh token has not expired, newest first.
+     */
+    list(): IssuedToken[] {
+        this.prune();
+        return Array.from(this.tokens.values())
+            .sort((a, b) => b.issuedAt - a.issuedAt)
+            .map(record => {
+                const token: IssuedToken & { refreshHash?: string } = { ...record };
+                delete token.refreshHash;
+                return token;
+            });
+    }
+
+    /**
+     * Revoke an access token and its refresh token. Returns false if the jti is unknown.
+     */
+    revoke(jti: string): boolean {
+        const record = this.tokens.get(jti);
+        if (!record) {
+            return false;
+        }
+        this.revokeChain(record);
+        this.save();
+        return true;
+    }
+
+    /**
+     * Checked by McpAuthMiddleware for every presented JWT.
+     */
+    isRevoked(jti: string): boolean {
+        return this.denylist.has(jti);
+    }
+
+    private async mint(client: string, scope: string[], ttlSeconds: number, persona?: string): Promise<TokenPair> {
+        const jti = randomUUID();
+        const issuedAt = this.now();
+        const expiresAt = issuedAt + ttlSeconds * 1000;
+        const refreshExpiresAt = issuedAt + REFRESH_TOKEN_TTL_SECONDS * 1000;
+        const secret = randomBytes(32).toString('base64url');
+
+        const accessToken = await createJwt({
+            sub: this.did,
+            exp: Math.floor(expiresAt / 1000),
+            client,
+            scope,
+            jti,
+            ...(persona && { persona })
+        }, this.signingKey);
+
+        this.tokens.set(jti, {
+            jti,
+            client,
+            scope,
+            ...(persona && { persona }),
+            issuedAt,
+            expiresAt,
+            refreshExpiresAt,
+            refreshHash: hashSecret(secret)
+        });
+
+        return { accessToken, refreshToken: `${jti}.${secret}`, jti, expiresAt, refreshExpiresAt };
+    }
+
+    private secretMatches(record: TokenRecord, secret: string): boolean {
+        const expected = Buffer.from(record.refreshHash, 'hex');
+        const actual = Buffer.from(hashSecret(secret), 'hex');
+        return timingSafeEqual(expected, actual);
+    }
+
+    /** Revoke a token and every token refreshed from it */
+    private revokeChain(record: TokenRecord): void {
+        let current: TokenRecord | undefined = record;
+        while (current) {
+            current.revokedAt = current.revokedAt ?? this.now();
+            this.denylist.set(current.jti, current.expiresAt);
+            current = current.replacedBy ? this.tokens.get(current.replacedBy) : undefined;
+        }
+    }
+
+    /** Forget tokens that can no longer be used */
+    private prune(): void {
+        const now = this.now();
+        for (const [jti, record] of this.tokens) {
+            if (record.refreshExpiresAt < now) {
+                this.tokens.delete(jti);
+            }
+        }
+        for (const [jti, expiresAt] of this.denylist) {
+            if (expiresAt < now) {
+                this.denylist.delete(jti);
+            }
+        }
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        const file = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as TokenFile;
+        this.tokens = new Map(file.tokens.map(t => [t.jti, t]));
+        this.denylist = new Map(file.denylist.map(d => [d.jti, d.expiresAt]));
+    }
+
+    private save(): void {
+        this.prune();
+
+        const file: TokenFile = {
+            version: 1,
+            tokens: Array.from(this.tokens.values()),
+            denylist: Array.from(this.denylist, ([jti, expiresAt]) => ({ jti, expiresAt }))
+        };
+
+        const dir = path.dirname(this.filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+        }
+
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+        fs.renameSync(tmpPath, this.filePath);
+    }
+}
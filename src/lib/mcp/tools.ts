@@ -0,0 +1,909 @@
+/**
+ * MCP Tool Catalogue
+ *
+ * Tool definitions (input and output schemas) exposed by the server,
+ * plus the structured error shape tools return when a call fails.
+ */
+
+import { McpTool } from './types';
+
+// ============================================================
+// Tool Errors
+// ============================================================
+
+/**
+ * Stable error codes for failed tool calls.
+ * - invalid_arguments: the arguments are missing or malformed
+ * - not_found: a referenced memory, project or conversation does not exist
+ * - failed_precondition: the call is valid but cannot run in the current state
+ * - unknown_tool: no tool with that name
+ * - internal_error: the tool threw unexpectedly
+ */
+export type ToolErrorCode =
+    | 'invalid_arguments'
+    | 'not_found'
+    | 'failed_precondition'
+    | 'unknown_tool'
+    | 'internal_error';
+
+export interface ToolError {
+    error: string;
+    code: ToolErrorCode;
+    [detail: string]: unknown;
+}
+
+/**
+ * Build a tool error result. Extra details (e.g., the missing ID) are
+ * kept alongside the message.
+ */
+export function toolError(code: ToolErrorCode, message: string, details: Record<string, unknown> = {}): ToolError {
+    return { error: message, code, ...details };
+}
+
+export function isToolError(result: unknown): result is ToolError {
+    return typeof result === 'object' && result !== null &&
+        typeof (result as ToolError).error === 'string' &&
+        typeof (result as ToolError).code === 'string';
+}
+
+// ============================================================
+// Shared Output Schemas
+// ============================================================
+
+const MEMORY_SCHEMA = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        timestamp: { type: 'string' },
+        content: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        type: { type: 'string', enum: ['technical', 'personal', 'preference', 'fact'] },
+        sourceModel: { type: 'string' },
+        sourceProvider: { type: 'string' },
+        confidence: { type: 'number' },
+        conversationId: { type: 'string' },
+        pinned: { type: 'boolean' }
+    },
+    required: ['id', 'content', 'tags', 'type']
+};
+
+/** Scopes that can be put into an issued token; never '*', and never more than the caller holds */
+const TOKEN_SCOPES = [
+    'read:identity', 'read:memories', 'read:conversations', 'read:preferences', 'read:projects', 'read:stats',
+    'write:memories', 'write:conversations',
+    'admin:grants', 'admin:sync', 'admin:settings', 'admin:tokens', 'admin:audit', 'admin:review'
+];
+
+const TOKEN_PAIR_SCHEMA = {
+    type: 'object' as const,
+    properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+        jti: { type: 'string' },
+        expiresAt: { type: 'number' },
+        refreshExpiresAt: { type: 'number' }
+    },
+    required: ['accessToken', 'refreshToken', 'jti', 'expiresAt', 'refreshExpiresAt']
+};
+
+const CONVERSATION_SUMMARY_SCHEMA = {
+    type: 'object',
+    properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        provider: { type: 'string' },
+        createdAt: { type: 'number' },
+        summary: { type: 'string' }
+    },
+    required: ['id', 'title']
+};
+
+const MEMORY_RESULT_SCHEMA = {
+    type: 'object' as const,
+    properties: {
+        success: { type: 'boolean' },
+        memory: MEMORY_SCHEMA
+    },
+    required: ['success', 'memory']
+};
+
+/** Fields returned instead of the stored item when a write is held for review */
+const PENDING_WRITE_PROPERTIES = {
+    status: { type: 'string', enum: ['pending'], description: 'Present when the write awaits review in the dashboard' },
+    writeId: { type: 'string', description: 'Poll get_write_status with this ID' },
+    message: { type: 'string' }
+};
+
+const REVIEW_REASON_INPUT = {
+    type: 'string',
+    description: 'Why this should be stored; shown to the user if the write is held for review'
+};
+
+const PERSONA_INPUT = {
+    type: 'string',
+    description: 'Persona ID or name the sessions are bound to',
+    minLength: 1
+};
+
+const PERSONA_SUMMARY_SCHEMA = {
+    type: 'object' as const,
+    properties: {
+        id: { type: 'string' },
+        name: { type: 'string' }
+    },
+    required: ['id', 'name']
+};
+
+const TAG_LIST_INPUT = { type: 'array', items: { type: 'string' } };
+
+const TOGGLE_RESULT_SCHEMA = {
+    type: 'object' as const,
+    properties: {
+        success: { type: 'boolean' },
+        enabled: { type: 'boolean' },
+        message: { type: 'string' }
+    },
+    required: ['success', 'enabled']
+};
+
+// ============================================================
+// Tool Definitions
+// ============================================================
+
+export const TOOL_DEFINITIONS: McpTool[] = [
+    {
+        name: 'search_memory',
+        description: 'Search the user\'s long-term memory for relevant context.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Search query', minLength: 1 },
+                limit: { type: 'integer', description: 'Max results', default: 10, minimum: 1, maximum: 100 }
+            },
+            required: ['query']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                query: { type: 'string' },
+                matches: { type: 'array', items: MEMORY_SCHEMA },
+                count: { type: 'integer' },
+                totalSearched: { type: 'integer' }
+            },
+            required: ['query', 'matches', 'count', 'totalSearched']
+        }
+    },
+    {
+        name: 'add_memory',
+        description: 'Store a new insight or fact about the user.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                content: { type: 'string', description: 'The insight to remember', minLength: 1 },
+                tags: { type: 'array', items: { type: 'string' } },
+                type: { type: 'string', enum: ['technical', 'personal', 'preference', 'fact'] },
+                reason: REVIEW_REASON_INPUT
+            },
+            required: ['content']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                ...MEMORY_RESULT_SCHEMA.properties,
+                ...PENDING_WRITE_PROPERTIES
+            },
+            required: ['success']
+        }
+    },
+    {
+        name: 'update_memory',
+        description: 'Correct a stored memory. Only the given fields change.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Memory ID', minLength: 1 },
+                content: { type: 'string', minLength: 1 },
+                tags: { type: 'array', items: { type: 'string' } },
+                type: { type: 'string', enum: ['technical', 'personal', 'preference', 'fact'] },
+                confidence: { type: 'number', minimum: 0, maximum: 1 }
+            },
+            required: ['id']
+        },
+        outputSchema: MEMORY_RESULT_SCHEMA
+    },
+    {
+        name: 'forget_memory',
+        description: 'Permanently remove a stored memory.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Memory ID', minLength: 1 },
+                reason: { type: 'string', description: 'Why it should be forgotten' }
+            },
+            required: ['id']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                id: { type: 'string' },
+                message: { type: 'string' }
+            },
+            required: ['success', 'id']
+        }
+    },
+    {
+        name: 'pin_memory',
+        description: 'Pin a memory so it is always kept at hand, or unpin it.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Memory ID', minLength: 1 },
+                pinned: { type: 'boolean', default: true }
+            },
+            required: ['id']
+        },
+        outputSchema: MEMORY_RESULT_SCHEMA
+    },
+    {
+        name: 'archive_conversation',
+        description: 'Archive the current conversation into the Profile Vault.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                title: { type: 'string', description: 'Conversation title', minLength: 1 },
+                messages: {
+                    type: 'array',
+                    minItems: 1,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            role: { type: 'string', enum: ['user', 'assistant', 'system', 'tool'] },
+                            content: { type: 'string' },
+                            timestamp: { type: 'number' }
+                        },
+                        required: ['role', 'content']
+                    }
+                },
+                provider: { type: 'string', description: 'AI provider the chat took place with' },
+                model: { type: 'string', description: 'Model used in the chat' },
+                summary: { type: 'string', description: 'Brief summary' },
+                reason: REVIEW_REASON_INPUT
+            },
+            required: ['title', 'messages']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                id: { type: 'string', description: 'ID of the archived conversation' },
+                ...PENDING_WRITE_PROPERTIES
+            },
+            required: ['success']
+        }
+    },
+    {
+        name: 'append_to_conversation',
+        description: 'Append messages to this session\'s transcript in the Profile Vault. The first call starts the conversation; when the session ends it is finalized with a summary and tags if auto-archive is on.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                messages: {
+                    type: 'array',
+                    minItems: 1,
+                    items: {
+                        type: 'object',
+                        properties: {
+                            role: { type: 'string', enum: ['user', 'assistant', 'system', 'tool'] },
+                            content: { type: 'string' },
+                            timestamp: { type: 'number' }
+                        },
+                        required: ['role', 'content']
+                    }
+                },
+                title: { type: 'string', description: 'Conversation title; defaults to the session start time', minLength: 1 },
+                provider: { type: 'string', description: 'AI provider the chat takes place with' },
+                model: { type: 'string', description: 'Model used in the chat' },
+                finalize: { type: 'boolean', description: 'End the transcript now; the next append starts a new conversation' },
+                reason: REVIEW_REASON_INPUT
+            },
+            required: ['messages']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                conversationId: { type: 'string', description: 'ID of the session\'s conversation' },
+                messageCount: { type: 'number' },
+                finalized: { type: 'boolean' },
+                ...PENDING_WRITE_PROPERTIES
+            },
+            required: ['success', 'conversationId', 'messageCount', 'finalized']
+        }
+    },
+    {
+        name: 'get_write_status',
+        description: 'Check whether a write held for review was approved or rejected.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'writeId returned by add_memory, archive_conversation or append_to_conversation', minLength: 1 }
+            },
+            required: ['id']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string' },
+                tool: { type: 'string', enum: ['add_memory', 'archive_conversation'] },
+                status: { type: 'string', enum: ['pending', 'approved', 'rejected'] },
+                summary: { type: 'string' },
+                createdAt: { type: 'number' },
+                decidedAt: { type: 'number' },
+                edited: { type: 'boolean', description: 'The user changed the content before approving' },
+                note: { type: 'string', description: 'The reviewer\'s note' },
+                resultId: { type: 'string', description: 'ID of the stored memory or conversation' }
+            },
+            required: ['id', 'tool', 'status', 'summary', 'createdAt']
+        }
+    },
+    {
+        name: 'list_pending_writes',
+        description: 'List writes from remote clients that are held for review.',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                writes: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: { type: 'string' },
+                            tool: { type: 'string', enum: ['add_memory', 'archive_conversation'] },
+                            client: { type: 'string' },
+                            reason: { type: 'string' },
+                            summary: { type: 'string' },
+                            diff: { type: 'object', description: 'The stored item before (null for new items) and after the write' },
+                            status: { type: 'string', enum: ['pending'] },
+                            createdAt: { type: 'number' }
+                        },
+                        required: ['id', 'tool', 'client', 'summary', 'diff', 'status', 'createdAt']
+                    }
+                }
+            },
+            required: ['writes']
+        }
+    },
+    {
+        name: 'review_write',
+        description: 'Approve or reject a held write. Approved writes are stored, with the edit if one is given. The client sees the outcome through get_write_status.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Write ID from list_pending_writes', minLength: 1 },
+                decision: { type: 'string', enum: ['approve', 'reject'] },
+                note: { type: 'string', description: 'Shown to the client when rejecting' },
+                edited: { type: 'object', description: 'Memory or conversation to store instead of the proposed one' }
+            },
+            required: ['id', 'decision']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string' },
+                tool: { type: 'string', enum: ['add_memory', 'archive_conversation'] },
+                status: { type: 'string', enum: ['approved', 'rejected'] },
+                summary: { type: 'string' },
+                createdAt: { type: 'number' },
+                decidedAt: { type: 'number' },
+                edited: { type: 'boolean' },
+                note: { type: 'string' },
+                resultId: { type: 'string' }
+            },
+            required: ['id', 'tool', 'status', 'summary', 'createdAt']
+        }
+    },
+    {
+        name: 'toggle_auto_archive',
+        description: 'Enable or disable finalizing session transcripts (see append_to_conversation) when the session ends.',
+        inputSchema: {
+            type: 'object',
+            properties: { enabled: { type: 'boolean' } },
+            required: ['enabled']
+        },
+        outputSchema: TOGGLE_RESULT_SCHEMA
+    },
+    {
+        name: 'toggle_auto_sync',
+        description: 'Enable or disable automatic cloud sync.',
+        inputSchema: {
+            type: 'object',
+            properties: { enabled: { type: 'boolean' } },
+            required: ['enabled']
+        },
+        outputSchema: TOGGLE_RESULT_SCHEMA
+    },
+    {
+        name: 'sync_vault',
+        description: 'Trigger a manual sync to Cloud (IPFS).',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                cid: { type: 'string', description: 'IPFS content ID of the uploaded vault' },
+                txHash: { type: 'string', description: 'Registry transaction hash' }
+            },
+            required: ['cid', 'txHash']
+        }
+    },
+    {
+        name: 'analyze_vault',
+        description: 'Analyzes the vault for topics and duplicates.',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                totalConversations: { type: 'integer' },
+                clusters: { type: 'array', items: { type: 'object' } },
+                hint: { type: 'string' }
+            },
+            required: ['totalConversations', 'clusters']
+        }
+    },
+    {
+        name: 'enrich_profile',
+        description: 'Use your own model (via MCP sampling) to summarize archived conversations, extract memories from them and derive insights about the user. Needs a client with the sampling capability and MCP_SAMPLING=on on the server; each request carries a limited amount of vault data.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                conversation_ids: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Conversations to process; defaults to the newest ones without a real summary'
+                },
+                tasks: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['summaries', 'memories', 'insights'] },
+                    description: 'What to generate; defaults to all three'
+                },
+                limit: { type: 'integer', minimum: 1, maximum: 20, default: 3 }
+            }
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                summarized: { type: 'array', items: { type: 'string' } },
+                memoriesAdded: { type: 'integer' },
+                insightsAdded: { type: 'integer' },
+                errors: { type: 'array', items: { type: 'object' } }
+            },
+            required: ['summarized', 'memoriesAdded', 'insightsAdded', 'errors']
+        }
+    },
+    {
+        name: 'grant_access',
+        description: 'Generate a signed Access Grant.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                grantee: { type: 'string', minLength: 1 },
+                permissions: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['read_identity', 'read_memory', 'write_memory'] },
+                    default: ['read_memory']
+                },
+                durationSeconds: { type: 'integer', minimum: 60, maximum: 2592000, default: 3600 },
+                persona: PERSONA_INPUT
+            },
+            required: ['grantee']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string' },
+                grantee: { type: 'string' },
+                permissions: { type: 'array', items: { type: 'string' } },
+                expiresAt: { type: 'number' },
+                signature: { type: 'string' },
+                persona: { type: 'string' }
+            },
+            required: ['id', 'grantee', 'permissions', 'expiresAt', 'signature']
+        }
+    },
+    {
+        name: 'revoke_grant',
+        description: 'Revoke an access grant before it expires. Sessions opened with it lose access on their next request, and it is refused from then on.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                grant_id: { type: 'string', description: 'ID of the AccessGrant', minLength: 1 },
+                grant: { type: 'object', description: 'The signed AccessGrant, for grants this server has not stored (e.g. issued from the dashboard)' }
+            },
+            required: ['grant_id']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: { success: { type: 'boolean' }, grantId: { type: 'string' } },
+            required: ['success', 'grantId']
+        }
+    },
+    {
+        name: 'issue_token',
+        description: 'Mint a short-lived, scoped access token and a refresh token for a named MCP client.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                client: { type: 'string', description: 'Client name, e.g. "cursor"', minLength: 1 },
+                scope: {
+                    type: 'array',
+                    items: { type: 'string', enum: TOKEN_SCOPES },
+                    minItems: 1
+                },
+                ttl_seconds: { type: 'integer', minimum: 60, maximum: 3600, default: 900 },
+                persona: PERSONA_INPUT
+            },
+            required: ['client', 'scope']
+        },
+        outputSchema: TOKEN_PAIR_SCHEMA
+    },
+    {
+        name: 'list_tokens',
+        description: 'List issued client tokens (the tokens themselves are never shown again).',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                tokens: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            jti: { type: 'string' },
+                            client: { type: 'string' },
+                            scope: { type: 'array', items: { type: 'string' } },
+                            persona: { type: 'string' },
+                            issuedAt: { type: 'number' },
+                            expiresAt: { type: 'number' },
+                            refreshExpiresAt: { type: 'number' },
+                            revokedAt: { type: 'number' },
+                            replacedBy: { type: 'string' }
+                        },
+                        required: ['jti', 'client', 'scope', 'issuedAt', 'expiresAt', 'refreshExpiresAt']
+                    }
+                }
+            },
+            required: ['tokens']
+        }
+    },
+    {
+        name: 'revoke_token',
+        description: 'Revoke an issued token and its refresh token. Sessions using it lose access immediately.',
+        inputSchema: {
+            type: 'object',
+            properties: { jti: { type: 'string', description: 'Token ID from list_tokens', minLength: 1 } },
+            required: ['jti']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: { success: { type: 'boolean' }, jti: { type: 'string' } },
+            required: ['success', 'jti']
+        }
+    },
+    {
+        name: 'query_audit_log',
+        description: 'Search the audit log: which client or DID called which tool or read which resource, and whether it was allowed. Filters combine; results are newest first and paged. Set format to jsonl or csv for an export.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                client: { type: 'string', description: 'Client name, e.g. claude-desktop' },
+                did: { type: 'string' },
+                tool: { type: 'string' },
+                resource: { type: 'string', description: 'Resource URI, e.g. profile://identity' },
+                type: { type: 'string', description: 'Event type, e.g. tool_call or resource_read' },
+                session_id: { type: 'string' },
+                result: { type: 'string', enum: ['allowed', 'denied'] },
+                since: { type: 'string', description: 'ISO 8601 start time (inclusive)' },
+                until: { type: 'string', description: 'ISO 8601 end time (inclusive)' },
+                offset: { type: 'integer', minimum: 0, default: 0 },
+                limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+                format: { type: 'string', enum: ['json', 'jsonl', 'csv'], default: 'json' }
+            }
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                entries: { type: 'array', items: { type: 'object' } },
+                format: { type: 'string', enum: ['jsonl', 'csv'] },
+                content: { type: 'string', description: 'The export, for jsonl and csv' },
+                total: { type: 'integer' },
+                offset: { type: 'integer' },
+                limit: { type: 'integer' },
+                nextOffset: { type: 'integer' },
+                verified: { type: 'boolean', description: 'Whether the persisted log passed hash chain verification when the vault was unlocked' },
+                issues: { type: 'array', items: { type: 'object' }, description: 'Breaks in the hash chain found by that verification' }
+            },
+            required: ['total', 'offset', 'limit']
+        }
+    },
+    {
+        name: 'get_context_for_task',
+        description: 'Get relevant background context for a specific task: memories, insights, conversation summaries and preferences ranked by relevance, recency and confidence, within a token budget. Each item lists why it was included.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                task_description: { type: 'string', minLength: 1 },
+                max_tokens: { type: 'integer', minimum: 50, maximum: 32000, default: 2000, description: 'Approximate token budget for the returned context' }
+            },
+            required: ['task_description']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                task: { type: 'string' },
+                context: {
+                    type: 'object',
+                    properties: {
+                        memories: { type: 'array', items: MEMORY_SCHEMA },
+                        conversations: { type: 'array', items: CONVERSATION_SUMMARY_SCHEMA },
+                        insights: { type: 'array', items: { type: 'object' } },
+                        preferences: { type: 'array', items: { type: 'object' } }
+                    },
+                    required: ['memories', 'conversations', 'insights', 'preferences']
+                },
+                items: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            kind: { type: 'string', enum: ['memory', 'insight', 'conversation', 'preference'] },
+                            id: { type: 'string' },
+                            score: { type: 'number' },
+                            tokens: { type: 'integer' },
+                            reasons: { type: 'array', items: { type: 'string' } }
+                        },
+                        required: ['kind', 'id', 'score', 'tokens', 'reasons']
+                    }
+                },
+                budget: {
+                    type: 'object',
+                    properties: { maxTokens: { type: 'integer' }, usedTokens: { type: 'integer' } },
+                    required: ['maxTokens', 'usedTokens']
+                },
+                omitted: {
+                    type: 'object',
+                    properties: { duplicates: { type: 'integer' }, overBudget: { type: 'integer' } }
+                },
+                hint: { type: 'string' }
+            },
+            required: ['task', 'context', 'items', 'budget']
+        }
+    },
+    {
+        name: 'list_projects',
+        description: 'List the user\'s projects and which one is active.',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                projects: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: { type: 'string' },
+                            name: { type: 'string' },
+                            description: { type: 'string' },
+                            techStack: { type: 'array', items: { type: 'string' } },
+                            memoryCount: { type: 'integer' },
+                            conversationCount: { type: 'integer' },
+                            active: { type: 'boolean' }
+                        },
+                        required: ['id', 'name', 'techStack', 'active']
+                    }
+                },
+                activeProjectId: { type: ['string', 'null'] },
+                count: { type: 'integer' }
+            },
+            required: ['projects', 'activeProjectId', 'count']
+        }
+    },
+    {
+        name: 'set_active_project',
+        description: 'Set the project new sessions are scoped to, or null to clear it.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                project_id: { type: ['string', 'null'], description: 'Project ID', minLength: 1 }
+            },
+            required: ['project_id']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                activeProjectId: { type: ['string', 'null'] }
+            },
+            required: ['success', 'activeProjectId']
+        }
+    },
+    {
+        name: 'get_project_context',
+        description: 'Get a project\'s tech stack, related memories and linked conversations.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                project_id: { type: 'string', description: 'Project ID (defaults to the active project)', minLength: 1 }
+            }
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                project: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string' },
+                        description: { type: 'string' }
+                    },
+                    required: ['id', 'name']
+                },
+                active: { type: 'boolean' },
+                techStack: { type: 'array', items: { type: 'string' } },
+                relatedMemories: { type: 'array', items: MEMORY_SCHEMA },
+                conversations: { type: 'array', items: CONVERSATION_SUMMARY_SCHEMA },
+                hint: { type: 'string' }
+            },
+            required: ['project', 'active', 'techStack', 'relatedMemories', 'conversations']
+        }
+    },
+    {
+        name: 'list_personas',
+        description: 'List the personas of this vault and the one this session runs under.',
+        inputSchema: { type: 'object', properties: {} },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                personas: { type: 'array', items: PERSONA_SUMMARY_SCHEMA },
+                current: { ...PERSONA_SUMMARY_SCHEMA, type: ['object', 'null'] },
+                bound: { type: 'boolean', description: 'The persona is fixed by the session\'s token or grant' }
+            },
+            required: ['personas', 'current', 'bound']
+        }
+    },
+    {
+        name: 'select_persona',
+        description: 'Run the rest of this session under a persona, or null for the server default. Not available to sessions bound to a persona.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                persona: { type: ['string', 'null'], description: 'Persona ID or name', minLength: 1 }
+            },
+            required: ['persona']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                persona: { ...PERSONA_SUMMARY_SCHEMA, type: ['object', 'null'] }
+            },
+            required: ['success', 'persona']
+        }
+    },
+    {
+        name: 'save_persona',
+        description: 'Create a persona, or replace an existing one\'s definition when id is given.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', description: 'Persona to update', minLength: 1 },
+                name: { type: 'string', description: 'e.g. "work"', minLength: 1 },
+                identity: {
+                    type: 'object',
+                    description: 'Identity fields shown instead of the profile\'s',
+                    properties: {
+                        displayName: { type: 'string' },
+                        fullName: { type: 'string' },
+                        email: { type: 'string' },
+                        location: { type: 'string' },
+                        role: { type: 'string' },
+                        avatarUrl: { type: 'string' }
+                    },
+                    additionalProperties: false
+                },
+                preference_ids: { type: 'array', items: { type: 'string' }, description: 'Preferences in effect (default: the enabled ones)' },
+                visibility: {
+                    type: 'object',
+                    properties: {
+                        includeTags: { ...TAG_LIST_INPUT, description: 'Only memories and conversations with one of these tags' },
+                        excludeTags: { ...TAG_LIST_INPUT, description: 'Hide memories and conversations with any of these tags' },
+                        excludeMemoryTypes: { type: 'array', items: { type: 'string', enum: ['technical', 'personal', 'preference', 'fact'] } },
+                        projectIds: { type: 'array', items: { type: 'string' }, description: 'Only these projects' }
+                    },
+                    additionalProperties: false
+                }
+            },
+            required: ['name']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                persona: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        name: { type: 'string' },
+                        identity: { type: 'object' },
+                        preferenceIds: { type: 'array', items: { type: 'string' } },
+                        visibility: { type: 'object' },
+                        createdAt: { type: 'number' },
+                        updatedAt: { type: 'number' }
+                    },
+                    required: ['id', 'name', 'createdAt', 'updatedAt']
+                }
+            },
+            required: ['success', 'persona']
+        }
+    },
+    {
+        name: 'delete_persona',
+        description: 'Delete a persona. Sessions and credentials bound to it stop working.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                id: { type: 'string', minLength: 1 }
+            },
+            required: ['id']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                success: { type: 'boolean' },
+                id: { type: 'string' }
+            },
+            required: ['success', 'id']
+        }
+    },
+    {
+        name: 'get_conversation_history',
+        description: 'Retrieve past conversations on a specific topic.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                topic: { type: 'string', minLength: 1 },
+                provider: { type: 'string', enum: ['openai', 'anthropic', 'google', 'all'] }
+            },
+            required: ['topic']
+        },
+        outputSchema: {
+            type: 'object',
+            properties: {
+                topic: { type: 'string' },
+                provider: { type: 'string' },
+                conversations: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            id: { type: 'string' },
+                            title: { type: 'string' },
+                            provider: { type: 'string' },
+                            model: { type: 'string' },
+                            messageCount: { type: 'integer' },
+                            createdAt: { type: 'number' },
+                            preview: { type: 'string' }
+                        },
+                        required: ['id', 'title']
+                    }
+                },
+                count: { type: 'integer' }
+            },
+            required: ['topic', 'provider', 'conversations', 'count']
+        }
+    }
+];
+
+export function findTool(name: string): McpTool | undefined {
+    return TOOL_DEFINITIONS.find(t => t.name === name);
+}
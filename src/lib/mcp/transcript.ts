@@ -0,0 +1,98 @@
+/**
+ * MCP Session Transcripts
+ *
+ * Builds the conversation an MCP session captures with
+ * append_to_conversation. Messages are appended as the chat goes on; when the
+ * session ends with the "Auto-Archive Chats" preference on, the transcript is
+ * finalized with a keyword summary, tags and counts.
+ */
+
+import { Conversation, Message } from '../types';
+import { tokenize } from './context';
+
+/** Message as sent by clients to archive_conversation and append_to_conversation */
+export interface TranscriptMessage {
+    id?: string;
+    role: Message['role'];
+    content: string;
+    timestamp?: number;
+}
+
+/** Keywords used as tags and summary when a transcript is finalized */
+export const TRANSCRIPT_KEYWORD_COUNT = 5;
+
+export function toMessages(messages: TranscriptMessage[], model?: string, now = Date.now()): Message[] {
+    return messages.map(m => ({
+        id: m.id || `msg_${now}_${Math.random().toString(36).substr(2, 5)}`,
+        role: m.role,
+        content: m.content,
+        timestamp: m.timestamp || now,
+        contentType: 'text', // Default to text for simplified archival
+        metadata: {
+            model
+        }
+    }));
+}
+
+export function countWords(messages: Pick<Message, 'content'>[]): number {
+    return messages.reduce((sum, m) => sum + (m.content?.split(/\s+/).filter(Boolean).length || 0), 0);
+}
+
+/**
+ * Most frequent meaningful words, most frequent first. Numbers and words
+ * shorter than three characters are skipped.
+ */
+export function extractKeywords(text: string, max: number): string[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+        if (token.length < 3 || /^[0-9.]+$/.test(token)) continue;
+        counts.set(token, (counts.get(token) || 0) + 1);
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, max)
+        .map(([word]) => word);
+}
+
+/**
+ * Add messages to a captured conversation, keeping its counts current.
+ */
+export function appendMessages(conversation: Conversation, messages: TranscriptMessage[], now = Date.now()): Conversation {
+    const appended = [...conversation.messages, ...toMessages(messages, conversation.metadata.model, now)];
+    return {
+        ...conversation,
+        messages: appended,
+        metadata: {
+            ...conversation.metadata,
+            updatedAt: now,
+            messageCount: appended.length,
+            wordCount: countWords(appended)
+        }
+    };
+}
+
+/**
+ * Fill in the summary, tags and counts of a captured conversation. A summary
+ * the client already gave is kept, and keywords are added after existing
+ * tags. Topics come from the user's messages, which say what the session was
+ * about more reliably than replies.
+ */
+export function finalizeTranscript(conversation: Conversation, now = Date.now()): Conversation {
+    const userText = conversation.messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+    const text = userText || conversation.messages.map(m => m.content).join('\n');
+    const keywords = extractKeywords(text, TRANSCRIPT_KEYWORD_COUNT);
+
+    return {
+        ...conversation,
+        metadata: {
+            ...conversation.metadata,
+            updatedAt: now,
+            messageCount: conversation.messages.length,
+            wordCount: countWords(conversation.messages)
+        },
+        tags: [...new Set([...conversation.tags, ...keywords])],
+        summary: conversation.summary || (keywords.length > 0
+            ? `Discussion about: ${keywords.join(', ')}`
+            : undefined)
+    };
+}
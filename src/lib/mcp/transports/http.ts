@@ -0,0 +1,640 @@
+/**
+ * MCP Streamable HTTP Transport
+ *
+ * Implements the single-endpoint Streamable HTTP transport:
+ * - POST sends JSON-RPC messages; responses come back as JSON or as an SSE stream
+ * - GET opens a standalone SSE stream for server-initiated notifications
+ * - DELETE terminates the session
+ *
+ * Sessions are identified by the `Mcp-Session-Id` header issued on initialize.
+ * SSE events carry IDs so a client can resume a dropped stream with `Last-Event-ID`.
+ *
+ * Browser requests are only answered for allowlisted origins, and unknown Host
+ * headers are refused (see network.ts). The server can serve HTTPS.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { randomUUID } from 'crypto';
+import { McpRequest, McpResponse, McpNotification } from '../types';
+import { McpTransport } from './index';
+import { log } from '../config';
+import { McpAuthMiddleware, AuthenticatedSession, ACCESS_GRANT_HEADER } from '../auth';
+import { TokenRefresher, TOKEN_ENDPOINT_PATH, handleTokenRequest } from './token';
+import { NetworkPolicy, DEFAULT_NETWORK_POLICY, checkHost, checkOrigin, clientIp } from './network';
+
+/** Max events kept per session for stream resumption */
+const EVENT_BUFFER_SIZE = 500;
+
+/** Sessions without any request for this long are discarded */
+const SESSION_IDLE_TIMEOUT_MS = 3600000;
+
+const SESSION_HEADER = 'mcp-session-id';
+
+type JsonRpcMessage = McpRequest | McpResponse | McpNotification;
+
+interface StoredEvent {
+    id: number;
+    streamId: string;
+    data: string;
+}
+
+interface OpenStream {
+    streamId: string;
+    response: http.ServerResponse;
+}
+
+export interface HttpSession {
+    sessionId: string;
+    authSession?: AuthenticatedSession;
+    connectedAt: number;
+    lastActivity: number;
+    ip?: string;
+    /** Long-lived GET stream for server-initiated messages */
+    standaloneStream?: OpenStream;
+    /** SSE streams opened in response to POSTs, keyed by stream ID */
+    requestStreams: Map<string, OpenStream>;
+    events: StoredEvent[];
+    nextEventId: number;
+}
+
+/**
+ * Collects the responses for one POST so they can be written back on the same HTTP response.
+ */
+interface PendingPost {
+    mode: 'json' | 'sse';
+    streamId: string;
+    collected: McpResponse[];
+}
+
+export class StreamableHttpTransport implements McpTransport {
+    private port: number;
+    private path: string;
+    private sessions: Map<string, HttpSession> = new Map();
+    // Keyed by `${sessionId}:${requestId}` so equal JSON-RPC IDs from different clients never collide
+    private pendingPosts: Map<string, PendingPost> = new Map();
+    private authMiddleware: McpAuthMiddleware | null = null;
+    private sessionClosedListeners: Array<(sessionId: string) => void> = [];
+    private tokenRefresher: TokenRefresher | null = null;
+    private policy: NetworkPolicy;
+    private server: http.Server | https.Server | null = null;
+
+    constructor(port: number = 3001, path: string = '/mcp', policy: NetworkPolicy = DEFAULT_NETWORK_POLICY) {
+        this.port = port;
+        this.path = path;
+        this.policy = policy;
+    }
+
+    /**
+     * Set the authentication middleware.
+     */
+    setAuthMiddleware(middleware: McpAuthMiddleware): void {
+        this.authMiddleware = middleware;
+        log('HTTP Transport: Auth middleware configured');
+    }
+
+    /**
+     * Set the handler for refresh token exchanges on POST /token.
+     */
+    setTokenRefresher(refresher: TokenRefresher): void {
+        this.tokenRefresher = refresher;
+    }
+
+    /**
+     * Register a callback invoked when a session is terminated.
+     */
+    onSessionClosed(listener: (sessionId: string) => void): void {
+        this.sessionClosedListeners.push(listener);
+    }
+
+    /**
+     * Get authenticated session for a transport session.
+     */
+    getAuthSession(sessionId: string): AuthenticatedSession | undefined {
+        return this.sessions.get(sessionId)?.authSession;
+    }
+
+    async start(handler: (req: McpRequest, sessionId?: string) => Promise<void>): Promise<void> {
+        const listener = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+            if (!this.admit(req, res)) {
+                return;
+            }
+
+            // CORS headers, only for allowlisted origins
+            res.setHeader('Vary', 'Origin');
+            if (req.headers.origin) {
+                res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+                res.setHeader('Access-Control-Allow-Methods', 'POST, GET, DELETE, OPTIONS');
+                res.setHeader(
+                    'Access-Control-Allow-Headers',
+                    `Content-Type, Authorization, ${ACCESS_GRANT_HEADER}, Mcp-Session-Id, Last-Event-ID`
+                );
+                res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+                res.setHeader('Access-Control-Max-Age', '600');
+            }
+
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204);
+                res.end();
+                return;
+            }
+
+            if (req.url === '/health') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({
+                    status: 'healthy',
+                    activeSessions: this.sessions.size,
+                    authEnabled: !!this.authMiddleware
+                }));
+                return;
+            }
+
+            try {
+                if (req.url === TOKEN_ENDPOINT_PATH && req.method === 'POST') {
+                    await handleTokenRequest(req, res, this.tokenRefresher);
+                    return;
+                }
+
+                const url = new URL(req.url || '', `http://localhost:${this.port}`);
+                if (url.pathname !== this.path) {
+                    res.writeHead(404);
+                    res.end('Not Found');
+                    return;
+                }
+
+                switch (req.method) {
+                    case 'POST':
+                        await this.handlePost(req, res, handler);
+                        return;
+                    case 'GET':
+                        await this.handleGet(req, res);
+                        return;
+                    case 'DELETE':
+                        await this.handleDelete(req, res);
+                        return;
+                    default:
+                        res.writeHead(405, { Allow: 'POST, GET, DELETE' });
+                        res.end('Method Not Allowed');
+                }
+            } catch (e) {
+                log('Error handling HTTP request:', (e as Error).message);
+                if (!res.headersSent) {
+                    this.writeJsonRpcError(res, 500, -32603, 'Internal error');
+                }
+            }
+        };
+
+        const server = this.policy.tls
+            ? https.createServer({ cert: this.policy.tls.cert, key: this.policy.tls.key }, listener)
+            : http.createServer(listener);
+        this.server = server;
+        const base = `${this.policy.tls ? 'https' : 'http'}://${this.policy.bindHost}:${this.port}`;
+
+        const cleanupTimer = setInterval(() => this.cleanupIdleSessions(), 300000);
+        cleanupTimer.unref();
+
+        return new Promise((resolve) => {
+            server.listen(this.port, this.policy.bindHost, () => {
+                log(`Streamable HTTP Transport listening on ${base}${this.path}`);
+                log(`- Health: ${base}/health`);
+                log(`- Token refresh: ${base}${TOKEN_ENDPOINT_PATH}`);
+                log(`- Auth: ${this.authMiddleware ? 'enabled' : 'disabled'}`);
+                log(`- Allowed origins: ${this.policy.allowedOrigins.join(', ') || 'none'}`);
+                if (this.policy.allowedHosts === null) {
+                    log('- Host header checks are off; set MCP_ALLOWED_HOSTS to guard against DNS rebinding');
+                }
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop listening and close open connections.
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+        await new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    /**
+     * Refuse requests from browser origins that are not allowlisted and from
+     * unknown Host names (DNS rebinding). Returns false if the request was refused.
+     */
+    private admit(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+        const origin = req.headers.origin;
+        const reason = checkHost(this.policy, req.headers.host) ?? checkOrigin(this.policy, origin);
+        if (!reason) {
+            return true;
+        }
+
+        const ip = this.getClientIp(req);
+        log(`HTTP request refused (${reason}): origin ${origin ?? 'none'}, host ${req.headers.host ?? 'none'}`);
+        this.authMiddleware?.getAuditLogger().logConnectionRejected({
+            ip,
+            reason,
+            metadata: { origin, host: req.headers.host, path: req.url }
+        });
+
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Forbidden' }));
+        return false;
+    }
+
+    // --- POST: client -> server messages ---
+
+    private async handlePost(
+        req: http.IncomingMessage,
+        res: http.ServerResponse,
+        handler: (req: McpRequest, sessionId?: string) => Promise<void>
+    ) {
+        const body = await this.readBody(req);
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(body);
+        } catch {
+            this.writeJsonRpcError(res, 400, -32700, 'Parse error');
+            return;
+        }
+
+        const isBatch = Array.isArray(parsed);
+        const messages = (isBatch ? parsed : [parsed]) as JsonRpcMessage[];
+        if (messages.length === 0 || messages.some(m => !m || typeof m !== 'object' || (m as { jsonrpc?: string }).jsonrpc !== '2.0')) {
+            this.writeJsonRpcError(res, 400, -32600, 'Invalid Request');
+            return;
+        }
+
+        const isInitialize = messages.some(m => 'method' in m && m.method === 'initialize');
+        let session: HttpSession | null;
+
+        if (isInitialize) {
+            if (messages.length > 1) {
+                this.writeJsonRpcError(res, 400, -32600, 'initialize must not be batched');
+                return;
+            }
+            session = await this.createSession(req, res);
+        } else {
+            session = await this.resolveSession(req, res);
+        }
+        if (!session) return;
+
+        session.lastActivity = Date.now();
+
+        const requests = messages.filter(
+            (m): m is McpRequest => 'method' in m && 'id' in m && m.id !== undefined && m.id !== null
+        );
+
+        // Notifications and client responses only: acknowledge and process
+        if (requests.length === 0) {
+            res.writeHead(202);
+            res.end();
+            for (const message of messages) {
+                await handler(message as McpRequest, session.sessionId);
+            }
+            return;
+        }
+
+        // Long-running tool calls are streamed so the client can receive notifications meanwhile
+        const accept = req.headers.accept || '';
+        const wantsStream = accept.includes('text/event-stream') &&
+            (!accept.includes('application/json') || requests.some(r => r.method === 'tools/call'));
+
+        const pending: PendingPost = {
+            mode: wantsStream ? 'sse' : 'json',
+            streamId: randomUUID(),
+            collected: []
+        };
+        for (const request of requests) {
+            this.pendingPosts.set(this.pendingKey(session.sessionId, request.id), pending);
+        }
+
+        const headers: Record<string, string> = {};
+        if (isInitialize) {
+            headers['Mcp-Session-Id'] = session.sessionId;
+        }
+
+        if (pending.mode === 'sse') {
+            res.writeHead(200, {
+                ...headers,
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive'
+            });
+            const stream: OpenStream = { streamId: pending.streamId, response: res };
+            session.requestStreams.set(pending.streamId, stream);
+            res.on('close', () => session!.requestStreams.delete(pending.streamId));
+        }
+
+        try {
+            for (const message of messages) {
+                await handler(message as McpRequest, session.sessionId);
+            }
+        } finally {
+            for (const request of requests) {
+                this.pendingPosts.delete(this.pendingKey(session.sessionId, request.id));
+            }
+        }
+
+        if (pending.mode === 'sse') {
+            session.requestStreams.delete(pending.streamId);
+            res.end();
+            return;
+        }
+
+        res.writeHead(200, { ...headers, 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(isBatch ? pending.collected : pending.collected[0] ?? null));
+    }
+
+    /**
+     * Authenticate an initialize request and create a new transport session.
+     */
+    private async createSession(req: http.IncomingMessage, res: http.ServerResponse): Promise<HttpSession | null> {
+        const ip = this.getClientIp(req);
+
+        let authSession: AuthenticatedSession | undefined;
+        if (this.authMiddleware) {
+            const authResult = await this.authMiddleware.authenticate({
+                headers: this.getHeaders(req),
+                ip
+            });
+
+            if (!authResult.authenticated) {
+                log(`HTTP session rejected: ${authResult.error}`);
+                this.writeJsonRpcError(res, 401, -32001, authResult.error || 'Unauthorized');
+                return null;
+            }
+            authSession = authResult.session;
+        }
+
+        const session: HttpSession = {
+            sessionId: randomUUID(),
+            authSession,
+            connectedAt: Date.now(),
+            lastActivity: Date.now(),
+            ip,
+            requestStreams: new Map(),
+            events: [],
+            nextEventId: 1
+        };
+        this.sessions.set(session.sessionId, session);
+        log(`HTTP session created: ${session.sessionId}${authSession ? ` (${authSession.client})` : ''}`);
+
+        if (this.authMiddleware && authSession) {
+            this.authMiddleware.getAuditLogger().logConnectionOpened({
+                sessionId: authSession.sessionId,
+                ip,
+                client: authSession.client
+            });
+        }
+
+        return session;
+    }
+
+    /**
+     * Look up the session named in the Mcp-Session-Id header and re-verify its credentials.
+     */
+    private async resolveSession(req: http.IncomingMessage, res: http.ServerResponse): Promise<HttpSession | null> {
+        const sessionId = req.headers[SESSION_HEADER];
+        if (typeof sessionId !== 'string' || !sessionId) {
+            this.writeJsonRpcError(res, 400, -32600, 'Missing Mcp-Session-Id header');
+            return null;
+        }
+
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            this.writeJsonRpcError(res, 404, -32001, 'Session not found');
+            return null;
+        }
+
+        if (this.authMiddleware && session.authSession) {
+            const authResult = await this.authMiddleware.verifySessionRequest(session.authSession.sessionId, {
+                headers: this.getHeaders(req),
+                ip: this.getClientIp(req)
+            });
+            if (!authResult.authenticated) {
+                this.writeJsonRpcError(res, 401, -32001, authResult.error || 'Unauthorized');
+                return null;
+            }
+        }
+
+        return session;
+    }
+
+    // --- GET: standalone stream and resumption ---
+
+    private async handleGet(req: http.IncomingMessage, res: http.ServerResponse) {
+        if (!(req.headers.accept || '').includes('text/event-stream')) {
+            res.writeHead(406);
+            res.end('Not Acceptable: text/event-stream required');
+            return;
+        }
+
+        const session = await this.resolveSession(req, res);
+        if (!session) return;
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+        // Let the client see the stream is open before the first event
+        res.flushHeaders();
+
+        // Replay events the client missed on the stream it was reading
+        const lastEventId = parseInt(String(req.headers['last-event-id'] || ''), 10);
+        let streamId: string = randomUUID();
+        if (!Number.isNaN(lastEventId)) {
+            const lastEvent = session.events.find(e => e.id === lastEventId);
+            if (lastEvent) {
+                streamId = lastEvent.streamId;
+                for (const event of session.events) {
+                    if (event.streamId === streamId && event.id > lastEventId) {
+                        res.write(`id: ${event.id}\nevent: message\ndata: ${event.data}\n\n`);
+                    }
+                }
+                log(`HTTP stream resumed after event ${lastEventId}`, { sessionId: session.sessionId });
+            }
+        }
+
+        session.standaloneStream?.response.end();
+        const stream: OpenStream = { streamId, response: res };
+        session.standaloneStream = stream;
+
+        req.on('close', () => {
+            if (session.standaloneStream === stream) {
+                session.standaloneStream = undefined;
+            }
+        });
+    }
+
+    // --- DELETE: session termination ---
+
+    private async handleDelete(req: http.IncomingMessage, res: http.ServerResponse) {
+        const session = await this.resolveSession(req, res);
+        if (!session) return;
+
+        this.closeSession(session);
+        res.writeHead(200);
+        res.end();
+    }
+
+    private closeSession(session: HttpSession) {
+        session.standaloneStream?.response.end();
+        for (const stream of session.requestStreams.values()) {
+            stream.response.end();
+        }
+        this.sessions.delete(session.sessionId);
+        log(`HTTP session closed: ${session.sessionId}`);
+
+        if (this.authMiddleware && session.authSession) {
+            this.authMiddleware.removeSession(session.authSession.sessionId);
+        }
+
+        for (const listener of this.sessionClosedListeners) {
+            listener(session.sessionId);
+        }
+    }
+
+    private cleanupIdleSessions() {
+        const now = Date.now();
+        for (const session of Array.from(this.sessions.values())) {
+            const hasOpenStream = !!session.standaloneStream || session.requestStreams.size > 0;
+            if (!hasOpenStream && now - session.lastActivity > SESSION_IDLE_TIMEOUT_MS) {
+                this.closeSession(session);
+            }
+        }
+    }
+
+    // --- Outgoing messages ---
+
+    async send(response: McpResponse, sessionId?: string): Promise<void> {
+        if (!sessionId) {
+            log(`No session given for response ID: ${response.id}. Dropping message.`);
+            return;
+        }
+
+        const session = this.sessions.get(sessionId);
+        const pending = this.pendingPosts.get(this.pendingKey(sessionId, response.id));
+        if (!session || !pending) {
+            log(`No pending request for response ID: ${response.id}. Dropping message.`);
+            return;
+        }
+
+        if (pending.mode === 'json') {
+            pending.collected.push(response);
+            return;
+        }
+
+        this.writeEvent(session, pending.streamId, response);
+    }
+
+    async notify(notification: McpNotification, sessionId?: string): Promise<void> {
+        const targets = sessionId
+            ? [this.sessions.get(sessionId)].filter((s): s is HttpSession => !!s)
+            : Array.from(this.sessions.values());
+
+        for (const session of targets) {
+            // Prefer the standalone stream; fall back to an open POST stream
+            const stream = session.standaloneStream ?? session.requestStreams.values().next().value;
+            if (!stream) {
+                log(`No open stream for session ${session.sessionId}. Dropping notification ${notification.method}.`);
+                continue;
+            }
+            this.writeEvent(session, stream.streamId, notification);
+        }
+    }
+
+    /**
+     * Record an event for resumption and write it to the stream if it is still open.
+     */
+    private writeEvent(session: HttpSession, streamId: string, message: JsonRpcMessage) {
+        const event: StoredEvent = {
+            id: session.nextEventId++,
+            streamId,
+            data: JSON.stringify(message)
+        };
+
+        session.events.push(event);
+        if (session.events.length > EVENT_BUFFER_SIZE) {
+            session.events.splice(0, session.events.length - EVENT_BUFFER_SIZE);
+        }
+
+        const stream = session.standaloneStream?.streamId === streamId
+            ? session.standaloneStream
+            : session.requestStreams.get(streamId);
+        stream?.response.write(`id: ${event.id}\nevent: message\ndata: ${event.data}\n\n`);
+    }
+
+    // --- Helpers ---
+
+    private pendingKey(sessionId: string, requestId: string | number): string {
+        return `${sessionId}:${requestId}`;
+    }
+
+    private readBody(req: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => resolve(body));
+            req.on('error', reject);
+        });
+    }
+
+    private writeJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
+    }
+
+    /**
+     * Get client IP from request.
+     */
+    private getClientIp(req: http.IncomingMessage): string | undefined {
+        return clientIp(this.policy, req);
+    }
+
+    /**
+     * Get headers as a simple object.
+     */
+    private getHeaders(req: http.IncomingMessage): Record<string, string> {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(req.headers)) {
+            if (typeof value === 'string') {
+                headers[key] = value;
+            } else if (Array.isArray(value)) {
+                headers[key] = value[0];
+            }
+        }
+        return headers;
+    }
+
+    /**
+     * Get active session count.
+     */
+    getActiveSessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Get all active sessions info.
+     */
+    getActiveSessions(): Array<{
+        sessionId: string;
+        authSessionId?: string;
+        client?: string;
+        connectedAt: number;
+        ip?: string;
+    }> {
+        return Array.from(this.sessions.values()).map(session => ({
+            sessionId: session.sessionId,
+            authSessionId: session.authSession?.sessionId,
+            client: session.authSession?.client,
+            connectedAt: session.connectedAt,
+            ip: session.ip
+        }));
+    }
+}
@@ -4,29 +4,54 @@
  * Defines the contract for MCP transport layers.
  */
 
-import { McpRequest, McpResponse } from '../types';
+import { McpRequest, McpResponse, McpNotification, TransportMode } from '../types';
 import { StdioTransport } from './stdio';
 import { SseTransport, SseSession } from './sse';
-import { McpAuthMiddleware } from '../auth';
+import { StreamableHttpTransport, HttpSession } from './http';
+import { WebSocketTransport, WebSocketSession } from './websocket';
+import { UnixSocketTransport, UnixSession } from './unix';
+import { McpAuthMiddleware, AuthenticatedSession } from '../auth';
+import { TokenRefresher } from './token';
+import { networkPolicyFromEnv } from './network';
+import { HTTP_PATH, SOCKET_PATH } from '../config';
 
 export interface McpTransport {
     /** Start the transport and register a request handler */
     start(handler: (req: McpRequest, sessionId?: string) => Promise<void>): Promise<void>;
-    /** Send a response back through the transport */
-    send(response: McpResponse): Promise<void>;
+    /** Send a response back through the transport, to the session the request came from */
+    send(response: McpResponse, sessionId?: string): Promise<void>;
+    /** Send a server-initiated notification to one session, or to all sessions when omitted */
+    notify(notification: McpNotification, sessionId?: string): Promise<void>;
+    /** Register a callback invoked when a client session disconnects (optional) */
+    onSessionClosed?(listener: (sessionId: string) => void): void;
     /** Set auth middleware (optional) */
     setAuthMiddleware?(middleware: McpAuthMiddleware): void;
+    /** Get the authenticated session behind a transport session (remote transports only) */
+    getAuthSession?(sessionId: string): AuthenticatedSession | undefined;
+    /** Serve POST /token with the given refresh handler (remote transports only) */
+    setTokenRefresher?(refresher: TokenRefresher): void;
+    /** Stop listening and close open connections (remote transports only) */
+    stop?(): Promise<void>;
 }
 
 /**
  * Factory to create a transport based on the type.
  */
-export function createTransport(type: 'stdio' | 'sse', port?: number): McpTransport {
+export function createTransport(type: TransportMode, port?: number): McpTransport {
     if (type === 'sse') {
-        return new SseTransport(port);
+        return new SseTransport(port, networkPolicyFromEnv());
+    }
+    if (type === 'http') {
+        return new StreamableHttpTransport(port, HTTP_PATH, networkPolicyFromEnv());
+    }
+    if (type === 'websocket') {
+        return new WebSocketTransport(port, networkPolicyFromEnv());
+    }
+    if (type === 'unix') {
+        return new UnixSocketTransport(SOCKET_PATH);
     }
     return new StdioTransport();
 }
 
-export { StdioTransport, SseTransport };
-export type { SseSession };
+export { StdioTransport, SseTransport, StreamableHttpTransport, WebSocketTransport, UnixSocketTransport };
+export type { SseSession, HttpSession, WebSocketSession, UnixSession };
@@ -0,0 +1,159 @@
+/**
+ * MCP Network Policy
+ *
+ * Decides which browsers and host names may reach a remote transport. Any
+ * web page the user visits can send requests to localhost, so browser
+ * requests (those with an `Origin` header) are only answered for allowlisted
+ * origins, and `Host` headers the server does not serve are rejected to
+ * defeat DNS rebinding (a hostile name re-pointed at 127.0.0.1).
+ *
+ * `X-Forwarded-For` is ignored unless the server is configured to sit behind
+ * a reverse proxy: the client IP feeds the audit log and anomaly detection,
+ * and any client can send the header.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+
+export interface TlsOptions {
+    cert: Buffer;
+    key: Buffer;
+}
+
+export interface NetworkPolicy {
+    /** Address the server listens on */
+    bindHost: string;
+    /** Origins (scheme://host[:port]) that browsers may connect from */
+    allowedOrigins: string[];
+    /** Host names accepted in the Host header, or null to accept any */
+    allowedHosts: string[] | null;
+    /** Take the client IP from X-Forwarded-For (behind a reverse proxy) */
+    trustProxy: boolean;
+    /** Serve HTTPS with this certificate */
+    tls?: TlsOptions;
+}
+
+/** Listen on loopback only unless MCP_BIND_HOST says otherwise */
+export const DEFAULT_BIND_HOST = '127.0.0.1';
+
+/** Host names that reach a loopback-bound server without rebinding */
+const LOOPBACK_HOST_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+export const DEFAULT_NETWORK_POLICY: NetworkPolicy = {
+    bindHost: DEFAULT_BIND_HOST,
+    allowedOrigins: [],
+    allowedHosts: LOOPBACK_HOST_NAMES,
+    trustProxy: false
+};
+
+export function isLoopbackAddress(host: string): boolean {
+    return host === 'localhost' || host === '::1' || /^127\./.test(host);
+}
+
+/**
+ * The origin of a URL in the form browsers send it (no default port, no
+ * path), or null if it is not an http(s) URL.
+ */
+export function normalizeOrigin(value: string): string | null {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : null;
+    } catch {
+        return null;
+    }
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Read the network policy from the environment:
+ * - MCP_BIND_HOST: listen address (default 127.0.0.1)
+ * - MCP_ALLOWED_ORIGINS: comma-separated browser origins (default none)
+ * - MCP_ALLOWED_HOSTS: comma-separated Host names, or `*` for any. Defaults
+ *   to the loopback names when bound to loopback, otherwise any.
+ * - MCP_TRUST_PROXY: `true` to take client IPs from X-Forwarded-For (default off)
+ * - MCP_TLS_CERT / MCP_TLS_KEY: PEM files to serve HTTPS with
+ */
+export function networkPolicyFromEnv(
+    env: Record<string, string | undefined> = process.env,
+    readFile: (path: string) => Buffer = fs.readFileSync
+): NetworkPolicy {
+    const bindHost = env.MCP_BIND_HOST || DEFAULT_BIND_HOST;
+
+    const allowedOrigins = splitList(env.MCP_ALLOWED_ORIGINS).map(entry => {
+        const origin = normalizeOrigin(entry);
+        if (!origin) {
+            throw new Error(`Invalid MCP_ALLOWED_ORIGINS entry: ${entry}`);
+        }
+        return origin;
+    });
+
+    let allowedHosts: string[] | null;
+    if (env.MCP_ALLOWED_HOSTS !== undefined) {
+        const hosts = splitList(env.MCP_ALLOWED_HOSTS).map(host => host.toLowerCase());
+        allowedHosts = hosts.includes('*') ? null : hosts;
+    } else {
+        allowedHosts = isLoopbackAddress(bindHost) ? LOOPBACK_HOST_NAMES : null;
+    }
+
+    if (!env.MCP_TLS_CERT !== !env.MCP_TLS_KEY) {
+        throw new Error('MCP_TLS_CERT and MCP_TLS_KEY must be set together');
+    }
+    const tls = env.MCP_TLS_CERT && env.MCP_TLS_KEY
+        ? { cert: readFile(env.MCP_TLS_CERT), key: readFile(env.MCP_TLS_KEY) }
+        : undefined;
+
+    const trustProxy = env.MCP_TRUST_PROXY === 'true';
+
+    return { bindHost, allowedOrigins, allowedHosts, trustProxy, ...(tls && { tls }) };
+}
+
+/**
+ * Why a request's Host header is not served, or null if it is.
+ */
+export function checkHost(policy: NetworkPolicy, hostHeader: string | undefined): string | null {
+    if (policy.allowedHosts === null) {
+        return null;
+    }
+    if (!hostHeader) {
+        return 'missing_host_header';
+    }
+
+    // Drop the port; IPv6 literals keep their brackets
+    const host = hostHeader.toLowerCase();
+    const name = host.startsWith('[') ? host.slice(0, host.indexOf(']') + 1) : host.split(':')[0];
+    return policy.allowedHosts.includes(name) ? null : 'host_not_allowed';
+}
+
+/**
+ * Why a request's Origin is refused, or null if it is allowed. Requests
+ * without an Origin do not come from a cross-site page and are allowed.
+ */
+export function checkOrigin(policy: NetworkPolicy, origin: string | undefined): string | null {
+    if (origin === undefined) {
+        return null;
+    }
+    const normalized = normalizeOrigin(origin);
+    return normalized && policy.allowedOrigins.includes(normalized) ? null : 'origin_not_allowed';
+}
+
+/**
+ * The client IP of a request. Behind a trusted proxy this is the last
+ * X-Forwarded-For entry, the address the proxy itself saw; earlier entries
+ * are whatever the client claimed. Otherwise it is the socket peer.
+ */
+export function clientIp(policy: NetworkPolicy, req: http.IncomingMessage): string | undefined {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (policy.trustProxy && forwarded) {
+        const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(Boolean);
+        if (entries.length > 0) {
+            return entries[entries.length - 1];
+        }
+    }
+    return req.socket.remoteAddress;
+}
@@ -2,20 +2,32 @@
  * MCP SSE Transport
  *
  * Implements the Model Context Protocol using Server-Sent Events (SSE).
- * Enhanced with JWT authentication support.
+ * Clients authenticate with a JWT or a signed AccessGrant, sent as a header on
+ * the SSE request or as the `accessGrant` parameter of `initialize`.
+ *
+ * Browser requests are only answered for allowlisted origins, and unknown Host
+ * headers are refused (see network.ts). The server can serve HTTPS.
  */
 
 import * as http from 'http';
+import * as https from 'https';
 import { randomUUID } from 'crypto';
-import { McpRequest, McpResponse } from '../types';
+import { McpRequest, McpResponse, McpNotification } from '../types';
 import { McpTransport } from './index';
 import { log } from '../config';
-import { McpAuthMiddleware, AuthenticatedSession } from '../auth';
+import { McpAuthMiddleware, AuthenticatedSession, ACCESS_GRANT_HEADER } from '../auth';
+import { TokenRefresher, TOKEN_ENDPOINT_PATH, handleTokenRequest } from './token';
+import { NetworkPolicy, DEFAULT_NETWORK_POLICY, checkHost, checkOrigin, clientIp } from './network';
+
+/** How long a connection may wait for an initialize carrying an AccessGrant */
+const PENDING_AUTH_TIMEOUT_MS = 30000;
 
 export interface SseSession {
     sessionId: string;
     response: http.ServerResponse;
     authSession?: AuthenticatedSession;
+    /** Connected without credentials; must authenticate with an AccessGrant in initialize */
+    pendingAuth?: boolean;
     connectedAt: number;
     ip?: string;
 }
@@ -26,9 +38,14 @@ export class SseTransport implements McpTransport {
     // Map request IDs to session IDs to route responses back to the correct client
     private requestSessionMap: Map<string | number, string> = new Map();
     private authMiddleware: McpAuthMiddleware | null = null;
+    private sessionClosedListeners: Array<(sessionId: string) => void> = [];
+    private tokenRefresher: TokenRefresher | null = null;
+    private policy: NetworkPolicy;
+    private server: http.Server | https.Server | null = null;
 
-    constructor(port: number = 3001) {
+    constructor(port: number = 3001, policy: NetworkPolicy = DEFAULT_NETWORK_POLICY) {
         this.port = port;
+        this.policy = policy;
     }
 
     /**
@@ -39,6 +56,20 @@ export class SseTransport implements McpTransport {
         log('SSE Transport: Auth middleware configured');
     }
 
+    /**
+     * Set the handler for refresh token exchanges on POST /token.
+     */
+    setTokenRefresher(refresher: TokenRefresher): void {
+        this.tokenRefresher = refresher;
+    }
+
+    /**
+     * Register a callback invoked when a client disconnects.
+     */
+    onSessionClosed(listener: (sessionId: string) => void): void {
+        this.sessionClosedListeners.push(listener);
+    }
+
     /**
      * Get authenticated session for a connection.
      */
@@ -47,14 +78,22 @@ export class SseTransport implements McpTransport {
     }
 
     async start(handler: (req: McpRequest, sessionId?: string) => Promise<void>): Promise<void> {
-        const server = http.createServer(async (req, res) => {
-            // CORS Headers
-            res.setHeader('Access-Control-Allow-Origin', '*');
-            res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
-            res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+        const listener = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+            if (!this.admit(req, res)) {
+                return;
+            }
+
+            // CORS headers, only for allowlisted origins
+            res.setHeader('Vary', 'Origin');
+            if (req.headers.origin) {
+                res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+                res.setHeader('Access-Control-Allow-Methods', 'POST, GET, OPTIONS');
+                res.setHeader('Access-Control-Allow-Headers', `Content-Type, Authorization, ${ACCESS_GRANT_HEADER}`);
+                res.setHeader('Access-Control-Max-Age', '600');
+            }
 
             if (req.method === 'OPTIONS') {
-                res.writeHead(200);
+                res.writeHead(204);
                 res.end();
                 return;
             }
@@ -71,6 +110,20 @@ export class SseTransport implements McpTransport {
                 return;
             }
 
+            // Token refresh endpoint
+            if (req.url === TOKEN_ENDPOINT_PATH && req.method === 'POST') {
+                try {
+                    await handleTokenRequest(req, res, this.tokenRefresher);
+                } catch (e) {
+                    log('Error handling token request:', (e as Error).message);
+                    if (!res.headersSent) {
+                        res.writeHead(500, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: 'server_error' }));
+                    }
+                }
+                return;
+            }
+
             // Health check endpoint
             if (req.url === '/health') {
                 res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -84,31 +137,81 @@ export class SseTransport implements McpTransport {
 
             res.writeHead(404);
             res.end('Not Found');
-        });
+        };
+
+        const server = this.policy.tls
+            ? https.createServer({ cert: this.policy.tls.cert, key: this.policy.tls.key }, listener)
+            : http.createServer(listener);
+        this.server = server;
+        const base = `${this.policy.tls ? 'https' : 'http'}://${this.policy.bindHost}:${this.port}`;
 
         return new Promise((resolve) => {
-            server.listen(this.port, () => {
-                log(`SSE Transport listening on http://localhost:${this.port}`);
-                log(`- SSE URL: http://localhost:${this.port}/sse`);
-                log(`- POST URL: http://localhost:${this.port}/messages`);
-                log(`- Health: http://localhost:${this.port}/health`);
+            server.listen(this.port, this.policy.bindHost, () => {
+                log(`SSE Transport listening on ${base}`);
+                log(`- SSE URL: ${base}/sse`);
+                log(`- POST URL: ${base}/messages`);
+                log(`- Health: ${base}/health`);
+                log(`- Token refresh: ${base}${TOKEN_ENDPOINT_PATH}`);
                 log(`- Auth: ${this.authMiddleware ? 'enabled' : 'disabled'}`);
+                log(`- Allowed origins: ${this.policy.allowedOrigins.join(', ') || 'none'}`);
+                if (this.policy.allowedHosts === null) {
+                    log('- Host header checks are off; set MCP_ALLOWED_HOSTS to guard against DNS rebinding');
+                }
                 resolve();
             });
         });
     }
 
+    /**
+     * Stop listening and close open connections.
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+        await new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    /**
+     * Refuse requests from browser origins that are not allowlisted and from
+     * unknown Host names (DNS rebinding). Returns false if the request was refused.
+     */
+    private admit(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+        const origin = req.headers.origin;
+        const reason = checkHost(this.policy, req.headers.host) ?? checkOrigin(this.policy, origin);
+        if (!reason) {
+            return true;
+        }
+
+        const ip = this.getClientIp(req);
+        log(`SSE request refused (${reason}): origin ${origin ?? 'none'}, host ${req.headers.host ?? 'none'}`);
+        this.authMiddleware?.getAuditLogger().logConnectionRejected({
+            ip,
+            reason,
+            metadata: { origin, host: req.headers.host, path: req.url }
+        });
+
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Forbidden' }));
+        return false;
+    }
+
     private async handleSseConnection(req: http.IncomingMessage, res: http.ServerResponse) {
         const sessionId = randomUUID();
         const ip = this.getClientIp(req);
 
         // Authenticate if middleware is configured
         let authSession: AuthenticatedSession | undefined;
-        if (this.authMiddleware) {
-            const authResult = await this.authMiddleware.authenticate({
-                headers: this.getHeaders(req),
-                ip
-            });
+        let pendingAuth = false;
+        const headers = this.getHeaders(req);
+        if (this.authMiddleware && !headers.authorization && !headers[ACCESS_GRANT_HEADER]) {
+            // No credentials yet: the client may present an AccessGrant in initialize
+            pendingAuth = true;
+        } else if (this.authMiddleware) {
+            const authResult = await this.authMiddleware.authenticate({ headers, ip });
 
             if (!authResult.authenticated) {
                 log(`SSE connection rejected: ${authResult.error}`);
@@ -131,16 +234,26 @@ export class SseTransport implements McpTransport {
             sessionId,
             response: res,
             authSession,
+            pendingAuth,
             connectedAt: Date.now(),
             ip
         };
         this.clients.set(sessionId, sseSession);
-        log(`Client connected: ${sessionId}${authSession ? ` (${authSession.client})` : ''}`);
+        log(`Client connected: ${sessionId}${authSession ? ` (${authSession.client})` : ''}${pendingAuth ? ' (awaiting access grant)' : ''}`);
+
+        if (pendingAuth) {
+            setTimeout(() => {
+                if (this.clients.get(sessionId)?.pendingAuth) {
+                    log(`Closing ${sessionId}: no access grant presented`);
+                    res.end();
+                }
+            }, PENDING_AUTH_TIMEOUT_MS).unref();
+        }
 
         // Send endpoint URL event
         const endpointEvent = {
             type: 'endpoint',
-            endpoint: `http://localhost:${this.port}/messages?sessionId=${sessionId}`
+            endpoint: `${this.policy.tls ? 'https' : 'http'}://${req.headers.host ?? `localhost:${this.port}`}/messages?sessionId=${sessionId}`
         };
         res.write(`event: endpoint\ndata: ${JSON.stringify(endpointEvent)}\n\n`);
 
@@ -169,6 +282,10 @@ export class SseTransport implements McpTransport {
                     this.requestSessionMap.delete(reqId);
                 }
             }
+
+            for (const listener of this.sessionClosedListeners) {
+                listener(sessionId);
+            }
         });
     }
 
@@ -176,11 +293,7 @@ export class SseTransport implements McpTransport {
      * Get client IP from request.
      */
     private getClientIp(req: http.IncomingMessage): string | undefined {
-        const forwarded = req.headers['x-forwarded-for'];
-        if (forwarded) {
-            return Array.isArray(forwarded) ? forwarded[0] : forwarded.split(',')[0].trim();
-        }
-        return req.socket.remoteAddress;
+        return clientIp(this.policy, req);
     }
 
     /**
@@ -220,6 +333,13 @@ export class SseTransport implements McpTransport {
 
                 const request = JSON.parse(body) as McpRequest;
 
+                const session = this.clients.get(sessionId)!;
+                if (session.pendingAuth && !(await this.authenticatePending(session, request))) {
+                    res.writeHead(401);
+                    res.end('Unauthorized: Present an access grant in initialize');
+                    return;
+                }
+
                 // Map the request ID to this session so we know where to send the response
                 if (request.id !== undefined) {
                     this.requestSessionMap.set(request.id, sessionId);
@@ -238,7 +358,31 @@ export class SseTransport implements McpTransport {
         });
     }
 
-    async send(response: McpResponse): Promise<void> {
+    /**
+     * Authenticate a credential-less connection with the AccessGrant in its initialize request.
+     */
+    private async authenticatePending(session: SseSession, request: McpRequest): Promise<boolean> {
+        if (!this.authMiddleware || request.method !== 'initialize') {
+            return false;
+        }
+
+        const authResult = await this.authMiddleware.authenticateWithGrant(request.params?.accessGrant, session.ip);
+        if (!authResult.authenticated || !authResult.session) {
+            log(`SSE grant authentication failed for ${session.sessionId}: ${authResult.error}`);
+            return false;
+        }
+
+        session.authSession = authResult.session;
+        session.pendingAuth = false;
+        this.authMiddleware.getAuditLogger().logConnectionOpened({
+            sessionId: authResult.session.sessionId,
+            ip: session.ip,
+            client: authResult.session.client
+        });
+        return true;
+    }
+
+    async send(response: McpResponse, sessionIdHint?: string): Promise<void> {
         const id = response.id;
 
         if (id === undefined) {
@@ -250,24 +394,43 @@ export class SseTransport implements McpTransport {
             return;
         }
 
-        const sessionId = this.requestSessionMap.get(id);
+        // Prefer the session the server handled the request for; the ID map is a fallback
+        const sessionId = sessionIdHint ?? this.requestSessionMap.get(id);
+        if (this.requestSessionMap.get(id) === sessionId) {
+            this.requestSessionMap.delete(id); // Clean up
+        }
 
         if (sessionId) {
             const session = this.clients.get(sessionId);
             if (session) {
                 const payload = JSON.stringify(response);
                 session.response.write(`event: message\ndata: ${payload}\n\n`);
-                this.requestSessionMap.delete(id); // Clean up
                 return;
-            } else {
-                log(`Client not found for session ${sessionId}, creating orphan response`);
-                this.requestSessionMap.delete(id); // Cleanup dead session ref
             }
+            log(`Client not found for session ${sessionId}, dropping orphan response`);
         }
 
         log(`No active session found for response ID: ${id}. Dropping message.`);
     }
 
+    async notify(notification: McpNotification, sessionId?: string): Promise<void> {
+        const payload = JSON.stringify(notification);
+
+        if (!sessionId) {
+            for (const [, session] of this.clients) {
+                session.response.write(`event: message\ndata: ${payload}\n\n`);
+            }
+            return;
+        }
+
+        const session = this.clients.get(sessionId);
+        if (!session) {
+            log(`Client not found for session ${sessionId}. Dropping notification ${notification.method}.`);
+            return;
+        }
+        session.response.write(`event: message\ndata: ${payload}\n\n`);
+    }
+
     /**
      * Get active session count.
      */
@@ -4,12 +4,23 @@
  * Implements the Model Context Protocol using standard input/output.
  */
 
-import { McpRequest, McpResponse } from '../types';
+import { McpRequest, McpResponse, McpNotification } from '../types';
 import { McpTransport } from './index';
 import { log } from '../config';
 
+/** Session ID reported when the single STDIO client disconnects */
+const STDIO_SESSION_KEY = 'stdio';
+
 export class StdioTransport implements McpTransport {
     private buffer: string = '';
+    private sessionClosedListeners: Array<(sessionId: string) => void> = [];
+
+    /**
+     * Register a callback invoked when the client closes stdin.
+     */
+    onSessionClosed(listener: (sessionId: string) => void): void {
+        this.sessionClosedListeners.push(listener);
+    }
 
     async start(handler: (req: McpRequest) => Promise<void>): Promise<void> {
         process.stdin.setEncoding('utf8');
@@ -29,6 +40,12 @@ export class StdioTransport implements McpTransport {
                 }
             }
         });
+        process.stdin.on('end', () => {
+            log('STDIO client disconnected');
+            for (const listener of this.sessionClosedListeners) {
+                listener(STDIO_SESSION_KEY);
+            }
+        });
 
         // Keep process alive
         return new Promise(() => { });
@@ -37,4 +54,9 @@ export class StdioTransport implements McpTransport {
     async send(response: McpResponse): Promise<void> {
         process.stdout.write(JSON.stringify(response) + '\n');
     }
+
+    async notify(notification: McpNotification): Promise<void> {
+        // STDIO has a single client, so the session ID is irrelevant
+        process.stdout.write(JSON.stringify(notification) + '\n');
+    }
 }
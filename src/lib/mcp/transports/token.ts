@@ -0,0 +1,69 @@
+/**
+ * Token Refresh Endpoint
+ *
+ * `POST /token` on the remote transports. Exchanges a refresh token for a new
+ * access token without an MCP session, since the old access token may already
+ * have expired. Request and response bodies follow the OAuth 2.0 shape.
+ */
+
+import * as http from 'http';
+import { TokenPair } from '../tokens';
+import { log } from '../config';
+
+export const TOKEN_ENDPOINT_PATH = '/token';
+
+export type TokenRefresher = (refreshToken: string) => Promise<TokenPair>;
+
+function writeJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Handle `POST /token` with `{ "grant_type": "refresh_token", "refresh_token": "..." }`.
+ */
+export async function handleTokenRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    refresher: TokenRefresher | null
+): Promise<void> {
+    if (!refresher) {
+        writeJson(res, 503, { error: 'temporarily_unavailable', error_description: 'Token refresh is not configured' });
+        return;
+    }
+
+    let body: { grant_type?: unknown; refresh_token?: unknown } | null;
+    try {
+        body = JSON.parse(await new Promise<string>((resolve, reject) => {
+            let data = '';
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => resolve(data));
+            req.on('error', reject);
+        }));
+    } catch {
+        writeJson(res, 400, { error: 'invalid_request', error_description: 'Body must be JSON' });
+        return;
+    }
+
+    if (body === null || typeof body !== 'object') {
+        writeJson(res, 400, { error: 'invalid_request', error_description: 'Body must be a JSON object' });
+        return;
+    }
+    if (body.grant_type !== 'refresh_token' || typeof body.refresh_token !== 'string') {
+        writeJson(res, 400, { error: 'invalid_request', error_description: 'Expected grant_type refresh_token' });
+        return;
+    }
+
+    try {
+        const pair = await refresher(body.refresh_token);
+        writeJson(res, 200, {
+            access_token: pair.accessToken,
+            token_type: 'Bearer',
+            expires_in: Math.round((pair.expiresAt - Date.now()) / 1000),
+            refresh_token: pair.refreshToken
+        });
+    } catch (error) {
+        log(`Token refresh rejected: ${(error as Error).message}`);
+        writeJson(res, 401, { error: 'invalid_grant', error_description: (error as Error).message });
+    }
+}
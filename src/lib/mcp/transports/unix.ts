@@ -0,0 +1,359 @@
+/**
+ * MCP Unix Socket Transport
+ *
+ * Serves local agents over a Unix domain socket with newline-delimited JSON,
+ * one message per line, like STDIO but for any number of processes.
+ *
+ * Node cannot read peer credentials (SO_PEERCRED), so trust rests on the
+ * socket file: a connection is treated as the vault owner only while the
+ * socket belongs to this process's user, has no group or other permissions,
+ * and sits in a directory others cannot write to. Otherwise the client must
+ * present an AccessGrant in `initialize`, as on the remote transports.
+ * Lines that arrive while that grant is checked are queued and handled in
+ * order once it is.
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { McpRequest, McpResponse, McpNotification } from '../types';
+import { McpTransport } from './index';
+import { log } from '../config';
+import { McpAuthMiddleware, AuthenticatedSession } from '../auth';
+
+/** Client name of connections trusted through the socket permissions */
+export const UNIX_SOCKET_CLIENT = 'local-unix-socket';
+
+/** Largest line accepted from a client */
+const MAX_LINE_BYTES = 4 * 1024 * 1024;
+
+/** How long an untrusted connection may wait for an initialize carrying an AccessGrant */
+const PENDING_AUTH_TIMEOUT_MS = 30000;
+
+export interface UnixSession {
+    sessionId: string;
+    socket: net.Socket;
+    authSession?: AuthenticatedSession;
+    /** Socket permissions could not be trusted; must authenticate with an AccessGrant in initialize */
+    pendingAuth?: boolean;
+    /** Messages received before authentication finished, handled in order */
+    authQueue?: Promise<void>;
+    connectedAt: number;
+    /** Incomplete line received so far */
+    buffer: string;
+}
+
+/**
+ * Why the socket file cannot be trusted to admit only the vault owner, or
+ * null if it can.
+ */
+export function checkSocketPermissions(socketPath: string): string | null {
+    if (typeof process.getuid !== 'function') {
+        return 'platform has no user IDs';
+    }
+
+    let socketStat: fs.Stats;
+    let dirStat: fs.Stats;
+    try {
+        socketStat = fs.statSync(socketPath);
+        dirStat = fs.statSync(path.dirname(socketPath));
+    } catch (e) {
+        return (e as Error).message;
+    }
+
+    const uid = process.getuid();
+    if (socketStat.uid !== uid) {
+        return 'socket is owned by another user';
+    }
+    if ((socketStat.mode & 0o077) !== 0) {
+        return 'socket is accessible to other users';
+    }
+    // A writable directory would let others replace the socket
+    if (dirStat.uid !== uid && dirStat.uid !== 0) {
+        return 'socket directory is owned by another user';
+    }
+    if ((dirStat.mode & 0o022) !== 0) {
+        return 'socket directory is writable by other users';
+    }
+    return null;
+}
+
+export class UnixSocketTransport implements McpTransport {
+    private socketPath: string;
+    private sessions: Map<string, UnixSession> = new Map();
+    private authMiddleware: McpAuthMiddleware | null = null;
+    private sessionClosedListeners: Array<(sessionId: string) => void> = [];
+    private handler: ((req: McpRequest, sessionId?: string) => Promise<void>) | null = null;
+    private server: net.Server | null = null;
+
+    constructor(socketPath: string) {
+        this.socketPath = socketPath;
+    }
+
+    /**
+     * Set the authentication middleware.
+     */
+    setAuthMiddleware(middleware: McpAuthMiddleware): void {
+        this.authMiddleware = middleware;
+        log('Unix Socket Transport: Auth middleware configured');
+    }
+
+    /**
+     * Register a callback invoked when a client disconnects.
+     */
+    onSessionClosed(listener: (sessionId: string) => void): void {
+        this.sessionClosedListeners.push(listener);
+    }
+
+    /**
+     * Get authenticated session for a connection.
+     */
+    getAuthSession(sessionId: string): AuthenticatedSession | undefined {
+        return this.sessions.get(sessionId)?.authSession;
+    }
+
+    async start(handler: (req: McpRequest, sessionId?: string) => Promise<void>): Promise<void> {
+        this.handler = handler;
+
+        fs.mkdirSync(path.dirname(this.socketPath), { recursive: true, mode: 0o700 });
+        this.removeStaleSocket();
+
+        const server = net.createServer(socket => this.handleConnection(socket));
+        this.server = server;
+
+        // Create the socket without group/other permissions from the start
+        const previousUmask = process.umask(0o077);
+        try {
+            await new Promise<void>((resolve, reject) => {
+                server.once('error', reject);
+                server.listen(this.socketPath, () => {
+                    server.off('error', reject);
+                    resolve();
+                });
+            });
+        } finally {
+            process.umask(previousUmask);
+        }
+        fs.chmodSync(this.socketPath, 0o600);
+
+        process.once('exit', () => {
+            try {
+                fs.unlinkSync(this.socketPath);
+            } catch {
+                // Already gone
+            }
+        });
+
+        const untrusted = checkSocketPermissions(this.socketPath);
+        log(`Unix Socket Transport listening on ${this.socketPath}`);
+        log(`- Local trust: ${untrusted ? `off (${untrusted}); access grants required` : 'on'}`);
+    }
+
+    /**
+     * Stop listening, close open connections and remove the socket file.
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+        for (const session of Array.from(this.sessions.values())) {
+            session.socket.destroy();
+            this.removeSession(session);
+        }
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        try {
+            fs.unlinkSync(this.socketPath);
+        } catch {
+            // Already gone
+        }
+    }
+
+    /**
+     * Remove a socket file left behind by a previous run. Refuses to remove
+     * anything that is not a socket.
+     */
+    private removeStaleSocket() {
+        let stat: fs.Stats;
+        try {
+            stat = fs.lstatSync(this.socketPath);
+        } catch {
+            return;
+        }
+        if (!stat.isSocket()) {
+            throw new Error(`${this.socketPath} exists and is not a socket`);
+        }
+        fs.unlinkSync(this.socketPath);
+        log(`Removed stale socket ${this.socketPath}`);
+    }
+
+    // --- Connections ---
+
+    private handleConnection(socket: net.Socket) {
+        const session: UnixSession = {
+            sessionId: randomUUID(),
+            socket,
+            connectedAt: Date.now(),
+            buffer: ''
+        };
+
+        if (this.authMiddleware) {
+            // Re-checked per connection: the file may have been changed since start
+            const untrusted = checkSocketPermissions(this.socketPath);
+            if (untrusted) {
+                log(`Unix socket connection ${session.sessionId} not trusted (${untrusted}); awaiting access grant`);
+                session.pendingAuth = true;
+                setTimeout(() => {
+                    if (session.pendingAuth && !socket.destroyed) {
+                        log(`Closing ${session.sessionId}: no access grant presented`);
+                        socket.destroy();
+                    }
+                }, PENDING_AUTH_TIMEOUT_MS).unref();
+            } else {
+                session.authSession = this.authMiddleware.authenticateLocal(UNIX_SOCKET_CLIENT).session;
+                this.authMiddleware.getAuditLogger().logConnectionOpened({
+                    sessionId: session.authSession!.sessionId,
+                    client: UNIX_SOCKET_CLIENT
+                });
+            }
+        }
+
+        this.sessions.set(session.sessionId, session);
+        log(`Unix socket client connected: ${session.sessionId}`);
+
+        socket.setEncoding('utf8');
+        socket.on('data', (chunk: string) => this.receive(session, chunk));
+        socket.on('close', () => this.removeSession(session));
+        socket.on('error', e => log(`Unix socket error on ${session.sessionId}:`, e.message));
+    }
+
+    private receive(session: UnixSession, chunk: string) {
+        session.buffer += chunk;
+        if (session.buffer.length > MAX_LINE_BYTES) {
+            log(`Closing ${session.sessionId}: message too large`);
+            session.socket.destroy();
+            return;
+        }
+
+        const lines = session.buffer.split('\n');
+        session.buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+
+            let request: McpRequest;
+            try {
+                request = JSON.parse(line);
+            } catch {
+                this.write(session, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+                continue;
+            }
+            this.dispatch(session, request);
+        }
+    }
+
+    private dispatch(session: UnixSession, request: McpRequest) {
+        // Until the AccessGrant in initialize is checked, later messages wait their turn
+        if (session.pendingAuth || session.authQueue) {
+            const queue = (session.authQueue ?? Promise.resolve()).then(() => this.handle(session, request));
+            session.authQueue = queue;
+            queue.finally(() => {
+                if (session.authQueue === queue) {
+                    session.authQueue = undefined;
+                }
+            });
+            return;
+        }
+        this.handle(session, request);
+    }
+
+    /**
+     * Hand a message to the server without waiting for it, so responses to
+     * server requests (e.g. sampling) and cancellations arrive while a tool call runs.
+     */
+    private async handle(session: UnixSession, request: McpRequest): Promise<void> {
+        const logFailure = (e: unknown) =>
+            log(`Error handling Unix socket message on ${session.sessionId}:`, (e as Error).message);
+
+        if (session.socket.destroyed) return;
+        try {
+            if (session.pendingAuth && !(await this.authenticatePending(session, request))) {
+                session.socket.destroy();
+                return;
+            }
+        } catch (e) {
+            logFailure(e);
+            session.socket.destroy();
+            return;
+        }
+        this.handler!(request, session.sessionId).catch(logFailure);
+    }
+
+    /**
+     * Authenticate an untrusted connection with the AccessGrant in its initialize request.
+     */
+    private async authenticatePending(session: UnixSession, request: McpRequest): Promise<boolean> {
+        if (!this.authMiddleware || request.method !== 'initialize') {
+            log(`Unix socket connection ${session.sessionId} sent ${request.method} before authenticating`);
+            return false;
+        }
+
+        const authResult = await this.authMiddleware.authenticateWithGrant(request.params?.accessGrant);
+        if (!authResult.authenticated || !authResult.session) {
+            log(`Unix socket grant authentication failed for ${session.sessionId}: ${authResult.error}`);
+            return false;
+        }
+
+        session.authSession = authResult.session;
+        session.pendingAuth = false;
+        this.authMiddleware.getAuditLogger().logConnectionOpened({
+            sessionId: authResult.session.sessionId,
+            client: authResult.session.client
+        });
+        return true;
+    }
+
+    private removeSession(session: UnixSession) {
+        if (!this.sessions.delete(session.sessionId)) return;
+        log(`Unix socket client disconnected: ${session.sessionId}`);
+
+        if (this.authMiddleware && session.authSession) {
+            this.authMiddleware.removeSession(session.authSession.sessionId);
+        }
+        for (const listener of this.sessionClosedListeners) {
+            listener(session.sessionId);
+        }
+    }
+
+    // --- Outgoing messages ---
+
+    async send(response: McpResponse, sessionId?: string): Promise<void> {
+        const session = sessionId ? this.sessions.get(sessionId) : undefined;
+        if (!session) {
+            log(`No Unix socket session for response ID: ${response.id}. Dropping message.`);
+            return;
+        }
+        this.write(session, response);
+    }
+
+    async notify(notification: McpNotification, sessionId?: string): Promise<void> {
+        if (!sessionId) {
+            for (const session of this.sessions.values()) {
+                this.write(session, notification);
+            }
+            return;
+        }
+
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            log(`Client not found for session ${sessionId}. Dropping notification ${notification.method}.`);
+            return;
+        }
+        this.write(session, notification);
+    }
+
+    private write(session: UnixSession, message: unknown) {
+        if (session.socket.destroyed) return;
+        session.socket.write(JSON.stringify(message) + '\n');
+    }
+}
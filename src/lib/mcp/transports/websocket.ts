@@ -0,0 +1,597 @@
+/**
+ * MCP WebSocket Transport
+ *
+ * One full-duplex WebSocket connection per client, for browser-hosted agents.
+ * Every text message carries one JSON-RPC message (or a batch). Implements the
+ * server side of RFC 6455 directly on Node's HTTP upgrade, like the other
+ * transports build on `http` without a framework.
+ *
+ * Clients authenticate with a JWT or AccessGrant header on the upgrade request.
+ * Browsers cannot set those headers, so a connection without credentials may
+ * instead pass an AccessGrant as the `accessGrant` parameter of `initialize`.
+ * Messages that arrive while that grant is checked are queued and handled in
+ * order once it is.
+ *
+ * Browsers send an Origin header on every upgrade but do not apply CORS to
+ * WebSockets, so upgrades from origins that are not allowlisted are refused
+ * (cross-site WebSocket hijacking), as are unknown Host headers (see network.ts).
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { Duplex } from 'stream';
+import { createHash, randomUUID } from 'crypto';
+import { McpRequest, McpResponse, McpNotification } from '../types';
+import { McpTransport } from './index';
+import { log } from '../config';
+import { McpAuthMiddleware, AuthenticatedSession, ACCESS_GRANT_HEADER } from '../auth';
+import { TokenRefresher, TOKEN_ENDPOINT_PATH, handleTokenRequest } from './token';
+import { NetworkPolicy, DEFAULT_NETWORK_POLICY, checkHost, checkOrigin, clientIp } from './network';
+
+/** Path that accepts WebSocket upgrades */
+export const WEBSOCKET_PATH = '/ws';
+
+/** RFC 6455 handshake GUID */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest message accepted from a client */
+const MAX_MESSAGE_BYTES = 4 * 1024 * 1024;
+
+/** How long a connection may wait for an initialize carrying an AccessGrant */
+const PENDING_AUTH_TIMEOUT_MS = 30000;
+
+/** Ping interval; a client that misses a whole interval is disconnected */
+const PING_INTERVAL_MS = 30000;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Close codes used by the server */
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_UNSUPPORTED_DATA = 1003;
+const CLOSE_POLICY_VIOLATION = 1008;
+const CLOSE_TOO_BIG = 1009;
+
+export interface WebSocketSession {
+    sessionId: string;
+    socket: Duplex;
+    authSession?: AuthenticatedSession;
+    /** Connected without credentials; must authenticate with an AccessGrant in initialize */
+    pendingAuth?: boolean;
+    /** Messages received before authentication finished, handled in order */
+    authQueue?: Promise<void>;
+    connectedAt: number;
+    ip?: string;
+    /** Unparsed bytes received so far */
+    buffer: Buffer;
+    /** Fragments of a message split across frames */
+    fragments: Buffer[];
+    alive: boolean;
+    closed: boolean;
+}
+
+/**
+ * Encode a server frame. Server frames are never masked.
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+export class WebSocketTransport implements McpTransport {
+    private port: number;
+    private sessions: Map<string, WebSocketSession> = new Map();
+    private authMiddleware: McpAuthMiddleware | null = null;
+    private sessionClosedListeners: Array<(sessionId: string) => void> = [];
+    private tokenRefresher: TokenRefresher | null = null;
+    private handler: ((req: McpRequest, sessionId?: string) => Promise<void>) | null = null;
+    private policy: NetworkPolicy;
+    private server: http.Server | https.Server | null = null;
+    private pingTimer: NodeJS.Timeout | null = null;
+
+    constructor(port: number = 3001, policy: NetworkPolicy = DEFAULT_NETWORK_POLICY) {
+        this.port = port;
+        this.policy = policy;
+    }
+
+    /**
+     * Set the authentication middleware.
+     */
+    setAuthMiddleware(middleware: McpAuthMiddleware): void {
+        this.authMiddleware = middleware;
+        log('WebSocket Transport: Auth middleware configured');
+    }
+
+    /**
+     * Set the handler for refresh token exchanges on POST /token.
+     */
+    setTokenRefresher(refresher: TokenRefresher): void {
+        this.tokenRefresher = refresher;
+    }
+
+    /**
+     * Register a callback invoked when a client disconnects.
+     */
+    onSessionClosed(listener: (sessionId: string) => void): void {
+        this.sessionClosedListeners.push(listener);
+    }
+
+    /**
+     * Get authenticated session for a connection.
+     */
+    getAuthSession(sessionId: string): AuthenticatedSession | undefined {
+        return this.sessions.get(sessionId)?.authSession;
+    }
+
+    async start(handler: (req: McpRequest, sessionId?: string) => Promise<void>): Promise<void> {
+        this.handler = handler;
+
+        const listener = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+            if (req.url === '/health') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({
+                    status: 'healthy',
+                    activeSessions: this.sessions.size,
+                    authEnabled: !!this.authMiddleware
+                }));
+                return;
+            }
+
+            if (req.url === TOKEN_ENDPOINT_PATH && req.method === 'POST') {
+                try {
+                    await handleTokenRequest(req, res, this.tokenRefresher);
+                } catch (e) {
+                    log('Error handling token request:', (e as Error).message);
+                    if (!res.headersSent) {
+                        res.writeHead(500, { 'Content-Type': 'application/json' });
+                        res.end(JSON.stringify({ error: 'server_error' }));
+                    }
+                }
+                return;
+            }
+
+            if (req.url?.startsWith(WEBSOCKET_PATH)) {
+                res.writeHead(426, { Upgrade: 'websocket' });
+                res.end('Upgrade Required');
+                return;
+            }
+
+            res.writeHead(404);
+            res.end('Not Found');
+        };
+
+        const server = this.policy.tls
+            ? https.createServer({ cert: this.policy.tls.cert, key: this.policy.tls.key }, listener)
+            : http.createServer(listener);
+        this.server = server;
+        const secure = !!this.policy.tls;
+        const host = `${this.policy.bindHost}:${this.port}`;
+
+        server.on('upgrade', (req, socket) => {
+            this.handleUpgrade(req, socket).catch(e => {
+                log('Error handling WebSocket upgrade:', (e as Error).message);
+                socket.destroy();
+            });
+        });
+
+        this.pingTimer = setInterval(() => this.pingSessions(), PING_INTERVAL_MS);
+        this.pingTimer.unref();
+
+        return new Promise((resolve) => {
+            server.listen(this.port, this.policy.bindHost, () => {
+                log(`WebSocket Transport listening on ${secure ? 'wss' : 'ws'}://${host}${WEBSOCKET_PATH}`);
+                log(`- Health: ${secure ? 'https' : 'http'}://${host}/health`);
+                log(`- Token refresh: ${secure ? 'https' : 'http'}://${host}${TOKEN_ENDPOINT_PATH}`);
+                log(`- Auth: ${this.authMiddleware ? 'enabled' : 'disabled'}`);
+                log(`- Allowed origins: ${this.policy.allowedOrigins.join(', ') || 'none'}`);
+                if (this.policy.allowedHosts === null) {
+                    log('- Host header checks are off; set MCP_ALLOWED_HOSTS to guard against DNS rebinding');
+                }
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stop listening and close open connections.
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+        this.server = null;
+        if (this.pingTimer) {
+            clearInterval(this.pingTimer);
+            this.pingTimer = null;
+        }
+        // Upgraded sockets are no longer tracked by the HTTP server
+        for (const session of Array.from(this.sessions.values())) {
+            session.socket.destroy();
+            this.removeSession(session);
+        }
+        await new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    // --- Handshake ---
+
+    private async handleUpgrade(req: http.IncomingMessage, socket: Duplex) {
+        const url = new URL(req.url || '', `http://localhost:${this.port}`);
+        const key = req.headers['sec-websocket-key'];
+
+        if (url.pathname !== WEBSOCKET_PATH) {
+            this.rejectUpgrade(socket, 404, 'Not Found');
+            return;
+        }
+        if ((req.headers.upgrade || '').toLowerCase() !== 'websocket' || typeof key !== 'string'
+            || req.headers['sec-websocket-version'] !== '13') {
+            this.rejectUpgrade(socket, 400, 'Bad Request');
+            return;
+        }
+
+        const ip = this.getClientIp(req);
+        const origin = req.headers.origin;
+        const refused = checkHost(this.policy, req.headers.host) ?? checkOrigin(this.policy, origin);
+        if (refused) {
+            log(`WebSocket upgrade refused (${refused}): origin ${origin ?? 'none'}, host ${req.headers.host ?? 'none'}`);
+            this.authMiddleware?.getAuditLogger().logConnectionRejected({
+                ip,
+                reason: refused,
+                metadata: { origin, host: req.headers.host, path: req.url }
+            });
+            this.rejectUpgrade(socket, 403, 'Forbidden');
+            return;
+        }
+
+        const headers = this.getHeaders(req);
+        let authSession: AuthenticatedSession | undefined;
+        let pendingAuth = false;
+
+        if (this.authMiddleware && !headers.authorization && !headers[ACCESS_GRANT_HEADER]) {
+            // No credentials yet: the client may present an AccessGrant in initialize
+            pendingAuth = true;
+        } else if (this.authMiddleware) {
+            const authResult = await this.authMiddleware.authenticate({ headers, ip });
+            if (!authResult.authenticated) {
+                log(`WebSocket connection rejected: ${authResult.error}`);
+                this.rejectUpgrade(socket, 401, 'Unauthorized');
+                return;
+            }
+            authSession = authResult.session;
+        }
+
+        const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '',
+            ''
+        ].join('\r\n'));
+
+        const session: WebSocketSession = {
+            sessionId: randomUUID(),
+            socket,
+            authSession,
+            pendingAuth,
+            connectedAt: Date.now(),
+            ip,
+            buffer: Buffer.alloc(0),
+            fragments: [],
+            alive: true,
+            closed: false
+        };
+        this.sessions.set(session.sessionId, session);
+        log(`WebSocket client connected: ${session.sessionId}${authSession ? ` (${authSession.client})` : ''}${pendingAuth ? ' (awaiting access grant)' : ''}`);
+
+        if (pendingAuth) {
+            setTimeout(() => {
+                if (session.pendingAuth && !session.closed) {
+                    log(`Closing ${session.sessionId}: no access grant presented`);
+                    this.close(session, CLOSE_POLICY_VIOLATION, 'Authentication required');
+                }
+            }, PENDING_AUTH_TIMEOUT_MS).unref();
+        }
+
+        if (this.authMiddleware && authSession) {
+            this.authMiddleware.getAuditLogger().logConnectionOpened({
+                sessionId: authSession.sessionId,
+                ip,
+                client: authSession.client
+            });
+        }
+
+        socket.on('data', (chunk: Buffer) => this.receive(session, chunk));
+        // HTTP server sockets allow half-open connections; finish ours when the client does
+        socket.on('end', () => socket.end());
+        socket.on('close', () => this.removeSession(session));
+        socket.on('error', e => {
+            log(`WebSocket error on ${session.sessionId}:`, e.message);
+            socket.destroy();
+        });
+    }
+
+    private rejectUpgrade(socket: Duplex, status: number, reason: string) {
+        socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+    }
+
+    // --- Incoming frames ---
+
+    private receive(session: WebSocketSession, chunk: Buffer) {
+        session.buffer = Buffer.concat([session.buffer, chunk]);
+
+        while (!session.closed && session.buffer.length >= 2) {
+            const first = session.buffer[0];
+            const second = session.buffer[1];
+            const fin = (first & 0x80) !== 0;
+            const opcode = first & 0x0f;
+            const masked = (second & 0x80) !== 0;
+
+            let length = second & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (session.buffer.length < 4) return;
+                length = session.buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (session.buffer.length < 10) return;
+                const longLength = session.buffer.readBigUInt64BE(2);
+                if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+                    this.close(session, CLOSE_TOO_BIG, 'Message too big');
+                    return;
+                }
+                length = Number(longLength);
+                offset = 10;
+            }
+
+            // Clients must mask every frame
+            if (!masked) {
+                this.close(session, CLOSE_PROTOCOL_ERROR, 'Unmasked frame');
+                return;
+            }
+            if (length > MAX_MESSAGE_BYTES) {
+                this.close(session, CLOSE_TOO_BIG, 'Message too big');
+                return;
+            }
+            if (session.buffer.length < offset + 4 + length) return;
+
+            const mask = session.buffer.subarray(offset, offset + 4);
+            const payload = Buffer.from(session.buffer.subarray(offset + 4, offset + 4 + length));
+            for (let i = 0; i < payload.length; i++) {
+                payload[i] ^= mask[i % 4];
+            }
+            session.buffer = session.buffer.subarray(offset + 4 + length);
+
+            this.handleFrame(session, fin, opcode, payload);
+        }
+    }
+
+    private handleFrame(session: WebSocketSession, fin: boolean, opcode: number, payload: Buffer) {
+        switch (opcode) {
+            case OPCODE_TEXT:
+            case OPCODE_CONTINUATION: {
+                if ((opcode === OPCODE_TEXT) !== (session.fragments.length === 0)) {
+                    this.close(session, CLOSE_PROTOCOL_ERROR, 'Unexpected frame');
+                    return;
+                }
+                session.fragments.push(payload);
+                const size = session.fragments.reduce((sum, f) => sum + f.length, 0);
+                if (size > MAX_MESSAGE_BYTES) {
+                    this.close(session, CLOSE_TOO_BIG, 'Message too big');
+                    return;
+                }
+                if (fin) {
+                    const message = Buffer.concat(session.fragments).toString('utf8');
+                    session.fragments = [];
+                    this.handleMessage(session, message);
+                }
+                return;
+            }
+            case OPCODE_BINARY:
+                this.close(session, CLOSE_UNSUPPORTED_DATA, 'Binary messages are not supported');
+                return;
+            case OPCODE_PING:
+                this.write(session, OPCODE_PONG, payload);
+                return;
+            case OPCODE_PONG:
+                session.alive = true;
+                return;
+            case OPCODE_CLOSE:
+                this.close(session, payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL, '');
+                return;
+            default:
+                this.close(session, CLOSE_PROTOCOL_ERROR, 'Unknown opcode');
+        }
+    }
+
+    private handleMessage(session: WebSocketSession, message: string) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(message);
+        } catch {
+            this.writeMessage(session, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+            return;
+        }
+
+        const messages = (Array.isArray(parsed) ? parsed : [parsed]) as McpRequest[];
+
+        // Until the AccessGrant in initialize is checked, later messages wait their turn
+        if (session.pendingAuth || session.authQueue) {
+            const queue = (session.authQueue ?? Promise.resolve()).then(() => this.dispatch(session, messages));
+            session.authQueue = queue;
+            queue.finally(() => {
+                if (session.authQueue === queue) {
+                    session.authQueue = undefined;
+                }
+            });
+            return;
+        }
+        this.dispatch(session, messages);
+    }
+
+    /**
+     * Hand messages to the server without waiting for them, so responses to
+     * server requests (e.g. sampling) and cancellations arrive while a tool call runs.
+     */
+    private async dispatch(session: WebSocketSession, messages: McpRequest[]): Promise<void> {
+        const logFailure = (e: unknown) =>
+            log(`Error handling WebSocket message on ${session.sessionId}:`, (e as Error).message);
+
+        for (const request of messages) {
+            if (session.closed) return;
+            try {
+                if (session.pendingAuth && !(await this.authenticatePending(session, request))) {
+                    this.close(session, CLOSE_POLICY_VIOLATION, 'Present an access grant in initialize');
+                    return;
+                }
+            } catch (e) {
+                logFailure(e);
+                this.close(session, CLOSE_POLICY_VIOLATION, 'Authentication failed');
+                return;
+            }
+            this.handler!(request, session.sessionId).catch(logFailure);
+        }
+    }
+
+    /**
+     * Authenticate a credential-less connection with the AccessGrant in its initialize request.
+     */
+    private async authenticatePending(session: WebSocketSession, request: McpRequest): Promise<boolean> {
+        if (!this.authMiddleware || request.method !== 'initialize') {
+            return false;
+        }
+
+        const authResult = await this.authMiddleware.authenticateWithGrant(request.params?.accessGrant, session.ip);
+        if (!authResult.authenticated || !authResult.session) {
+            log(`WebSocket grant authentication failed for ${session.sessionId}: ${authResult.error}`);
+            return false;
+        }
+
+        session.authSession = authResult.session;
+        session.pendingAuth = false;
+        this.authMiddleware.getAuditLogger().logConnectionOpened({
+            sessionId: authResult.session.sessionId,
+            ip: session.ip,
+            client: authResult.session.client
+        });
+        return true;
+    }
+
+    // --- Outgoing messages ---
+
+    async send(response: McpResponse, sessionId?: string): Promise<void> {
+        const session = sessionId ? this.sessions.get(sessionId) : undefined;
+        if (!session) {
+            log(`No WebSocket session for response ID: ${response.id}. Dropping message.`);
+            return;
+        }
+        this.writeMessage(session, response);
+    }
+
+    async notify(notification: McpNotification, sessionId?: string): Promise<void> {
+        if (!sessionId) {
+            for (const session of this.sessions.values()) {
+                this.writeMessage(session, notification);
+            }
+            return;
+        }
+
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            log(`Client not found for session ${sessionId}. Dropping notification ${notification.method}.`);
+            return;
+        }
+        this.writeMessage(session, notification);
+    }
+
+    private writeMessage(session: WebSocketSession, message: unknown) {
+        this.write(session, OPCODE_TEXT, Buffer.from(JSON.stringify(message), 'utf8'));
+    }
+
+    private write(session: WebSocketSession, opcode: number, payload: Buffer) {
+        if (session.closed) return;
+        session.socket.write(encodeFrame(opcode, payload));
+    }
+
+    // --- Connection lifecycle ---
+
+    private close(session: WebSocketSession, code: number, reason: string) {
+        if (session.closed) return;
+
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        this.write(session, OPCODE_CLOSE, payload);
+        session.closed = true;
+        session.socket.end();
+        this.removeSession(session);
+    }
+
+    private removeSession(session: WebSocketSession) {
+        session.closed = true;
+        if (!this.sessions.delete(session.sessionId)) return;
+        log(`WebSocket client disconnected: ${session.sessionId}`);
+
+        if (this.authMiddleware && session.authSession) {
+            this.authMiddleware.removeSession(session.authSession.sessionId);
+        }
+        for (const listener of this.sessionClosedListeners) {
+            listener(session.sessionId);
+        }
+    }
+
+    private pingSessions() {
+        for (const session of Array.from(this.sessions.values())) {
+            if (!session.alive) {
+                log(`WebSocket client ${session.sessionId} stopped answering pings`);
+                session.socket.destroy();
+                this.removeSession(session);
+                continue;
+            }
+            session.alive = false;
+            this.write(session, OPCODE_PING, Buffer.alloc(0));
+        }
+    }
+
+    /**
+     * Get client IP from request.
+     */
+    private getClientIp(req: http.IncomingMessage): string | undefined {
+        return clientIp(this.policy, req);
+    }
+
+    /**
+     * Get headers as a simple object.
+     */
+    private getHeaders(req: http.IncomingMessage): Record<string, string> {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(req.headers)) {
+            if (typeof value === 'string') {
+                headers[key] = value;
+            } else if (Array.isArray(value)) {
+                headers[key] = value[0];
+            }
+        }
+        return headers;
+    }
+}
@@ -7,6 +7,9 @@
 
 // --- Base Types ---
 
+/** How the server talks to clients: local STDIO, legacy SSE, Streamable HTTP, WebSocket or a Unix socket */
+export type TransportMode = 'stdio' | 'sse' | 'http' | 'websocket' | 'unix';
+
 export interface BaseMcpRequest {
     jsonrpc: '2.0';
     id: number | string;
@@ -23,6 +26,8 @@ export interface InitializeRequest extends BaseMcpRequest {
             name: string;
             version: string;
         };
+        /** Signed AccessGrant, for SSE clients that connected without credentials */
+        accessGrant?: unknown;
     };
 }
 
@@ -31,6 +36,23 @@ export interface InitializedNotification extends BaseMcpRequest {
     params?: Record<string, unknown>;
 }
 
+export interface CancelledNotification extends BaseMcpRequest {
+    method: 'notifications/cancelled';
+    params: {
+        /** ID of the request the client no longer wants answered */
+        requestId: string | number;
+        reason?: string;
+    };
+}
+
+export interface SetLevelRequest extends BaseMcpRequest {
+    method: 'logging/setLevel';
+    params: {
+        /** Minimum severity to receive as notifications/message, e.g. 'info' */
+        level: string;
+    };
+}
+
 export interface ListResourcesRequest extends BaseMcpRequest {
     method: 'resources/list';
     params?: {
@@ -38,6 +60,13 @@ export interface ListResourcesRequest extends BaseMcpRequest {
     };
 }
 
+export interface ListResourceTemplatesRequest extends BaseMcpRequest {
+    method: 'resources/templates/list';
+    params?: {
+        cursor?: string;
+    };
+}
+
 export interface ReadResourceRequest extends BaseMcpRequest {
     method: 'resources/read';
     params: {
@@ -45,6 +74,20 @@ export interface ReadResourceRequest extends BaseMcpRequest {
     };
 }
 
+export interface SubscribeRequest extends BaseMcpRequest {
+    method: 'resources/subscribe';
+    params: {
+        uri: string;
+    };
+}
+
+export interface UnsubscribeRequest extends BaseMcpRequest {
+    method: 'resources/unsubscribe';
+    params: {
+        uri: string;
+    };
+}
+
 export interface ListToolsRequest extends BaseMcpRequest {
     method: 'tools/list';
     params?: {
@@ -57,6 +100,10 @@ export interface CallToolRequest extends BaseMcpRequest {
     params: {
         name: string;
         arguments?: Record<string, unknown>;
+        /** A progressToken asks for notifications/progress while the tool runs */
+        _meta?: {
+            progressToken?: string | number;
+        };
     };
 }
 
@@ -67,16 +114,44 @@ export interface ListPromptsRequest extends BaseMcpRequest {
     };
 }
 
+export interface GetPromptRequest extends BaseMcpRequest {
+    method: 'prompts/get';
+    params: {
+        name: string;
+        arguments?: Record<string, string>;
+    };
+}
+
+/**
+ * Unlock handshake: the client supplies either the mnemonic + password
+ * or the base64 vault key. Not part of MCP; specific to this server.
+ */
+export interface UnlockVaultRequest extends BaseMcpRequest {
+    method: 'vault/unlock';
+    params: {
+        mnemonic?: string;
+        password?: string;
+        key?: string;
+    };
+}
+
 // --- Union Type ---
 
 export type McpRequest =
     | InitializeRequest
     | InitializedNotification
+    | CancelledNotification
+    | SetLevelRequest
     | ListResourcesRequest
+    | ListResourceTemplatesRequest
     | ReadResourceRequest
+    | SubscribeRequest
+    | UnsubscribeRequest
     | ListToolsRequest
     | CallToolRequest
-    | ListPromptsRequest;
+    | ListPromptsRequest
+    | GetPromptRequest
+    | UnlockVaultRequest;
 
 // --- Response Types ---
 
@@ -91,6 +166,23 @@ export interface McpResponse {
     };
 }
 
+/**
+ * Server-initiated JSON-RPC notification (no id, no response expected).
+ */
+export interface McpNotification {
+    jsonrpc: '2.0';
+    method: string;
+    params?: Record<string, unknown>;
+}
+
+/**
+ * Server-initiated JSON-RPC request (e.g. sampling/createMessage); the client
+ * answers with an McpResponse carrying the same id.
+ */
+export interface McpServerRequest extends McpNotification {
+    id: number | string;
+}
+
 // --- Tool Argument Types ---
 
 export interface SearchMemoryArgs {
@@ -148,14 +240,35 @@ export interface McpResource {
     mimeType: string;
 }
 
+export interface McpResourceTemplate {
+    uriTemplate: string;  // RFC 6570 URI template
+    name: string;
+    description: string;
+    mimeType: string;
+}
+
+export interface McpToolSchema {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+}
+
 export interface McpTool {
     name: string;
     description: string;
-    inputSchema: {
-        type: 'object';
-        properties: Record<string, unknown>;
-        required?: string[];
-    };
+    inputSchema: McpToolSchema;
+    /** Shape of structuredContent in successful results */
+    outputSchema?: McpToolSchema;
+}
+
+/**
+ * Result of tools/call. Failures set isError, so clients can tell them
+ * apart from successful calls without parsing the text.
+ */
+export interface CallToolResult {
+    content: Array<{ type: 'text'; text: string }>;
+    structuredContent?: Record<string, unknown>;
+    isError?: boolean;
 }
 
 export interface McpPrompt {
@@ -167,3 +280,16 @@ export interface McpPrompt {
         required: boolean;
     }>;
 }
+
+export interface McpPromptMessage {
+    role: 'user' | 'assistant';
+    content: {
+        type: 'text';
+        text: string;
+    };
+}
+
+export interface GetPromptResult {
+    description: string;
+    messages: McpPromptMessage[];
+}
@@ -2,40 +2,356 @@
  * MCP Profile Vault
  * 
  * Manages the user's profile data and provides tool implementations for the MCP server.
+ * The profile is kept in the encrypted vault (see store.ts) and is only available once unlocked.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import {
     PortableProfile,
+    AccessGrant,
     Conversation,
-    MemoryFragment
+    MemoryFragment,
+    PendingWriteTool,
+    Persona,
+    ProjectContext,
+    UserInsight
 } from '../types';
 import { vault } from '../vault/manager';
+import { verifyAccessGrantSignature } from '../vault/identity';
 import { SummarizationService } from '../services/summarizer';
-import { VAULT_PATH, log, logError, logAudit } from './config';
+import { log, logError, logAudit } from './config';
+import { McpPrompt, GetPromptResult } from './types';
+import { listPrompts, findPrompt, renderPrompt, promptPermissions } from './prompts';
+import { matchResourceTemplate } from './resources';
+import { EncryptedVaultStore, VaultUnlockCredentials, credentialsFromEnv } from './store';
+import { getAuditLogger, AuditQuery, auditEntriesToCsv, auditEntriesToJsonl } from './audit';
+import { AuditStore, AuditChainIssue, AuditVerification, AUDIT_DIRNAME } from './auditstore';
+import { toolError, isToolError, ToolError } from './tools';
+import { Permission } from './auth';
+import { TokenService, TokenPair } from './tokens';
+import { Sampler, summarizeConversation, extractMemories, generateInsights } from './sampling';
+import { assembleContext, DEFAULT_CONTEXT_TOKENS } from './context';
+import { createPendingWrite, pendingWrites, pruneDecidedWrites, approveWrite, rejectWrite, writeStatus, MAX_PENDING_WRITES, UNREVIEWABLE_WRITE_TOOLS } from './inbox';
+import { TranscriptMessage, toMessages, countWords, appendMessages, finalizeTranscript } from './transcript';
+import { findPersona, personaFromEnv, personaView, tagsForPersona } from './persona';
+
+/** Top-level areas of the profile that resources are derived from */
+export type ProfileSection =
+    | 'identity'
+    | 'preferences'
+    | 'memories'
+    | 'conversations'
+    | 'insights'
+    | 'projects'
+    | 'grants';
+
+export type ProfileChangeListener = (sections: ProfileSection[]) => void;
+
+/** Caller details passed along with a tool call */
+export interface ToolContext {
+    /** Auth session ID of the caller, for audit attribution */
+    sessionId?: string;
+    /** Transport session the call arrived on; each captures its own transcript and persona selection */
+    connectionId?: string;
+    /** Persona the caller's token or grant is bound to; it cannot pick another */
+    persona?: string;
+    /** Permissions of the caller's session; tokens it issues cannot exceed them */
+    scope?: string[];
+    /** Client name of a remote caller; it only sees its own queued writes */
+    client?: string;
+    /** Queue add_memory and archive_conversation for review instead of storing them, and refuse other writes */
+    reviewWrites?: boolean;
+    /** The caller's model, when it supports sampling and the server allows it */
+    sampling?: {
+        sample: Sampler;
+        /** Characters of vault data allowed per sampling request */
+        maxInputChars: number;
+    };
+    /** Reports progress of long-running tools, when the caller sent a progressToken */
+    progress?: (progress: number, total?: number, message?: string) => void;
+    /** Aborted when the caller cancels the request */
+    signal?: AbortSignal;
+}
+
+/** What reads need to know about the caller to apply its persona */
+export type PersonaContext = Pick<ToolContext, 'connectionId' | 'persona'>;
+
+type EnrichTask = 'summaries' | 'memories' | 'insights';
+const ENRICH_TASKS: EnrichTask[] = ['summaries', 'memories', 'insights'];
+
+const MEMORY_TYPES: MemoryFragment['type'][] = ['technical', 'personal', 'preference', 'fact'];
+
+/** Conversation a connection is capturing with append_to_conversation */
+interface SessionTranscript {
+    conversationId: string;
+    /** Under write review the transcript stays in memory and is queued when it ends */
+    held?: Conversation;
+    client?: string;
+    reason?: string;
+}
+
+/** Preference that finalizes session transcripts when the session ends */
+const AUTO_ARCHIVE_KEY = 'Auto-Archive Chats';
+
+/** Connection of callers that do not name one, e.g. in-process use */
+const DEFAULT_CONNECTION_ID = 'local';
+
+/** Persona tools keep working when the selected persona is gone, so it can be changed */
+const PERSONA_TOOLS = ['list_personas', 'select_persona', 'save_persona', 'delete_persona'];
+
+export interface VaultUnlockResult {
+    did: string | null;
+    /** Hex JWT public key for MCP auth, when known */
+    jwtPublicKey: string | null;
+}
+
+/** Poll interval for detecting writes made by other server processes */
+const WATCH_INTERVAL_MS = 2000;
 
 export class ProfileVault {
     private profile: PortableProfile;
+    private store: EncryptedVaultStore;
+    private changeListeners: Set<ProfileChangeListener> = new Set();
+    private lastSavedMtime = 0;
+    private watching = false;
+    private saveQueue: Promise<void> = Promise.resolve();
+    private tokens: TokenService | null = null;
+    /** DID of the vault owner, who signs access grants */
+    private ownerDid: string | null = null;
+    private audit: AuditStore | null = null;
+    /** Result of verifying the audit log when it was opened */
+    private auditVerification: AuditVerification | null = null;
+    private sessionTranscripts: Map<string, SessionTranscript> = new Map();
+    /** Persona picked with select_persona, per connection */
+    private selectedPersonas: Map<string, string> = new Map();
+    private defaultPersona = personaFromEnv();
+
+    constructor(store: EncryptedVaultStore = new EncryptedVaultStore()) {
+        this.store = store;
+        this.profile = this.initDefaultProfile();
+    }
+
+    // --- Lock / Unlock ---
+
+    get isLocked(): boolean {
+        return !this.store.isOpen;
+    }
+
+    /**
+     * Unlock the encrypted vault. Creates it on first unlock, migrating a
+     * legacy plaintext profile.json if one exists.
+     */
+    async unlock(credentials: VaultUnlockCredentials): Promise<VaultUnlockResult> {
+        const opened = await this.store.open(credentials);
+
+        if (opened.profile) {
+            this.profile = opened.profile;
+        } else {
+            this.profile = this.loadLegacyProfile() ?? this.initDefaultProfile();
+            await this.saveProfile();
+            this.removeLegacyProfile();
+        }
+
+        this.ownerDid = opened.did;
+        const signingKey = this.store.jwtSigningKey;
+        this.tokens = signingKey && opened.did
+            ? new TokenService({ signingKey, did: opened.did, dir: path.dirname(this.store.filePath) })
+            : null;
+
+        await this.openAuditStore();
 
-    constructor() {
+        log('Vault unlocked', { path: this.store.filePath });
+        logAudit('MCP vault unlocked', { did: opened.did });
+        this.emitChange(['identity', 'preferences', 'memories', 'conversations', 'insights', 'projects']);
+
+        return { did: opened.did, jwtPublicKey: opened.jwtPublicKey };
+    }
+
+    /**
+     * Unlock with PROFILE_VAULT_KEY or PROFILE_VAULT_MNEMONIC + PROFILE_VAULT_PASSWORD.
+     * Returns null if no credentials are configured.
+     */
+    async unlockFromEnv(): Promise<VaultUnlockResult | null> {
+        const credentials = credentialsFromEnv();
+        if (!credentials) return null;
+        return this.unlock(credentials);
+    }
+
+    /** Drop the key and the decrypted profile from memory */
+    async lock(): Promise<void> {
+        await this.saveQueue;
+        this.stopWatching();
+        getAuditLogger().detachSink();
+        await this.audit?.flush();
+        this.audit = null;
+        this.auditVerification = null;
+        this.store.close();
+        this.tokens = null;
+        this.ownerDid = null;
+        this.sessionTranscripts.clear();
+        this.selectedPersonas.clear();
         this.profile = this.initDefaultProfile();
-        this.loadData();
+        logAudit('MCP vault locked');
+    }
+
+    /** Persistent audit log; null while locked */
+    get auditStore(): AuditStore | null {
+        return this.audit;
+    }
+
+    /**
+     * Persist audit entries next to the vault, encrypted with the vault key.
+     * The hash chain is verified first; a damaged audit log is reported and
+     * audited but does not block the unlock.
+     */
+    private async openAuditStore(): Promise<void> {
+        const key = this.store.encryptionKey;
+        if (!key) return;
+
+        try {
+            this.audit = await AuditStore.open({ key, dir: path.join(path.dirname(this.store.filePath), AUDIT_DIRNAME) });
+            this.auditVerification = await this.audit.verify();
+            await getAuditLogger().attachSink(this.audit);
+        } catch (error) {
+            this.audit = null;
+            this.auditVerification = null;
+            logError('Audit log could not be opened', { error: (error as Error).message });
+            return;
+        }
+
+        const { valid, issues, segments, entries } = this.auditVerification;
+        if (!valid) {
+            logError('Audit log failed verification', { issues });
+            getAuditLogger().logAuditChainBroken({ issues, segments, entries });
+        }
+    }
+
+    /** Verification of the persisted audit log, for admin:audit readers; empty when it is not persisted */
+    private auditIntegrity(): { verified?: boolean; issues?: AuditChainIssue[] } {
+        const verification = this.auditVerification;
+        return verification ? { verified: verification.valid, issues: verification.issues } : {};
+    }
+
+    /** Token service for MCP client credentials; null while locked or without a signing key */
+    get tokenService(): TokenService | null {
+        return this.tokens;
+    }
+
+    /** IDs of access grants revoked before they expired */
+    get revokedGrantIds(): string[] {
+        return this.isLocked ? [] : this.profile.revokedGrantIds || [];
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair.
+     */
+    async refreshToken(refreshToken: string): Promise<TokenPair> {
+        if (!this.tokens) {
+            throw new Error(this.isLocked ? 'Vault is locked' : 'Token issuing is not available');
+        }
+        const pair = await this.tokens.refresh(refreshToken);
+        logAudit('MCP token refreshed', { jti: pair.jti });
+        return pair;
+    }
+
+    // --- Change Notifications ---
+
+    /**
+     * Register a listener for profile changes.
+     * Returns an unsubscribe function.
+     */
+    onChange(listener: ProfileChangeListener): () => void {
+        this.changeListeners.add(listener);
+        return () => this.changeListeners.delete(listener);
+    }
+
+    private emitChange(sections: ProfileSection[]) {
+        for (const listener of this.changeListeners) {
+            try {
+                listener(sections);
+            } catch (e) {
+                logError('Profile change listener failed', { error: (e as Error).message });
+            }
+        }
     }
 
-    private loadData() {
-        // Load from file system or use defaults
-        const dataPath = path.join(VAULT_PATH, 'profile.json');
+    /**
+     * Watch the vault file for writes made by other processes (e.g., a second
+     * STDIO server started by another client) and emit the sections that changed.
+     */
+    watchForExternalChanges(): void {
+        if (this.watching) return;
+        this.watching = true;
+
+        const dataPath = this.store.filePath;
+        fs.watchFile(dataPath, { interval: WATCH_INTERVAL_MS }, async (curr) => {
+            // Ignore deletions and our own writes
+            if (curr.mtimeMs === 0 || curr.mtimeMs === this.lastSavedMtime || this.isLocked) return;
 
-        if (fs.existsSync(dataPath)) {
+            let next: PortableProfile;
             try {
-                const data = fs.readFileSync(dataPath, 'utf8');
-                this.profile = JSON.parse(data);
-                log('Loaded profile from:', { path: dataPath });
+                next = await this.store.read();
             } catch (e) {
-                logError('Error loading profile:', { error: (e as Error).message, path: dataPath });
-                this.profile = this.initDefaultProfile();
+                logError('Error reloading vault:', { error: (e as Error).message, path: dataPath });
+                return;
+            }
+
+            const changed = this.diffSections(this.profile, next);
+            this.profile = next;
+            if (changed.length > 0) {
+                log('Profile changed on disk', { sections: changed });
+                this.emitChange(changed);
             }
+        });
+    }
+
+    stopWatching(): void {
+        if (!this.watching) return;
+        fs.unwatchFile(this.store.filePath);
+        this.watching = false;
+    }
+
+    private diffSections(before: PortableProfile, after: PortableProfile): ProfileSection[] {
+        const pick: Record<ProfileSection, (p: PortableProfile) => unknown> = {
+            identity: p => p.identity,
+            preferences: p => p.preferences,
+            memories: p => [p.shortTermMemory, p.longTermMemory],
+            conversations: p => p.conversations,
+            insights: p => p.insights,
+            projects: p => [p.projects, p.activeProjectId],
+            grants: p => [p.activeGrants, p.revokedGrantIds]
+        };
+
+        return (Object.keys(pick) as ProfileSection[]).filter(
+            section => JSON.stringify(pick[section](before)) !== JSON.stringify(pick[section](after))
+        );
+    }
+
+    private loadLegacyProfile(): PortableProfile | null {
+        const dataPath = this.store.legacyFilePath;
+        if (!fs.existsSync(dataPath)) return null;
+
+        try {
+            const profile = JSON.parse(fs.readFileSync(dataPath, 'utf8'));
+            log('Migrating plaintext profile into encrypted vault', { path: dataPath });
+            return profile;
+        } catch (e) {
+            logError('Error loading legacy profile:', { error: (e as Error).message, path: dataPath });
+            return null;
+        }
+    }
+
+    /** Remove the plaintext copy once its contents are safely in the encrypted vault */
+    private removeLegacyProfile() {
+        const dataPath = this.store.legacyFilePath;
+        if (!fs.existsSync(dataPath) || !this.store.exists()) return;
+
+        try {
+            fs.unlinkSync(dataPath);
+            logAudit('Plaintext profile removed after migration', { path: dataPath });
+        } catch (e) {
+            logError('Error removing legacy profile:', { error: (e as Error).message, path: dataPath });
         }
     }
 
@@ -62,38 +378,44 @@ export class ProfileVault {
         };
     }
 
-    async readResource(uri: string): Promise<any> {
+    async readResource(uri: string, context: PersonaContext = {}): Promise<any> {
+        const persona = this.personaFor(context);
+        if (isToolError(persona)) {
+            return { error: persona.error, uri };
+        }
+        const profile = this.viewFor(persona);
+
         switch (uri) {
             case 'profile://identity':
-                return this.profile.identity;
+                return profile.identity;
 
             case 'profile://preferences':
                 return {
-                    preferences: this.profile.preferences,
-                    activeCount: this.profile.preferences.filter(p => p.isEnabled).length
+                    preferences: profile.preferences,
+                    activeCount: profile.preferences.filter(p => p.isEnabled).length
                 };
 
             case 'profile://memory/recent':
                 return {
-                    memories: this.profile.shortTermMemory ? this.profile.shortTermMemory.slice(-20) : [],
-                    count: this.profile.shortTermMemory ? Math.min(20, this.profile.shortTermMemory.length) : 0
+                    memories: profile.shortTermMemory ? profile.shortTermMemory.slice(-20) : [],
+                    count: profile.shortTermMemory ? Math.min(20, profile.shortTermMemory.length) : 0
                 };
 
             case 'profile://memory/all':
                 return {
-                    memories: [...(this.profile.shortTermMemory || []), ...(this.profile.longTermMemory || [])],
-                    totalCount: (this.profile.shortTermMemory?.length || 0) + (this.profile.longTermMemory?.length || 0)
+                    memories: [...(profile.shortTermMemory || []), ...(profile.longTermMemory || [])],
+                    totalCount: (profile.shortTermMemory?.length || 0) + (profile.longTermMemory?.length || 0)
                 };
 
             case 'profile://insights':
                 return {
-                    insights: this.profile.insights || [],
-                    categories: this.categorizeInsights()
+                    insights: profile.insights || [],
+                    categories: this.categorizeInsights(profile)
                 };
 
             case 'profile://conversations/recent':
                 return {
-                    conversations: (this.profile.conversations || [])
+                    conversations: (profile.conversations || [])
                         .slice(-10)
                         .map(c => ({
                             id: c.id,
@@ -102,84 +424,342 @@ export class ProfileVault {
                             messageCount: c.metadata?.messageCount,
                             createdAt: c.metadata?.createdAt
                         })),
-                    totalCount: (this.profile.conversations || []).length
+                    totalCount: (profile.conversations || []).length
                 };
 
+            case 'profile://projects':
+                return this.listProjects(profile);
+
+            case 'profile://projects/active':
+                return profile.activeProjectId
+                    ? this.getProjectContext(profile.activeProjectId, profile)
+                    : { error: 'No active project' };
+
             case 'profile://stats':
-                return this.getStats();
+                return this.getStats(profile);
 
-            default:
-                // Handle parameterized URIs
-                if (uri.startsWith('profile://conversations/')) {
-                    const id = uri.replace('profile://conversations/', '');
-                    return this.getConversation(id);
-                }
-                if (uri.startsWith('profile://memory/search?')) {
-                    const query = new URLSearchParams(uri.split('?')[1]).get('q');
-                    return this.searchMemory(query || '');
+            case 'profile://audit':
+                // Audit entries carry memory content from every persona
+                if (context.persona) {
+                    return { error: 'Sessions bound to a persona cannot read the audit log', uri };
                 }
+                return {
+                    stats: getAuditLogger().getStats(),
+                    recent: getAuditLogger().query({ limit: 50 }).entries,
+                    ...this.auditIntegrity()
+                };
+
+            default:
+                return this.readTemplatedResource(uri, profile);
+        }
+    }
+
+    /**
+     * Read a parameterized resource (see RESOURCE_TEMPLATES).
+     * Parameters are expected to be validated by the caller.
+     */
+    private readTemplatedResource(uri: string, profile: PortableProfile): any {
+        const match = matchResourceTemplate(uri);
+        if (!match || match.errors.length > 0) {
+            return { error: 'Resource not found', uri };
+        }
+
+        const { params } = match;
+        switch (match.template.uriTemplate) {
+            case 'profile://conversations/{id}':
+                return this.getConversation(params.id, profile);
+
+            case 'profile://memory/search{?q,limit}':
+                return this.searchMemory(params.q, params.limit ? parseInt(params.limit, 10) : 10, profile);
+
+            case 'profile://memory/tag/{tag}': {
+                const tag = params.tag.toLowerCase();
+                const memories = this.getAllMemories(profile).filter(m => m.tags.some(t => t.toLowerCase() === tag));
+                return { tag: params.tag, memories, count: memories.length };
+            }
+
+            case 'profile://memory/type/{type}': {
+                const memories = this.getAllMemories(profile).filter(m => m.type === params.type);
+                return { type: params.type, memories, count: memories.length };
+            }
+
+            case 'profile://insights/{category}': {
+                const insights = (profile.insights || []).filter(i => i.category === params.category);
+                return { category: params.category, insights, count: insights.length };
+            }
+
+            case 'profile://projects/{id}':
+                return this.getProjectContext(params.id, profile);
+
+            default:
                 return { error: 'Resource not found', uri };
         }
     }
 
-    async callTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+    // --- Prompts ---
+
+    listPrompts(context: PersonaContext = {}): McpPrompt[] {
+        const persona = this.personaFor(context);
+        return isToolError(persona) ? [] : listPrompts(this.viewFor(persona));
+    }
+
+    findPrompt(name: string, context: PersonaContext = {}): McpPrompt | null {
+        const persona = this.personaFor(context);
+        return isToolError(persona) ? null : findPrompt(this.viewFor(persona), name);
+    }
+
+    /**
+     * Permissions a user template needs, derived from its placeholders.
+     * Null for built-in prompts, whose permissions are fixed by the auth middleware.
+     */
+    getPromptPermissions(name: string, context: PersonaContext = {}): Permission[] | null {
+        const persona = this.personaFor(context);
+        return isToolError(persona) ? null : promptPermissions(this.viewFor(persona), name);
+    }
+
+    getPrompt(name: string, args: Record<string, string> = {}, context: PersonaContext = {}): GetPromptResult | null {
+        const persona = this.personaFor(context);
+        return isToolError(persona) ? null : renderPrompt(this.viewFor(persona), name, args);
+    }
+
+    // --- Personas ---
+
+    /**
+     * The persona a call runs under: the one the caller's credentials are
+     * bound to, else the one selected for the connection, else MCP_PERSONA.
+     * A persona that no longer exists fails the call instead of showing everything.
+     */
+    private personaFor(context: PersonaContext): Persona | null | ToolError {
+        const id = context.persona
+            ?? this.selectedPersonas.get(context.connectionId ?? DEFAULT_CONNECTION_ID)
+            ?? this.defaultPersona;
+        if (id === undefined) {
+            return null;
+        }
+        return findPersona(this.profile, id) ?? toolError('failed_precondition', `Persona not found: ${id}`, { persona: id });
+    }
+
+    /** The profile as the persona sees it; the whole profile without one */
+    private viewFor(persona: Persona | null): PortableProfile {
+        return persona ? personaView(this.profile, persona) : this.profile;
+    }
+
+    async callTool(name: string, args: Record<string, unknown>, context: ToolContext = {}): Promise<unknown> {
+        const resolved = this.personaFor(context);
+        if (isToolError(resolved) && !PERSONA_TOOLS.includes(name)) {
+            return resolved;
+        }
+        const persona = isToolError(resolved) ? null : resolved;
+        const profile = this.viewFor(persona);
+
+        if (context.reviewWrites && UNREVIEWABLE_WRITE_TOOLS.includes(name)) {
+            return toolError('failed_precondition', `${name} is not available while writes are held for review`);
+        }
+
         switch (name) {
             case 'search_memory': {
                 const query = args.query;
                 if (typeof query !== 'string' || query.trim().length === 0) {
-                    return { error: 'Invalid query: must be a non-empty string' };
+                    return toolError('invalid_arguments', 'Invalid query: must be a non-empty string');
                 }
                 const limit = typeof args.limit === 'number' ? args.limit : 10;
-                return this.searchMemory(query, limit);
+                return this.searchMemory(query, limit, profile);
             }
 
             case 'add_memory': {
                 const content = args.content;
                 if (typeof content !== 'string' || content.trim().length === 0) {
-                    return { error: 'Invalid content: must be a non-empty string' };
+                    return toolError('invalid_arguments', 'Invalid content: must be a non-empty string');
+                }
+                const memory = this.buildMemory({
+                    ...args as { content: string; tags?: string[]; type?: string },
+                    tags: tagsForPersona(persona, (args.tags as string[] | undefined) || [])
+                });
+                if (context.reviewWrites) {
+                    return this.queueWrite('add_memory', memory, args.reason, context);
+                }
+                return this.storeMemory(memory);
+            }
+
+            case 'update_memory': {
+                const id = args.id;
+                if (typeof id !== 'string' || id.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                if (args.content !== undefined && (typeof args.content !== 'string' || args.content.trim().length === 0)) {
+                    return toolError('invalid_arguments', 'Invalid content: must be a non-empty string');
+                }
+                if (args.tags !== undefined && !(Array.isArray(args.tags) && args.tags.every(t => typeof t === 'string'))) {
+                    return toolError('invalid_arguments', 'Invalid tags: must be an array of strings');
+                }
+                if (args.type !== undefined && !MEMORY_TYPES.includes(args.type as MemoryFragment['type'])) {
+                    return toolError('invalid_arguments', `Invalid type: must be one of ${MEMORY_TYPES.join(', ')}`);
+                }
+                if (args.confidence !== undefined && (typeof args.confidence !== 'number' || args.confidence < 0 || args.confidence > 1)) {
+                    return toolError('invalid_arguments', 'Invalid confidence: must be a number between 0 and 1');
+                }
+                if (args.content === undefined && args.tags === undefined && args.type === undefined && args.confidence === undefined) {
+                    return toolError('invalid_arguments', 'Nothing to update: provide content, tags, type or confidence');
+                }
+                if (!this.isMemoryIn(profile, id)) {
+                    return toolError('not_found', 'Memory not found', { id });
+                }
+                return this.updateMemory(id, args as Partial<Pick<MemoryFragment, 'content' | 'tags' | 'type' | 'confidence'>>, context);
+            }
+
+            case 'forget_memory': {
+                const id = args.id;
+                if (typeof id !== 'string' || id.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                if (!this.isMemoryIn(profile, id)) {
+                    return toolError('not_found', 'Memory not found', { id });
+                }
+                const reason = typeof args.reason === 'string' ? args.reason : undefined;
+                return this.forgetMemory(id, reason, context);
+            }
+
+            case 'pin_memory': {
+                const id = args.id;
+                if (typeof id !== 'string' || id.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                if (args.pinned !== undefined && typeof args.pinned !== 'boolean') {
+                    return toolError('invalid_arguments', 'Invalid pinned: must be a boolean');
                 }
-                return this.addMemory(args as { content: string; tags?: string[]; type?: string });
+                if (!this.isMemoryIn(profile, id)) {
+                    return toolError('not_found', 'Memory not found', { id });
+                }
+                return this.pinMemory(id, args.pinned !== false, context);
             }
 
             case 'get_context_for_task': {
                 const taskDescription = args.task_description;
                 if (typeof taskDescription !== 'string' || taskDescription.trim().length === 0) {
-                    return { error: 'Invalid task_description: must be a non-empty string' };
+                    return toolError('invalid_arguments', 'Invalid task_description: must be a non-empty string');
                 }
-                return this.getContextForTask(taskDescription);
+                const maxTokens = typeof args.max_tokens === 'number' ? args.max_tokens : undefined;
+                return this.getContextForTask(taskDescription, maxTokens, profile);
             }
 
             case 'get_conversation_history': {
                 const topic = args.topic;
                 if (typeof topic !== 'string' || topic.trim().length === 0) {
-                    return { error: 'Invalid topic: must be a non-empty string' };
+                    return toolError('invalid_arguments', 'Invalid topic: must be a non-empty string');
                 }
                 const provider = typeof args.provider === 'string' ? args.provider : 'all';
-                return this.getConversationHistory(topic, provider);
+                return this.getConversationHistory(topic, provider, profile);
             }
 
             case 'archive_conversation': {
                 const title = args.title;
                 const messages = args.messages;
                 if (typeof title !== 'string' || title.trim().length === 0) {
-                    return { error: 'Invalid title: must be a non-empty string' };
+                    return toolError('invalid_arguments', 'Invalid title: must be a non-empty string');
                 }
                 if (!Array.isArray(messages) || messages.length === 0) {
-                    return { error: 'Invalid messages: must be a non-empty array' };
+                    return toolError('invalid_arguments', 'Invalid messages: must be a non-empty array');
+                }
+                const conversationArgs = {
+                    ...args as {
+                        title: string;
+                        messages: Array<{ role: string; content: string; timestamp?: number }>;
+                        provider?: string;
+                        model?: string;
+                        summary?: string;
+                    },
+                    tags: tagsForPersona(persona, [])
+                };
+                if (context.reviewWrites) {
+                    return this.queueWrite('archive_conversation', this.buildConversation(conversationArgs), args.reason, context);
                 }
-                return this.archiveConversation(args as {
-                    title: string;
-                    messages: Array<{ role: string; content: string; timestamp?: number }>;
+                return this.archiveConversation(conversationArgs);
+            }
+
+            case 'append_to_conversation': {
+                const messages = args.messages;
+                if (!Array.isArray(messages) || messages.length === 0) {
+                    return toolError('invalid_arguments', 'Invalid messages: must be a non-empty array');
+                }
+                if (args.title !== undefined && (typeof args.title !== 'string' || args.title.trim().length === 0)) {
+                    return toolError('invalid_arguments', 'Invalid title: must be a non-empty string');
+                }
+                return this.appendToConversation(args as {
+                    messages: TranscriptMessage[];
+                    title?: string;
                     provider?: string;
                     model?: string;
-                    summary?: string;
-                });
+                    finalize?: boolean;
+                    reason?: string;
+                }, context, persona);
+            }
+
+            case 'get_write_status': {
+                const id = args.id;
+                if (typeof id !== 'string' || id.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                // Remote clients only see their own writes
+                const write = (this.profile.pendingWrites || []).find(w => w.id === id);
+                if (!write || (context.client !== undefined && write.client !== context.client)) {
+                    return toolError('not_found', `Write not found: ${id}`, { id });
+                }
+                return writeStatus(write);
+            }
+
+            case 'list_pending_writes':
+                // Held writes carry memory content from every persona
+                if (context.persona) {
+                    return toolError('failed_precondition', 'Sessions bound to a persona cannot review writes');
+                }
+                return { writes: pendingWrites(this.profile) };
+
+            case 'review_write': {
+                if (context.persona) {
+                    return toolError('failed_precondition', 'Sessions bound to a persona cannot review writes');
+                }
+                const id = args.id;
+                if (typeof id !== 'string' || id.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                if (args.decision !== 'approve' && args.decision !== 'reject') {
+                    return toolError('invalid_arguments', 'Invalid decision: must be approve or reject');
+                }
+                if (args.edited !== undefined && (typeof args.edited !== 'object' || args.edited === null || Array.isArray(args.edited))) {
+                    return toolError('invalid_arguments', 'Invalid edited: must be an object');
+                }
+                return this.reviewWrite(id, args.decision, args, context);
+            }
+
+            case 'list_projects':
+                return this.listProjects(profile);
+
+            case 'set_active_project': {
+                const projectId = args.project_id;
+                if (projectId !== null && (typeof projectId !== 'string' || projectId.trim().length === 0)) {
+                    return toolError('invalid_arguments', 'Invalid project_id: must be a non-empty string or null');
+                }
+                if (projectId !== null && !profile.projects.some(p => p.id === projectId)) {
+                    return toolError('not_found', 'Project not found', { id: projectId });
+                }
+                return this.setActiveProject(projectId, persona);
+            }
+
+            case 'get_project_context': {
+                const projectId = args.project_id ?? profile.activeProjectId;
+                if (projectId === undefined) {
+                    return toolError('failed_precondition', 'No project_id given and no active project set');
+                }
+                if (typeof projectId !== 'string' || projectId.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid project_id: must be a non-empty string');
+                }
+                return this.getProjectContext(projectId, profile);
             }
 
             case 'toggle_auto_archive': {
                 const enabled = args.enabled;
                 if (typeof enabled !== 'boolean') {
-                    return { error: 'Invalid enabled: must be a boolean' };
+                    return toolError('invalid_arguments', 'Invalid enabled: must be a boolean');
                 }
                 return this.setAutoArchive(enabled);
             }
@@ -187,23 +767,35 @@ export class ProfileVault {
             case 'sync_vault': {
                 const jwt = process.env.PINATA_JWT;
                 if (!jwt) {
-                    return { error: 'PINATA_JWT environment variable not set. Cannot sync to cloud.' };
+                    return toolError('failed_precondition', 'PINATA_JWT environment variable not set. Cannot sync to cloud.');
                 }
-                return vault.syncToCloud({ pinataJwt: jwt });
+                return vault.syncToCloud({ pinataJwt: jwt, onProgress: context.progress, signal: context.signal });
             }
 
             case 'toggle_auto_sync': {
                 const enabled = args.enabled;
                 if (typeof enabled !== 'boolean') {
-                    return { error: 'Invalid enabled: must be a boolean' };
+                    return toolError('invalid_arguments', 'Invalid enabled: must be a boolean');
                 }
                 return this.setAutoSync(enabled);
             }
 
             case 'analyze_vault': {
                 // AI calls this to get structure, then generates summary itself
-                const allConversations = await vault.getConversations();
-                const clusters = SummarizationService.clusterConversations(allConversations);
+                // Under a persona only its conversations are clustered
+                const allConversations = persona ? profile.conversations : await vault.getConversations();
+                let reported = -1;
+                const clusters = await SummarizationService.clusterConversationsAsync(allConversations, {
+                    signal: context.signal,
+                    // Report every 5% rather than every cluster
+                    onProgress: (done, total) => {
+                        const step = Math.floor(done / total * 20);
+                        if (step !== reported) {
+                            reported = step;
+                            context.progress?.(done, total, `Clustered ${done} of ${total} conversations`);
+                        }
+                    }
+                });
                 return {
                     totalConversations: allConversations.length,
                     clusters: clusters,
@@ -214,33 +806,326 @@ export class ProfileVault {
             case 'grant_access': {
                 const grantee = args.grantee;
                 if (typeof grantee !== 'string' || grantee.trim().length === 0) {
-                    return { error: 'Invalid grantee: must be a non-empty string' };
+                    return toolError('invalid_arguments', 'Invalid grantee: must be a non-empty string');
                 }
                 const permissions = Array.isArray(args.permissions) ? args.permissions : ['read_memory'];
                 const durationSeconds = typeof args.durationSeconds === 'number' ? args.durationSeconds : 3600;
+                const grantPersona = this.credentialPersona(args.persona, context);
+                if (isToolError(grantPersona)) {
+                    return grantPersona;
+                }
                 return vault.grantAccess(
                     grantee,
                     permissions as ('read_identity' | 'read_memory' | 'write_memory')[],
-                    durationSeconds
+                    durationSeconds,
+                    grantPersona
                 );
             }
 
+            case 'revoke_grant': {
+                const grantId = args.grant_id;
+                if (typeof grantId !== 'string' || grantId.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid grant_id: must be a non-empty string');
+                }
+                if (args.grant !== undefined && (typeof args.grant !== 'object' || args.grant === null || Array.isArray(args.grant))) {
+                    return toolError('invalid_arguments', 'Invalid grant: must be an object');
+                }
+                return this.revokeGrant(grantId, args.grant as AccessGrant | undefined, context);
+            }
+
+            case 'issue_token': {
+                const client = args.client;
+                const scope = args.scope;
+                if (typeof client !== 'string' || client.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid client: must be a non-empty string');
+                }
+                if (!Array.isArray(scope) || !scope.every(s => typeof s === 'string')) {
+                    return toolError('invalid_arguments', 'Invalid scope: must be an array of permissions');
+                }
+                if (!this.tokens) {
+                    return toolError('failed_precondition', 'Token issuing needs the JWT signing key; unlock the vault with the mnemonic once');
+                }
+                const callerScope = context.scope;
+                if (callerScope && !callerScope.includes('*')) {
+                    const exceeding = (scope as string[]).filter(permission => !callerScope.includes(permission));
+                    if (exceeding.length > 0) {
+                        return toolError('failed_precondition', `Cannot issue permissions this session does not hold: ${exceeding.join(', ')}`);
+                    }
+                }
+                const ttlSeconds = typeof args.ttl_seconds === 'number' ? args.ttl_seconds : undefined;
+                const tokenPersona = this.credentialPersona(args.persona, context);
+                if (isToolError(tokenPersona)) {
+                    return tokenPersona;
+                }
+                const pair = await this.tokens.issue({ client, scope: scope as string[], ttlSeconds, persona: tokenPersona });
+                logAudit('MCP token issued', { jti: pair.jti, client, scope, persona: tokenPersona, sessionId: context.sessionId });
+                return pair;
+            }
+
+            case 'list_tokens': {
+                if (!this.tokens) {
+                    return { tokens: [] };
+                }
+                // Sessions bound to a persona only see credentials for that persona
+                return { tokens: this.tokens.list().filter(t => !context.persona || t.persona === context.persona) };
+            }
+
+            case 'revoke_token': {
+                const jti = args.jti;
+                if (typeof jti !== 'string' || jti.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid jti: must be a non-empty string');
+                }
+                const token = this.tokens?.list().find(t => t.jti === jti);
+                if (!token || (context.persona && token.persona !== context.persona) || !this.tokens!.revoke(jti)) {
+                    return toolError('not_found', 'Token not found', { jti });
+                }
+                logAudit('MCP token revoked', { jti, sessionId: context.sessionId });
+                return { success: true, jti };
+            }
+
+            case 'query_audit_log':
+                if (context.persona) {
+                    return toolError('failed_precondition', 'Sessions bound to a persona cannot read the audit log');
+                }
+                return this.queryAuditLog(args);
+
+            case 'enrich_profile': {
+                if (!context.sampling) {
+                    return toolError('failed_precondition', 'Sampling is not available: the client must support sampling and the server must run with MCP_SAMPLING=on');
+                }
+                const tasks = Array.isArray(args.tasks) ? args.tasks as EnrichTask[] : ENRICH_TASKS;
+                if (!tasks.every(t => ENRICH_TASKS.includes(t))) {
+                    return toolError('invalid_arguments', `Invalid tasks: must be any of ${ENRICH_TASKS.join(', ')}`);
+                }
+                const ids = Array.isArray(args.conversation_ids) ? args.conversation_ids as string[] : undefined;
+                const limit = typeof args.limit === 'number' ? args.limit : 3;
+                return this.enrichProfile(context.sampling, new Set(tasks), ids, limit, context, persona);
+            }
+
+            case 'list_personas':
+                return this.listPersonas(context);
+
+            case 'select_persona': {
+                const selected = args.persona;
+                if (selected !== null && (typeof selected !== 'string' || selected.trim().length === 0)) {
+                    return toolError('invalid_arguments', 'Invalid persona: must be a non-empty string or null');
+                }
+                return this.selectPersona(selected, context);
+            }
+
+            case 'save_persona': {
+                if (context.persona) {
+                    return toolError('failed_precondition', 'Sessions bound to a persona cannot manage personas');
+                }
+                const personaName = args.name;
+                if (typeof personaName !== 'string' || personaName.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid name: must be a non-empty string');
+                }
+                if (args.id !== undefined && (typeof args.id !== 'string' || args.id.trim().length === 0)) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                return this.savePersona(args as {
+                    id?: string;
+                    name: string;
+                    identity?: Persona['identity'];
+                    preference_ids?: string[];
+                    visibility?: Persona['visibility'];
+                });
+            }
+
+            case 'delete_persona': {
+                if (context.persona) {
+                    return toolError('failed_precondition', 'Sessions bound to a persona cannot manage personas');
+                }
+                const id = args.id;
+                if (typeof id !== 'string' || id.trim().length === 0) {
+                    return toolError('invalid_arguments', 'Invalid id: must be a non-empty string');
+                }
+                return this.deletePersona(id);
+            }
+
             default:
-                return { error: 'Tool not found', name };
+                return toolError('unknown_tool', `Unknown tool: ${name}`, { name });
         }
     }
 
     // --- Tool Implementations ---
 
-    private searchMemory(query: string, limit = 10) {
+    private queryAuditLog(args: Record<string, unknown>): unknown {
+        const filter: AuditQuery = {
+            client: args.client as string | undefined,
+            did: args.did as string | undefined,
+            tool: args.tool as string | undefined,
+            resource: args.resource as string | undefined,
+            type: args.type as AuditQuery['type'],
+            sessionId: args.session_id as string | undefined,
+            result: args.result as AuditQuery['result'],
+            offset: args.offset as number | undefined,
+            limit: args.limit as number | undefined
+        };
+
+        for (const bound of ['since', 'until'] as const) {
+            if (args[bound] === undefined) continue;
+            const time = Date.parse(String(args[bound]));
+            if (Number.isNaN(time)) {
+                return toolError('invalid_arguments', `Invalid ${bound}: expected an ISO 8601 time`, { [bound]: args[bound] });
+            }
+            filter[bound] = time;
+        }
+
+        const result = getAuditLogger().query(filter);
+        switch (args.format) {
+            case 'jsonl':
+            case 'csv': {
+                const { entries, ...page } = result;
+                const content = args.format === 'csv' ? auditEntriesToCsv(entries) : auditEntriesToJsonl(entries);
+                return { format: args.format, content, ...page, ...this.auditIntegrity() };
+            }
+            default:
+                return { ...result, ...this.auditIntegrity() };
+        }
+    }
+
+    /**
+     * Summarize conversations, extract memories and derive insights with the
+     * caller's model. A failed request is reported and the rest carry on.
+     */
+    private async enrichProfile(
+        sampling: NonNullable<ToolContext['sampling']>,
+        tasks: Set<EnrichTask>,
+        ids: string[] | undefined,
+        limit: number,
+        context: ToolContext,
+        persona: Persona | null
+    ) {
+        const conversations = this.viewFor(persona).conversations || [];
+        let targets: Conversation[];
+        if (ids) {
+            const missing = ids.filter(id => !conversations.some(c => c.id === id));
+            if (missing.length > 0) {
+                return toolError('not_found', 'Conversation not found', { ids: missing });
+            }
+            targets = conversations.filter(c => ids.includes(c.id));
+        } else {
+            targets = conversations
+                .filter(c => !c.summary || !tasks.has('summaries'))
+                .sort((a, b) => b.metadata.updatedAt - a.metadata.updatedAt);
+        }
+        targets = targets.slice(0, limit);
+
+        const { sample, maxInputChars } = sampling;
+        const summarized: string[] = [];
+        const newMemories: MemoryFragment[] = [];
+        const newInsights: UserInsight[] = [];
+        const errors: Array<{ conversationId?: string; task: EnrichTask; error: string }> = [];
+
+        for (const conversation of targets) {
+            if (tasks.has('summaries')) {
+                try {
+                    const summary = await summarizeConversation(sample, conversation, maxInputChars);
+                    if (summary) {
+                        conversation.summary = summary;
+                        summarized.push(conversation.id);
+                    }
+                } catch (e) {
+                    errors.push({ conversationId: conversation.id, task: 'summaries', error: (e as Error).message });
+                }
+            }
+
+            if (tasks.has('memories')) {
+                try {
+                    for (const extracted of await extractMemories(sample, conversation, maxInputChars)) {
+                        newMemories.push({
+                            ...extracted,
+                            tags: tagsForPersona(persona, extracted.tags),
+                            id: `mem_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
+                            timestamp: new Date().toISOString(),
+                            sourceModel: 'mcp-sampling',
+                            sourceProvider: conversation.metadata.provider,
+                            conversationId: conversation.id
+                        });
+                    }
+                } catch (e) {
+                    errors.push({ conversationId: conversation.id, task: 'memories', error: (e as Error).message });
+                }
+            }
+        }
+
+        if (tasks.has('insights')) {
+            const summarizedConversations = targets.filter(c => c.summary);
+            try {
+                const now = Date.now();
+                for (const insight of await generateInsights(sample, summarizedConversations, maxInputChars)) {
+                    newInsights.push({
+                        ...insight,
+                        id: `insight_${now}_${Math.random().toString(36).substr(2, 5)}`,
+                        createdAt: now,
+                        updatedAt: now
+                    });
+                }
+            } catch (e) {
+                errors.push({ task: 'insights', error: (e as Error).message });
+            }
+        }
+
+        const changed: ProfileSection[] = [];
+        if (summarized.length > 0) changed.push('conversations');
+        if (newMemories.length > 0) {
+            this.profile.longTermMemory = [...(this.profile.longTermMemory || []), ...newMemories];
+            changed.push('memories');
+        }
+        if (newInsights.length > 0) {
+            this.profile.insights = [...(this.profile.insights || []), ...newInsights];
+            changed.push('insights');
+        }
+        if (changed.length > 0) {
+            await this.saveProfile();
+            this.emitChange(changed);
+        }
+
+        logAudit('Profile enriched via sampling', {
+            sessionId: context.sessionId,
+            conversations: targets.map(c => c.id),
+            summarized: summarized.length,
+            memories: newMemories.length,
+            insights: newInsights.length
+        });
+
+        return {
+            summarized,
+            memoriesAdded: newMemories.length,
+            insightsAdded: newInsights.length,
+            errors
+        };
+    }
+
+    private getAllMemories(profile: PortableProfile = this.profile): MemoryFragment[] {
+        return [...(profile.shortTermMemory || []), ...(profile.longTermMemory || [])];
+    }
+
+    private findMemory(id: string): { list: MemoryFragment[]; index: number } | null {
+        for (const list of [this.profile.shortTermMemory || [], this.profile.longTermMemory || []]) {
+            const index = list.findIndex(m => m.id === id);
+            if (index >= 0) return { list, index };
+        }
+        return null;
+    }
+
+    private isMemoryIn(profile: PortableProfile, id: string): boolean {
+        return this.getAllMemories(profile).some(m => m.id === id);
+    }
+
+    private searchMemory(query: string, limit = 10, profile: PortableProfile = this.profile) {
         const lowerQuery = query.toLowerCase();
-        const allMemories = [...(this.profile.shortTermMemory || []), ...(this.profile.longTermMemory || [])];
+        const allMemories = this.getAllMemories(profile);
 
         const matches = allMemories
             .filter(m =>
                 m.content.toLowerCase().includes(lowerQuery) ||
                 m.tags.some(t => t.toLowerCase().includes(lowerQuery))
             )
+            // Pinned memories first; sort is stable so the original order is kept otherwise
+            .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned))
             .slice(0, limit);
 
         return {
@@ -251,8 +1136,8 @@ export class ProfileVault {
         };
     }
 
-    private addMemory(args: any) {
-        const memory: MemoryFragment = {
+    private buildMemory(args: any): MemoryFragment {
+        return {
             id: `mem_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
             timestamp: new Date().toISOString(),
             content: args.content,
@@ -262,65 +1147,222 @@ export class ProfileVault {
             sourceProvider: 'local',
             confidence: 0.9
         };
+    }
 
+    private async storeMemory(memory: MemoryFragment) {
         if (!this.profile.shortTermMemory) {
             this.profile.shortTermMemory = [];
         }
 
         this.profile.shortTermMemory.push(memory);
 
-        // Move to long-term if buffer full
+        // Move the oldest unpinned memories to long-term if buffer full
         if (this.profile.shortTermMemory.length > 50) {
             if (!this.profile.longTermMemory) this.profile.longTermMemory = [];
-            const toMove = this.profile.shortTermMemory.splice(0, 20);
+            const toMove = this.profile.shortTermMemory.filter(m => !m.pinned).slice(0, 20);
+            this.profile.shortTermMemory = this.profile.shortTermMemory.filter(m => !toMove.includes(m));
             this.profile.longTermMemory.push(...toMove);
         }
 
-        this.saveProfile();
+        await this.saveProfile();
+        this.emitChange(['memories']);
 
         log('Memory stored successfully', { memoryId: memory.id });
         logAudit('User memory added', { memoryId: memory.id, type: memory.type });
+
+        return { success: true, memory };
     }
 
-    private getContextForTask(taskDescription: string) {
-        // Search memories for relevant context
-        const memoryResults = this.searchMemory(taskDescription, 5);
+    private async updateMemory(
+        id: string,
+        changes: Partial<Pick<MemoryFragment, 'content' | 'tags' | 'type' | 'confidence'>>,
+        context: ToolContext
+    ) {
+        const found = this.findMemory(id);
+        if (!found) {
+            return toolError('not_found', 'Memory not found', { id });
+        }
 
-        // Search conversations
-        const relevantConvs = (this.profile.conversations || [])
-            .filter(c =>
-                c.title.toLowerCase().includes(taskDescription.toLowerCase()) ||
-                c.tags?.some(t => taskDescription.toLowerCase().includes(t.toLowerCase()))
-            )
-            .slice(0, 3)
-            .map(c => ({
-                id: c.id,
-                title: c.title,
-                provider: c.metadata?.provider,
-                summary: c.summary || 'No summary available'
-            }));
+        const before = found.list[found.index];
+        const after: MemoryFragment = {
+            ...before,
+            ...(changes.content !== undefined && { content: changes.content }),
+            ...(changes.tags !== undefined && { tags: changes.tags }),
+            ...(changes.type !== undefined && { type: changes.type }),
+            ...(changes.confidence !== undefined && { confidence: changes.confidence })
+        };
+        found.list[found.index] = after;
 
-        // Get relevant insights
-        const relevantInsights = (this.profile.insights || [])
-            .filter(i =>
-                i.content.toLowerCase().includes(taskDescription.toLowerCase())
-            )
-            .slice(0, 5);
+        await this.saveProfile();
+        this.emitChange(['memories']);
+        getAuditLogger().logMemoryChange({ sessionId: context.sessionId, action: 'update', memoryId: id, before, after });
+
+        return { success: true, memory: after };
+    }
+
+    private async forgetMemory(id: string, reason: string | undefined, context: ToolContext) {
+        const found = this.findMemory(id);
+        if (!found) {
+            return toolError('not_found', 'Memory not found', { id });
+        }
+
+        const [before] = found.list.splice(found.index, 1);
+
+        await this.saveProfile();
+        this.emitChange(['memories']);
+        getAuditLogger().logMemoryChange({
+            sessionId: context.sessionId,
+            action: 'forget',
+            memoryId: id,
+            before,
+            after: null,
+            reason
+        });
+
+        return { success: true, id, message: 'Memory forgotten.' };
+    }
+
+    private async pinMemory(id: string, pinned: boolean, context: ToolContext) {
+        const found = this.findMemory(id);
+        if (!found) {
+            return toolError('not_found', 'Memory not found', { id });
+        }
+
+        const before = found.list[found.index];
+        const after: MemoryFragment = { ...before, pinned };
+
+        // Pinned memories live in short-term memory so they are never rotated out
+        found.list.splice(found.index, 1);
+        if (pinned && found.list === this.profile.longTermMemory) {
+            this.profile.shortTermMemory.push(after);
+        } else {
+            found.list.splice(found.index, 0, after);
+        }
+
+        await this.saveProfile();
+        this.emitChange(['memories']);
+        getAuditLogger().logMemoryChange({
+            sessionId: context.sessionId,
+            action: pinned ? 'pin' : 'unpin',
+            memoryId: id,
+            before,
+            after
+        });
+
+        return { success: true, memory: after };
+    }
+
+    private getContextForTask(taskDescription: string, maxTokens?: number, profile: PortableProfile = this.profile) {
+        const assembled = assembleContext(taskDescription, {
+            memories: this.getAllMemories(profile),
+            insights: profile.insights || [],
+            conversations: profile.conversations || [],
+            preferences: profile.preferences
+        }, { maxTokens });
 
         return {
             task: taskDescription,
             context: {
-                memories: memoryResults.matches,
-                conversations: relevantConvs,
-                insights: relevantInsights,
-                preferences: this.profile.preferences.filter(p => p.isEnabled)
+                memories: assembled.memories,
+                conversations: assembled.conversations,
+                insights: assembled.insights,
+                preferences: assembled.preferences
             },
+            items: assembled.items,
+            budget: { maxTokens: maxTokens ?? DEFAULT_CONTEXT_TOKENS, usedTokens: assembled.usedTokens },
+            omitted: assembled.omitted,
             hint: 'Use this context to personalize your response to the user'
         };
     }
 
-    private getConversationHistory(topic: string, provider = 'all') {
-        let conversations = this.profile.conversations || [];
+    private listProjects(profile: PortableProfile = this.profile) {
+        const projects = profile.projects || [];
+        return {
+            projects: projects.map(p => ({
+                id: p.id,
+                name: p.name,
+                description: p.description,
+                techStack: p.techStack,
+                memoryCount: p.relatedMemories.length,
+                conversationCount: this.getProjectConversations(p, profile).length,
+                active: p.id === profile.activeProjectId
+            })),
+            activeProjectId: profile.activeProjectId ?? null,
+            count: projects.length
+        };
+    }
+
+    /**
+     * Conversations linked to a project: listed explicitly, or the source
+     * conversation of one of its related memories.
+     */
+    private getProjectConversations(project: ProjectContext, profile: PortableProfile = this.profile): Conversation[] {
+        const ids = new Set(project.relatedConversations || []);
+        const memoryIds = new Set(project.relatedMemories);
+        for (const memory of this.getAllMemories(profile)) {
+            if (memoryIds.has(memory.id) && memory.conversationId) {
+                ids.add(memory.conversationId);
+            }
+        }
+        return (profile.conversations || []).filter(c => ids.has(c.id));
+    }
+
+    private getProjectContext(projectId: string, profile: PortableProfile = this.profile) {
+        const project = (profile.projects || []).find(p => p.id === projectId);
+        if (!project) {
+            return toolError('not_found', 'Project not found', { id: projectId });
+        }
+
+        const memoryIds = new Set(project.relatedMemories);
+        const relatedMemories = this.getAllMemories(profile).filter(m => memoryIds.has(m.id));
+
+        return {
+            project: {
+                id: project.id,
+                name: project.name,
+                description: project.description
+            },
+            active: project.id === profile.activeProjectId,
+            techStack: project.techStack,
+            relatedMemories,
+            conversations: this.getProjectConversations(project, profile).map(c => ({
+                id: c.id,
+                title: c.title,
+                provider: c.metadata?.provider,
+                createdAt: c.metadata?.createdAt,
+                summary: c.summary || 'No summary available'
+            })),
+            hint: 'Scope your answers to this project and its tech stack'
+        };
+    }
+
+    /**
+     * Set the active project of the profile, or of the persona the caller
+     * works under so other personas keep theirs.
+     */
+    private async setActiveProject(projectId: string | null, persona: Persona | null = null) {
+        if (projectId !== null && !(this.profile.projects || []).some(p => p.id === projectId)) {
+            return toolError('not_found', 'Project not found', { id: projectId });
+        }
+
+        if (persona) {
+            persona.activeProjectId = projectId;
+            persona.updatedAt = Date.now();
+        } else if (projectId === null) {
+            delete this.profile.activeProjectId;
+        } else {
+            this.profile.activeProjectId = projectId;
+        }
+
+        await this.saveProfile();
+        this.emitChange(['projects']);
+        logAudit('Active project changed', { projectId, ...(persona && { personaId: persona.id }) });
+
+        return { success: true, activeProjectId: projectId };
+    }
+
+    private getConversationHistory(topic: string, provider = 'all', profile: PortableProfile = this.profile) {
+        let conversations = profile.conversations || [];
 
         if (provider !== 'all') {
             conversations = conversations.filter(c => c.metadata?.provider === provider);
@@ -351,26 +1393,26 @@ export class ProfileVault {
 
     // --- Helper Methods ---
 
-    private categorizeInsights() {
+    private categorizeInsights(profile: PortableProfile = this.profile) {
         const categories: Record<string, number> = {};
-        for (const insight of (this.profile.insights || [])) {
+        for (const insight of (profile.insights || [])) {
             const cat = insight.category || 'other';
             categories[cat] = (categories[cat] || 0) + 1;
         }
         return categories;
     }
 
-    private getStats() {
-        const convs = this.profile.conversations || [];
+    private getStats(profile: PortableProfile = this.profile) {
+        const convs = profile.conversations || [];
         const providers = new Set(convs.map(c => c.metadata?.provider).filter(Boolean));
 
         return {
             identity: {
-                name: this.profile.identity.fullName,
-                role: this.profile.identity.role
+                name: profile.identity.fullName,
+                role: profile.identity.role
             },
             memory: {
-                total: (this.profile.shortTermMemory?.length || 0) + (this.profile.longTermMemory?.length || 0)
+                total: (profile.shortTermMemory?.length || 0) + (profile.longTermMemory?.length || 0)
             },
             conversations: {
                 total: convs.length,
@@ -378,57 +1420,167 @@ export class ProfileVault {
                 messageCount: convs.reduce((sum, c) => sum + (c.metadata?.messageCount || 0), 0)
             },
             insights: {
-                total: (this.profile.insights || []).length,
-                categories: this.categorizeInsights()
+                total: (profile.insights || []).length,
+                categories: this.categorizeInsights(profile)
             },
             preferences: {
-                total: this.profile.preferences.length,
-                active: this.profile.preferences.filter(p => p.isEnabled).length
+                total: profile.preferences.length,
+                active: profile.preferences.filter(p => p.isEnabled).length
             }
         };
     }
 
-    private getConversation(id: string) {
-        const conv = (this.profile.conversations || []).find(c => c.id === id);
+    private getConversation(id: string, profile: PortableProfile = this.profile) {
+        const conv = (profile.conversations || []).find(c => c.id === id);
         if (!conv) {
             return { error: 'Conversation not found', id };
         }
         return conv;
     }
 
-    private saveProfile() {
-        const dataPath = path.join(VAULT_PATH, 'profile.json');
-        try {
-            if (!fs.existsSync(VAULT_PATH)) {
-                fs.mkdirSync(VAULT_PATH, { recursive: true });
-            }
-            fs.writeFileSync(dataPath, JSON.stringify(this.profile, null, 2));
-            log('Profile saved successfully', { path: dataPath });
-        } catch (e) {
+    /**
+     * Encrypt and persist the profile. Saves are queued so concurrent
+     * tool calls cannot interleave writes to the vault file. Rejects if this
+     * save fails, so the calling tool does not report success.
+     */
+    private saveProfile(): Promise<void> {
+        const dataPath = this.store.filePath;
+        const saved = this.saveQueue
+            .then(() => this.store.write(this.profile))
+            .then(mtime => {
+                this.lastSavedMtime = mtime;
+                log('Profile saved successfully', { path: dataPath });
+            });
+        // The caller sees the failure; later saves still run
+        this.saveQueue = saved.catch(e => {
             logError('Error saving profile:', { error: (e as Error).message, path: dataPath });
+        });
+        return saved;
+    }
+
+    /**
+     * Hold a remote write for review in the dashboard instead of storing it.
+     */
+    private async queueWrite(
+        tool: PendingWriteTool,
+        after: MemoryFragment | Conversation,
+        reason: unknown,
+        context: ToolContext
+    ) {
+        if (pendingWrites(this.profile).length >= MAX_PENDING_WRITES) {
+            return toolError('failed_precondition', `Review inbox is full (${MAX_PENDING_WRITES} pending writes)`);
         }
+
+        const write = createPendingWrite({
+            tool,
+            client: context.client ?? 'unknown',
+            reason: typeof reason === 'string' ? reason : undefined,
+            after
+        });
+        this.profile.pendingWrites = [...pruneDecidedWrites(this.profile.pendingWrites || []), write];
+        await this.saveProfile();
+
+        logAudit('Write queued for review', { writeId: write.id, tool, client: write.client });
+
+        return {
+            success: true,
+            status: 'pending',
+            writeId: write.id,
+            message: 'Held for review in the dashboard. Poll get_write_status with the writeId for the outcome.'
+        };
     }
 
-    async archiveConversation(args: {
-        title: string;
-        messages: any[];
-        provider?: string;
-        model?: string;
-        summary?: string;
-    }): Promise<any> {
-        const conversation: Conversation = {
+    /**
+     * Record a grant revocation in the vault, where every server that loads
+     * it picks it up.
+     */
+    private async revokeGrant(grantId: string, presented: AccessGrant | undefined, context: ToolContext) {
+        const revoked = this.revokedGrantIds.includes(grantId);
+        const grant = (this.profile.activeGrants || []).find(g => g.id === grantId)
+            ?? (await this.isOwnerGrant(grantId, presented) ? presented : undefined);
+        if (!grant && !revoked) {
+            return toolError('not_found', 'Grant not found', { grantId });
+        }
+        // Sessions bound to a persona only manage that persona's grants
+        if (context.persona && grant?.persona !== context.persona) {
+            return toolError('not_found', 'Grant not found', { grantId });
+        }
+
+        if (!revoked) {
+            this.profile.revokedGrantIds = [...this.revokedGrantIds, grantId];
+        }
+        this.profile.activeGrants = (this.profile.activeGrants || []).filter(g => g.id !== grantId);
+        await this.saveProfile();
+        this.emitChange(['grants']);
+
+        logAudit('Access grant revoked', { grantId, sessionId: context.sessionId });
+        return { success: true, grantId };
+    }
+
+    /**
+     * Whether a grant shown by the caller has the given ID and the owner's
+     * signature. Grants issued from the dashboard are not stored in this vault.
+     */
+    private async isOwnerGrant(grantId: string, grant: AccessGrant | undefined): Promise<boolean> {
+        if (!grant || grant.id !== grantId || !this.ownerDid || typeof grant.signature !== 'string') {
+            return false;
+        }
+        return verifyAccessGrantSignature(grant, this.ownerDid);
+    }
+
+    /**
+     * Decide a held write. Approved writes are stored here, in the server's
+     * vault, so the client polling get_write_status sees the outcome.
+     */
+    private async reviewWrite(
+        id: string,
+        decision: 'approve' | 'reject',
+        args: Record<string, unknown>,
+        context: ToolContext
+    ) {
+        const writes = this.profile.pendingWrites || [];
+        const index = writes.findIndex(w => w.id === id);
+        if (index === -1) {
+            return toolError('not_found', `Write not found: ${id}`, { id });
+        }
+        const write = writes[index];
+        if (write.status !== 'pending') {
+            return toolError('failed_precondition', `Write ${id} is already ${write.status}`, { id });
+        }
+        // A client may not approve what it proposed itself
+        if (context.client !== undefined && write.client === context.client) {
+            return toolError('failed_precondition', 'Writes cannot be reviewed by the client that made them', { id });
+        }
+        const edited = args.edited as Record<string, unknown> | undefined;
+        if (edited && (write.tool === 'add_memory' ? typeof edited.content !== 'string' : !Array.isArray(edited.messages))) {
+            return toolError('invalid_arguments', `Invalid edited: must be a ${write.tool === 'add_memory' ? 'memory' : 'conversation'}`);
+        }
+
+        const note = typeof args.note === 'string' ? args.note : undefined;
+        const decided = decision === 'approve'
+            ? approveWrite(write, edited as MemoryFragment | Conversation | undefined)
+            : rejectWrite(write, note);
+        writes[index] = decided;
+
+        if (decided.status === 'approved' && decided.tool === 'add_memory') {
+            await this.storeMemory(decided.diff.after as MemoryFragment);
+        } else if (decided.status === 'approved') {
+            this.profile.conversations = [...(this.profile.conversations || []), decided.diff.after as Conversation];
+            await this.saveProfile();
+            this.emitChange(['conversations']);
+        } else {
+            await this.saveProfile();
+        }
+
+        logAudit(`MCP write ${decided.status}`, { writeId: id, tool: decided.tool, client: decided.client, edited: !!decided.edited, sessionId: context.sessionId });
+        return writeStatus(decided);
+    }
+
+    private buildConversation(args: Parameters<ProfileVault['archiveConversation']>[0]): Conversation {
+        return {
             id: `conv_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
             title: args.title,
-            messages: args.messages.map((m: any) => ({
-                id: m.id || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`,
-                role: m.role,
-                content: m.content,
-                timestamp: m.timestamp || Date.now(),
-                contentType: 'text', // Default to text for simplified archival
-                metadata: {
-                    model: args.model
-                }
-            })),
+            messages: toMessages(args.messages, args.model),
             metadata: {
                 provider: (args.provider || 'mcp-archived') as any,
                 model: args.model || 'unknown',
@@ -436,16 +1588,31 @@ export class ProfileVault {
                 updatedAt: Date.now(),
                 importedAt: Date.now(),
                 messageCount: args.messages.length,
-                wordCount: args.messages.reduce((sum: number, m: any) => sum + (m.content?.split(' ').length || 0), 0)
+                wordCount: countWords(args.messages)
             },
             summary: args.summary,
-            tags: []
+            tags: args.tags || []
         };
+    }
+
+    async archiveConversation(args: {
+        title: string;
+        messages: any[];
+        provider?: string;
+        model?: string;
+        summary?: string;
+        tags?: string[];
+    }): Promise<any> {
+        const conversation = this.buildConversation(args);
 
         if (!this.profile.conversations) {
             this.profile.conversations = [];
         }
 
+        this.profile.conversations.push(conversation);
+        await this.saveProfile();
+        this.emitChange(['conversations']);
+
         logAudit('Conversation archived', { conversationId: conversation.id, title: args.title });
 
         // Check for Auto-Sync Preference
@@ -473,6 +1640,238 @@ export class ProfileVault {
         };
     }
 
+    /**
+     * Append messages to the conversation this connection is capturing,
+     * starting one on the first call. `finalize` ends the capture; the next
+     * append starts a new conversation.
+     */
+    async appendToConversation(args: {
+        messages: TranscriptMessage[];
+        title?: string;
+        provider?: string;
+        model?: string;
+        finalize?: boolean;
+        reason?: string;
+    }, context: ToolContext = {}, persona: Persona | null = null): Promise<any> {
+        const connectionId = context.connectionId ?? DEFAULT_CONNECTION_ID;
+        let transcript = this.sessionTranscripts.get(connectionId);
+        let conversation = transcript?.held
+            ?? (transcript && (this.profile.conversations || []).find(c => c.id === transcript!.conversationId));
+
+        // First append, or the captured conversation was deleted meanwhile
+        if (!transcript || !conversation) {
+            conversation = this.buildConversation({
+                title: args.title || `MCP session ${new Date().toISOString().slice(0, 16).replace('T', ' ')}`,
+                messages: [],
+                provider: args.provider,
+                model: args.model,
+                tags: tagsForPersona(persona, [])
+            });
+            transcript = context.reviewWrites
+                ? { conversationId: conversation.id, held: conversation, client: context.client }
+                : { conversationId: conversation.id };
+            this.sessionTranscripts.set(connectionId, transcript);
+            logAudit('Session transcript started', { conversationId: conversation.id });
+        }
+        if (typeof args.reason === 'string') {
+            transcript.reason = args.reason;
+        }
+
+        conversation = appendMessages(conversation, args.messages);
+        if (args.title && conversation.title !== args.title) {
+            conversation = { ...conversation, title: args.title };
+        }
+
+        if (transcript.held) {
+            transcript.held = conversation;
+        } else {
+            this.putConversation(conversation);
+        }
+
+        const result = {
+            success: true,
+            conversationId: conversation.id,
+            messageCount: conversation.metadata.messageCount,
+            finalized: args.finalize === true
+        };
+
+        if (args.finalize) {
+            const closed = await this.closeTranscript(connectionId, true);
+            return isToolError(closed) ? closed : { ...closed, ...result };
+        }
+        if (!transcript.held) {
+            await this.saveProfile();
+            this.emitChange(['conversations']);
+        }
+        return result;
+    }
+
+    /**
+     * A connection closed. Its persona selection is dropped and its transcript
+     * finalized if auto-archive is on; a transcript held for review is always
+     * queued, or it would be lost.
+     */
+    async endSession(connectionId: string): Promise<void> {
+        this.selectedPersonas.delete(connectionId);
+        const autoArchive = this.profile.preferences.some(p => p.key === AUTO_ARCHIVE_KEY && p.isEnabled);
+        await this.closeTranscript(connectionId, autoArchive);
+    }
+
+    /**
+     * Stop capturing a connection's transcript, finalizing it if asked.
+     * Returns the review queue result for held transcripts.
+     */
+    private async closeTranscript(connectionId: string, finalize: boolean): Promise<Record<string, unknown> | undefined> {
+        const transcript = this.sessionTranscripts.get(connectionId);
+        if (!transcript) return undefined;
+        this.sessionTranscripts.delete(connectionId);
+
+        if (transcript.held) {
+            return this.queueWrite('archive_conversation', finalizeTranscript(transcript.held), transcript.reason, { client: transcript.client });
+        }
+        if (!finalize) return undefined;
+
+        const conversation = (this.profile.conversations || []).find(c => c.id === transcript.conversationId);
+        if (!conversation) return undefined;
+
+        this.putConversation(finalizeTranscript(conversation));
+        await this.saveProfile();
+        this.emitChange(['conversations']);
+        logAudit('Session transcript finalized', { conversationId: conversation.id });
+        return undefined;
+    }
+
+    /** Store a conversation, replacing the one with the same ID */
+    private putConversation(conversation: Conversation) {
+        const conversations = this.profile.conversations || [];
+        const index = conversations.findIndex(c => c.id === conversation.id);
+        if (index === -1) {
+            conversations.push(conversation);
+        } else {
+            conversations[index] = conversation;
+        }
+        this.profile.conversations = conversations;
+    }
+
+    /**
+     * Persona for a token or grant the caller issues. A caller bound to a
+     * persona can only issue credentials bound to the same one.
+     */
+    private credentialPersona(requested: unknown, context: ToolContext): string | undefined | ToolError {
+        if (requested !== undefined && (typeof requested !== 'string' || requested.trim().length === 0)) {
+            return toolError('invalid_arguments', 'Invalid persona: must be a non-empty string');
+        }
+        const persona = requested === undefined ? undefined : findPersona(this.profile, requested);
+        if (requested !== undefined && !persona) {
+            return toolError('not_found', `Persona not found: ${requested}`, { persona: requested });
+        }
+        if (context.persona && persona && persona.id !== context.persona) {
+            return toolError('failed_precondition', 'Credentials can only be issued for the persona this session is bound to', { persona: context.persona });
+        }
+        return persona?.id ?? context.persona;
+    }
+
+    private listPersonas(context: ToolContext) {
+        const current = this.personaFor(context);
+        const active = isToolError(current) ? null : current;
+        // A bound session only learns about its own persona
+        const personas = context.persona ? (active ? [active] : []) : this.profile.personas || [];
+        return {
+            personas: personas.map(p => ({ id: p.id, name: p.name })),
+            current: active ? { id: active.id, name: active.name } : null,
+            bound: context.persona !== undefined
+        };
+    }
+
+    /**
+     * Pick the persona for the rest of this connection. null goes back to the
+     * server default (MCP_PERSONA, or none).
+     */
+    private selectPersona(idOrName: string | null, context: ToolContext) {
+        if (context.persona) {
+            return toolError('failed_precondition', 'This session is bound to a persona by its credentials', { persona: context.persona });
+        }
+        const connectionId = context.connectionId ?? DEFAULT_CONNECTION_ID;
+        if (idOrName === null) {
+            this.selectedPersonas.delete(connectionId);
+            logAudit('Persona deselected', { sessionId: context.sessionId });
+            return { success: true, persona: null };
+        }
+
+        const persona = findPersona(this.profile, idOrName);
+        if (!persona) {
+            return toolError('not_found', `Persona not found: ${idOrName}`, { persona: idOrName });
+        }
+        this.selectedPersonas.set(connectionId, persona.id);
+        logAudit('Persona selected', { personaId: persona.id, sessionId: context.sessionId });
+        return { success: true, persona: { id: persona.id, name: persona.name } };
+    }
+
+    /**
+     * Create a persona, or replace the definition of an existing one.
+     */
+    private async savePersona(args: {
+        id?: string;
+        name: string;
+        identity?: Persona['identity'];
+        preference_ids?: string[];
+        visibility?: Persona['visibility'];
+    }) {
+        const personas = this.profile.personas || [];
+        const existing = args.id !== undefined ? personas.find(p => p.id === args.id) : undefined;
+        if (args.id !== undefined && !existing) {
+            return toolError('not_found', 'Persona not found', { id: args.id });
+        }
+        const name = args.name.trim();
+        if (personas.some(p => p.id !== args.id && p.name.toLowerCase() === name.toLowerCase())) {
+            return toolError('invalid_arguments', `A persona named ${name} already exists`);
+        }
+
+        const now = Date.now();
+        const persona: Persona = {
+            id: existing?.id ?? `persona_${now}_${Math.random().toString(36).substr(2, 5)}`,
+            name,
+            ...(args.identity && { identity: args.identity }),
+            ...(args.preference_ids && { preferenceIds: args.preference_ids }),
+            ...(args.visibility && { visibility: args.visibility }),
+            ...(existing?.activeProjectId !== undefined && { activeProjectId: existing.activeProjectId }),
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+        this.profile.personas = existing
+            ? personas.map(p => p.id === persona.id ? persona : p)
+            : [...personas, persona];
+
+        await this.saveProfile();
+        // What sessions under this persona see may have changed everywhere
+        this.emitChange(['identity', 'preferences', 'memories', 'conversations', 'insights', 'projects']);
+        logAudit(existing ? 'Persona updated' : 'Persona created', { personaId: persona.id, name });
+
+        return { success: true, persona };
+    }
+
+    /**
+     * Delete a persona. Sessions and credentials bound to it stop working
+     * rather than falling back to the whole profile.
+     */
+    private async deletePersona(id: string) {
+        const personas = this.profile.personas || [];
+        if (!personas.some(p => p.id === id)) {
+            return toolError('not_found', 'Persona not found', { id });
+        }
+        this.profile.personas = personas.filter(p => p.id !== id);
+        for (const [connectionId, selected] of this.selectedPersonas) {
+            if (selected === id) {
+                this.selectedPersonas.delete(connectionId);
+            }
+        }
+
+        await this.saveProfile();
+        logAudit('Persona deleted', { personaId: id });
+
+        return { success: true, id };
+    }
+
     async setAutoSync(enabled: boolean): Promise<any> {
         const prefKey = 'Auto-Sync';
         let pref = this.profile.preferences.find(p => p.key === prefKey);
@@ -490,13 +1889,14 @@ export class ProfileVault {
             pref.isEnabled = enabled;
         }
 
-        this.saveProfile();
+        await this.saveProfile();
+        this.emitChange(['preferences']);
         logAudit('Auto-Sync preference updated', { enabled });
         return { success: true, enabled, message: `Auto-Sync ${enabled ? 'Enabled' : 'Disabled'}` };
     }
 
     async setAutoArchive(enabled: boolean): Promise<any> {
-        const prefKey = 'Auto-Archive Chats';
+        const prefKey = AUTO_ARCHIVE_KEY;
         let pref = this.profile.preferences.find(p => p.key === prefKey);
 
         if (!pref) {
@@ -512,7 +1912,8 @@ export class ProfileVault {
             pref.isEnabled = enabled;
         }
 
-        this.saveProfile();
+        await this.saveProfile();
+        this.emitChange(['preferences']);
         return { success: true, enabled };
     }
 }
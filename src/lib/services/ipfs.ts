@@ -1,7 +1,7 @@
 import { logger } from '../logger';
 
 export interface StorageProvider {
-    upload(data: Blob, name: string): Promise<string>;
+    upload(data: Blob, name: string, options?: { signal?: AbortSignal }): Promise<string>;
     getGatewayUrl(cid: string): string;
 }
 
@@ -21,9 +21,9 @@ export class PinataService implements StorageProvider {
     }
 
     /**
-     * Upload a file/blob to Pinata IPFS
+     * Upload a file/blob to Pinata IPFS. Aborting the signal cancels the request.
      */
-    async upload(data: Blob, name: string): Promise<string> {
+    async upload(data: Blob, name: string, request: { signal?: AbortSignal } = {}): Promise<string> {
         const formData = new FormData();
         formData.append('file', data, name);
 
@@ -54,7 +54,8 @@ export class PinataService implements StorageProvider {
             const res = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
                 method: 'POST',
                 headers: headers,
-                body: formData
+                body: formData,
+                signal: request.signal
             });
 
             if (!res.ok) {
@@ -13,6 +13,13 @@ export interface ConversationCluster {
     isDuplicateGroup: boolean; // True if highly likely to be duplicates
 }
 
+export interface ClusterProgressOptions {
+    /** Called with the number of conversations placed so far */
+    onProgress?: (done: number, total: number) => void;
+    /** Aborting stops clustering with the signal's reason */
+    signal?: AbortSignal;
+}
+
 export class SummarizationService {
     /**
      * Clusters conversations into groups based on title similarity and tags.
@@ -26,49 +33,86 @@ export class SummarizationService {
 
         for (const conv of sorted) {
             if (processed.has(conv.id)) continue;
+            clusters.push(this.buildCluster(conv, sorted, processed, clusters.length + 1));
+        }
 
-            // Start a new cluster
-            const currentCluster: ConversationCluster = {
-                id: `cluster_${clusters.length + 1}`,
-                topic: conv.title, // Default topic is the title of the newest conv
-                conversations: [],
-                isDuplicateGroup: false
-            };
+        return clusters;
+    }
 
-            // Add current
-            currentCluster.conversations.push(this.mapToSummary(conv));
-            processed.add(conv.id);
+    /**
+     * Same as clusterConversations, but yields to the event loop between
+     * clusters so large vaults can report progress and be cancelled.
+     */
+    static async clusterConversationsAsync(
+        conversations: Conversation[],
+        options: ClusterProgressOptions = {}
+    ): Promise<ConversationCluster[]> {
+        const clusters: ConversationCluster[] = [];
+        const processed = new Set<string>();
+        const sorted = [...conversations].sort((a, b) => b.metadata.createdAt - a.metadata.createdAt);
 
-            // Find related
-            for (const candidate of sorted) {
-                if (processed.has(candidate.id)) continue;
+        for (const conv of sorted) {
+            if (processed.has(conv.id)) continue;
 
-                const similarity = this.calculateSimilarity(conv, candidate);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            options.signal?.throwIfAborted();
 
-                // Thresholds
-                // High similarity > 0.8 -> Likely Duplicate (same title, same topic)
-                // Medium similarity > 0.2 -> Related Topic
+            clusters.push(this.buildCluster(conv, sorted, processed, clusters.length + 1));
+            options.onProgress?.(processed.size, sorted.length);
+        }
 
-                if (similarity > 0.2) {
-                    currentCluster.conversations.push(this.mapToSummary(candidate));
-                    processed.add(candidate.id);
-                }
-            }
+        return clusters;
+    }
 
-            // Determine if it's a duplicate group
-            // Heuristic: If all titles are identical or very close
-            if (currentCluster.conversations.length > 1) {
-                const title = currentCluster.conversations[0].title.toLowerCase();
-                const allSameTitle = currentCluster.conversations.every(c =>
-                    this.calculateStringSimilarity(c.title.toLowerCase(), title) > 0.9
-                );
-                currentCluster.isDuplicateGroup = allSameTitle;
+    /**
+     * Start a cluster from a conversation and pull in every unprocessed
+     * conversation related to it.
+     */
+    private static buildCluster(
+        conv: Conversation,
+        sorted: Conversation[],
+        processed: Set<string>,
+        index: number
+    ): ConversationCluster {
+        // Start a new cluster
+        const currentCluster: ConversationCluster = {
+            id: `cluster_${index}`,
+            topic: conv.title, // Default topic is the title of the newest conv
+            conversations: [],
+            isDuplicateGroup: false
+        };
+
+        // Add current
+        currentCluster.conversations.push(this.mapToSummary(conv));
+        processed.add(conv.id);
+
+        // Find related
+        for (const candidate of sorted) {
+            if (processed.has(candidate.id)) continue;
+
+            const similarity = this.calculateSimilarity(conv, candidate);
+
+            // Thresholds
+            // High similarity > 0.8 -> Likely Duplicate (same title, same topic)
+            // Medium similarity > 0.2 -> Related Topic
+
+            if (similarity > 0.2) {
+                currentCluster.conversations.push(this.mapToSummary(candidate));
+                processed.add(candidate.id);
             }
+        }
 
-            clusters.push(currentCluster);
+        // Determine if it's a duplicate group
+        // Heuristic: If all titles are identical or very close
+        if (currentCluster.conversations.length > 1) {
+            const title = currentCluster.conversations[0].title.toLowerCase();
+            const allSameTitle = currentCluster.conversations.every(c =>
+                this.calculateStringSimilarity(c.title.toLowerCase(), title) > 0.9
+            );
+            currentCluster.isDuplicateGroup = allSameTitle;
         }
 
-        return clusters;
+        return currentCluster;
     }
 
     private static mapToSummary(conv: Conversation) {
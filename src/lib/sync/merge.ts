@@ -13,7 +13,8 @@ import {
     UserInsight,
     SystemPreference,
     ProjectContext,
-    AccessGrant,
+    PendingWrite,
+    Persona,
     UserIdentity
 } from '@/lib/types';
 
@@ -113,7 +114,13 @@ export async function smartMerge(
     stats.autoMerged += projectResult.autoMerged;
 
     // Merge active grants (union, don't conflict)
-    mergeGrants(merged, local.activeGrants, remote.activeGrants);
+    mergeGrants(merged, local, remote);
+
+    // Merge the MCP write review inbox (union, decisions win)
+    mergePendingWrites(merged, local.pendingWrites, remote.pendingWrites);
+
+    // Merge personas (union, most recently updated wins)
+    mergePersonas(merged, local.personas, remote.personas);
 
     return {
         merged,
@@ -661,12 +668,12 @@ function mergeProjects(
 
 function mergeGrants(
     merged: PortableProfile,
-    localGrants: AccessGrant[],
-    remoteGrants: AccessGrant[]
+    local: PortableProfile,
+    remote: PortableProfile
 ): void {
-    const allGrants = new Map(localGrants.map(g => [g.id, g]));
+    const allGrants = new Map(local.activeGrants.map(g => [g.id, g]));
 
-    for (const remoteGrant of remoteGrants) {
+    for (const remoteGrant of remote.activeGrants) {
         if (!allGrants.has(remoteGrant.id)) {
             // Only add if not expired
             if (remoteGrant.expiresAt > Date.now()) {
@@ -675,9 +682,61 @@ function mergeGrants(
         }
     }
 
-    // Filter out expired grants
+    // A revocation on either side wins
+    const revoked = new Set([...(local.revokedGrantIds || []), ...(remote.revokedGrantIds || [])]);
+    if (revoked.size > 0) {
+        merged.revokedGrantIds = Array.from(revoked);
+    }
+
+    // Filter out expired and revoked grants
     merged.activeGrants = Array.from(allGrants.values())
-        .filter(g => g.expiresAt > Date.now());
+        .filter(g => g.expiresAt > Date.now() && !revoked.has(g.id));
+}
+
+/**
+ * Union of both inboxes. A write decided on one side and still pending on
+ * the other takes the decision.
+ */
+function mergePendingWrites(
+    merged: PortableProfile,
+    localWrites: PendingWrite[] = [],
+    remoteWrites: PendingWrite[] = []
+): void {
+    if (localWrites.length === 0 && remoteWrites.length === 0) {
+        return;
+    }
+
+    const allWrites = new Map(localWrites.map(w => [w.id, w]));
+    for (const remoteWrite of remoteWrites) {
+        const localWrite = allWrites.get(remoteWrite.id);
+        if (!localWrite || (localWrite.status === 'pending' && remoteWrite.status !== 'pending')) {
+            allWrites.set(remoteWrite.id, remoteWrite);
+        }
+    }
+    merged.pendingWrites = Array.from(allWrites.values());
+}
+
+/**
+ * Union of both persona lists. A persona edited on both sides keeps the
+ * most recent definition.
+ */
+function mergePersonas(
+    merged: PortableProfile,
+    localPersonas: Persona[] = [],
+    remotePersonas: Persona[] = []
+): void {
+    if (localPersonas.length === 0 && remotePersonas.length === 0) {
+        return;
+    }
+
+    const allPersonas = new Map(localPersonas.map(p => [p.id, p]));
+    for (const remotePersona of remotePersonas) {
+        const localPersona = allPersonas.get(remotePersona.id);
+        if (!localPersona || remotePersona.updatedAt > localPersona.updatedAt) {
+            allPersonas.set(remotePersona.id, remotePersona);
+        }
+    }
+    merged.personas = Array.from(allPersonas.values());
 }
 
 // ============================================================
@@ -754,3 +813,13 @@ function updateInArray<T extends { id: string }>(arr: T[], id: string, item: T):
     if (idx >= 0) { arr[idx] = item; return true; }
     return false;
 }
+
+/**
+ * Append items from `extra` whose IDs are not already in `base`.
+ * Used when two stores may each hold entries the other lacks.
+ */
+export function mergeById<T extends { id: string }>(base: T[], extra: T[] | undefined): T[] {
+    if (!extra || extra.length === 0) return base;
+    const ids = new Set(base.map(item => item.id));
+    return [...base, ...extra.filter(item => !ids.has(item.id))];
+}
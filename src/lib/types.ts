@@ -82,6 +82,8 @@ export interface AccessGrant {
     permissions: ('read_identity' | 'read_memory' | 'write_memory')[];
     expiresAt: number;
     signature: string; // User signed this grant
+    issuer?: string; // DID of the signing identity (the vault owner)
+    persona?: string; // ID of the persona sessions opened with this grant are bound to
 }
 
 export interface MemoryFragment {
@@ -94,6 +96,7 @@ export interface MemoryFragment {
     sourceProvider: AIProvider;
     confidence: number;
     conversationId?: string; // Link back to source conversation
+    pinned?: boolean; // Pinned memories stay in short-term memory and rank first
 }
 
 export interface UserIdentity {
@@ -119,6 +122,7 @@ export interface ProjectContext {
     description: string;
     techStack: string[];
     relatedMemories: string[]; // IDs of MemoryFragments
+    relatedConversations?: string[]; // IDs of Conversations
 }
 
 // --- Conversation Types (Multi-Provider Support) ---
@@ -166,6 +170,75 @@ export interface UserInsight {
     updatedAt: number;
 }
 
+// --- Prompt Templates (MCP prompts) ---
+
+export interface PromptTemplateArgument {
+    name: string;
+    description: string;
+    required: boolean;
+}
+
+export interface PromptTemplate {
+    id: string;
+    name: string; // Prompt name exposed over MCP (e.g., "review_code")
+    description: string;
+    arguments: PromptTemplateArgument[];
+    template: string; // Text with {{argument}} and {{identity.field}} placeholders
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type PendingWriteTool = 'add_memory' | 'archive_conversation';
+
+/**
+ * A write from a remote MCP client held for review in the dashboard.
+ * Approving stores `after` (possibly edited by the user) in the profile.
+ */
+export interface PendingWrite {
+    id: string;
+    tool: PendingWriteTool;
+    client: string; // Client name from the caller's token or grant
+    reason?: string; // Why the client wants the write, in its own words
+    summary: string; // One line describing the change
+    diff: {
+        before: MemoryFragment | Conversation | null; // Existing item the write replaces, if any
+        after: MemoryFragment | Conversation;
+    };
+    status: 'pending' | 'approved' | 'rejected';
+    createdAt: number;
+    decidedAt?: number;
+    edited?: boolean; // Approved with changes made by the user
+    note?: string; // Reviewer's note, e.g. why it was rejected
+}
+
+// --- Personas ---
+
+/**
+ * What a persona can see. Tag rules apply to memories and conversations and
+ * are case-insensitive; omitted rules do not restrict.
+ */
+export interface PersonaVisibility {
+    includeTags?: string[]; // Only items carrying one of these tags
+    excludeTags?: string[]; // Items carrying any of these tags are hidden
+    excludeMemoryTypes?: EntityType[]; // e.g. 'personal'
+    projectIds?: string[]; // Only these projects
+}
+
+/**
+ * A named overlay on the profile, e.g. "work" and "side projects". MCP
+ * sessions and grants can be bound to one.
+ */
+export interface Persona {
+    id: string;
+    name: string;
+    identity?: Partial<UserIdentity>; // Replaces these identity fields
+    preferenceIds?: string[]; // Preferences in effect; the profile's enabled ones when omitted
+    visibility?: PersonaVisibility;
+    activeProjectId?: string | null; // Active project under this persona; the profile's when omitted
+    createdAt: number;
+    updatedAt: number;
+}
+
 // --- Portable Profile (Full Export) ---
 
 export interface PortableProfile {
@@ -177,6 +250,11 @@ export interface PortableProfile {
     conversations: Conversation[];
     insights: UserInsight[];
     activeGrants: AccessGrant[];
+    revokedGrantIds?: string[]; // Grants revoked before they expired; refused by the MCP server
+    promptTemplates?: PromptTemplate[]; // User-defined MCP prompts
+    activeProjectId?: string; // Project MCP clients are scoped to by default
+    pendingWrites?: PendingWrite[]; // MCP writes awaiting review
+    personas?: Persona[]; // Named overlays MCP sessions can be bound to
 }
 
 // --- Vault State ---
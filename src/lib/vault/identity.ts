@@ -106,6 +106,24 @@ export function createDidFromPublicKey(publicKey: Uint8Array): string {
     return `did:key:z${encoded}`;
 }
 
+/**
+ * Resolve a did:key identifier to its Ed25519 public key.
+ * Accepts the format produced by createDidFromPublicKey (hex after the 'z' multibase prefix).
+ */
+export function resolveDidKey(did: string): Uint8Array {
+    const match = /^did:key:z((?:[0-9a-f]{2})+)$/i.exec(did);
+    if (!match) {
+        throw new Error(`Unsupported DID: ${did}`);
+    }
+
+    const bytes = hexToBytes(match[1]);
+    if (bytes.length !== 34 || bytes[0] !== 0xed || bytes[1] !== 0x01) {
+        throw new Error('DID is not an Ed25519 did:key');
+    }
+
+    return bytes.slice(2);
+}
+
 /**
  * Create a complete wallet identity from a mnemonic.
  */
@@ -222,22 +240,28 @@ export function importIdentity(json: string): WalletIdentity {
 }
 
 /**
- * Sign an access grant using the wallet's private key.
+ * Deterministic definition of a grant, as signed by signAccessGrant.
  */
-export async function signAccessGrant(
-    grant: Omit<AccessGrant, 'signature'>,
-    privateKey: Uint8Array
-): Promise<AccessGrant> {
-    // Create deterministic definition of the grant for signing
+export function accessGrantPayload(grant: Omit<AccessGrant, 'signature'>): string {
     // Canonical JSON stringify is ideal, but here we enforce key order manually
-    const payload = JSON.stringify({
+    return JSON.stringify({
         id: grant.id,
         grantee: grant.grantee,
-        permissions: grant.permissions.sort(),
-        expiresAt: grant.expiresAt
+        permissions: [...grant.permissions].sort(),
+        expiresAt: grant.expiresAt,
+        // Only present when set, so grants signed without a persona still verify
+        ...(grant.persona !== undefined && { persona: grant.persona })
     });
+}
 
-    const signature = await signMessage(privateKey, payload);
+/**
+ * Sign an access grant using the wallet's private key.
+ */
+export async function signAccessGrant(
+    grant: Omit<AccessGrant, 'signature'>,
+    privateKey: Uint8Array
+): Promise<AccessGrant> {
+    const signature = await signMessage(privateKey, accessGrantPayload(grant));
 
     return {
         ...grant,
@@ -245,6 +269,22 @@ export async function signAccessGrant(
     };
 }
 
+/**
+ * Verify a grant's signature against the public key of the issuer DID.
+ * Returns false for tampered grants and malformed signatures.
+ */
+export async function verifyAccessGrantSignature(grant: AccessGrant, issuerDid: string): Promise<boolean> {
+    const publicKey = resolveDidKey(issuerDid);
+    if (!/^[0-9a-f]{128}$/i.test(grant.signature)) {
+        return false;
+    }
+    try {
+        return await verifySignature(publicKey, accessGrantPayload(grant), grant.signature);
+    } catch {
+        return false;
+    }
+}
+
 // ============================================================
 // JWT Key Derivation (Separate Path for MCP Authentication)
 // ============================================================
@@ -309,6 +349,7 @@ export interface JwtPayload {
     jti: string;        // Unique token ID
     client: string;     // Client identifier (e.g., "claude-desktop")
     scope: string[];    // Allowed operation scopes
+    persona?: string;   // Persona ID the session is bound to
 }
 
 export interface JwtHeader {
@@ -320,7 +361,7 @@ export interface JwtHeader {
  * Create a signed JWT token for MCP authentication.
  */
 export async function createJwt(
-    payload: Omit<JwtPayload, 'iat' | 'jti'>,
+    payload: Omit<JwtPayload, 'iat' | 'jti'> & { jti?: string },
     privateKey: Uint8Array
 ): Promise<string> {
     const header: JwtHeader = {
@@ -331,7 +372,7 @@ export async function createJwt(
     const fullPayload: JwtPayload = {
         ...payload,
         iat: Math.floor(Date.now() / 1000),
-        jti: crypto.randomUUID()
+        jti: payload.jti ?? crypto.randomUUID()
     };
 
     // Base64URL encode header and payload
@@ -13,7 +13,8 @@ import {
     Conversation,
     MemoryFragment,
     UserInsight,
-    AIProvider
+    AIProvider,
+    PendingWrite
 } from '@/lib/types';
 import {
     generateMnemonic,
@@ -22,6 +23,7 @@ import {
     deriveEncryptionKey,
     signAccessGrant,
     deriveJwtSigningKey,
+    createJwt,
     WalletIdentity,
     WalletKeys,
     JwtKeyPair
@@ -31,6 +33,8 @@ import { AccessGrant } from '@/lib/types';
 import { storage } from '@/lib/storage/indexeddb';
 import { logger } from '@/lib/logger';
 import { AuditEntry, getAuditLogger, AuditLogger } from '@/lib/mcp/audit';
+import { approveWrite, pendingWrites, rejectWrite } from '@/lib/mcp/inbox';
+import { McpAdminClient, DASHBOARD_CLIENT, DASHBOARD_SCOPE } from '@/lib/mcp/client';
 import {
     smartMerge,
     applyResolutions,
@@ -51,6 +55,10 @@ import {
     PinningManager,
     ServiceCredentials
 } from '@/lib/sync';
+import { mergeById } from '@/lib/sync/merge';
+
+/** Lifetime of the JWTs the dashboard signs for the MCP server */
+const MCP_TOKEN_TTL_SECONDS = 5 * 60;
 
 export class VaultManager {
     private keys: WalletKeys | null = null;
@@ -65,6 +73,7 @@ export class VaultManager {
     private syncQueue: SyncQueue | null = null;
     private pinningManager: PinningManager | null = null;
     private pinningCredentials: ServiceCredentials | null = null;
+    private mcpClient: McpAdminClient | null = null;
 
     constructor() {
         this.deviceId = this.getOrCreateDeviceId();
@@ -480,6 +489,10 @@ export class VaultManager {
 
         this._state.status = 'syncing';
 
+        // End the MCP session while the key to sign for it is still here
+        await this.mcpClient?.close();
+        this.mcpClient = null;
+
         try {
             // Encrypt the profile
             const profileJson = JSON.stringify(this._state.profile);
@@ -702,7 +715,13 @@ export class VaultManager {
      * 2. Upload to IPFS (Pinata)
      * 3. Update DID Registry (Blockchain)
      */
-    async syncToCloud(config: { pinataJwt: string }): Promise<{ cid: string; txHash: string }> {
+    async syncToCloud(config: {
+        pinataJwt: string;
+        /** Called as each stage starts (1-based, of 3) */
+        onProgress?: (stage: number, total: number, message: string) => void;
+        /** Aborting stops the sync before the next stage and cancels the upload */
+        signal?: AbortSignal;
+    }): Promise<{ cid: string; txHash: string }> {
         if (!this._state.profile || !this._state.did) {
             throw new Error('Vault is not unlocked or missing DID');
         }
@@ -712,16 +731,23 @@ export class VaultManager {
 
         const ipfs = new PinataService({ jwt: config.pinataJwt });
         const registry = new MockRegistryService(); // Using Mock for now
+        const stage = (step: number, message: string) => {
+            config.signal?.throwIfAborted();
+            config.onProgress?.(step, 3, message);
+        };
 
         // 1. Get Encrypted Blob (includes audit logs)
+        stage(1, 'Encrypting vault backup');
         const { blob, filename } = await this.exportVaultBackup();
 
         // 2. Upload to IPFS
+        stage(2, 'Uploading vault to IPFS');
         logger.info('Uploading vault to IPFS');
-        const cid = await ipfs.upload(blob, filename);
+        const cid = await ipfs.upload(blob, filename, { signal: config.signal });
         logger.info('Vault uploaded to IPFS', { cid });
 
         // 3. Update Registry
+        stage(3, 'Updating registry');
         logger.info('Updating Blockchain Registry');
         const txHash = await registry.updateProfile(this._state.did, cid);
         logger.info('Registry update complete', { txHash });
@@ -1026,9 +1052,14 @@ export class VaultManager {
     // --- Access Control ---
 
     /**
-     * Create a cryptographically signed access grant.
+     * Create a cryptographically signed access grant, optionally bound to a persona.
      */
-    async grantAccess(grantee: string, permissions: AccessGrant['permissions'], durationSeconds: number): Promise<AccessGrant> {
+    async grantAccess(
+        grantee: string,
+        permissions: AccessGrant['permissions'],
+        durationSeconds: number,
+        persona?: string
+    ): Promise<AccessGrant> {
         if (!this.keys || !this._state.profile) {
             throw new Error('Vault is not unlocked');
         }
@@ -1038,6 +1069,8 @@ export class VaultManager {
             grantee,
             permissions,
             expiresAt: Date.now() + (durationSeconds * 1000),
+            ...(this._state.did && { issuer: this._state.did }),
+            ...(persona && { persona })
         };
 
         const signedGrant = await signAccessGrant(grant, this.keys.privateKey);
@@ -1045,8 +1078,8 @@ export class VaultManager {
         // Persist the grant
         this._state.profile.activeGrants.push(signedGrant);
 
-        logger.info('Access grant issued', { grantee, permissions });
-        logger.audit('Access grant issued', { grantee, permissions, grantId: grant.id });
+        logger.info('Access grant issued', { grantee, permissions, persona });
+        logger.audit('Access grant issued', { grantee, permissions, persona, grantId: grant.id });
 
         // We need a way to save just the profile or grants part.
         // For now, we will rely on the fact that 'lock()' saves everything, 
@@ -1060,6 +1093,143 @@ export class VaultManager {
         return signedGrant;
     }
 
+    /**
+     * Revoke a grant before it expires. The MCP server records the revocation
+     * in its vault first and refuses the grant from then on.
+     */
+    async revokeGrant(grantId: string): Promise<void> {
+        const profile = this._state.profile;
+        if (!profile) {
+            throw new Error('Vault is not unlocked');
+        }
+
+        // The server does not store grants issued here, so it is shown the signed grant
+        const grant = profile.activeGrants.find(g => g.id === grantId);
+        await this.getMcpClient().callTool('revoke_grant', { grant_id: grantId, ...(grant && { grant }) });
+
+        profile.activeGrants = profile.activeGrants.filter(g => g.id !== grantId);
+        if (!(profile.revokedGrantIds || []).includes(grantId)) {
+            profile.revokedGrantIds = [...(profile.revokedGrantIds || []), grantId];
+        }
+
+        logger.audit('Access grant revoked', { grantId });
+    }
+
+    // --- MCP Write Review ---
+
+    /**
+     * Writes from remote MCP clients held for review (MCP_WRITE_REVIEW=on),
+     * oldest first, as of the last refreshPendingWrites().
+     */
+    getPendingWrites(): PendingWrite[] {
+        return this._state.profile ? pendingWrites(this._state.profile) : [];
+    }
+
+    /**
+     * Load the writes held in the MCP server's vault. They replace the local
+     * pending list; decided writes stay for the record.
+     */
+    async refreshPendingWrites(): Promise<PendingWrite[]> {
+        const { writes } = await this.getMcpClient().callTool<{ writes: PendingWrite[] }>('list_pending_writes');
+        const profile = this._state.profile;
+        if (!profile) {
+            throw new Error('Vault is not unlocked');
+        }
+        profile.pendingWrites = [
+            ...(profile.pendingWrites || []).filter(write => write.status !== 'pending'),
+            ...writes
+        ];
+        return this.getPendingWrites();
+    }
+
+    /**
+     * Approve a held write and store it, or the user's edit of it, in the profile.
+     * The MCP server stores it first, so the client sees the outcome.
+     */
+    async approvePendingWrite(id: string, edited?: MemoryFragment | Conversation): Promise<PendingWrite> {
+        const { profile, index } = this.findPendingWrite(id);
+        await this.getMcpClient().callTool('review_write', { id, decision: 'approve', ...(edited && { edited }) });
+        const approved = approveWrite(profile.pendingWrites![index], edited);
+
+        if (approved.tool === 'add_memory') {
+            await this.addMemory(approved.diff.after as MemoryFragment);
+        } else {
+            const conversation = approved.diff.after as Conversation;
+            profile.conversations.push(conversation);
+            await storage.saveConversation(conversation);
+            this.updateStats();
+        }
+        profile.pendingWrites![index] = approved;
+
+        logger.audit('MCP write approved', { writeId: id, tool: approved.tool, client: approved.client, edited: !!approved.edited });
+        return approved;
+    }
+
+    /**
+     * Reject a held write. The client sees the note when it polls.
+     */
+    async rejectPendingWrite(id: string, note?: string): Promise<PendingWrite> {
+        const { profile, index } = this.findPendingWrite(id);
+        await this.getMcpClient().callTool('review_write', { id, decision: 'reject', ...(note && { note }) });
+        const rejected = rejectWrite(profile.pendingWrites![index], note);
+        profile.pendingWrites![index] = rejected;
+
+        logger.audit('MCP write rejected', { writeId: id, tool: rejected.tool, client: rejected.client });
+        return rejected;
+    }
+
+    private findPendingWrite(id: string): { profile: PortableProfile; index: number } {
+        const profile = this._state.profile;
+        if (!profile) {
+            throw new Error('Vault is not unlocked');
+        }
+        const index = (profile.pendingWrites || []).findIndex(w => w.id === id);
+        if (index === -1) {
+            throw new Error(`Pending write not found: ${id}`);
+        }
+        return { profile, index };
+    }
+
+    // --- MCP Server ---
+
+    /**
+     * Anomaly alerts from the MCP server's audit log, newest first.
+     */
+    async getAccessAlerts(limit = 20): Promise<AuditEntry[]> {
+        const { entries } = await this.getMcpClient().callTool<{ entries: AuditEntry[] }>('query_audit_log', {
+            type: 'anomaly_detected',
+            limit
+        });
+        return entries;
+    }
+
+    /**
+     * Client for the MCP server's copy of the vault (NEXT_PUBLIC_MCP_URL),
+     * signed in as the owner with short-lived JWTs.
+     */
+    private getMcpClient(): McpAdminClient {
+        const url = process.env.NEXT_PUBLIC_MCP_URL;
+        if (!url) {
+            throw new Error('MCP server is not configured: set NEXT_PUBLIC_MCP_URL');
+        }
+        if (!this.mcpClient) {
+            this.mcpClient = new McpAdminClient({ url, getToken: () => this.createMcpToken() });
+        }
+        return this.mcpClient;
+    }
+
+    private async createMcpToken(): Promise<string> {
+        if (!this.jwtKeys || !this._state.did) {
+            throw new Error('Vault is not unlocked');
+        }
+        return createJwt({
+            sub: this._state.did,
+            client: DASHBOARD_CLIENT,
+            scope: DASHBOARD_SCOPE,
+            exp: Math.floor(Date.now() / 1000) + MCP_TOKEN_TTL_SECONDS
+        }, this.jwtKeys.privateKey);
+    }
+
     // --- Private Methods ---
 
     private createEmptyProfile(did: string): PortableProfile {
@@ -1083,20 +1253,25 @@ export class VaultManager {
 
     private async loadFromStorage(): Promise<void> {
         if (!this._state.profile) return;
+        const profile = this._state.profile;
 
-        // Load conversations from storage
+        // Storage copies win, but keep items that only exist in the encrypted
+        // profile (e.g., written by the MCP server and imported as a backup)
         const conversations = await storage.getAllConversations();
-        this._state.profile.conversations = conversations;
+        profile.conversations = mergeById(conversations, profile.conversations);
 
         // Load memories
-        const memories = await storage.getAllMemories();
+        const memories = mergeById(
+            await storage.getAllMemories(),
+            [...(profile.longTermMemory || []), ...(profile.shortTermMemory || [])]
+        );
         // Distribute between short-term and long-term
-        this._state.profile.shortTermMemory = memories.slice(-50);
-        this._state.profile.longTermMemory = memories.slice(0, -50);
+        profile.shortTermMemory = memories.slice(-50);
+        profile.longTermMemory = memories.slice(0, -50);
 
         // Load insights
         const insights = await storage.getAllInsights();
-        this._state.profile.insights = insights;
+        profile.insights = mergeById(insights, profile.insights);
     }
 
     private updateStats(): void {
@@ -0,0 +1,189 @@
+/**
+ * Unit Tests for MCP Access Anomaly Detection
+ *
+ * Tests cover:
+ * - Bursts of authorization failures and denied requests
+ * - First reads of sensitive resources
+ * - Connections from new IPs
+ * - Activity at unusual hours
+ * - Learning from history and alert callbacks
+ * - Ignoring client names claimed by failed logins
+ * - Forgetting the least recently seen clients past the tracking limit
+ * - Environment configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AuditLogger } from '@/lib/mcp/audit';
+import { AnomalyDetector, anomalyConfigFromEnv } from '@/lib/mcp/anomaly';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+describe('AnomalyDetector', () => {
+    let logger: AuditLogger;
+    let detector: AnomalyDetector;
+
+    function alerts() {
+        return logger.getLogsByType('anomaly_detected');
+    }
+
+    /** Give a client an established history during working hours */
+    function establish(client: string, sessionId: string) {
+        logger.logAuthSuccess({ sessionId, did: 'did:key:zA', client, ip: '10.0.0.1' });
+        for (let i = 0; i < 20; i++) {
+            logger.logResourceRead({ sessionId, resource: 'profile://identity', result: 'allowed' });
+        }
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 0, 5, 10, 0, 0));
+        logger = new AuditLogger();
+        detector = new AnomalyDetector({ auditLogger: logger, failureBurst: 3, minHistory: 20 });
+        detector.start();
+    });
+
+    afterEach(() => {
+        detector.stop();
+        vi.useRealTimers();
+    });
+
+    it('should flag a burst of authorization failures', () => {
+        for (let i = 0; i < 3; i++) {
+            logger.logAuthorizationFailure({ sessionId: 's1', tool: 'grant_access', reason: 'Missing permission' });
+        }
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0]).toMatchObject({
+            sessionId: 's1',
+            metadata: { kind: 'authorization_burst', severity: 'critical' }
+        });
+    });
+
+    it('should count denied tool calls and resource reads towards a burst', () => {
+        logger.logToolCall({ sessionId: 's1', tool: 'grant_access', result: 'denied', reason: 'Missing permission: admin:grants' });
+        logger.logResourceRead({ sessionId: 's1', resource: 'profile://audit', result: 'denied' });
+        logger.logToolCall({ sessionId: 's1', tool: 'issue_token', result: 'denied', reason: 'Missing permission: admin:tokens' });
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0]).toMatchObject({ sessionId: 's1', metadata: { kind: 'authorization_burst' } });
+    });
+
+    it('should count failed logins by address whatever client they claim', () => {
+        for (const client of ['a', 'b', 'c']) {
+            logger.logAuthFailure({ reason: 'invalid_token', client, ip: '203.0.113.9' });
+        }
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0]).toMatchObject({ ip: '203.0.113.9', metadata: { kind: 'authorization_burst' } });
+    });
+
+    it('should not learn client habits from failed logins', () => {
+        logger.logAuthFailure({ reason: 'invalid_token', client: 'claude', ip: '203.0.113.9' });
+        logger.logAuthSuccess({ sessionId: 's1', did: 'did:key:zA', client: 'claude', ip: '10.0.0.1' });
+
+        // An unauthenticated caller cannot make claude's real address look new
+        expect(alerts()).toHaveLength(0);
+    });
+
+    it('should forget the least recently seen clients past the tracking limit', () => {
+        detector.stop();
+        const bounded = new AnomalyDetector({ auditLogger: logger, maxTracked: 2 });
+        bounded.start();
+
+        logger.logAuthSuccess({ sessionId: 's1', did: 'did:key:zA', client: 'claude', ip: '10.0.0.1' });
+        logger.logAuthSuccess({ sessionId: 's2', did: 'did:key:zA', client: 'cursor', ip: '10.0.0.1' });
+        logger.logAuthSuccess({ sessionId: 's3', did: 'did:key:zA', client: 'claude', ip: '10.0.0.1' });
+        logger.logAuthSuccess({ sessionId: 's4', did: 'did:key:zA', client: 'zed', ip: '10.0.0.1' });
+        logger.logAuthSuccess({ sessionId: 's5', did: 'did:key:zA', client: 'claude', ip: '10.0.0.2' });
+        logger.logAuthSuccess({ sessionId: 's6', did: 'did:key:zA', client: 'cursor', ip: '10.0.0.2' });
+        bounded.stop();
+
+        // claude was seen more recently than cursor, so only cursor was forgotten
+        expect(alerts().map(a => a.client)).toEqual(['claude']);
+    });
+
+    it('should not flag failures spread over time', () => {
+        for (let i = 0; i < 3; i++) {
+            logger.logAuthorizationFailure({ sessionId: 's1', reason: 'Missing permission' });
+            vi.advanceTimersByTime(61000);
+        }
+
+        expect(alerts()).toHaveLength(0);
+    });
+
+    it('should flag the first read of a sensitive resource by an established client', () => {
+        establish('claude', 's1');
+        logger.logResourceRead({ sessionId: 's1', resource: 'profile://memory/all', result: 'allowed' });
+        logger.logResourceRead({ sessionId: 's1', resource: 'profile://memory/all', result: 'allowed' });
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0]).toMatchObject({ client: 'claude', metadata: { kind: 'sensitive_resource' } });
+    });
+
+    it('should flag a known client connecting from a new IP', () => {
+        logger.logAuthSuccess({ sessionId: 's1', did: 'did:key:zA', client: 'claude', ip: '10.0.0.1' });
+        logger.logAuthSuccess({ sessionId: 's2', did: 'did:key:zA', client: 'claude', ip: '10.0.0.1' });
+        logger.logAuthSuccess({ sessionId: 's3', did: 'did:key:zA', client: 'claude', ip: '203.0.113.9' });
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0]).toMatchObject({ sessionId: 's3', ip: '203.0.113.9', metadata: { kind: 'new_ip' } });
+    });
+
+    it('should flag activity at unusual hours once per hour', () => {
+        establish('claude', 's1');
+        vi.setSystemTime(new Date(2026, 0, 6, 3, 0, 0));
+
+        logger.logResourceRead({ sessionId: 's1', resource: 'profile://identity', result: 'allowed' });
+        logger.logResourceRead({ sessionId: 's1', resource: 'profile://identity', result: 'allowed' });
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0].metadata).toMatchObject({ kind: 'unusual_hour' });
+    });
+
+    it('should learn from history without alerting', () => {
+        detector.stop();
+        establish('claude', 's1');
+        vi.advanceTimersByTime(1000);
+
+        const fresh = new AnomalyDetector({ auditLogger: logger, minHistory: 20 });
+        fresh.start();
+        logger.logResourceRead({ sessionId: 's1', resource: 'profile://memory/all', result: 'allowed' });
+        fresh.stop();
+
+        expect(alerts()).toHaveLength(1);
+        expect(alerts()[0].metadata).toMatchObject({ kind: 'sensitive_resource' });
+    });
+
+    it('should record whether the callback suspended the session', () => {
+        detector.stop();
+        const onAnomaly = vi.fn(() => true);
+        const suspending = new AnomalyDetector({ auditLogger: logger, failureBurst: 1, onAnomaly });
+        suspending.start();
+
+        logger.logAuthorizationFailure({ sessionId: 's1', reason: 'Missing permission' });
+        suspending.stop();
+
+        expect(onAnomaly).toHaveBeenCalledWith(expect.objectContaining({ kind: 'authorization_burst', sessionId: 's1' }));
+        expect(alerts()[0].metadata).toMatchObject({ suspended: true });
+    });
+});
+
+describe('anomalyConfigFromEnv', () => {
+    it('should enable detection without auto-suspend by default', () => {
+        expect(anomalyConfigFromEnv({})).toEqual({ suspendOn: [] });
+    });
+
+    it('should suspend on warnings only when asked to', () => {
+        expect(anomalyConfigFromEnv({ MCP_ANOMALY_AUTO_SUSPEND: 'true' })).toEqual({ suspendOn: ['critical'] });
+        expect(anomalyConfigFromEnv({ MCP_ANOMALY_AUTO_SUSPEND: 'all' })).toEqual({ suspendOn: ['warning', 'critical'] });
+    });
+
+    it('should read the off switch', () => {
+        expect(anomalyConfigFromEnv({ MCP_ANOMALY_DETECTION: 'off' })).toBeNull();
+    });
+});
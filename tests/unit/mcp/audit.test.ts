@@ -10,6 +10,8 @@
  * - Statistics generation
  * - Import/export for sync
  * - Sync callback triggering
+ * - Hash chaining and persistence sinks
+ * - Combined queries with paging, JSONL and CSV export
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
@@ -17,8 +19,13 @@ import {
     AuditLogger,
     AuditEntry,
     AuditEventType,
+    AuditSink,
     getAuditLogger,
-    resetAuditLogger
+    resetAuditLogger,
+    hashAuditEntry,
+    GENESIS_HASH,
+    auditEntriesToCsv,
+    auditEntriesToJsonl
 } from '@/lib/mcp/audit';
 
 // Mock the config logging
@@ -184,6 +191,18 @@ describe('AuditLogger', () => {
             expect(entry.type).toBe('connection_opened');
         });
 
+        it('should log a rejected connection as a denied connection_opened', () => {
+            const entry = logger.logConnectionRejected({
+                ip: '127.0.0.1',
+                reason: 'origin_not_allowed',
+                metadata: { origin: 'https://evil.example' }
+            });
+
+            expect(entry.type).toBe('connection_opened');
+            expect(entry.result).toBe('denied');
+            expect(entry.reason).toBe('origin_not_allowed');
+        });
+
         it('should log connection closed', () => {
             const entry = logger.logConnectionClosed({
                 sessionId: 'session-1',
@@ -193,6 +212,24 @@ describe('AuditLogger', () => {
             expect(entry.type).toBe('connection_closed');
             expect(entry.duration).toBe(3600000);
         });
+
+        it('should log memory changes with both versions', () => {
+            const entry = logger.logMemoryChange({
+                sessionId: 'session-1',
+                action: 'update',
+                memoryId: 'mem-1',
+                before: { content: 'old' },
+                after: { content: 'new' }
+            });
+
+            expect(entry.type).toBe('memory_modified');
+            expect(entry.metadata).toEqual({
+                action: 'update',
+                memoryId: 'mem-1',
+                before: { content: 'old' },
+                after: { content: 'new' }
+            });
+        });
     });
 
     describe('Sensitive Data Scrubbing', () => {
@@ -689,6 +726,175 @@ describe('AuditLogger', () => {
         });
     });
 
+    describe('query', () => {
+        beforeEach(() => {
+            logger.logAuthSuccess({ sessionId: 's1', did: 'did:key:zA', client: 'claude' });
+            logger.logAuthSuccess({ sessionId: 's2', did: 'did:key:zB', client: 'cursor' });
+            logger.logToolCall({ sessionId: 's1', tool: 'search_memory', result: 'allowed' });
+            logger.logToolCall({ sessionId: 's1', tool: 'grant_access', result: 'denied' });
+            logger.logToolCall({ sessionId: 's2', tool: 'search_memory', result: 'allowed' });
+            logger.logResourceRead({ sessionId: 's1', resource: 'profile://identity', result: 'allowed' });
+        });
+
+        it('should attribute session entries to the client that opened the session', () => {
+            const result = logger.query({ client: 'claude', type: 'tool_call' });
+
+            expect(result.total).toBe(2);
+            expect(result.entries.every(e => e.client === 'claude' && e.did === 'did:key:zA')).toBe(true);
+        });
+
+        it('should combine filters', () => {
+            const result = logger.query({ did: 'did:key:zA', tool: 'search_memory', result: 'allowed' });
+
+            expect(result.total).toBe(1);
+            expect(result.entries[0].sessionId).toBe('s1');
+        });
+
+        it('should filter by resource and time range', () => {
+            expect(logger.query({ resource: 'profile://identity' }).total).toBe(1);
+            expect(logger.query({ since: Date.now() + 60000 }).total).toBe(0);
+            expect(logger.query({ until: Date.now() + 60000 }).total).toBe(6);
+        });
+
+        it('should page newest first', () => {
+            const first = logger.query({ limit: 4 });
+            const second = logger.query({ limit: 4, offset: first.nextOffset });
+
+            expect(first.entries[0].type).toBe('resource_read');
+            expect(first).toMatchObject({ total: 6, offset: 0, limit: 4, nextOffset: 4 });
+            expect(second.entries).toHaveLength(2);
+            expect(second.nextOffset).toBeUndefined();
+        });
+
+        it('should clamp the page size', () => {
+            expect(logger.query({ limit: 5000 }).limit).toBe(1000);
+        });
+
+        it('should not change stored entries', () => {
+            logger.query({ client: 'claude' });
+
+            expect(logger.getLogsByType('tool_call')[0].client).toBeUndefined();
+        });
+    });
+
+    describe('Export Formats', () => {
+        it('should write one JSON entry per line', () => {
+            logger.log({ type: 'auth_success', client: 'claude' });
+            logger.log({ type: 'auth_failure' });
+
+            const lines = auditEntriesToJsonl(logger.getLogsForSync()).trim().split('\n');
+            expect(lines).toHaveLength(2);
+            expect(JSON.parse(lines[0]).client).toBe('claude');
+        });
+
+        it('should write CSV with a header and escaped cells', () => {
+            const entry = logger.log({ type: 'auth_failure', reason: 'Bad "token", retry' });
+
+            const [header, row] = auditEntriesToCsv([entry]).trim().split('\r\n');
+            expect(header).toBe('id,timestamp,type,sessionId,did,client,tool,resource,result,reason,grantId,ip,duration');
+            expect(row).toContain('"Bad ""token"", retry"');
+            expect(row).toContain(new Date(entry.timestamp).toISOString());
+        });
+
+        it('should defuse spreadsheet formulas', () => {
+            const entry = logger.log({ type: 'auth_failure', client: '=HYPERLINK("x")' });
+
+            expect(auditEntriesToCsv([entry])).toContain(`"'=HYPERLINK(""x"")"`);
+        });
+    });
+
+    describe('subscribe', () => {
+        it('should notify listeners of new entries until unsubscribed', () => {
+            const listener = vi.fn();
+            const unsubscribe = logger.subscribe(listener);
+
+            const entry = logger.log({ type: 'auth_success' });
+            unsubscribe();
+            logger.log({ type: 'auth_failure' });
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(entry);
+        });
+
+        it('should keep logging when a listener throws', () => {
+            logger.subscribe(() => { throw new Error('boom'); });
+
+            expect(() => logger.log({ type: 'auth_success' })).not.toThrow();
+            expect(logger.getLogsForSync()).toHaveLength(1);
+        });
+
+        it('should not replay imported entries', () => {
+            const listener = vi.fn();
+            logger.subscribe(listener);
+
+            logger.importLogs([{ id: 'old', timestamp: 1, type: 'auth_success' }]);
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Hash Chain', () => {
+        function memorySink(head: string, history: AuditEntry[] = []): AuditSink & { entries: AuditEntry[] } {
+            return {
+                head,
+                entries: [],
+                append(entry) { this.entries.push(entry); },
+                readRecent: async () => history
+            };
+        }
+
+        it('should chain each entry to the previous one', () => {
+            const first = logger.log({ type: 'auth_success' });
+            const second = logger.log({ type: 'tool_call', tool: 'get_identity' });
+
+            expect(first.prevHash).toBe(GENESIS_HASH);
+            expect(second.prevHash).toBe(first.hash);
+            expect(hashAuditEntry(second)).toBe(second.hash);
+        });
+
+        it('should not depend on property order', () => {
+            const entry = logger.log({ type: 'tool_call', params: { b: 1, a: 2 } });
+            const reordered = { ...entry, params: { a: 2, b: 1 } };
+
+            expect(hashAuditEntry(reordered)).toBe(entry.hash);
+        });
+
+        it('should change when an entry is edited', () => {
+            const entry = logger.log({ type: 'tool_call', tool: 'get_identity', result: 'allowed' });
+
+            expect(hashAuditEntry({ ...entry, result: 'denied' })).not.toBe(entry.hash);
+        });
+
+        it('should re-chain unpersisted entries onto the sink head', async () => {
+            const early = logger.log({ type: 'auth_failure', reason: 'locked' });
+            const sink = memorySink('a'.repeat(64));
+
+            await logger.attachSink(sink);
+            const later = logger.log({ type: 'auth_success' });
+
+            expect(sink.entries).toEqual([early, later]);
+            expect(early.prevHash).toBe('a'.repeat(64));
+            expect(later.prevHash).toBe(early.hash);
+        });
+
+        it('should load persisted history when a sink is attached', async () => {
+            const persisted: AuditEntry = { id: 'old-1', timestamp: 1, type: 'session_created', prevHash: GENESIS_HASH };
+            persisted.hash = hashAuditEntry(persisted);
+
+            await logger.attachSink(memorySink(persisted.hash, [persisted]));
+
+            expect(logger.getLogsForSync()[0].id).toBe('old-1');
+        });
+
+        it('should stop writing once detached', async () => {
+            const sink = memorySink(GENESIS_HASH);
+            await logger.attachSink(sink);
+            logger.detachSink();
+
+            logger.log({ type: 'auth_success' });
+            expect(sink.entries).toHaveLength(0);
+        });
+    });
+
     describe('Singleton Pattern', () => {
         it('should return same instance from getAuditLogger', () => {
             resetAuditLogger();
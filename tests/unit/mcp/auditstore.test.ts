@@ -0,0 +1,154 @@
+/**
+ * Unit Tests for the MCP Audit Store
+ *
+ * Tests cover:
+ * - Encrypted, append-only persistence
+ * - Reopening and continuing the chain
+ * - Segment rotation and sealing
+ * - Detecting edited, deleted and truncated entries
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '@/lib/mcp/audit';
+import { AuditStore, segmentFileName, verifyAuditSegment } from '@/lib/mcp/auditstore';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+async function generateKey(): Promise<CryptoKey> {
+    return globalThis.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+describe('AuditStore', () => {
+    let dir: string;
+    let key: CryptoKey;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-audit-'));
+        key = await generateKey();
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function writeEntries(count: number, segmentSize = 100): Promise<{ store: AuditStore; logger: AuditLogger }> {
+        const store = await AuditStore.open({ key, dir, segmentSize });
+        const logger = new AuditLogger();
+        await logger.attachSink(store);
+        for (let i = 0; i < count; i++) {
+            logger.log({ type: 'tool_call', tool: `tool_${i}`, result: 'allowed' });
+        }
+        await store.flush();
+        return { store, logger };
+    }
+
+    function segmentLines(segment: number): string[] {
+        return fs.readFileSync(path.join(dir, segmentFileName(segment)), 'utf8').trim().split('\n');
+    }
+
+    function writeSegmentLines(segment: number, lines: string[]): void {
+        fs.writeFileSync(path.join(dir, segmentFileName(segment)), `${lines.join('\n')}\n`);
+    }
+
+    it('should persist entries encrypted', async () => {
+        await writeEntries(3);
+
+        const raw = fs.readFileSync(path.join(dir, segmentFileName(1)), 'utf8');
+        expect(raw).not.toContain('tool_0');
+        expect(segmentLines(1)).toHaveLength(4);
+    });
+
+    it('should restore entries after a restart', async () => {
+        await writeEntries(3);
+
+        const reopened = await AuditStore.open({ key, dir });
+        const logger = new AuditLogger();
+        await logger.attachSink(reopened);
+
+        expect(logger.getLogsForSync().map(e => e.tool)).toEqual(['tool_0', 'tool_1', 'tool_2']);
+    });
+
+    it('should continue the chain after reopening', async () => {
+        const { store } = await writeEntries(2);
+
+        const reopened = await AuditStore.open({ key, dir });
+        expect(reopened.head).toBe(store.head);
+
+        const logger = new AuditLogger();
+        await logger.attachSink(reopened);
+        logger.log({ type: 'auth_success' });
+
+        const result = await reopened.verify();
+        expect(result).toMatchObject({ valid: true, entries: 3, segments: 1 });
+    });
+
+    it('should rotate and seal segments', async () => {
+        const { store } = await writeEntries(5, 2);
+
+        expect(fs.readdirSync(dir).sort()).toEqual([segmentFileName(1), segmentFileName(2), segmentFileName(3)]);
+        expect(JSON.parse(segmentLines(1)[3])).toMatchObject({ kind: 'seal', count: 2 });
+
+        const result = await store.verify();
+        expect(result).toMatchObject({ valid: true, entries: 5, segments: 3, head: store.head });
+    });
+
+    it('should verify a rotated segment on its own', async () => {
+        await writeEntries(3, 2);
+
+        const result = await verifyAuditSegment(path.join(dir, segmentFileName(1)), key);
+        expect(result).toMatchObject({ segment: 1, entries: 2, sealed: true, issues: [] });
+    });
+
+    it('should detect a deleted entry', async () => {
+        const { store } = await writeEntries(3);
+
+        const lines = segmentLines(1);
+        writeSegmentLines(1, [lines[0], lines[1], lines[3]]);
+
+        const result = await store.verify();
+        expect(result.valid).toBe(false);
+        expect(result.issues[0]).toMatchObject({ segment: 1, line: 3 });
+        expect(result.issues[0].message).toContain('does not follow');
+    });
+
+    it('should detect an edited entry', async () => {
+        const { store } = await writeEntries(2);
+
+        const lines = segmentLines(1);
+        const line = JSON.parse(lines[1]);
+        line.ciphertext = Buffer.from('tampered').toString('base64');
+        writeSegmentLines(1, [lines[0], JSON.stringify(line), lines[2]]);
+
+        const result = await store.verify();
+        expect(result.valid).toBe(false);
+        expect(result.issues[0].message).toBe('Entry could not be decrypted');
+    });
+
+    it('should detect a deleted segment', async () => {
+        const { store } = await writeEntries(6, 2);
+        fs.rmSync(path.join(dir, segmentFileName(2)));
+
+        const result = await store.verify();
+        expect(result.valid).toBe(false);
+        expect(result.issues.map(i => i.message)).toContain('Segment 2 is missing');
+    });
+
+    it('should detect a truncated tail against a known head', async () => {
+        const { store, logger } = await writeEntries(3);
+        const head = logger.getRecentLogs(1)[0].hash;
+
+        const lines = segmentLines(1);
+        writeSegmentLines(1, lines.slice(0, -1));
+
+        expect((await store.verify()).valid).toBe(true);
+        expect((await store.verify(head)).valid).toBe(false);
+    });
+});
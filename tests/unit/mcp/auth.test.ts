@@ -5,11 +5,15 @@
  * - JWT token validation
  * - Session management
  * - STDIO vs SSE transport authentication
- * - Tool and resource authorization
+ * - Tool, resource and prompt authorization
  * - Scope-based permission checking
  * - Access grant verification
+ * - Access grant authentication
  * - Grant revocation
+ * - Token denylist
+ * - Rate limiting
  * - Session cleanup
+ * - Vault unlock authorization and failed-attempt throttling
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
@@ -19,11 +23,15 @@ import {
     getAuthMiddleware,
     resetAuthMiddleware,
     AuthenticatedSession,
-    Permission
+    Permission,
+    ACCESS_GRANT_HEADER,
+    MAX_UNLOCK_FAILURES
 } from '@/lib/mcp/auth';
 import { AuditLogger } from '@/lib/mcp/audit';
-import { createJwt, deriveJwtSigningKey } from '@/lib/vault/identity';
-import { TEST_TOKENS } from '../../fixtures/test-vectors';
+import { DEFAULT_RATE_LIMITS } from '@/lib/mcp/ratelimit';
+import { createJwt, deriveJwtSigningKey, createWalletIdentity, signAccessGrant, WalletKeys } from '@/lib/vault/identity';
+import { AccessGrant } from '@/lib/types';
+import { TEST_TOKENS, MNEMONICS } from '../../fixtures/test-vectors';
 
 // Mock the config logging
 vi.mock('@/lib/mcp/config', () => ({
@@ -391,6 +399,12 @@ describe('McpAuthMiddleware', () => {
                 expect(result.reason).toContain('admin:grants');
             });
 
+            it('should require read:conversations for enrich_profile', async () => {
+                const result = await middleware.authorizeToolCall(sessionId, 'enrich_profile');
+                expect(result.authorized).toBe(false);
+                expect(result.reason).toBe('Permission denied: read:conversations required');
+            });
+
             it('should allow public tools (not in permission map)', async () => {
                 const result = await middleware.authorizeToolCall(sessionId, 'get_version');
                 expect(result.authorized).toBe(true);
@@ -476,6 +490,12 @@ describe('McpAuthMiddleware', () => {
             expect(result.reason).toContain('read:stats');
         });
 
+        it('should require admin:audit for the audit log', async () => {
+            const result = await middleware.authorizeResourceRead(sessionId, 'profile://audit');
+            expect(result.authorized).toBe(false);
+            expect(result.reason).toContain('admin:audit');
+        });
+
         it('should allow resources without specific permission requirement', async () => {
             const result = await middleware.authorizeResourceRead(sessionId, 'profile://public');
             expect(result.authorized).toBe(true);
@@ -485,15 +505,142 @@ describe('McpAuthMiddleware', () => {
             const result = await middleware.authorizeResourceRead('unknown', 'profile://identity');
             expect(result.authorized).toBe(false);
         });
+
+        it('should require the fixed permission of built-in prompts', async () => {
+            const result = await middleware.authorizePromptGet(sessionId, 'summarize_history');
+            expect(result.authorized).toBe(false);
+            expect(result.reason).toBe('Permission denied: read:conversations required');
+        });
+
+        it('should require every permission a user template needs', async () => {
+            const allowed = await middleware.authorizePromptGet(sessionId, 'intro', ['read:identity', 'read:memories']);
+            expect(allowed.authorized).toBe(true);
+
+            const denied = await middleware.authorizePromptGet(sessionId, 'style', ['read:identity', 'read:preferences']);
+            expect(denied.authorized).toBe(false);
+            expect(denied.reason).toBe('Permission denied: read:preferences required');
+        });
+    });
+
+    describe('Rate Limiting', () => {
+        let sessionId: string;
+
+        beforeEach(async () => {
+            middleware = new McpAuthMiddleware({
+                transport: 'sse',
+                jwtPublicKey: jwtKeyPair.publicKey,
+                auditLogger,
+                rateLimits: {
+                    read: { capacity: 2, refillPerMinute: 60 },
+                    write: { capacity: 1, refillPerMinute: 60 },
+                    admin: { capacity: 1, refillPerMinute: 60 }
+                }
+            });
+
+            const token = await createJwt({
+                sub: 'did:key:zBusy',
+                exp: Math.floor(Date.now() / 1000) + 3600,
+                client: 'busy-client',
+                scope: ['*']
+            }, jwtKeyPair.privateKey);
+
+            const auth = await middleware.authenticate({
+                headers: { authorization: `Bearer ${token}` }
+            });
+            sessionId = auth.session?.sessionId!;
+        });
+
+        it('should refuse calls once the budget is spent', async () => {
+            expect((await middleware.authorizeResourceRead(sessionId, 'profile://memory/all')).authorized).toBe(true);
+            expect((await middleware.authorizeToolCall(sessionId, 'search_memory')).authorized).toBe(true);
+
+            const result = await middleware.authorizeToolCall(sessionId, 'search_memory');
+            expect(result.authorized).toBe(false);
+            expect(result.rateLimited).toBe(true);
+            expect(result.retryAfterMs).toBeGreaterThan(0);
+        });
+
+        it('should budget write and admin operations separately', async () => {
+            expect((await middleware.authorizeToolCall(sessionId, 'add_memory')).authorized).toBe(true);
+            expect((await middleware.authorizeToolCall(sessionId, 'add_memory')).rateLimited).toBe(true);
+            expect((await middleware.authorizeToolCall(sessionId, 'grant_access')).authorized).toBe(true);
+            expect((await middleware.authorizeToolCall(sessionId, 'search_memory')).authorized).toBe(true);
+        });
+
+        it('should audit rate limit hits', async () => {
+            await middleware.authorizeToolCall(sessionId, 'add_memory');
+            await middleware.authorizeToolCall(sessionId, 'add_memory');
+
+            const logs = auditLogger.getLogsByType('rate_limited');
+            expect(logs).toHaveLength(1);
+            expect(logs[0]).toMatchObject({
+                sessionId,
+                did: 'did:key:zBusy',
+                client: 'busy-client',
+                tool: 'add_memory',
+                result: 'denied',
+                metadata: { tier: 'write', bucket: `session:${sessionId}` }
+            });
+        });
+
+        it('should not limit local sessions', async () => {
+            const local = new McpAuthMiddleware({
+                transport: 'stdio',
+                auditLogger,
+                rateLimits: { ...DEFAULT_RATE_LIMITS, write: { capacity: 1, refillPerMinute: 1 } }
+            });
+            const auth = await local.authenticate({});
+
+            for (let i = 0; i < 5; i++) {
+                expect((await local.authorizeToolCall(auth.session!.sessionId, 'add_memory')).authorized).toBe(true);
+            }
+        });
+
+        it('should allow disabling rate limits', async () => {
+            const unlimited = new McpAuthMiddleware({
+                transport: 'sse',
+                jwtPublicKey: jwtKeyPair.publicKey,
+                auditLogger,
+                rateLimits: null
+            });
+            const token = await createJwt({
+                sub: 'did:key:zBusy',
+                exp: Math.floor(Date.now() / 1000) + 3600,
+                client: 'busy-client',
+                scope: ['*']
+            }, jwtKeyPair.privateKey);
+            const auth = await unlimited.authenticate({ headers: { authorization: `Bearer ${token}` } });
+
+            for (let i = 0; i < 5; i++) {
+                expect((await unlimited.authorizeToolCall(auth.session!.sessionId, 'add_memory')).authorized).toBe(true);
+            }
+        });
     });
 
     describe('Access Grant Verification', () => {
         let sessionId: string;
+        let ownerDid: string;
+        let ownerKeys: WalletKeys;
+
+        function signGrant(overrides: Partial<AccessGrant> = {}, keys: WalletKeys = ownerKeys): Promise<AccessGrant> {
+            return signAccessGrant({
+                id: 'grant-1',
+                grantee: 'some-client',
+                permissions: ['read_memory'],
+                expiresAt: Date.now() + 3600000,
+                ...overrides
+            }, keys.privateKey);
+        }
 
         beforeEach(async () => {
+            const owner = await createWalletIdentity(MNEMONICS.standard);
+            ownerDid = owner.identity.did;
+            ownerKeys = owner.keys;
+
             middleware = new McpAuthMiddleware({
                 transport: 'sse',
                 jwtPublicKey: jwtKeyPair.publicKey,
+                ownerDid,
                 auditLogger
             });
 
@@ -512,57 +659,335 @@ describe('McpAuthMiddleware', () => {
         });
 
         it('should allow tool when access grant provides permission', async () => {
-            const grant = {
-                id: 'grant-1',
-                grantee: 'some-client',
-                permissions: ['read_memory'],
-                expiresAt: Date.now() + 3600000,
-                signature: 'fake-signature'
-            };
+            const grant = await signGrant();
 
             const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, grant);
             expect(result.authorized).toBe(true);
         });
 
+        it('should allow resource reads with a signed grant', async () => {
+            const grant = await signGrant({ issuer: ownerDid });
+
+            const result = await middleware.authorizeResourceRead(sessionId, 'profile://memory/recent', grant);
+            expect(result.authorized).toBe(true);
+        });
+
         it('should deny when grant has wrong permission', async () => {
-            const grant = {
-                id: 'grant-1',
-                grantee: 'some-client',
-                permissions: ['read_identity'], // Not read_memory
-                expiresAt: Date.now() + 3600000,
-                signature: 'fake-signature'
-            };
+            const grant = await signGrant({ permissions: ['read_identity'] }); // Not read_memory
 
             const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, grant);
             expect(result.authorized).toBe(false);
         });
 
         it('should deny when grant is expired', async () => {
-            const grant = {
-                id: 'grant-1',
-                grantee: 'some-client',
-                permissions: ['read_memory'],
-                expiresAt: Date.now() - 1000, // Expired
-                signature: 'fake-signature'
-            };
+            const grant = await signGrant({ expiresAt: Date.now() - 1000 }); // Expired
 
             const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, grant);
             expect(result.authorized).toBe(false);
         });
 
         it('should deny when grant is revoked', async () => {
+            const grant = await signGrant({ id: 'grant-revoked' });
+
+            middleware.revokeGrant('grant-revoked');
+
+            const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, grant);
+            expect(result.authorized).toBe(false);
+        });
+
+        it('should deny and audit forged grants', async () => {
             const grant = {
-                id: 'grant-revoked',
+                id: 'grant-forged',
                 grantee: 'some-client',
-                permissions: ['read_memory'],
+                permissions: ['read_memory'] as AccessGrant['permissions'],
                 expiresAt: Date.now() + 3600000,
                 signature: 'fake-signature'
             };
 
-            middleware.revokeGrant('grant-revoked');
+            const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, grant);
+            expect(result.authorized).toBe(false);
+
+            const logs = auditLogger.getLogsByType('authorization_failure');
+            expect(logs).toHaveLength(1);
+            expect(logs[0]).toMatchObject({ grantId: 'grant-forged', tool: 'search_memory', reason: 'Invalid grant signature' });
+        });
+
+        it('should deny tampered grants', async () => {
+            const grant = await signGrant({ permissions: ['read_identity'] });
+            const tampered = { ...grant, permissions: ['read_identity', 'read_memory'] as AccessGrant['permissions'] };
+
+            const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, tampered);
+            expect(result.authorized).toBe(false);
+            expect(auditLogger.getLogsByType('authorization_failure')[0].reason).toBe('Invalid grant signature');
+        });
+
+        it('should deny grants signed by another identity', async () => {
+            const other = await createWalletIdentity(MNEMONICS.alternative);
+            const grant = await signGrant({ issuer: other.identity.did }, other.keys);
 
             const result = await middleware.authorizeToolCall(sessionId, 'search_memory', {}, grant);
             expect(result.authorized).toBe(false);
+            expect(auditLogger.getLogsByType('authorization_failure')[0].reason).toBe('Grant was not issued by the vault owner');
+        });
+
+        it('should deny grants until the owner DID is known', async () => {
+            const grant = await signGrant();
+            const remote = new McpAuthMiddleware({ transport: 'sse', jwtPublicKey: jwtKeyPair.publicKey, auditLogger });
+            const token = await createJwt({
+                sub: 'did:key:zLimited',
+                exp: Math.floor(Date.now() / 1000) + 3600,
+                client: 'limited-client',
+                scope: []
+            }, jwtKeyPair.privateKey);
+            const auth = await remote.authenticate({ headers: { authorization: `Bearer ${token}` } });
+
+            expect((await remote.authorizeToolCall(auth.session!.sessionId, 'search_memory', {}, grant)).authorized).toBe(false);
+
+            remote.setOwnerDid(ownerDid);
+            expect((await remote.authorizeToolCall(auth.session!.sessionId, 'search_memory', {}, grant)).authorized).toBe(true);
+        });
+    });
+
+    describe('Access Grant Authentication', () => {
+        let ownerDid: string;
+        let ownerKeys: WalletKeys;
+
+        function signGrant(overrides: Partial<AccessGrant> = {}): Promise<AccessGrant> {
+            return signAccessGrant({
+                id: 'grant-auth',
+                grantee: 'Gemini',
+                permissions: ['read_memory'],
+                expiresAt: Date.now() + 3600000,
+                ...overrides
+            }, ownerKeys.privateKey);
+        }
+
+        function grantHeader(grant: AccessGrant): Record<string, string> {
+            return { [ACCESS_GRANT_HEADER]: Buffer.from(JSON.stringify(grant)).toString('base64') };
+        }
+
+        beforeEach(async () => {
+            const owner = await createWalletIdentity(MNEMONICS.standard);
+            ownerDid = owner.identity.did;
+            ownerKeys = owner.keys;
+
+            middleware = new McpAuthMiddleware({
+                transport: 'sse',
+                ownerDid,
+                auditLogger
+            });
+        });
+
+        it('should authenticate with a grant header and map its permissions to scope', async () => {
+            const grant = await signGrant({ permissions: ['read_identity', 'read_memory'] });
+
+            const result = await middleware.authenticate({ headers: grantHeader(grant) });
+
+            expect(result.authenticated).toBe(true);
+            expect(result.session?.client).toBe('Gemini');
+            expect(result.session?.did).toBe(ownerDid);
+            expect(result.session?.grantId).toBe('grant-auth');
+            expect(result.session?.scope.sort()).toEqual(
+                ['read:conversations', 'read:identity', 'read:memories', 'read:preferences', 'read:stats']
+            );
+        });
+
+        it('should authorize only what the grant allows', async () => {
+            const auth = await middleware.authenticateWithGrant(await signGrant());
+            const sessionId = auth.session!.sessionId;
+
+            expect((await middleware.authorizeToolCall(sessionId, 'search_memory')).authorized).toBe(true);
+            expect((await middleware.authorizeToolCall(sessionId, 'add_memory')).authorized).toBe(false);
+        });
+
+        it('should reject forged, expired and malformed grants', async () => {
+            const grant = await signGrant();
+
+            expect((await middleware.authenticateWithGrant({ ...grant, permissions: ['write_memory'] })).error)
+                .toBe('Invalid grant signature');
+            expect((await middleware.authenticateWithGrant(await signGrant({ expiresAt: Date.now() - 1 }))).error)
+                .toBe('Grant has expired');
+            expect((await middleware.authenticateWithGrant({ id: 'x' })).error).toBe('Invalid access grant');
+            expect((await middleware.authenticate({ headers: { [ACCESS_GRANT_HEADER]: 'not-base64-json' } })).authenticated)
+                .toBe(false);
+
+            expect(auditLogger.getLogsByType('auth_failure')).toHaveLength(4);
+        });
+
+        it('should cut off a session when its grant is revoked', async () => {
+            const auth = await middleware.authenticateWithGrant(await signGrant());
+            const sessionId = auth.session!.sessionId;
+
+            middleware.revokeGrant('grant-auth');
+
+            const result = await middleware.authorizeResourceRead(sessionId, 'profile://memory/recent');
+            expect(result.authorized).toBe(false);
+            expect(result.reason).toBe('Grant has been revoked');
+            expect(auditLogger.getLogsByType('grant_revoked')[0].metadata).toEqual({ affectedSessions: 1 });
+            expect((await middleware.authenticateWithGrant(await signGrant())).authenticated).toBe(false);
+        });
+
+        it('should require the same grant on follow-up requests', async () => {
+            const grant = await signGrant();
+            const auth = await middleware.authenticate({ headers: grantHeader(grant) });
+            const sessionId = auth.session!.sessionId;
+
+            expect((await middleware.verifySessionRequest(sessionId, { headers: grantHeader(grant) })).authenticated).toBe(true);
+            expect((await middleware.verifySessionRequest(sessionId, {})).error).toBe('Missing access grant');
+
+            const other = await signGrant({ id: 'grant-other' });
+            expect((await middleware.verifySessionRequest(sessionId, { headers: grantHeader(other) })).error)
+                .toBe('Grant does not match session');
+        });
+
+        it('should bind the session to the grant\'s persona', async () => {
+            const grant = await signGrant({ persona: 'persona_work' });
+
+            const result = await middleware.authenticateWithGrant(grant);
+            expect(result.session?.persona).toBe('persona_work');
+
+            // The persona is covered by the signature
+            expect((await middleware.authenticateWithGrant({ ...grant, persona: 'persona_personal' })).error)
+                .toBe('Invalid grant signature');
+            expect((await middleware.authenticateWithGrant({ ...grant, persona: undefined })).error)
+                .toBe('Invalid grant signature');
+        });
+    });
+
+    describe('Token Denylist', () => {
+        const revoked = new Set<string>();
+
+        async function mint(jti: string): Promise<string> {
+            return createJwt({
+                sub: 'did:key:zOwner',
+                exp: Math.floor(Date.now() / 1000) + 3600,
+                client: 'cursor',
+                scope: ['read:memories'],
+                jti
+            }, jwtKeyPair.privateKey);
+        }
+
+        beforeEach(() => {
+            revoked.clear();
+            middleware = new McpAuthMiddleware({
+                transport: 'sse',
+                jwtPublicKey: jwtKeyPair.publicKey,
+                auditLogger
+            });
+            middleware.setTokenDenylist({ isRevoked: jti => revoked.has(jti) });
+        });
+
+        it('should refuse revoked tokens', async () => {
+            revoked.add('jti-revoked');
+
+            const result = await middleware.authenticate({
+                headers: { authorization: `Bearer ${await mint('jti-revoked')}` }
+            });
+
+            expect(result.authenticated).toBe(false);
+            expect(result.error).toBe('Token has been revoked');
+            expect(auditLogger.getLogsByType('auth_failure')[0].reason).toBe('Token has been revoked');
+        });
+
+        it('should cut off open sessions when their token is revoked', async () => {
+            const auth = await middleware.authenticate({
+                headers: { authorization: `Bearer ${await mint('jti-live')}` }
+            });
+            const sessionId = auth.session!.sessionId;
+            expect(auth.session?.tokenId).toBe('jti-live');
+            expect((await middleware.authorizeToolCall(sessionId, 'search_memory')).authorized).toBe(true);
+
+            revoked.add('jti-live');
+
+            const result = await middleware.authorizeToolCall(sessionId, 'search_memory');
+            expect(result.authorized).toBe(false);
+            expect(result.reason).toBe('Token has been revoked');
+        });
+    });
+
+    describe('Session Suspension', () => {
+        it('should refuse all requests of a suspended session', async () => {
+            middleware = new McpAuthMiddleware({
+                transport: 'sse',
+                jwtPublicKey: jwtKeyPair.publicKey,
+                auditLogger
+            });
+            const token = await createJwt({
+                sub: 'did:key:zUser',
+                exp: Math.floor(Date.now() / 1000) + 3600,
+                client: 'user-client',
+                scope: ['*']
+            }, jwtKeyPair.privateKey);
+            const sessionId = (await middleware.authenticate({ headers: { authorization: `Bearer ${token}` } })).session!.sessionId;
+
+            expect(middleware.suspendSession(sessionId, 'Burst of denied requests')).toBe(true);
+
+            const tool = await middleware.authorizeToolCall(sessionId, 'search_memory');
+            const resource = await middleware.authorizeResourceRead(sessionId, 'profile://identity');
+            expect(tool).toEqual({ authorized: false, reason: 'Session suspended: Burst of denied requests' });
+            expect(resource.authorized).toBe(false);
+        });
+
+        it('should not suspend local or unknown sessions', async () => {
+            middleware = new McpAuthMiddleware({ transport: 'stdio', auditLogger });
+            const local = await middleware.authenticate({});
+
+            expect(middleware.suspendSession(local.session!.sessionId, 'test')).toBe(false);
+            expect(middleware.suspendSession('unknown', 'test')).toBe(false);
+        });
+    });
+
+    describe('Vault Unlock Authorization', () => {
+        const remoteSession = async (scope: string[]) => {
+            const token = await createJwt({
+                sub: 'did:key:zUser',
+                exp: Math.floor(Date.now() / 1000) + 3600,
+                client: 'unlock-client',
+                scope
+            }, jwtKeyPair.privateKey);
+            return (await middleware.authenticate({ headers: { authorization: `Bearer ${token}` } })).session!.sessionId;
+        };
+
+        beforeEach(() => {
+            middleware = new McpAuthMiddleware({
+                transport: 'sse',
+                jwtPublicKey: jwtKeyPair.publicKey,
+                auditLogger
+            });
+        });
+
+        it('should refuse remote sessions without admin:settings', async () => {
+            const sessionId = await remoteSession(['read:memories', 'write:memories']);
+
+            expect(middleware.authorizeUnlock(sessionId)).toEqual({
+                authorized: false,
+                reason: 'Permission denied: admin:settings required'
+            });
+        });
+
+        it('should throttle a client after repeated failures', async () => {
+            const sessionId = await remoteSession(['admin:settings']);
+            expect(middleware.authorizeUnlock(sessionId).authorized).toBe(true);
+
+            for (let i = 0; i < MAX_UNLOCK_FAILURES; i++) {
+                middleware.recordUnlockFailure(sessionId);
+            }
+
+            // A new session of the same client is throttled too
+            const result = middleware.authorizeUnlock(await remoteSession(['admin:settings']));
+            expect(result.authorized).toBe(false);
+            expect(result.rateLimited).toBe(true);
+            expect(result.retryAfterMs).toBeGreaterThan(0);
+        });
+
+        it('should always allow local sessions', async () => {
+            middleware = new McpAuthMiddleware({ transport: 'stdio', auditLogger });
+            const local = (await middleware.authenticate({})).session!.sessionId;
+
+            for (let i = 0; i < MAX_UNLOCK_FAILURES; i++) {
+                middleware.recordUnlockFailure(local);
+            }
+            expect(middleware.authorizeUnlock(local).authorized).toBe(true);
         });
     });
 
@@ -612,7 +1037,8 @@ describe('McpAuthMiddleware', () => {
             { tool: 'archive_conversation', permission: 'write:conversations' },
             { tool: 'grant_access', permission: 'admin:grants' },
             { tool: 'sync_vault', permission: 'admin:sync' },
-            { tool: 'toggle_auto_archive', permission: 'admin:settings' }
+            { tool: 'toggle_auto_archive', permission: 'admin:settings' },
+            { tool: 'query_audit_log', permission: 'admin:audit' }
         ];
 
         for (const { tool, permission } of testCases) {
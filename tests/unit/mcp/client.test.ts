@@ -0,0 +1,269 @@
+/**
+ * Unit Tests for the MCP Admin Client
+ *
+ * Tests cover:
+ * - Reviewing held writes from the dashboard's VaultManager against a running server
+ * - Approved writes stored in the server's vault file and reported to the client
+ * - Rejection notes reaching the client through get_write_status
+ * - Refusing review to clients without admin:review and to the writing client
+ * - Reading access alerts from the server's audit log, suspending on critical ones only
+ * - Revoking access grants from the dashboard, including across a server restart
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { McpAdminClient, DASHBOARD_CLIENT, DASHBOARD_SCOPE } from '@/lib/mcp/client';
+import { ProfileMcpServer } from '@/lib/mcp/server';
+import { ProfileVault } from '@/lib/mcp/vault';
+import { EncryptedVaultStore } from '@/lib/mcp/store';
+import { StreamableHttpTransport } from '@/lib/mcp/transports/http';
+import { AuditEntry, getAuditLogger, resetAuditLogger } from '@/lib/mcp/audit';
+import { ACCESS_GRANT_HEADER } from '@/lib/mcp/auth';
+import { createJwt, createWalletIdentity, deriveJwtSigningKey } from '@/lib/vault/identity';
+import { VaultManager } from '@/lib/vault/manager';
+import { McpResponse } from '@/lib/mcp/types';
+import { AccessGrant, MemoryFragment } from '@/lib/types';
+import { MNEMONICS, PASSWORDS } from '../../fixtures/test-vectors';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    TRANSPORT_MODE: 'http',
+    SSE_PORT: 3001,
+    HTTP_PATH: '/mcp',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+// The dashboard's local copy of the vault lives in IndexedDB
+vi.mock('@/lib/storage/indexeddb', () => ({
+    storage: {
+        saveIdentity: vi.fn().mockResolvedValue(undefined),
+        loadIdentity: vi.fn().mockResolvedValue(null),
+        saveEncryptedVault: vi.fn().mockResolvedValue(undefined),
+        loadEncryptedVault: vi.fn().mockResolvedValue(null),
+        saveConversation: vi.fn().mockResolvedValue(undefined),
+        saveMemory: vi.fn().mockResolvedValue(undefined),
+        getAllConversations: vi.fn().mockResolvedValue([]),
+        getAllMemories: vi.fn().mockResolvedValue([]),
+        getAllInsights: vi.fn().mockResolvedValue([])
+    }
+}));
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+interface HeldWrite {
+    success: boolean;
+    status: 'pending';
+    writeId: string;
+}
+
+describe('McpAdminClient', () => {
+    let dir: string;
+    let transport: StreamableHttpTransport;
+    let url: string;
+    let ownerDid: string;
+    let signingKey: Uint8Array;
+
+    /** A client signed in as the owner under the given client name and scope */
+    const connect = (client: string, scope: string[]) => new McpAdminClient({
+        url,
+        getToken: () => createJwt({ sub: ownerDid, client, scope, exp: Math.floor(Date.now() / 1000) + 300 }, signingKey)
+    });
+
+    /** The dashboard, unlocked with the same mnemonic as the server */
+    const openDashboard = async () => {
+        const dashboard = new VaultManager();
+        await dashboard.unlock(MNEMONICS.standard, PASSWORDS.simple);
+        return dashboard;
+    };
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setInterval'] });
+        vi.stubEnv('MCP_WRITE_REVIEW', 'on');
+        vi.stubEnv('MCP_ANOMALY_AUTO_SUSPEND', 'true');
+        vi.stubEnv('PROFILE_VAULT_MNEMONIC', MNEMONICS.standard);
+        vi.stubEnv('PROFILE_VAULT_PASSWORD', PASSWORDS.simple);
+        resetAuditLogger();
+
+        const owner = await createWalletIdentity(MNEMONICS.standard);
+        ownerDid = owner.identity.did;
+        signingKey = (await deriveJwtSigningKey(MNEMONICS.standard)).privateKey;
+
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-client-'));
+        await startServer();
+    });
+
+    /** Start a server on the vault in dir, as after a restart */
+    const startServer = async () => {
+        const port = await freePort();
+        url = `http://127.0.0.1:${port}/mcp`;
+        vi.stubEnv('NEXT_PUBLIC_MCP_URL', url);
+        transport = new StreamableHttpTransport(port, '/mcp');
+        const server = new ProfileMcpServer(new ProfileVault(new EncryptedVaultStore(dir)), transport, 'http');
+        await server.unlockFromEnv();
+        await server.start();
+    };
+
+    afterEach(async () => {
+        await transport.stop();
+        vi.unstubAllEnvs();
+        vi.useRealTimers();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('write review', () => {
+        it('should store approved writes in the server vault and report them to the client', async () => {
+            const agent = connect('claude-desktop', ['write:memories']);
+            const dashboard = await openDashboard();
+
+            const held = await agent.callTool<HeldWrite>('add_memory', { content: 'Prefers tabs', reason: 'Said so' });
+            expect(held.status).toBe('pending');
+
+            const writes = await dashboard.refreshPendingWrites();
+            expect(writes.map(w => [w.id, w.client])).toEqual([[held.writeId, 'claude-desktop']]);
+
+            const edited = { ...writes[0].diff.after as MemoryFragment, content: 'Prefers tabs over spaces' };
+            const approved = await dashboard.approvePendingWrite(held.writeId, edited);
+            expect(approved.status).toBe('approved');
+            expect(dashboard.getPendingWrites()).toEqual([]);
+
+            const status = await agent.callTool<{ status: string; edited: boolean; resultId: string }>('get_write_status', { id: held.writeId });
+            expect(status).toMatchObject({ status: 'approved', edited: true });
+
+            // The decision and the memory survive in the vault file the server loads
+            const reloaded = new ProfileVault(new EncryptedVaultStore(dir));
+            await reloaded.unlock({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+            const search = await reloaded.callTool('search_memory', { query: 'tabs' }) as { matches: Array<{ id: string; content: string }> };
+            expect(search.matches.map(m => [m.id, m.content])).toEqual([[status.resultId, 'Prefers tabs over spaces']]);
+            expect(await reloaded.callTool('list_pending_writes', {})).toEqual({ writes: [] });
+            await reloaded.lock();
+
+            await agent.close();
+            await dashboard.lock();
+        });
+
+        it('should pass the rejection note to the client', async () => {
+            const agent = connect('claude-desktop', ['write:memories']);
+            const dashboard = await openDashboard();
+            const held = await agent.callTool<HeldWrite>('add_memory', { content: 'Lives in Paris' });
+            await dashboard.refreshPendingWrites();
+
+            await dashboard.rejectPendingWrite(held.writeId, 'Not true');
+
+            expect(await agent.callTool('get_write_status', { id: held.writeId })).toMatchObject({ status: 'rejected', note: 'Not true' });
+            const admin = connect(DASHBOARD_CLIENT, DASHBOARD_SCOPE);
+            await expect(admin.callTool('review_write', { id: held.writeId, decision: 'approve' }))
+                .rejects.toThrow('already rejected');
+
+            await agent.close();
+            await admin.close();
+            await dashboard.lock();
+        });
+
+        it('should refuse review without admin:review and by the client that made the write', async () => {
+            const agent = connect('claude-desktop', ['write:memories']);
+            const selfReviewer = connect('claude-desktop', ['write:memories', 'admin:review']);
+            const held = await agent.callTool<HeldWrite>('add_memory', { content: 'Prefers tabs' });
+
+            await expect(agent.callTool('list_pending_writes')).rejects.toThrow('admin:review');
+            await expect(selfReviewer.callTool('review_write', { id: held.writeId, decision: 'approve' }))
+                .rejects.toThrow('client that made them');
+            expect(await agent.callTool('get_write_status', { id: held.writeId })).toMatchObject({ status: 'pending' });
+
+            await agent.close();
+            await selfReviewer.close();
+        });
+    });
+
+    describe('access alerts', () => {
+        it('should list alerts from the server and suspend only on critical ones', async () => {
+            const agent = connect('claude-desktop', ['write:memories']);
+            const dashboard = await openDashboard();
+            await agent.callTool('add_memory', { content: 'Prefers tabs' });
+
+            // The agent's session seen from another address is only a warning
+            const admin = connect(DASHBOARD_CLIENT, DASHBOARD_SCOPE);
+            const { entries: logins } = await admin.callTool<{ entries: AuditEntry[] }>('query_audit_log', {
+                type: 'auth_success',
+                client: 'claude-desktop'
+            });
+            getAuditLogger().logAuthSuccess({ sessionId: logins[0].sessionId!, did: ownerDid, client: 'claude-desktop', ip: '203.0.113.9' });
+            await agent.callTool('add_memory', { content: 'Uses vim' });
+
+            // A burst of denied calls is critical
+            for (let i = 0; i < 5; i++) {
+                await expect(agent.callTool('list_pending_writes')).rejects.toThrow('admin:review');
+            }
+            await expect(agent.callTool('add_memory', { content: 'Uses emacs' })).rejects.toThrow('Session suspended');
+
+            const alerts = await dashboard.getAccessAlerts();
+            expect(alerts.map(a => [a.client, a.metadata?.kind, a.metadata?.suspended])).toEqual([
+                ['claude-desktop', 'authorization_burst', true],
+                ['claude-desktop', 'new_ip', false]
+            ]);
+
+            await agent.close();
+            await admin.close();
+            await dashboard.lock();
+        });
+    });
+
+    describe('grant revocation', () => {
+        /** POST a request authenticated with an AccessGrant */
+        const postWithGrant = async (grant: AccessGrant, message: Record<string, unknown>, sessionId?: string) => {
+            const res = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Accept: 'application/json',
+                    [ACCESS_GRANT_HEADER]: Buffer.from(JSON.stringify(grant)).toString('base64'),
+                    ...(sessionId && { 'Mcp-Session-Id': sessionId })
+                },
+                body: JSON.stringify(message)
+            });
+            return { res, body: await res.json() as McpResponse };
+        };
+
+        const initialize = (grant: AccessGrant) => postWithGrant(grant, { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+        const search = (grant: AccessGrant, sessionId: string) => postWithGrant(grant, {
+            jsonrpc: '2.0',
+            id: 2,
+            method: 'tools/call',
+            params: { name: 'search_memory', arguments: { query: 'tabs' } }
+        }, sessionId);
+
+        it('should cut off sessions opened with a revoked grant and refuse it from then on', async () => {
+            // Grants issued from the dashboard are not stored in the server's vault
+            const dashboard = await openDashboard();
+            const grant = await dashboard.grantAccess('Agent', ['read_memory'], 3600);
+            const opened = await initialize(grant);
+            const sessionId = opened.res.headers.get('mcp-session-id')!;
+            expect((await search(grant, sessionId)).body.error).toBeUndefined();
+
+            await dashboard.revokeGrant(grant.id);
+
+            const after = await search(grant, sessionId);
+            expect(after.body.error?.message).toMatch(/revoked/i);
+            expect((await initialize(grant)).res.status).toBe(401);
+
+            // The revocation is in the vault file, so a restarted server refuses the grant too
+            await dashboard.lock();
+            await transport.stop();
+            await startServer();
+            expect((await initialize(grant)).res.status).toBe(401);
+        });
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for MCP Context Assembly
+ *
+ * Tests cover:
+ * - Tokenizing tasks
+ * - BM25 ranking blended with recency, confidence and pinning
+ * - Dropping unrelated items and deduplicating near-identical ones
+ * - Filling the token budget and reporting reasons
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assembleContext, tokenize, estimateTokens, ContextSources } from '@/lib/mcp/context';
+import { MemoryFragment } from '@/lib/types';
+
+const NOW = Date.parse('2025-06-01T00:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+function memory(id: string, content: string, overrides: Partial<MemoryFragment> = {}): MemoryFragment {
+    return {
+        id,
+        timestamp: new Date(NOW - 400 * DAY).toISOString(),
+        content,
+        tags: [],
+        type: 'fact',
+        sourceModel: 'test',
+        sourceProvider: 'local',
+        confidence: 0.5,
+        ...overrides
+    };
+}
+
+function sources(overrides: Partial<ContextSources> = {}): ContextSources {
+    return { memories: [], insights: [], conversations: [], preferences: [], ...overrides };
+}
+
+describe('tokenize', () => {
+    it('should drop stopwords and keep technical tokens', () => {
+        expect(tokenize('How do I use Node.js with C++ and C#?')).toEqual(['node.js', 'c++', 'c#']);
+    });
+});
+
+describe('assembleContext', () => {
+    it('should rank by relevance and leave out unrelated items', () => {
+        const result = assembleContext('write a rust parser', sources({
+            memories: [
+                memory('m1', 'Uses Rust daily'),
+                memory('m2', 'Wrote a parser in Rust for a toy language'),
+                memory('m3', 'Enjoys hiking')
+            ]
+        }), { now: NOW });
+
+        expect(result.items.map(i => i.id)).toEqual(['m2', 'm1']);
+        expect(result.items[0].reasons[0]).toBe('matches rust, parser');
+    });
+
+    it('should prefer recent, confident and pinned items among equal matches', () => {
+        const result = assembleContext('typescript', sources({
+            memories: [
+                memory('old', 'Knows TypeScript basics'),
+                memory('recent', 'Migrated the API to TypeScript', { timestamp: new Date(NOW - 2 * DAY).toISOString(), confidence: 0.9 }),
+                memory('pinned', 'Likes TypeScript generics', { pinned: true })
+            ]
+        }), { now: NOW });
+
+        expect(result.items[0]).toMatchObject({ id: 'recent', reasons: ['matches typescript', 'recent (2 days ago)', 'confidence 0.9'] });
+        expect(result.items[1].id).toBe('pinned');
+        expect(result.items[1].reasons).toContain('pinned');
+    });
+
+    it('should include summaries, insights and preferences', () => {
+        const result = assembleContext('parser design', sources({
+            conversations: [{
+                id: 'c1',
+                title: 'Parser design',
+                messages: [],
+                metadata: { provider: 'anthropic', model: 'x', createdAt: 0, updatedAt: NOW, importedAt: 0, messageCount: 0, wordCount: 0 },
+                tags: []
+            }],
+            insights: [{ id: 'i1', category: 'expertise', content: 'Strong at parser design', confidence: 0.8, derivedFrom: [], createdAt: 0, updatedAt: 0 }],
+            preferences: [
+                { id: 'p1', key: 'Tone', value: 'Concise', category: 'communication', isEnabled: true },
+                { id: 'p2', key: 'Emoji', value: 'Lots', category: 'output_style', isEnabled: false }
+            ]
+        }), { now: NOW });
+
+        expect(result.conversations).toEqual([{ id: 'c1', title: 'Parser design', provider: 'anthropic', summary: 'No summary available' }]);
+        expect(result.insights.map(i => i.id)).toEqual(['i1']);
+        expect(result.preferences.map(p => p.id)).toEqual(['p1']);
+        expect(result.items.at(-1)).toMatchObject({ kind: 'preference', reasons: ['enabled preference'] });
+    });
+
+    it('should drop near-identical items', () => {
+        const result = assembleContext('rust', sources({
+            memories: [memory('m1', 'Uses Rust every day'), memory('m2', 'uses rust every day!')]
+        }), { now: NOW });
+
+        expect(result.items).toHaveLength(1);
+        expect(result.omitted.duplicates).toBe(1);
+    });
+
+    it('should stay within the token budget', () => {
+        const memories = Array.from({ length: 20 }, (_, i) => memory(`m${i}`, `Rust note ${i} ${'detail '.repeat(i)}`));
+        const budget = estimateTokens(memories[0]) * 3;
+
+        const result = assembleContext('rust', sources({ memories }), { now: NOW, maxTokens: budget });
+
+        expect(result.usedTokens).toBeLessThanOrEqual(budget);
+        expect(result.items.reduce((sum, i) => sum + i.tokens, 0)).toBe(result.usedTokens);
+        expect(result.omitted.overBudget).toBeGreaterThan(0);
+    });
+});
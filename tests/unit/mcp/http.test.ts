@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for the MCP Streamable HTTP Transport
+ *
+ * Tests cover:
+ * - Session creation on initialize and lookup by Mcp-Session-Id
+ * - Resuming a dropped stream with Last-Event-ID
+ * - Session termination with DELETE and session closed listeners
+ * - Refusing browser origins that are not allowlisted
+ * - Ignoring X-Forwarded-For unless a trusted proxy is configured
+ * - Refusing token requests whose body is not a JSON object
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as net from 'net';
+import { StreamableHttpTransport } from '@/lib/mcp/transports/http';
+import { NetworkPolicy, DEFAULT_NETWORK_POLICY } from '@/lib/mcp/transports/network';
+import { McpRequest } from '@/lib/mcp/types';
+
+vi.mock('@/lib/mcp/config', () => ({
+    log: vi.fn(),
+    logError: vi.fn()
+}));
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+/**
+ * Read an SSE stream until its text matches the pattern.
+ */
+async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, pattern: RegExp): Promise<string> {
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!pattern.test(text)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+    }
+    return text;
+}
+
+const APP_ORIGIN = 'http://app.example.com';
+
+describe('StreamableHttpTransport', () => {
+    let transport: StreamableHttpTransport;
+    let endpoint: string;
+
+    const post = (body: unknown, headers: Record<string, string> = {}) => fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+        body: JSON.stringify(body)
+    });
+
+    const initialize = async (headers: Record<string, string> = {}): Promise<string> => {
+        const res = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, headers);
+        expect(res.status).toBe(200);
+        return res.headers.get('mcp-session-id')!;
+    };
+
+    const startTransport = async (policy: NetworkPolicy) => {
+        const port = await freePort();
+        transport = new StreamableHttpTransport(port, '/mcp', policy);
+        endpoint = `http://127.0.0.1:${port}/mcp`;
+        // Echo every request so POSTs complete
+        await transport.start(async (req: McpRequest, sessionId?: string) => {
+            if (req.id !== undefined) {
+                await transport.send({ jsonrpc: '2.0', id: req.id, result: { method: req.method } }, sessionId);
+            }
+        });
+    };
+
+    beforeEach(async () => {
+        await startTransport({ ...DEFAULT_NETWORK_POLICY, allowedOrigins: [APP_ORIGIN] });
+    });
+
+    afterEach(async () => {
+        await transport.stop();
+    });
+
+    describe('sessions', () => {
+        it('should issue a session ID on initialize and answer requests that carry it', async () => {
+            const sessionId = await initialize();
+            expect(sessionId).toMatch(/^[\w-]{36}$/);
+            expect(transport.getActiveSessionCount()).toBe(1);
+
+            const res = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId, Accept: 'application/json' });
+
+            expect(res.status).toBe(200);
+            expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 2, result: { method: 'tools/list' } });
+        });
+
+        it('should require a known session ID after initialize', async () => {
+            const missing = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+            expect(missing.status).toBe(400);
+
+            const unknown = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': 'nope' });
+            expect(unknown.status).toBe(404);
+        });
+    });
+
+    describe('resumption', () => {
+        it('should replay events missed after Last-Event-ID', async () => {
+            const sessionId = await initialize();
+            const headers = { 'Mcp-Session-Id': sessionId, Accept: 'text/event-stream' };
+
+            const controller = new AbortController();
+            const first = await fetch(endpoint, { headers, signal: controller.signal });
+            expect(first.status).toBe(200);
+            await transport.notify({ jsonrpc: '2.0', method: 'notifications/first' }, sessionId);
+            expect(await readUntil(first.body!.getReader(), /notifications\/first/)).toContain('id: 1\n');
+            controller.abort();
+
+            // Events are buffered whether or not a stream is open to receive them
+            await transport.notify({ jsonrpc: '2.0', method: 'notifications/missed' }, sessionId);
+            const resumed = await fetch(endpoint, { headers: { ...headers, 'Last-Event-ID': '1' } });
+            const text = await readUntil(resumed.body!.getReader(), /notifications\/missed/);
+
+            expect(text).toMatch(/id: 2\nevent: message\ndata: .*notifications\/missed/);
+            expect(text).not.toContain('notifications/first');
+        });
+    });
+
+    describe('termination', () => {
+        it('should notify session closed listeners when a session is deleted', async () => {
+            const closed = vi.fn();
+            transport.onSessionClosed(closed);
+            const sessionId = await initialize();
+
+            const res = await fetch(endpoint, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+
+            expect(res.status).toBe(200);
+            expect(closed).toHaveBeenCalledWith(sessionId);
+            expect(transport.getActiveSessionCount()).toBe(0);
+
+            const after = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId });
+            expect(after.status).toBe(404);
+        });
+    });
+
+    describe('origin policy', () => {
+        it('should refuse browser origins that are not allowlisted', async () => {
+            const res = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }, { Origin: 'https://evil.example' });
+
+            expect(res.status).toBe(403);
+            expect(res.headers.get('access-control-allow-origin')).toBeNull();
+            expect(transport.getActiveSessionCount()).toBe(0);
+        });
+
+        it('should send CORS headers to allowlisted origins only', async () => {
+            const res = await fetch(endpoint, { method: 'OPTIONS', headers: { Origin: APP_ORIGIN } });
+
+            expect(res.status).toBe(204);
+            expect(res.headers.get('access-control-allow-origin')).toBe(APP_ORIGIN);
+            expect(res.headers.get('access-control-expose-headers')).toBe('Mcp-Session-Id');
+        });
+
+        it('should answer requests without an Origin without CORS headers', async () => {
+            const res = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+            expect(res.status).toBe(200);
+            expect(res.headers.get('access-control-allow-origin')).toBeNull();
+        });
+    });
+
+    describe('client IP', () => {
+        it('should ignore X-Forwarded-For by default', async () => {
+            await initialize({ 'X-Forwarded-For': '203.0.113.9' });
+
+            expect(transport.getActiveSessions()[0].ip).not.toBe('203.0.113.9');
+        });
+
+        it('should take the proxy-appended address when a proxy is trusted', async () => {
+            await transport.stop();
+            await startTransport({ ...DEFAULT_NETWORK_POLICY, trustProxy: true });
+
+            await initialize({ 'X-Forwarded-For': '198.51.100.1, 203.0.113.9' });
+
+            expect(transport.getActiveSessions()[0].ip).toBe('203.0.113.9');
+        });
+    });
+
+    describe('token endpoint', () => {
+        it('should refuse bodies that are JSON but not an object', async () => {
+            const refresher = vi.fn();
+            transport.setTokenRefresher(refresher);
+            const tokenUrl = endpoint.replace(/\/mcp$/, '/token');
+
+            for (const body of ['null', '"x"', '1']) {
+                const res = await fetch(tokenUrl, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+                expect(res.status).toBe(400);
+                expect(await res.json()).toMatchObject({ error: 'invalid_request' });
+            }
+            expect(refresher).not.toHaveBeenCalled();
+            // The server is still answering
+            expect((await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })).status).toBe(200);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for the MCP Write Review Inbox
+ *
+ * Tests cover:
+ * - Creating pending writes with a summary and diff
+ * - Approving (with and without edits) and rejecting
+ * - Status reported to polling clients
+ * - Pruning old decided writes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createPendingWrite,
+    approveWrite,
+    rejectWrite,
+    writeStatus,
+    pruneDecidedWrites,
+    writeReviewFromEnv,
+    DECIDED_WRITE_RETENTION_MS
+} from '@/lib/mcp/inbox';
+import { MemoryFragment } from '@/lib/types';
+
+const memory: MemoryFragment = {
+    id: 'mem_1',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    content: 'Prefers tabs',
+    tags: [],
+    type: 'preference',
+    sourceModel: 'mcp-client',
+    sourceProvider: 'local',
+    confidence: 0.9
+};
+
+describe('write review inbox', () => {
+    it('should be off unless MCP_WRITE_REVIEW=on', () => {
+        expect(writeReviewFromEnv({})).toBe(false);
+        expect(writeReviewFromEnv({ MCP_WRITE_REVIEW: 'on' })).toBe(true);
+    });
+
+    it('should create a pending write with a diff', () => {
+        const write = createPendingWrite({ tool: 'add_memory', client: 'agent', reason: 'Told me', after: memory }, 1000);
+
+        expect(write).toMatchObject({
+            tool: 'add_memory',
+            client: 'agent',
+            reason: 'Told me',
+            summary: 'Add memory: Prefers tabs',
+            diff: { before: null, after: memory },
+            status: 'pending',
+            createdAt: 1000
+        });
+    });
+
+    it('should approve with the user\'s edit but keep the item ID', () => {
+        const write = createPendingWrite({ tool: 'add_memory', client: 'agent', after: memory });
+        const approved = approveWrite(write, { ...memory, id: 'changed', content: 'Prefers spaces' }, 2000);
+
+        expect(approved.status).toBe('approved');
+        expect(approved.edited).toBe(true);
+        expect(approved.diff.after).toMatchObject({ id: 'mem_1', content: 'Prefers spaces' });
+        expect(writeStatus(approved)).toMatchObject({ status: 'approved', decidedAt: 2000, edited: true, resultId: 'mem_1' });
+    });
+
+    it('should reject with a note and refuse a second decision', () => {
+        const write = createPendingWrite({ tool: 'add_memory', client: 'agent', after: memory });
+        const rejected = rejectWrite(write, 'Not true');
+
+        expect(writeStatus(rejected)).toMatchObject({ status: 'rejected', note: 'Not true' });
+        expect(writeStatus(rejected).resultId).toBeUndefined();
+        expect(() => approveWrite(rejected)).toThrow('already rejected');
+    });
+
+    it('should prune old decided writes but keep pending ones', () => {
+        const now = 10 * DECIDED_WRITE_RETENTION_MS;
+        const old = rejectWrite(createPendingWrite({ tool: 'add_memory', client: 'agent', after: memory }, 0), undefined, 0);
+        const recent = rejectWrite(createPendingWrite({ tool: 'add_memory', client: 'agent', after: memory }, now), undefined, now);
+        const pending = createPendingWrite({ tool: 'add_memory', client: 'agent', after: memory }, 0);
+
+        expect(pruneDecidedWrites([old, recent, pending], now)).toEqual([recent, pending]);
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for MCP Logging
+ *
+ * Tests cover:
+ * - Mapping between MCP severities and LogLevel
+ * - Forwarding log records only to opted-in sessions at their level
+ * - Redacting secret-bearing metadata with SENSITIVE_KEYS
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { LogForwarder, toLogLevel, toMcpLogLevel, isMcpLogLevel } from '@/lib/mcp/logging';
+import { McpNotification } from '@/lib/mcp/types';
+import { logger, LogLevel } from '@/lib/logger';
+
+describe('log levels', () => {
+    it('should map MCP severities onto LogLevel', () => {
+        expect(toLogLevel('debug')).toBe(LogLevel.DEBUG);
+        expect(toLogLevel('notice')).toBe(LogLevel.INFO);
+        expect(toLogLevel('warning')).toBe(LogLevel.WARN);
+        expect(toLogLevel('emergency')).toBe(LogLevel.ERROR);
+    });
+
+    it('should send audit records as notices', () => {
+        expect(toMcpLogLevel(LogLevel.AUDIT)).toBe('notice');
+        expect(toMcpLogLevel(LogLevel.WARN)).toBe('warning');
+    });
+
+    it('should recognise valid levels only', () => {
+        expect(isMcpLogLevel('critical')).toBe(true);
+        expect(isMcpLogLevel('verbose')).toBe(false);
+    });
+});
+
+describe('LogForwarder', () => {
+    let sent: Array<{ notification: McpNotification; sessionId?: string }>;
+    let forwarder: LogForwarder;
+
+    beforeEach(() => {
+        sent = [];
+        forwarder = new LogForwarder(async (notification, sessionId) => {
+            sent.push({ notification, sessionId });
+        });
+        forwarder.attach();
+    });
+
+    afterEach(() => {
+        forwarder.stop();
+    });
+
+    it('should stay silent until a client opts in', () => {
+        logger.error('Something broke');
+        expect(sent).toEqual([]);
+    });
+
+    it('should forward records at or above the session level', () => {
+        forwarder.setLevel('s1', 'warning');
+        forwarder.setLevel(undefined, 'debug');
+
+        logger.info('Profile saved');
+        logger.warn('Disk almost full');
+
+        expect(sent.map(s => [s.sessionId, s.notification.params?.level])).toEqual([
+            [undefined, 'info'],
+            ['s1', 'warning'],
+            [undefined, 'warning']
+        ]);
+        expect(sent[0].notification).toMatchObject({
+            method: 'notifications/message',
+            params: { logger: 'profile-context-protocol', data: { message: 'Profile saved' } }
+        });
+    });
+
+    it('should forward audit records to every opted-in session', () => {
+        forwarder.setLevel('s1', 'emergency');
+
+        logger.audit('Vault unlocked');
+
+        expect(sent).toHaveLength(1);
+        expect(sent[0].notification.params?.level).toBe('notice');
+    });
+
+    it('should redact sensitive metadata', () => {
+        forwarder.setLevel('s1', 'debug');
+
+        logger.info('Unlock attempt', { password: 'hunter2', nested: { token: 'abc', client: 'cursor' } });
+
+        expect((sent[0].notification.params?.data as any).metadata).toEqual({
+            password: '[REDACTED]',
+            nested: { token: '[REDACTED]', client: 'cursor' }
+        });
+    });
+
+    it('should stop forwarding to closed sessions', () => {
+        forwarder.setLevel('s1', 'debug');
+        forwarder.forgetSession('s1');
+
+        logger.error('After close');
+        expect(sent).toEqual([]);
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the MCP Network Policy
+ *
+ * Tests cover:
+ * - Reading bind address, allowlists and TLS files from the environment
+ * - Refusing browser origins that are not allowlisted
+ * - Refusing unknown Host headers (DNS rebinding)
+ * - Trusting X-Forwarded-For only behind a configured proxy
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as http from 'http';
+import {
+    networkPolicyFromEnv,
+    checkHost,
+    checkOrigin,
+    normalizeOrigin,
+    clientIp,
+    DEFAULT_NETWORK_POLICY
+} from '@/lib/mcp/transports/network';
+
+describe('networkPolicyFromEnv', () => {
+    it('should default to loopback with no origins and localhost host names', () => {
+        const policy = networkPolicyFromEnv({});
+
+        expect(policy.bindHost).toBe('127.0.0.1');
+        expect(policy.allowedOrigins).toEqual([]);
+        expect(policy.allowedHosts).toEqual(['localhost', '127.0.0.1', '[::1]']);
+        expect(policy.tls).toBeUndefined();
+        expect(policy.trustProxy).toBe(false);
+    });
+
+    it('should trust a proxy only when MCP_TRUST_PROXY is true', () => {
+        expect(networkPolicyFromEnv({ MCP_TRUST_PROXY: 'true' }).trustProxy).toBe(true);
+        expect(networkPolicyFromEnv({ MCP_TRUST_PROXY: '1' }).trustProxy).toBe(false);
+    });
+
+    it('should accept any host name when bound to all interfaces', () => {
+        expect(networkPolicyFromEnv({ MCP_BIND_HOST: '0.0.0.0' }).allowedHosts).toBeNull();
+    });
+
+    it('should read configured hosts, with * accepting any', () => {
+        expect(networkPolicyFromEnv({ MCP_ALLOWED_HOSTS: 'MCP.example.com, localhost' }).allowedHosts)
+            .toEqual(['mcp.example.com', 'localhost']);
+        expect(networkPolicyFromEnv({ MCP_ALLOWED_HOSTS: '*' }).allowedHosts).toBeNull();
+    });
+
+    it('should normalize allowed origins and reject invalid ones', () => {
+        const policy = networkPolicyFromEnv({ MCP_ALLOWED_ORIGINS: 'https://app.example.com:443/, http://localhost:3000' });
+        expect(policy.allowedOrigins).toEqual(['https://app.example.com', 'http://localhost:3000']);
+
+        expect(() => networkPolicyFromEnv({ MCP_ALLOWED_ORIGINS: 'app.example.com' })).toThrow('Invalid MCP_ALLOWED_ORIGINS entry');
+    });
+
+    it('should read the TLS certificate and key together', () => {
+        const files: Record<string, string> = { '/cert.pem': 'CERT', '/key.pem': 'KEY' };
+        const policy = networkPolicyFromEnv(
+            { MCP_TLS_CERT: '/cert.pem', MCP_TLS_KEY: '/key.pem' },
+            path => Buffer.from(files[path])
+        );
+
+        expect(policy.tls?.cert.toString()).toBe('CERT');
+        expect(policy.tls?.key.toString()).toBe('KEY');
+        expect(() => networkPolicyFromEnv({ MCP_TLS_CERT: '/cert.pem' })).toThrow('must be set together');
+    });
+});
+
+describe('checkOrigin', () => {
+    const policy = { ...DEFAULT_NETWORK_POLICY, allowedOrigins: ['https://app.example.com'] };
+
+    it('should allow requests without an Origin header', () => {
+        expect(checkOrigin(policy, undefined)).toBeNull();
+    });
+
+    it('should allow only allowlisted origins', () => {
+        expect(checkOrigin(policy, 'https://app.example.com')).toBeNull();
+        expect(checkOrigin(policy, 'https://evil.example')).toBe('origin_not_allowed');
+        expect(checkOrigin(policy, 'null')).toBe('origin_not_allowed');
+    });
+
+    it('should refuse every browser origin by default', () => {
+        expect(checkOrigin(DEFAULT_NETWORK_POLICY, 'http://localhost:3000')).toBe('origin_not_allowed');
+    });
+});
+
+describe('checkHost', () => {
+    it('should accept localhost names with any port', () => {
+        expect(checkHost(DEFAULT_NETWORK_POLICY, 'localhost:3001')).toBeNull();
+        expect(checkHost(DEFAULT_NETWORK_POLICY, '127.0.0.1:3001')).toBeNull();
+        expect(checkHost(DEFAULT_NETWORK_POLICY, '[::1]:3001')).toBeNull();
+    });
+
+    it('should refuse rebound and missing host names', () => {
+        expect(checkHost(DEFAULT_NETWORK_POLICY, 'attacker.example:3001')).toBe('host_not_allowed');
+        expect(checkHost(DEFAULT_NETWORK_POLICY, undefined)).toBe('missing_host_header');
+    });
+
+    it('should accept anything when host checks are off', () => {
+        expect(checkHost({ ...DEFAULT_NETWORK_POLICY, allowedHosts: null }, 'anything.example')).toBeNull();
+    });
+});
+
+describe('normalizeOrigin', () => {
+    it('should only accept http(s) origins', () => {
+        expect(normalizeOrigin('http://localhost:80')).toBe('http://localhost');
+        expect(normalizeOrigin('file:///tmp/x')).toBeNull();
+    });
+});
+
+describe('clientIp', () => {
+    const request = (forwarded?: string) => ({
+        headers: forwarded ? { 'x-forwarded-for': forwarded } : {},
+        socket: { remoteAddress: '10.0.0.5' }
+    }) as unknown as http.IncomingMessage;
+
+    it('should use the socket address unless a proxy is trusted', () => {
+        expect(clientIp(DEFAULT_NETWORK_POLICY, request('203.0.113.9'))).toBe('10.0.0.5');
+    });
+
+    it('should take the last forwarded address behind a trusted proxy', () => {
+        const policy = { ...DEFAULT_NETWORK_POLICY, trustProxy: true };
+
+        expect(clientIp(policy, request('198.51.100.1, 203.0.113.9'))).toBe('203.0.113.9');
+        expect(clientIp(policy, request())).toBe('10.0.0.5');
+    });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit Tests for MCP Personas
+ *
+ * Tests cover:
+ * - Looking up personas by ID or name
+ * - The filtered profile view: identity, preferences, memories,
+ *   conversations, insights and projects
+ * - Tagging writes so the persona keeps seeing them
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findPersona, personaView, tagsForPersona, personaFromEnv } from '@/lib/mcp/persona';
+import { Conversation, MemoryFragment, Persona, PortableProfile } from '@/lib/types';
+
+function memory(id: string, tags: string[], type: MemoryFragment['type'] = 'fact'): MemoryFragment {
+    return { id, timestamp: '', content: id, tags, type, sourceModel: 'test', sourceProvider: 'local', confidence: 1 };
+}
+
+function conversation(id: string, tags: string[]): Conversation {
+    return {
+        id,
+        title: id,
+        messages: [],
+        metadata: { provider: 'other', model: 'm', createdAt: 0, updatedAt: 0, importedAt: 0, messageCount: 0, wordCount: 0 },
+        tags
+    };
+}
+
+const work: Persona = {
+    id: 'persona_work',
+    name: 'Work',
+    identity: { email: 'alice@company.com', role: 'Staff Engineer' },
+    preferenceIds: ['pref_terse'],
+    visibility: { includeTags: ['work'], excludeMemoryTypes: ['personal'], projectIds: ['proj_api'] },
+    createdAt: 0,
+    updatedAt: 0
+};
+
+function profile(): PortableProfile {
+    return {
+        identity: { displayName: 'Alice', fullName: 'Alice Smith', email: 'alice@home.net', location: 'Berlin', role: 'Developer' },
+        preferences: [
+            { id: 'pref_terse', key: 'Style', value: 'Terse', category: 'output_style', isEnabled: false },
+            { id: 'pref_casual', key: 'Tone', value: 'Casual', category: 'communication', isEnabled: true }
+        ],
+        shortTermMemory: [memory('m_work', ['Work']), memory('m_home', ['family'])],
+        longTermMemory: [memory('m_work_personal', ['work'], 'personal')],
+        projects: [
+            { id: 'proj_api', name: 'API', description: '', techStack: [], relatedMemories: [] },
+            { id: 'proj_game', name: 'Game', description: '', techStack: [], relatedMemories: [] }
+        ],
+        conversations: [conversation('c_work', ['work']), conversation('c_home', ['family'])],
+        insights: [
+            { id: 'i_work', category: 'expertise', content: '', confidence: 1, derivedFrom: ['c_work'], createdAt: 0, updatedAt: 0 },
+            { id: 'i_mixed', category: 'interest', content: '', confidence: 1, derivedFrom: ['c_work', 'c_home'], createdAt: 0, updatedAt: 0 }
+        ],
+        activeGrants: [],
+        activeProjectId: 'proj_game',
+        personas: [work, { id: 'persona_side', name: 'Side projects', createdAt: 0, updatedAt: 0 }]
+    };
+}
+
+describe('Personas', () => {
+    describe('findPersona', () => {
+        it('should find a persona by ID or by name ignoring case', () => {
+            expect(findPersona(profile(), 'persona_work')?.name).toBe('Work');
+            expect(findPersona(profile(), 'side PROJECTS')?.id).toBe('persona_side');
+            expect(findPersona(profile(), 'unknown')).toBeUndefined();
+        });
+    });
+
+    describe('personaFromEnv', () => {
+        it('should read MCP_PERSONA', () => {
+            expect(personaFromEnv({ MCP_PERSONA: 'work' })).toBe('work');
+            expect(personaFromEnv({})).toBeUndefined();
+        });
+    });
+
+    describe('personaView', () => {
+        const view = personaView(profile(), work);
+
+        it('should overlay the persona\'s identity fields', () => {
+            expect(view.identity).toMatchObject({ fullName: 'Alice Smith', email: 'alice@company.com', role: 'Staff Engineer' });
+        });
+
+        it('should only keep the persona\'s preferences, enabled', () => {
+            expect(view.preferences.map(p => [p.id, p.isEnabled])).toEqual([['pref_terse', true]]);
+        });
+
+        it('should filter memories by tag and type', () => {
+            expect([...view.shortTermMemory, ...view.longTermMemory].map(m => m.id)).toEqual(['m_work']);
+        });
+
+        it('should filter conversations and insights derived from hidden ones', () => {
+            expect(view.conversations.map(c => c.id)).toEqual(['c_work']);
+            expect(view.insights.map(i => i.id)).toEqual(['i_work']);
+        });
+
+        it('should filter projects and drop a hidden active project', () => {
+            expect(view.projects.map(p => p.id)).toEqual(['proj_api']);
+            expect(view.activeProjectId).toBeUndefined();
+        });
+
+        it('should not expose grants or other personas', () => {
+            expect(view.activeGrants).toEqual([]);
+            expect(view.personas).toEqual([work]);
+        });
+
+        it('should hide excluded tags and leave everything else without rules', () => {
+            const side = findPersona(profile(), 'persona_side')!;
+            expect(personaView(profile(), side).conversations).toHaveLength(2);
+            expect(personaView(profile(), side).preferences).toEqual(profile().preferences);
+
+            const noFamily = { ...side, visibility: { excludeTags: ['FAMILY'] } };
+            expect(personaView(profile(), noFamily).conversations.map(c => c.id)).toEqual(['c_work']);
+        });
+    });
+
+    describe('tagsForPersona', () => {
+        it('should add the first include tag when the item has none', () => {
+            expect(tagsForPersona(work, ['rust'])).toEqual(['rust', 'work']);
+            expect(tagsForPersona(work, ['WORK'])).toEqual(['WORK']);
+        });
+
+        it('should leave tags alone without a persona or include rule', () => {
+            expect(tagsForPersona(null, ['rust'])).toEqual(['rust']);
+            expect(tagsForPersona(findPersona(profile(), 'persona_side')!, [])).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for MCP Prompt Templates
+ *
+ * Tests cover:
+ * - Listing built-in and user-defined prompts
+ * - introduce_user rendering (identity, preferences, insights)
+ * - summarize_history topic matching
+ * - User template placeholder substitution
+ * - Permissions derived from template placeholders
+ */
+
+import { describe, it, expect } from 'vitest';
+import { listPrompts, findPrompt, renderPrompt, renderTemplate, templatePermissions, promptPermissions } from '@/lib/mcp/prompts';
+import { PortableProfile, Conversation } from '@/lib/types';
+
+function makeConversation(id: string, title: string, overrides: Partial<Conversation> = {}): Conversation {
+    return {
+        id,
+        title,
+        messages: [{ id: `${id}_m1`, role: 'user', content: `First message of ${title}`, timestamp: 0 }],
+        metadata: {
+            provider: 'anthropic',
+            model: 'test',
+            createdAt: Date.UTC(2025, 0, 1),
+            updatedAt: Date.UTC(2025, 0, 1),
+            importedAt: Date.UTC(2025, 0, 1),
+            messageCount: 1,
+            wordCount: 5
+        },
+        tags: [],
+        ...overrides
+    };
+}
+
+function makeProfile(overrides: Partial<PortableProfile> = {}): PortableProfile {
+    return {
+        identity: {
+            displayName: 'Ada',
+            fullName: 'Ada Lovelace',
+            email: 'ada@example.com',
+            location: 'London',
+            role: 'Engineer'
+        },
+        preferences: [
+            { id: 'p1', key: 'Response Style', value: 'Concise', category: 'output_style', isEnabled: true },
+            { id: 'p2', key: 'Emoji', value: 'Lots', category: 'communication', isEnabled: false }
+        ],
+        shortTermMemory: [],
+        longTermMemory: [],
+        projects: [],
+        conversations: [],
+        insights: [
+            { id: 'i1', category: 'expertise', content: 'Knows Rust', confidence: 0.6, derivedFrom: [], createdAt: 0, updatedAt: 0 },
+            { id: 'i2', category: 'style', content: 'Prefers examples', confidence: 0.9, derivedFrom: [], createdAt: 0, updatedAt: 0 }
+        ],
+        activeGrants: [],
+        ...overrides
+    };
+}
+
+describe('MCP Prompts', () => {
+    describe('listPrompts', () => {
+        it('should list built-in prompts', () => {
+            const names = listPrompts(makeProfile()).map(p => p.name);
+            expect(names).toEqual(['introduce_user', 'summarize_history']);
+        });
+
+        it('should include user-defined templates', () => {
+            const profile = makeProfile({
+                promptTemplates: [{
+                    id: 't1',
+                    name: 'review_code',
+                    description: 'Review code my way',
+                    arguments: [{ name: 'language', description: 'Language', required: true }],
+                    template: 'Review this {{language}} code.',
+                    createdAt: 0,
+                    updatedAt: 0
+                }]
+            });
+
+            const prompt = findPrompt(profile, 'review_code');
+            expect(prompt?.arguments[0].name).toBe('language');
+        });
+
+        it('should not let user templates shadow built-ins', () => {
+            const profile = makeProfile({
+                promptTemplates: [{
+                    id: 't1',
+                    name: 'introduce_user',
+                    description: 'Shadow',
+                    arguments: [],
+                    template: 'shadowed',
+                    createdAt: 0,
+                    updatedAt: 0
+                }]
+            });
+
+            expect(listPrompts(profile).filter(p => p.name === 'introduce_user')).toHaveLength(1);
+            expect(renderPrompt(profile, 'introduce_user')?.messages[0].content.text).not.toBe('shadowed');
+        });
+
+        it('should return null for unknown prompts', () => {
+            expect(findPrompt(makeProfile(), 'missing')).toBeNull();
+            expect(renderPrompt(makeProfile(), 'missing')).toBeNull();
+        });
+    });
+
+    describe('introduce_user', () => {
+        it('should render identity, enabled preferences and insights by confidence', () => {
+            const text = renderPrompt(makeProfile(), 'introduce_user')!.messages[0].content.text;
+
+            expect(text).toContain('Ada Lovelace');
+            expect(text).toContain('Engineer');
+            expect(text).toContain('Response Style: Concise');
+            expect(text).not.toContain('Emoji');
+            expect(text.indexOf('Prefers examples')).toBeLessThan(text.indexOf('Knows Rust'));
+        });
+    });
+
+    describe('summarize_history', () => {
+        it('should include matching conversations only', () => {
+            const profile = makeProfile({
+                conversations: [
+                    makeConversation('c1', 'Rust lifetimes', { summary: 'Discussed borrowing' }),
+                    makeConversation('c2', 'Cooking pasta'),
+                    makeConversation('c3', 'Misc', { tags: ['rust'] })
+                ]
+            });
+
+            const text = renderPrompt(profile, 'summarize_history', { topic: 'rust' })!.messages[0].content.text;
+
+            expect(text).toContain('Rust lifetimes');
+            expect(text).toContain('Discussed borrowing');
+            expect(text).toContain('First message of Misc');
+            expect(text).not.toContain('Cooking pasta');
+        });
+
+        it('should explain when nothing matches', () => {
+            const text = renderPrompt(makeProfile(), 'summarize_history', { topic: 'golf' })!.messages[0].content.text;
+            expect(text).toContain('no archived conversations about "golf"');
+        });
+    });
+
+    describe('renderTemplate', () => {
+        it('should substitute arguments and profile placeholders', () => {
+            const text = renderTemplate(
+                'Hi {{identity.displayName}}, topic {{ topic }}.\n{{preferences}}',
+                makeProfile(),
+                { topic: 'testing' }
+            );
+
+            expect(text).toBe('Hi Ada, topic testing.\n- Response Style: Concise');
+        });
+
+        it('should leave unknown placeholders untouched', () => {
+            expect(renderTemplate('{{unknown}} {{identity.nope}}', makeProfile(), {})).toBe('{{unknown}} {{identity.nope}}');
+        });
+
+        it('should not treat inherited properties as arguments', () => {
+            expect(renderTemplate('{{constructor}} {{toString}}', makeProfile(), {})).toBe('{{constructor}} {{toString}}');
+        });
+    });
+
+    describe('templatePermissions', () => {
+        it('should require read:identity for any template', () => {
+            expect(templatePermissions('Hello {{ topic }}')).toEqual(['read:identity']);
+        });
+
+        it('should add the permission for each profile placeholder', () => {
+            expect(templatePermissions('{{identity.role}}\n{{ insights }}\n{{preferences}}\n{{insights}}')).toEqual([
+                'read:identity',
+                'read:memories',
+                'read:preferences'
+            ]);
+        });
+
+        it('should derive permissions for user templates only', () => {
+            const profile = makeProfile({
+                promptTemplates: [{ id: 't1', name: 'mine', description: 'Mine', arguments: [], template: '{{insights}}', createdAt: 0, updatedAt: 0 }]
+            });
+
+            expect(promptPermissions(profile, 'mine')).toEqual(['read:identity', 'read:memories']);
+            expect(promptPermissions(profile, 'introduce_user')).toBeNull();
+            expect(promptPermissions(profile, 'missing')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for MCP Rate Limiting
+ *
+ * Tests cover:
+ * - Token bucket consumption and refill
+ * - Shared budgets across sessions of the same DID or client
+ * - Separate read, write and admin tiers
+ * - Pruning and session cleanup
+ * - Environment configuration
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter, RateLimitConfig, rateLimitsFromEnv, DEFAULT_RATE_LIMITS } from '@/lib/mcp/ratelimit';
+
+const LIMITS: RateLimitConfig = {
+    read: { capacity: 3, refillPerMinute: 60 },
+    write: { capacity: 1, refillPerMinute: 6 },
+    admin: { capacity: 1, refillPerMinute: 1 }
+};
+
+describe('RateLimiter', () => {
+    let now: number;
+    let limiter: RateLimiter;
+    const alice = { sessionId: 's1', did: 'did:key:zAlice', client: 'claude' };
+
+    beforeEach(() => {
+        now = 0;
+        limiter = new RateLimiter(LIMITS, () => now);
+    });
+
+    it('should allow bursts up to capacity', () => {
+        expect(limiter.consume(alice, 'read').allowed).toBe(true);
+        expect(limiter.consume(alice, 'read').allowed).toBe(true);
+        expect(limiter.consume(alice, 'read').allowed).toBe(true);
+
+        const result = limiter.consume(alice, 'read');
+        expect(result.allowed).toBe(false);
+        expect(result.key).toBe('session:s1');
+        expect(result.retryAfterMs).toBe(1000);
+    });
+
+    it('should refill over time', () => {
+        limiter.consume(alice, 'write');
+        expect(limiter.consume(alice, 'write').allowed).toBe(false);
+
+        now += 10000;
+        expect(limiter.consume(alice, 'write').allowed).toBe(true);
+    });
+
+    it('should keep tiers separate', () => {
+        limiter.consume(alice, 'admin');
+        expect(limiter.consume(alice, 'admin').allowed).toBe(false);
+        expect(limiter.consume(alice, 'write').allowed).toBe(true);
+        expect(limiter.consume(alice, 'read').allowed).toBe(true);
+    });
+
+    it('should share the DID budget across sessions', () => {
+        limiter.consume(alice, 'write');
+
+        const result = limiter.consume({ ...alice, sessionId: 's2', client: 'cursor' }, 'write');
+        expect(result.allowed).toBe(false);
+        expect(result.key).toBe('did:did:key:zAlice');
+    });
+
+    it('should share the client budget across DIDs', () => {
+        limiter.consume(alice, 'write');
+
+        const result = limiter.consume({ sessionId: 's2', did: 'did:key:zBob', client: 'claude' }, 'write');
+        expect(result.allowed).toBe(false);
+        expect(result.key).toBe('client:claude');
+    });
+
+    it('should not consume from any bucket when one is empty', () => {
+        limiter.consume(alice, 'write');
+        // Blocked by the shared client bucket; Bob's DID bucket must stay full
+        limiter.consume({ sessionId: 's2', did: 'did:key:zBob', client: 'claude' }, 'write');
+
+        expect(limiter.consume({ sessionId: 's3', did: 'did:key:zBob', client: 'cursor' }, 'write').allowed).toBe(true);
+    });
+
+    it('should prune only refilled buckets', () => {
+        limiter.consume(alice, 'read');
+        limiter.consume(alice, 'admin');
+
+        now += 1000;
+        // Read buckets are full again, admin buckets are not
+        expect(limiter.prune()).toBe(3);
+        expect(limiter.consume(alice, 'admin').allowed).toBe(false);
+    });
+
+    it('should reset a session budget when the session is forgotten', () => {
+        const other = { sessionId: 's1', did: 'did:key:zOther', client: 'other' };
+        limiter.consume(other, 'write');
+        limiter.forgetSession('s1');
+
+        expect(limiter.consume({ ...other, did: 'did:key:zNew', client: 'new' }, 'write').allowed).toBe(true);
+    });
+});
+
+describe('rateLimitsFromEnv', () => {
+    it('should default when nothing is set', () => {
+        expect(rateLimitsFromEnv({})).toEqual(DEFAULT_RATE_LIMITS);
+    });
+
+    it('should read per-minute budgets per tier', () => {
+        const config = rateLimitsFromEnv({ MCP_RATE_LIMIT_WRITE: '5' });
+
+        expect(config?.write).toEqual({ capacity: 5, refillPerMinute: 5 });
+        expect(config?.read).toEqual(DEFAULT_RATE_LIMITS.read);
+    });
+
+    it('should disable limiting with off', () => {
+        expect(rateLimitsFromEnv({ MCP_RATE_LIMIT: 'off' })).toBeNull();
+    });
+
+    it('should reject invalid budgets', () => {
+        expect(() => rateLimitsFromEnv({ MCP_RATE_LIMIT_ADMIN: 'lots' })).toThrow('Invalid MCP_RATE_LIMIT_ADMIN');
+    });
+});
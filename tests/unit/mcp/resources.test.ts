@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for the MCP Resource Catalogue
+ *
+ * Tests cover:
+ * - Static resource lookup
+ * - Template matching for path and query parameters
+ * - Parameter validation (required, enum, integer bounds, format)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isStaticResource, matchResourceTemplate, RESOURCE_TEMPLATES } from '@/lib/mcp/resources';
+
+describe('MCP Resources', () => {
+    describe('isStaticResource', () => {
+        it('should recognise listed resources', () => {
+            expect(isStaticResource('profile://identity')).toBe(true);
+            expect(isStaticResource('profile://conversations/recent')).toBe(true);
+            expect(isStaticResource('profile://conversations/conv_1')).toBe(false);
+        });
+    });
+
+    describe('matchResourceTemplate', () => {
+        it('should not match static resources', () => {
+            expect(matchResourceTemplate('profile://conversations/recent')).toBeNull();
+        });
+
+        it('should extract path parameters', () => {
+            const match = matchResourceTemplate('profile://conversations/conv_123_abc');
+
+            expect(match?.template.uriTemplate).toBe('profile://conversations/{id}');
+            expect(match?.params).toEqual({ id: 'conv_123_abc' });
+            expect(match?.errors).toEqual([]);
+        });
+
+        it('should decode percent-encoded path parameters', () => {
+            const match = matchResourceTemplate('profile://memory/tag/machine%20learning');
+            expect(match?.params.tag).toBe('machine learning');
+        });
+
+        it('should extract query parameters', () => {
+            const match = matchResourceTemplate('profile://memory/search?q=rust&limit=5');
+
+            expect(match?.template.name).toBe('Memory Search');
+            expect(match?.params).toEqual({ q: 'rust', limit: '5' });
+            expect(match?.errors).toEqual([]);
+        });
+
+        it('should report a missing required query parameter', () => {
+            const match = matchResourceTemplate('profile://memory/search');
+            expect(match?.errors).toEqual(['Missing required parameter: q']);
+        });
+
+        it('should enforce integer bounds', () => {
+            expect(matchResourceTemplate('profile://memory/search?q=a&limit=0')?.errors)
+                .toEqual(['Parameter limit must be >= 1']);
+            expect(matchResourceTemplate('profile://memory/search?q=a&limit=abc')?.errors)
+                .toEqual(['Parameter limit must be an integer']);
+        });
+
+        it('should enforce enum values', () => {
+            expect(matchResourceTemplate('profile://insights/expertise')?.errors).toEqual([]);
+            expect(matchResourceTemplate('profile://memory/type/secret')?.errors[0])
+                .toContain('must be one of');
+        });
+
+        it('should reject malformed identifiers', () => {
+            const match = matchResourceTemplate('profile://projects/' + 'x'.repeat(200));
+            expect(match?.errors).toEqual(['Parameter id has an invalid format']);
+        });
+
+        it('should return null for unknown URIs', () => {
+            expect(matchResourceTemplate('profile://unknown/thing')).toBeNull();
+            expect(matchResourceTemplate('profile://conversations/a/b')).toBeNull();
+        });
+    });
+
+    it('should declare a param spec for every template variable', () => {
+        for (const template of RESOURCE_TEMPLATES) {
+            const variables = Array.from(template.uriTemplate.matchAll(/\{\??([^}]+)\}/g))
+                .flatMap(m => m[1].split(','));
+            expect(template.params.map(p => p.name).sort()).toEqual(variables.sort());
+        }
+    });
+});
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for MCP Sampling
+ *
+ * Tests cover:
+ * - Opt-in and budget settings from the environment
+ * - sampling/createMessage round trips, declines and timeouts
+ * - Ignoring replies from sessions that were not asked
+ * - Character and per-call request budgets
+ * - Parsing model replies into summaries, memories and insights
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    SamplingClient,
+    DEFAULT_SAMPLING_CONFIG,
+    samplingConfigFromEnv,
+    conversationTranscript,
+    extractMemories,
+    generateInsights
+} from '@/lib/mcp/sampling';
+import { McpServerRequest } from '@/lib/mcp/types';
+import { Conversation } from '@/lib/types';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+function makeConversation(id: string, contents: string[], summary?: string): Conversation {
+    return {
+        id,
+        title: `Conversation ${id}`,
+        messages: contents.map((content, i) => ({
+            id: `${id}-${i}`,
+            role: i % 2 === 0 ? 'user' : 'assistant',
+            content,
+            timestamp: 0,
+            contentType: 'text'
+        })),
+        metadata: { provider: 'anthropic', model: 'test', createdAt: 0, updatedAt: 0, importedAt: 0, messageCount: contents.length, wordCount: 0 },
+        tags: [],
+        summary
+    } as Conversation;
+}
+
+const textMessage = (text: string) => ({ role: 'user' as const, content: { type: 'text' as const, text } });
+
+describe('samplingConfigFromEnv', () => {
+    it('should be off unless enabled', () => {
+        expect(samplingConfigFromEnv({})).toBeNull();
+        expect(samplingConfigFromEnv({ MCP_SAMPLING: 'on' })).toEqual(DEFAULT_SAMPLING_CONFIG);
+    });
+
+    it('should read budget overrides', () => {
+        const config = samplingConfigFromEnv({ MCP_SAMPLING: 'on', MCP_SAMPLING_MAX_CHARS: '1000', MCP_SAMPLING_MAX_REQUESTS: '2' });
+        expect(config).toMatchObject({ maxInputChars: 1000, maxRequestsPerCall: 2 });
+        expect(() => samplingConfigFromEnv({ MCP_SAMPLING: 'on', MCP_SAMPLING_MAX_TOKENS: '0' })).toThrow('MCP_SAMPLING_MAX_TOKENS');
+    });
+});
+
+describe('SamplingClient', () => {
+    let sent: Array<{ request: McpServerRequest; sessionId?: string }>;
+    let client: SamplingClient;
+
+    beforeEach(() => {
+        sent = [];
+        client = new SamplingClient(async (request, sessionId) => {
+            sent.push({ request, sessionId });
+        }, { ...DEFAULT_SAMPLING_CONFIG, maxInputChars: 100, maxTokens: 64, maxRequestsPerCall: 2 });
+        client.setClientCapabilities('s1', { sampling: {} });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should only sample clients that declared the capability', async () => {
+        client.setClientCapabilities('s2', {});
+
+        expect(client.supports('s1')).toBe(true);
+        expect(client.supports('s2')).toBe(false);
+        await expect(client.createMessage('s2', { messages: [], maxTokens: 10 })).rejects.toThrow('does not support sampling');
+
+        client.forgetSession('s1');
+        expect(client.supports('s1')).toBe(false);
+    });
+
+    it('should resolve with the client response', async () => {
+        const pending = client.createMessage('s1', { messages: [textMessage('hi')], maxTokens: 1000 });
+        await Promise.resolve();
+
+        const [{ request, sessionId }] = sent;
+        expect(sessionId).toBe('s1');
+        expect(request.method).toBe('sampling/createMessage');
+        expect(request.params).toMatchObject({ maxTokens: 64, includeContext: 'none' });
+
+        const result = { role: 'assistant', content: { type: 'text', text: 'hello' }, model: 'm' };
+        expect(client.handleResponse({ jsonrpc: '2.0', id: request.id, result }, 's1')).toBe(true);
+        await expect(pending).resolves.toEqual(result);
+        expect(client.handleResponse({ jsonrpc: '2.0', id: request.id, result }, 's1')).toBe(false);
+    });
+
+    it('should ignore replies from other sessions', async () => {
+        client.setClientCapabilities('s2', { sampling: {} });
+        const pending = client.createMessage('s1', { messages: [textMessage('hi')], maxTokens: 10 });
+        await Promise.resolve();
+
+        const { request } = sent[0];
+        expect(request.id).toMatch(/^sampling-[0-9a-f-]{36}$/);
+        const result = { role: 'assistant', content: { type: 'text', text: 'injected' }, model: 'm' };
+        expect(client.handleResponse({ jsonrpc: '2.0', id: request.id, result }, 's2')).toBe(false);
+        expect(client.handleResponse({ jsonrpc: '2.0', id: request.id, result })).toBe(false);
+
+        client.forgetSession('s1');
+        await expect(pending).rejects.toThrow('Client disconnected');
+    });
+
+    it('should reject when the client declines', async () => {
+        const pending = client.createMessage('s1', { messages: [textMessage('hi')], maxTokens: 10 });
+        await Promise.resolve();
+
+        client.handleResponse({ jsonrpc: '2.0', id: sent[0].request.id, error: { code: -1, message: 'User rejected sampling request' } }, 's1');
+        await expect(pending).rejects.toThrow('Client declined sampling: User rejected');
+    });
+
+    it('should time out', async () => {
+        vi.useFakeTimers();
+        const pending = client.createMessage('s1', { messages: [textMessage('hi')], maxTokens: 10 });
+        const assertion = expect(pending).rejects.toThrow('timed out');
+
+        await vi.advanceTimersByTimeAsync(DEFAULT_SAMPLING_CONFIG.timeoutMs);
+        await assertion;
+    });
+
+    it('should refuse requests over the character budget', async () => {
+        await expect(client.createMessage('s1', { messages: [textMessage('x'.repeat(101))], maxTokens: 10 }))
+            .rejects.toThrow('budget is 100');
+        expect(sent).toHaveLength(0);
+    });
+
+    it('should cap the requests of one tool call', async () => {
+        const sample = client.samplerFor('s1');
+        const answer = async () => {
+            await Promise.resolve();
+            const { request } = sent[sent.length - 1];
+            client.handleResponse({ jsonrpc: '2.0', id: request.id, result: { role: 'assistant', content: { type: 'text', text: 'ok' }, model: 'm' } }, 's1');
+        };
+
+        for (let i = 0; i < 2; i++) {
+            const reply = sample({ messages: [textMessage('hi')] });
+            await answer();
+            await expect(reply).resolves.toBe('ok');
+        }
+        await expect(sample({ messages: [textMessage('hi')] })).rejects.toThrow('requests per call');
+    });
+});
+
+describe('profile tasks', () => {
+    it('should truncate transcripts to the budget', () => {
+        const transcript = conversationTranscript(makeConversation('c1', ['short', 'y'.repeat(500), 'dropped']), 120);
+
+        expect(transcript.length).toBeLessThanOrEqual(120);
+        expect(transcript).toContain('user: short');
+        expect(transcript).toContain('[truncated]');
+        expect(transcript).not.toContain('dropped');
+    });
+
+    it('should parse memories out of a wrapped reply', async () => {
+        const sample = vi.fn(async () => 'Sure!\n```json\n[{"content": "Uses Vim", "type": "preference", "confidence": 3}, {"type": "fact"}, {"content": "Lives in Oslo", "type": "bogus"}]\n```');
+
+        const memories = await extractMemories(sample, makeConversation('c1', ['I use Vim']), 1000);
+
+        expect(memories).toEqual([
+            { content: 'Uses Vim', type: 'preference', tags: [], confidence: 1 },
+            { content: 'Lives in Oslo', type: 'fact', tags: [], confidence: 0.7 }
+        ]);
+    });
+
+    it('should return no memories for an unparseable reply', async () => {
+        const sample = vi.fn(async () => 'Nothing to remember.');
+        expect(await extractMemories(sample, makeConversation('c1', ['hi']), 1000)).toEqual([]);
+    });
+
+    it('should only attribute insights to conversations that were sent', async () => {
+        const sample = vi.fn(async () => '[{"category": "interest", "content": "Sailing", "derivedFrom": ["c1", "c9"]}, {"category": "mood", "content": "x"}]');
+
+        const insights = await generateInsights(sample, [makeConversation('c1', [], 'Planning a sailing trip')], 1000);
+
+        expect(insights).toEqual([{ category: 'interest', content: 'Sailing', confidence: 0.6, derivedFrom: ['c1'] }]);
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for MCP Tool Argument Validation
+ *
+ * Tests cover:
+ * - Type checks, including integer vs number and nullable types
+ * - Required and additional properties
+ * - String, number and array constraints
+ * - Collecting violations from nested values
+ * - The declared tool input schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateSchema, formatViolations, JsonSchema } from '@/lib/mcp/schema';
+import { TOOL_DEFINITIONS, findTool } from '@/lib/mcp/tools';
+
+function schemaFor(name: string): JsonSchema {
+    return findTool(name)!.inputSchema as JsonSchema;
+}
+
+describe('validateSchema', () => {
+    it('should accept valid values', () => {
+        expect(validateSchema({ query: 'rust', limit: 5 }, schemaFor('search_memory'))).toEqual([]);
+    });
+
+    it('should check types', () => {
+        expect(validateSchema('x', { type: 'object' })).toEqual([{ path: '', message: 'must be object, got string' }]);
+        expect(validateSchema(1.5, { type: 'integer' })[0].message).toBe('must be integer, got number');
+        expect(validateSchema(2, { type: 'number' })).toEqual([]);
+        expect(validateSchema([], { type: 'object' })[0].message).toBe('must be object, got array');
+    });
+
+    it('should accept any of several types', () => {
+        const schema: JsonSchema = { type: ['string', 'null'] };
+        expect(validateSchema(null, schema)).toEqual([]);
+        expect(validateSchema(3, schema)[0].message).toBe('must be string or null, got integer');
+    });
+
+    it('should report missing required and unexpected properties', () => {
+        const schema: JsonSchema = {
+            type: 'object',
+            properties: { a: { type: 'string' } },
+            required: ['a'],
+            additionalProperties: false
+        };
+
+        expect(validateSchema({ b: 1 }, schema)).toEqual([
+            { path: 'a', message: 'is required' },
+            { path: 'b', message: 'is not allowed' }
+        ]);
+    });
+
+    it('should enforce string, number and enum constraints', () => {
+        expect(validateSchema('', { type: 'string', minLength: 1 })[0].message).toBe('must not be empty');
+        expect(validateSchema('abc', { type: 'string', maxLength: 2 })[0].message).toBe('must be at most 2 characters');
+        expect(validateSchema('abc', { type: 'string', pattern: '^[0-9]+$' })[0].message).toBe('must match ^[0-9]+$');
+        expect(validateSchema(0, { type: 'integer', minimum: 1 })[0].message).toBe('must be >= 1');
+        expect(validateSchema('x', { enum: ['a', 'b'] })[0].message).toBe('must be one of "a", "b"');
+    });
+
+    it('should collect every violation with its path', () => {
+        const violations = validateSchema(
+            { title: '', messages: [{ role: 'robot' }, { content: 'hi' }] },
+            schemaFor('archive_conversation')
+        );
+
+        expect(violations.map(v => v.path)).toEqual([
+            'title',
+            'messages[0].content',
+            'messages[0].role',
+            'messages[1].role'
+        ]);
+    });
+
+    it('should enforce array bounds', () => {
+        expect(validateSchema({ title: 'Chat', messages: [] }, schemaFor('archive_conversation')))
+            .toEqual([{ path: 'messages', message: 'must have at least 1 item' }]);
+    });
+});
+
+describe('formatViolations', () => {
+    it('should join violations into one message', () => {
+        expect(formatViolations([
+            { path: 'query', message: 'is required' },
+            { path: '', message: 'must be object, got null' }
+        ])).toBe('query is required; must be object, got null');
+    });
+});
+
+describe('tool input schemas', () => {
+    it('should only use supported keywords', () => {
+        const supported = new Set([
+            'type', 'description', 'default', 'enum', 'properties', 'required', 'additionalProperties',
+            'items', 'minItems', 'maxItems', 'minLength', 'maxLength', 'pattern', 'minimum', 'maximum'
+        ]);
+        const visit = (schema: Record<string, unknown>) => {
+            for (const key of Object.keys(schema)) {
+                expect(supported.has(key), key).toBe(true);
+            }
+            for (const child of Object.values((schema.properties as Record<string, Record<string, unknown>>) || {})) {
+                visit(child);
+            }
+            if (schema.items) visit(schema.items as Record<string, unknown>);
+        };
+
+        for (const tool of TOOL_DEFINITIONS) {
+            visit(tool.inputSchema as unknown as Record<string, unknown>);
+        }
+    });
+
+    it('should accept empty arguments for tools without required fields', () => {
+        expect(validateSchema({}, schemaFor('list_projects'))).toEqual([]);
+        expect(validateSchema({}, schemaFor('get_project_context'))).toEqual([]);
+    });
+
+    it('should not let issue_token request every permission', () => {
+        expect(validateSchema({ client: 'cursor', scope: ['*'] }, schemaFor('issue_token'))).toHaveLength(1);
+        expect(validateSchema({ client: 'cursor', scope: ['read:memories'] }, schemaFor('issue_token'))).toEqual([]);
+    });
+});
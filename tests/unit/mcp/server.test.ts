@@ -0,0 +1,294 @@
+/**
+ * Unit Tests for the MCP Server Request Handling
+ *
+ * Tests cover:
+ * - Locked vault errors and the vault/unlock handshake
+ * - tools/list output schemas
+ * - tools/call structuredContent and isError results
+ * - Logging tool calls without their argument values
+ * - Unknown tools and schema violations as JSON-RPC errors
+ * - Routing sampling responses back to the waiting tool call
+ * - Progress notifications and cancellation of tool calls
+ * - logging/setLevel and forwarded log notifications
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileMcpServer } from '@/lib/mcp/server';
+import { ProfileVault } from '@/lib/mcp/vault';
+import { EncryptedVaultStore } from '@/lib/mcp/store';
+import { McpTransport } from '@/lib/mcp/transports';
+import { McpNotification, McpRequest, McpResponse } from '@/lib/mcp/types';
+import { logger } from '@/lib/logger';
+import { resetAuditLogger } from '@/lib/mcp/audit';
+import { log } from '@/lib/mcp/config';
+import { MNEMONICS, PASSWORDS } from '../../fixtures/test-vectors';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    TRANSPORT_MODE: 'stdio',
+    SSE_PORT: 3001,
+    HTTP_PATH: '/mcp',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+class FakeTransport implements McpTransport {
+    handler: ((req: McpRequest, sessionId?: string) => Promise<void>) | null = null;
+    sent: McpResponse[] = [];
+
+    async start(handler: (req: McpRequest, sessionId?: string) => Promise<void>) {
+        this.handler = handler;
+    }
+
+    async send(response: McpResponse) {
+        this.sent.push(response);
+    }
+
+    async notify() { }
+
+    async request(method: string, params?: Record<string, unknown>): Promise<McpResponse> {
+        const id = this.sent.length + 1;
+        await this.handler!({ jsonrpc: '2.0', id, method, params } as McpRequest);
+        return this.sent.find(r => r.id === id)!;
+    }
+}
+
+describe('ProfileMcpServer', () => {
+    let dir: string;
+    let transport: FakeTransport;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setInterval'] });
+        resetAuditLogger();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-server-'));
+        transport = new FakeTransport();
+        const server = new ProfileMcpServer(new ProfileVault(new EncryptedVaultStore(dir)), transport, 'stdio');
+        await server.start();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function unlock() {
+        return transport.request('vault/unlock', { mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+    }
+
+    describe('vault lock', () => {
+        it('should reject data requests while locked', async () => {
+            const response = await transport.request('tools/call', { name: 'search_memory', arguments: { query: 'x' } });
+            expect(response.error?.code).toBe(-32003);
+        });
+
+        it('should unlock through the handshake', async () => {
+            const response = await unlock();
+
+            expect(response.result).toMatchObject({ unlocked: true });
+            expect((response.result as { did: string }).did).toMatch(/^did:key:z/);
+        });
+
+        it('should reject incomplete unlock params', async () => {
+            const response = await transport.request('vault/unlock', { mnemonic: MNEMONICS.standard });
+            expect(response.error?.code).toBe(-32602);
+        });
+    });
+
+    describe('tools', () => {
+        beforeEach(async () => {
+            await unlock();
+        });
+
+        it('should declare an output schema for every tool', async () => {
+            const response = await transport.request('tools/list');
+            const tools = (response.result as { tools: Array<{ name: string; outputSchema?: unknown }> }).tools;
+
+            expect(tools.length).toBeGreaterThan(0);
+            expect(tools.filter(t => !t.outputSchema).map(t => t.name)).toEqual([]);
+        });
+
+        it('should return structuredContent for successful calls', async () => {
+            const response = await transport.request('tools/call', {
+                name: 'add_memory',
+                arguments: { content: 'Prefers tabs' }
+            });
+            const result = response.result as any;
+
+            expect(result.isError).toBeUndefined();
+            expect(result.structuredContent.success).toBe(true);
+            expect(result.structuredContent.memory.content).toBe('Prefers tabs');
+            expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+        });
+
+        it('should log tool calls by argument name only', async () => {
+            vi.mocked(log).mockClear();
+            await transport.request('tools/call', {
+                name: 'add_memory',
+                arguments: { content: 'Takes lithium daily' }
+            });
+
+            expect(log).toHaveBeenCalledWith('Executing tool', { name: 'add_memory', arguments: ['content'] });
+            expect(JSON.stringify(vi.mocked(log).mock.calls)).not.toContain('lithium');
+        });
+
+        it('should flag failed calls with isError and an error code', async () => {
+            const response = await transport.request('tools/call', {
+                name: 'forget_memory',
+                arguments: { id: 'missing' }
+            });
+            const result = response.result as any;
+
+            expect(response.error).toBeUndefined();
+            expect(result.isError).toBe(true);
+            expect(result.structuredContent).toEqual({ error: 'Memory not found', code: 'not_found', id: 'missing' });
+        });
+
+        it('should use invalid_arguments for arguments the tool rejects', async () => {
+            const response = await transport.request('tools/call', { name: 'update_memory', arguments: { id: 'mem_1' } });
+            expect((response.result as any).structuredContent.code).toBe('invalid_arguments');
+        });
+
+        it('should list every schema violation before dispatch', async () => {
+            const response = await transport.request('tools/call', {
+                name: 'search_memory',
+                arguments: { limit: 500 }
+            });
+
+            expect(response.result).toBeUndefined();
+            expect(response.error?.code).toBe(-32602);
+            expect(response.error?.message).toBe('Invalid arguments for search_memory: query is required; limit must be <= 100');
+            expect((response.error as any).data.violations).toHaveLength(2);
+        });
+
+        it('should return a JSON-RPC error for unknown tools', async () => {
+            const response = await transport.request('tools/call', { name: 'does_not_exist', arguments: {} });
+            expect(response.error?.code).toBe(-32602);
+        });
+    });
+
+    describe('sampling', () => {
+        let server: ProfileMcpServer;
+
+        beforeEach(async () => {
+            vi.stubEnv('MCP_SAMPLING', 'on');
+            transport = new FakeTransport();
+            // Answer every sampling request like a client would
+            (transport as McpTransport).notify = async (message: any) => {
+                setTimeout(() => transport.handler!({
+                    jsonrpc: '2.0',
+                    id: message.id,
+                    result: { role: 'assistant', content: { type: 'text', text: 'A talk about parsers.' }, model: 'client-model' }
+                } as any));
+            };
+            server = new ProfileMcpServer(new ProfileVault(new EncryptedVaultStore(dir)), transport, 'stdio');
+            await server.start();
+            await unlock();
+            await transport.request('tools/call', { name: 'archive_conversation', arguments: { title: 'Parsers', messages: [{ role: 'user', content: 'How do parsers work?' }] } });
+        });
+
+        afterEach(() => {
+            vi.unstubAllEnvs();
+        });
+
+        it('should refuse enrich_profile for clients without the capability', async () => {
+            await transport.request('initialize', { capabilities: {} });
+            const response = await transport.request('tools/call', { name: 'enrich_profile', arguments: { tasks: ['summaries'] } });
+
+            expect((response.result as any).structuredContent.code).toBe('failed_precondition');
+        });
+
+        it('should summarize through the client', async () => {
+            await transport.request('initialize', { capabilities: { sampling: {} } });
+            const response = await transport.request('tools/call', { name: 'enrich_profile', arguments: { tasks: ['summaries'] } });
+
+            expect((response.result as any).structuredContent.summarized).toHaveLength(1);
+        });
+    });
+
+    describe('progress and cancellation', () => {
+        let notifications: Array<{ method: string; params?: Record<string, unknown> }>;
+        let profileVault: ProfileVault;
+
+        beforeEach(async () => {
+            notifications = [];
+            transport = new FakeTransport();
+            (transport as McpTransport).notify = async (notification: any) => {
+                notifications.push(notification);
+            };
+            profileVault = new ProfileVault(new EncryptedVaultStore(dir));
+            await new ProfileMcpServer(profileVault, transport, 'stdio').start();
+            await unlock();
+
+            // A long-running tool that reports halfway and then waits to be cancelled
+            vi.spyOn(profileVault, 'callTool').mockImplementation(async (_name, _args, context = {}) => {
+                context.progress?.(1, 2, 'Halfway');
+                await new Promise(resolve => context.signal?.addEventListener('abort', resolve));
+                throw context.signal?.reason;
+            });
+        });
+
+        it('should send progress for the caller\'s token and no response once cancelled', async () => {
+            const call = transport.handler!({
+                jsonrpc: '2.0',
+                id: 'call-1',
+                method: 'tools/call',
+                params: { name: 'analyze_vault', arguments: {}, _meta: { progressToken: 'tok' } }
+            } as McpRequest);
+            await vi.waitFor(() => expect(notifications).toHaveLength(1));
+
+            expect(notifications[0]).toEqual({
+                jsonrpc: '2.0',
+                method: 'notifications/progress',
+                params: { progressToken: 'tok', progress: 1, total: 2, message: 'Halfway' }
+            });
+
+            await transport.handler!({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 'call-1', reason: 'User stopped it' } } as any);
+            await call;
+
+            expect(transport.sent.find(r => r.id === 'call-1')).toBeUndefined();
+        });
+
+        it('should not send progress without a token', async () => {
+            const call = transport.handler!({ jsonrpc: '2.0', id: 'call-2', method: 'tools/call', params: { name: 'analyze_vault', arguments: {} } } as McpRequest);
+            await transport.handler!({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 'call-2' } } as any);
+            await call;
+
+            expect(notifications).toEqual([]);
+        });
+    });
+
+    describe('logging', () => {
+        it('should declare the logging capability', async () => {
+            const response = await transport.request('initialize', { capabilities: {} });
+            expect((response.result as any).capabilities.logging).toEqual({});
+        });
+
+        it('should reject unknown levels', async () => {
+            const response = await transport.request('logging/setLevel', { level: 'verbose' });
+            expect(response.error?.code).toBe(-32602);
+        });
+
+        it('should forward logs once the client sets a level', async () => {
+            const notifications: McpNotification[] = [];
+            (transport as McpTransport).notify = async (notification: McpNotification) => {
+                notifications.push(notification);
+            };
+
+            logger.warn('Before opting in');
+            const response = await transport.request('logging/setLevel', { level: 'warning' });
+            logger.info('Below the level');
+            logger.warn('Vault file changed on disk', { secret: 'x' });
+
+            expect(response.result).toEqual({});
+            expect(notifications).toHaveLength(1);
+            expect(notifications[0].params).toMatchObject({
+                level: 'warning',
+                data: { message: 'Vault file changed on disk', metadata: { secret: '[REDACTED]' } }
+            });
+        });
+    });
+});
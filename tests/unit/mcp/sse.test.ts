@@ -0,0 +1,58 @@
+/**
+ * Unit Tests for the MCP SSE Transport
+ *
+ * Tests cover:
+ * - Session closed listeners firing when a client disconnects
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as net from 'net';
+import { SseTransport } from '@/lib/mcp/transports/sse';
+
+vi.mock('@/lib/mcp/config', () => ({
+    log: vi.fn(),
+    logError: vi.fn()
+}));
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+describe('SseTransport', () => {
+    let transport: SseTransport;
+    let base: string;
+
+    beforeEach(async () => {
+        const port = await freePort();
+        transport = new SseTransport(port);
+        base = `http://127.0.0.1:${port}`;
+        await transport.start(async () => { });
+    });
+
+    afterEach(async () => {
+        await transport.stop();
+    });
+
+    it('should notify session closed listeners when a client disconnects', async () => {
+        const closed = new Promise<string>(resolve => transport.onSessionClosed(resolve));
+        const controller = new AbortController();
+
+        const res = await fetch(`${base}/sse`, { signal: controller.signal });
+        const reader = res.body!.getReader();
+        const { value } = await reader.read();
+        const sessionId = /sessionId=([\w-]+)/.exec(new TextDecoder().decode(value))![1];
+        expect(transport.getActiveSessionCount()).toBe(1);
+
+        controller.abort();
+
+        expect(await closed).toBe(sessionId);
+        expect(transport.getActiveSessionCount()).toBe(0);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * Unit Tests for the MCP Encrypted Vault Store
+ *
+ * Tests cover:
+ * - Creating and reopening the vault with mnemonic + password
+ * - Unlocking with the derived key (env secret)
+ * - Rejecting wrong credentials
+ * - .pvault-compatible envelope with no plaintext profile data
+ * - ProfileVault migration and encrypted tool writes
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EncryptedVaultStore, credentialsFromEnv, exportVaultKey } from '@/lib/mcp/store';
+import { ProfileVault } from '@/lib/mcp/vault';
+import { MNEMONICS, PASSWORDS } from '../../fixtures/test-vectors';
+import { PortableProfile } from '@/lib/types';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+const credentials = { mnemonic: MNEMONICS.standard, password: PASSWORDS.simple };
+
+function makeProfile(): PortableProfile {
+    return {
+        identity: { displayName: 'Ada', fullName: 'Ada Lovelace', email: 'ada@example.com', location: '', role: 'Engineer' },
+        preferences: [],
+        shortTermMemory: [{
+            id: 'm1',
+            timestamp: '2025-01-01T00:00:00.000Z',
+            content: 'Secret memory',
+            tags: [],
+            type: 'fact',
+            sourceModel: 'test',
+            sourceProvider: 'local',
+            confidence: 1
+        }],
+        longTermMemory: [],
+        projects: [],
+        conversations: [],
+        insights: [],
+        activeGrants: []
+    };
+}
+
+describe('EncryptedVaultStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-vault-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should create a vault on first unlock and read it back', async () => {
+        const store = new EncryptedVaultStore(dir);
+        const opened = await store.open(credentials);
+
+        expect(opened.profile).toBeNull();
+        expect(opened.did).toMatch(/^did:key:z/);
+
+        await store.write(makeProfile());
+
+        const reopened = await new EncryptedVaultStore(dir).open(credentials);
+        expect(reopened.profile?.shortTermMemory[0].content).toBe('Secret memory');
+        expect(reopened.did).toBe(opened.did);
+    });
+
+    it('should write a .pvault envelope without plaintext data', async () => {
+        const store = new EncryptedVaultStore(dir);
+        await store.open(credentials);
+        await store.write(makeProfile());
+
+        const raw = fs.readFileSync(store.filePath, 'utf8');
+        const file = JSON.parse(raw);
+
+        expect(raw).not.toContain('Secret memory');
+        expect(file.version).toBe(2);
+        expect(file.identity.did).toBe(store.did);
+        expect(file.vault.metadata.ownerDid).toBe(store.did);
+        expect(file.vault.ciphertext).toBeTruthy();
+        expect(file.vault.iv).toBeTruthy();
+    });
+
+    it('should unlock with the derived key', async () => {
+        const store = new EncryptedVaultStore(dir);
+        const { jwtPublicKey } = await store.open(credentials);
+        await store.write(makeProfile());
+
+        const key = await exportVaultKey(credentials.mnemonic, credentials.password);
+        const opened = await new EncryptedVaultStore(dir).open({ key });
+
+        expect(opened.profile?.identity.fullName).toBe('Ada Lovelace');
+        expect(opened.jwtPublicKey).toBe(jwtPublicKey);
+    });
+
+    it('should keep the JWT signing key encrypted for key-only unlocks', async () => {
+        const store = new EncryptedVaultStore(dir);
+        await store.open(credentials);
+        await store.write(makeProfile());
+
+        const signingKeyHex = Buffer.from(store.jwtSigningKey!).toString('hex');
+        expect(fs.readFileSync(store.filePath, 'utf8')).not.toContain(signingKeyHex);
+
+        const key = await exportVaultKey(credentials.mnemonic, credentials.password);
+        const reopened = new EncryptedVaultStore(dir);
+        await reopened.open({ key });
+
+        expect(reopened.jwtSigningKey).toEqual(store.jwtSigningKey);
+    });
+
+    it('should reject a wrong password without opening', async () => {
+        const store = new EncryptedVaultStore(dir);
+        await store.open(credentials);
+        await store.write(makeProfile());
+
+        const other = new EncryptedVaultStore(dir);
+        await expect(other.open({ ...credentials, password: 'wrong' })).rejects.toThrow('Decryption failed');
+        expect(other.isOpen).toBe(false);
+    });
+
+    it('should reject a different identity', async () => {
+        const store = new EncryptedVaultStore(dir);
+        await store.open(credentials);
+        await store.write(makeProfile());
+
+        await expect(
+            new EncryptedVaultStore(dir).open({ mnemonic: MNEMONICS.alternative, password: PASSWORDS.simple })
+        ).rejects.toThrow('different identity');
+    });
+
+    it('should refuse to create a vault from a key alone', async () => {
+        const key = Buffer.alloc(32, 1).toString('base64');
+        await expect(new EncryptedVaultStore(dir).open({ key })).rejects.toThrow('No encrypted vault found');
+        await expect(new EncryptedVaultStore(dir).open({ key: 'c2hvcnQ=' })).rejects.toThrow('Invalid vault key');
+    });
+
+    it('should merge plaintext stores from dashboard backups', async () => {
+        const store = new EncryptedVaultStore(dir);
+        await store.open(credentials);
+        await store.write(makeProfile());
+
+        const file = JSON.parse(fs.readFileSync(store.filePath, 'utf8'));
+        file.memories = [
+            { ...makeProfile().shortTermMemory[0] },
+            { ...makeProfile().shortTermMemory[0], id: 'm2', content: 'From dashboard' }
+        ];
+        fs.writeFileSync(store.filePath, JSON.stringify(file));
+
+        const profile = await store.read();
+        expect(profile.shortTermMemory.map(m => m.id)).toEqual(['m1']);
+        expect(profile.longTermMemory.map(m => m.id)).toEqual(['m2']);
+    });
+});
+
+describe('credentialsFromEnv', () => {
+    it('should prefer the key over mnemonic and password', () => {
+        expect(credentialsFromEnv({ PROFILE_VAULT_KEY: 'k', PROFILE_VAULT_MNEMONIC: 'm', PROFILE_VAULT_PASSWORD: 'p' }))
+            .toEqual({ key: 'k' });
+        expect(credentialsFromEnv({ PROFILE_VAULT_MNEMONIC: 'm', PROFILE_VAULT_PASSWORD: 'p' }))
+            .toEqual({ mnemonic: 'm', password: 'p' });
+        expect(credentialsFromEnv({ PROFILE_VAULT_MNEMONIC: 'm' })).toBeNull();
+    });
+});
+
+describe('ProfileVault with encrypted store', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-vault-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should start locked', () => {
+        expect(new ProfileVault(new EncryptedVaultStore(dir)).isLocked).toBe(true);
+    });
+
+    it('should migrate a plaintext profile.json and remove it', async () => {
+        fs.writeFileSync(path.join(dir, 'profile.json'), JSON.stringify(makeProfile()));
+
+        const profileVault = new ProfileVault(new EncryptedVaultStore(dir));
+        await profileVault.unlock(credentials);
+
+        expect(profileVault.isLocked).toBe(false);
+        expect(fs.existsSync(path.join(dir, 'profile.json'))).toBe(false);
+
+        const reopened = await new EncryptedVaultStore(dir).open(credentials);
+        expect(reopened.profile?.identity.fullName).toBe('Ada Lovelace');
+    });
+
+    it('should persist add_memory and archive_conversation encrypted', async () => {
+        const profileVault = new ProfileVault(new EncryptedVaultStore(dir));
+        await profileVault.unlock(credentials);
+
+        await profileVault.callTool('add_memory', { content: 'Likes TypeScript' });
+        await profileVault.callTool('archive_conversation', {
+            title: 'Vault design',
+            messages: [{ role: 'user', content: 'How should we encrypt?' }]
+        });
+
+        const raw = fs.readFileSync(path.join(dir, 'vault.pvault'), 'utf8');
+        expect(raw).not.toContain('Likes TypeScript');
+
+        const { profile } = await new EncryptedVaultStore(dir).open(credentials);
+        expect(profile?.shortTermMemory.map(m => m.content)).toContain('Likes TypeScript');
+        expect(profile?.conversations.map(c => c.title)).toEqual(['Vault design']);
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit Tests for MCP Resource Subscriptions
+ *
+ * Tests cover:
+ * - Mapping resource URIs to profile sections
+ * - Subscribe / unsubscribe bookkeeping
+ * - Finding subscriptions affected by a change
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SubscriptionManager, getResourceSections } from '@/lib/mcp/subscriptions';
+
+describe('getResourceSections', () => {
+    it('should map static and parameterized URIs to sections', () => {
+        expect(getResourceSections('profile://identity')).toEqual(['identity']);
+        expect(getResourceSections('profile://memory/search?q=rust')).toEqual(['memories']);
+        expect(getResourceSections('profile://conversations/conv_1')).toEqual(['conversations']);
+    });
+
+    it('should make stats depend on every aggregated section', () => {
+        expect(getResourceSections('profile://stats')).toEqual(
+            expect.arrayContaining(['memories', 'conversations', 'preferences'])
+        );
+    });
+
+    it('should return no sections for unknown URIs', () => {
+        expect(getResourceSections('profile://unknown')).toEqual([]);
+    });
+});
+
+describe('SubscriptionManager', () => {
+    let manager: SubscriptionManager;
+
+    beforeEach(() => {
+        manager = new SubscriptionManager();
+    });
+
+    it('should report subscriptions affected by a change', () => {
+        manager.subscribe('s1', 'profile://memory/recent');
+        manager.subscribe('s1', 'profile://preferences');
+        manager.subscribe('s2', 'profile://stats');
+
+        expect(manager.getAffected(['memories'])).toEqual([
+            { sessionId: 's1', uri: 'profile://memory/recent' },
+            { sessionId: 's2', uri: 'profile://stats' }
+        ]);
+    });
+
+    it('should deduplicate repeated subscriptions', () => {
+        manager.subscribe('s1', 'profile://identity');
+        manager.subscribe('s1', 'profile://identity');
+
+        expect(manager.getSubscriptions('s1')).toEqual(['profile://identity']);
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+        manager.subscribe('s1', 'profile://identity');
+
+        expect(manager.unsubscribe('s1', 'profile://identity')).toBe(true);
+        expect(manager.unsubscribe('s1', 'profile://identity')).toBe(false);
+        expect(manager.getAffected(['identity'])).toEqual([]);
+    });
+
+    it('should drop all subscriptions when a session is removed', () => {
+        manager.subscribe('s1', 'profile://identity');
+        manager.subscribe('s1', 'profile://insights');
+        manager.removeSession('s1');
+
+        expect(manager.getSubscriptions('s1')).toEqual([]);
+        expect(manager.getAffected(['identity', 'insights'])).toEqual([]);
+    });
+});
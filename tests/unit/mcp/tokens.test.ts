@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for the MCP Token Service
+ *
+ * Tests cover:
+ * - Minting scoped, short-lived access tokens
+ * - Refresh token rotation and reuse detection
+ * - Listing and revoking issued tokens
+ * - Persisting the jti denylist
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TokenService, TOKENS_FILENAME } from '@/lib/mcp/tokens';
+import { deriveJwtSigningKey, verifyJwt, JwtKeyPair } from '@/lib/vault/identity';
+import { MNEMONICS } from '../../fixtures/test-vectors';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+describe('TokenService', () => {
+    let dir: string;
+    let keys: JwtKeyPair;
+    let service: TokenService;
+
+    beforeEach(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-tokens-'));
+        keys = await deriveJwtSigningKey(MNEMONICS.standard);
+        service = new TokenService({ signingKey: keys.privateKey, did: 'did:key:zOwner', dir });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should mint a scoped token for a client', async () => {
+        const pair = await service.issue({ client: 'cursor', scope: ['read:memories'], ttlSeconds: 600 });
+        const payload = await verifyJwt(pair.accessToken, keys.publicKey);
+
+        expect(payload).toMatchObject({ sub: 'did:key:zOwner', client: 'cursor', scope: ['read:memories'], jti: pair.jti });
+        expect(payload.exp - payload.iat).toBeGreaterThanOrEqual(599);
+        expect(pair.refreshToken.startsWith(`${pair.jti}.`)).toBe(true);
+    });
+
+    it('should carry the persona through refreshes', async () => {
+        const first = await service.issue({ client: 'cursor', scope: ['read:memories'], persona: 'persona_work' });
+        expect((await verifyJwt(first.accessToken, keys.publicKey)).persona).toBe('persona_work');
+
+        const second = await service.refresh(first.refreshToken);
+        expect((await verifyJwt(second.accessToken, keys.publicKey)).persona).toBe('persona_work');
+        expect(service.list()[0].persona).toBe('persona_work');
+    });
+
+    it('should reject lifetimes above the maximum', async () => {
+        await expect(service.issue({ client: 'cursor', scope: [], ttlSeconds: 86400 })).rejects.toThrow('Token lifetime');
+    });
+
+    it('should rotate refresh tokens', async () => {
+        const first = await service.issue({ client: 'cursor', scope: ['read:memories'] });
+        const second = await service.refresh(first.refreshToken);
+
+        expect(second.jti).not.toBe(first.jti);
+        expect((await verifyJwt(second.accessToken, keys.publicKey)).scope).toEqual(['read:memories']);
+        expect(service.isRevoked(first.jti)).toBe(true);
+        expect(service.isRevoked(second.jti)).toBe(false);
+    });
+
+    it('should revoke the whole chain when a refresh token is reused', async () => {
+        const first = await service.issue({ client: 'cursor', scope: [] });
+        const second = await service.refresh(first.refreshToken);
+
+        await expect(service.refresh(first.refreshToken)).rejects.toThrow('already been used');
+        expect(service.isRevoked(second.jti)).toBe(true);
+        await expect(service.refresh(second.refreshToken)).rejects.toThrow('already been used');
+    });
+
+    it('should reject unknown or tampered refresh tokens', async () => {
+        const pair = await service.issue({ client: 'cursor', scope: [] });
+
+        await expect(service.refresh('nope')).rejects.toThrow('Invalid refresh token');
+        await expect(service.refresh(`${pair.jti}.wrong-secret`)).rejects.toThrow('Invalid refresh token');
+    });
+
+    it('should list issued tokens without secrets and revoke them', async () => {
+        const pair = await service.issue({ client: 'cursor', scope: ['read:stats'] });
+
+        const [listed] = service.list();
+        expect(listed).toMatchObject({ jti: pair.jti, client: 'cursor', scope: ['read:stats'] });
+        expect(listed).not.toHaveProperty('refreshHash');
+
+        expect(service.revoke(pair.jti)).toBe(true);
+        expect(service.revoke('missing')).toBe(false);
+        expect(service.list()[0].revokedAt).toBeDefined();
+        await expect(service.refresh(pair.refreshToken)).rejects.toThrow('already been used');
+    });
+
+    it('should persist the denylist without storing tokens', async () => {
+        const pair = await service.issue({ client: 'cursor', scope: [] });
+        service.revoke(pair.jti);
+
+        const raw = fs.readFileSync(path.join(dir, TOKENS_FILENAME), 'utf8');
+        expect(raw).not.toContain(pair.accessToken);
+        expect(raw).not.toContain(pair.refreshToken.split('.')[1]);
+
+        const reloaded = new TokenService({ signingKey: keys.privateKey, did: 'did:key:zOwner', dir });
+        expect(reloaded.isRevoked(pair.jti)).toBe(true);
+    });
+
+    it('should drop expired entries', async () => {
+        let now = Date.now();
+        const clocked = new TokenService({ signingKey: keys.privateKey, did: 'did:key:zOwner', dir, now: () => now });
+        const pair = await clocked.issue({ client: 'cursor', scope: [] });
+        clocked.revoke(pair.jti);
+
+        now += 31 * 24 * 60 * 60 * 1000;
+        expect(clocked.list()).toEqual([]);
+        expect(clocked.isRevoked(pair.jti)).toBe(false);
+    });
+});
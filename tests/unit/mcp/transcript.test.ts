@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for MCP Session Transcripts
+ *
+ * Tests cover:
+ * - Appending messages and keeping counts current
+ * - Keyword extraction
+ * - Finalizing with summary and tags
+ */
+
+import { describe, it, expect } from 'vitest';
+import { appendMessages, extractKeywords, finalizeTranscript, countWords } from '@/lib/mcp/transcript';
+import { Conversation } from '@/lib/types';
+
+function emptyConversation(): Conversation {
+    return {
+        id: 'conv_1',
+        title: 'Session',
+        messages: [],
+        metadata: {
+            provider: 'other',
+            model: 'test-model',
+            createdAt: 1000,
+            updatedAt: 1000,
+            importedAt: 1000,
+            messageCount: 0,
+            wordCount: 0
+        },
+        tags: []
+    };
+}
+
+describe('Session Transcripts', () => {
+    describe('appendMessages', () => {
+        it('should append messages and update counts', () => {
+            let conversation = appendMessages(emptyConversation(), [{ role: 'user', content: 'How do I use React hooks?' }], 2000);
+            conversation = appendMessages(conversation, [{ role: 'assistant', content: 'Call them at the top level.' }], 3000);
+
+            expect(conversation.messages.map(m => m.role)).toEqual(['user', 'assistant']);
+            expect(conversation.messages[0].metadata?.model).toBe('test-model');
+            expect(conversation.metadata).toMatchObject({ messageCount: 2, wordCount: 12, updatedAt: 3000, createdAt: 1000 });
+        });
+
+        it('should keep client timestamps', () => {
+            const conversation = appendMessages(emptyConversation(), [{ role: 'user', content: 'hi', timestamp: 1500 }], 2000);
+            expect(conversation.messages[0].timestamp).toBe(1500);
+        });
+    });
+
+    describe('countWords', () => {
+        it('should ignore repeated whitespace', () => {
+            expect(countWords([{ content: '  one   two\nthree ' }])).toBe(3);
+        });
+    });
+
+    describe('extractKeywords', () => {
+        it('should rank words by frequency, skipping stopwords, numbers and short words', () => {
+            const keywords = extractKeywords('The postgres index is slow. Postgres index tuning in 2024 with go', 3);
+            expect(keywords).toEqual(['postgres', 'index', 'slow']);
+        });
+    });
+
+    describe('finalizeTranscript', () => {
+        it('should summarize and tag from user messages', () => {
+            const conversation = finalizeTranscript(appendMessages(emptyConversation(), [
+                { role: 'user', content: 'Deploying kubernetes with helm charts' },
+                { role: 'assistant', content: 'Sure, terraform also works' },
+                { role: 'user', content: 'Only kubernetes please' }
+            ]));
+
+            expect(conversation.tags[0]).toBe('kubernetes');
+            expect(conversation.tags).not.toContain('terraform');
+            expect(conversation.summary).toMatch(/^Discussion about: kubernetes/);
+            expect(conversation.metadata.messageCount).toBe(3);
+        });
+
+        it('should keep a summary and tags the conversation already has', () => {
+            const conversation = finalizeTranscript({
+                ...appendMessages(emptyConversation(), [{ role: 'user', content: 'Kubernetes question' }]),
+                summary: 'Given summary',
+                tags: ['work']
+            });
+
+            expect(conversation.summary).toBe('Given summary');
+            expect(conversation.tags).toEqual(['work', 'kubernetes', 'question']);
+        });
+
+        it('should leave an empty transcript without a summary', () => {
+            expect(finalizeTranscript(emptyConversation()).summary).toBeUndefined();
+        });
+    });
+});
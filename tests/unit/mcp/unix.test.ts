@@ -0,0 +1,220 @@
+/**
+ * Unit Tests for the MCP Unix Socket Transport
+ *
+ * Tests cover:
+ * - Socket file permission checks
+ * - Trusting connections through a private socket as the vault owner
+ * - Requiring an AccessGrant when the socket cannot be trusted
+ * - Accepting an AccessGrant in initialize
+ * - Queueing lines pipelined behind an initialize whose grant is being checked
+ * - Session closed listeners and socket removal on stop
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { UnixSocketTransport, UNIX_SOCKET_CLIENT, checkSocketPermissions } from '@/lib/mcp/transports/unix';
+import { McpAuthMiddleware } from '@/lib/mcp/auth';
+import { AuditLogger } from '@/lib/mcp/audit';
+import { McpRequest } from '@/lib/mcp/types';
+import { createWalletIdentity, signAccessGrant, WalletKeys } from '@/lib/vault/identity';
+import { MNEMONICS } from '../../fixtures/test-vectors';
+
+vi.mock('@/lib/mcp/config', () => ({
+    log: vi.fn(),
+    logError: vi.fn()
+}));
+
+/**
+ * Line-oriented client that collects every message the server sends.
+ */
+async function connect(socketPath: string) {
+    const socket = net.connect(socketPath);
+    await new Promise<void>((resolve, reject) => {
+        socket.once('connect', resolve);
+        socket.once('error', reject);
+    });
+
+    const messages: Array<Record<string, unknown>> = [];
+    let buffer = '';
+    let closed = false;
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        messages.push(...lines.filter(Boolean).map(line => JSON.parse(line)));
+    });
+    socket.on('close', () => closed = true);
+
+    return {
+        messages,
+        isClosed: () => closed,
+        // One write, so the server receives every line in the same chunk
+        send: (...lines: unknown[]) => socket.write(lines.map(line => JSON.stringify(line) + '\n').join('')),
+        close: () => socket.destroy()
+    };
+}
+
+describe('UnixSocketTransport', () => {
+    let dir: string;
+    let socketPath: string;
+    let transport: UnixSocketTransport;
+    let handled: string[];
+    let sessions: Array<string | undefined>;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-unix-'));
+        socketPath = path.join(dir, 'mcp.sock');
+        transport = new UnixSocketTransport(socketPath);
+        handled = [];
+        sessions = [];
+    });
+
+    afterEach(async () => {
+        await transport.stop();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const start = () => transport.start(async (req: McpRequest, sessionId?: string) => {
+        handled.push(req.method);
+        sessions.push(sessionId);
+        if (req.id !== undefined) {
+            await transport.send({ jsonrpc: '2.0', id: req.id, result: { method: req.method } }, sessionId);
+        }
+    });
+
+    describe('checkSocketPermissions', () => {
+        it('should trust only a private socket in a private directory', async () => {
+            await start();
+            expect(checkSocketPermissions(socketPath)).toBeNull();
+
+            fs.chmodSync(socketPath, 0o666);
+            expect(checkSocketPermissions(socketPath)).toBe('socket is accessible to other users');
+
+            fs.chmodSync(socketPath, 0o600);
+            fs.chmodSync(dir, 0o777);
+            expect(checkSocketPermissions(socketPath)).toBe('socket directory is writable by other users');
+        });
+    });
+
+    describe('trusted connections', () => {
+        it('should answer requests as the vault owner', async () => {
+            const middleware = new McpAuthMiddleware({ transport: 'unix', auditLogger: new AuditLogger({ maxLogs: 100 }) });
+            transport.setAuthMiddleware(middleware);
+            await start();
+            const client = await connect(socketPath);
+
+            client.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+            await vi.waitFor(() => expect(client.messages).toEqual([
+                { jsonrpc: '2.0', id: 1, result: { method: 'initialize' } }
+            ]));
+            const authSession = transport.getAuthSession(sessions[0]!);
+            expect(authSession?.client).toBe(UNIX_SOCKET_CLIENT);
+            expect(authSession?.did).toBe('local');
+            client.close();
+        });
+
+        it('should notify session closed listeners when a client disconnects', async () => {
+            await start();
+            const closed = vi.fn();
+            transport.onSessionClosed(closed);
+            const client = await connect(socketPath);
+            client.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+            await vi.waitFor(() => expect(client.messages).toHaveLength(1));
+
+            client.close();
+
+            await vi.waitFor(() => expect(closed).toHaveBeenCalledWith(sessions[0]));
+        });
+    });
+
+    describe('untrusted connections', () => {
+        let ownerKeys: WalletKeys;
+        let middleware: McpAuthMiddleware;
+
+        beforeEach(async () => {
+            const owner = await createWalletIdentity(MNEMONICS.standard);
+            ownerKeys = owner.keys;
+            middleware = new McpAuthMiddleware({
+                transport: 'unix',
+                ownerDid: owner.identity.did,
+                auditLogger: new AuditLogger({ maxLogs: 100 })
+            });
+            transport.setAuthMiddleware(middleware);
+            await start();
+            // Others may connect now, so connections must bring a grant
+            fs.chmodSync(socketPath, 0o666);
+        });
+
+        it('should accept an AccessGrant in initialize', async () => {
+            const accessGrant = await signAccessGrant({
+                id: 'grant-unix',
+                grantee: 'Local Agent',
+                permissions: ['read_memory'],
+                expiresAt: Date.now() + 3600000
+            }, ownerKeys.privateKey);
+            const client = await connect(socketPath);
+
+            client.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { accessGrant } });
+            await vi.waitFor(() => expect(client.messages.map(m => m.id)).toEqual([1]));
+            client.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+            await vi.waitFor(() => expect(client.messages.map(m => m.id)).toEqual([1, 2]));
+            expect(handled).toEqual(['initialize', 'tools/list']);
+            expect(transport.getAuthSession(sessions[0]!)?.grantId).toBe('grant-unix');
+            expect(client.isClosed()).toBe(false);
+            client.close();
+        });
+
+        it('should queue lines pipelined behind initialize until its grant is checked', async () => {
+            // Hold the grant check open so the next line arrives while it runs
+            const authenticateWithGrant = middleware.authenticateWithGrant.bind(middleware);
+            vi.spyOn(middleware, 'authenticateWithGrant').mockImplementation(async (...args) => {
+                await new Promise(resolve => setTimeout(resolve, 50));
+                return authenticateWithGrant(...args);
+            });
+            const accessGrant = await signAccessGrant({
+                id: 'grant-unix',
+                grantee: 'Local Agent',
+                permissions: ['read_memory'],
+                expiresAt: Date.now() + 3600000
+            }, ownerKeys.privateKey);
+            const client = await connect(socketPath);
+
+            client.send(
+                { jsonrpc: '2.0', id: 1, method: 'initialize', params: { accessGrant } },
+                { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+            );
+
+            await vi.waitFor(() => expect(client.messages.map(m => m.id)).toEqual([1, 2]));
+            expect(handled).toEqual(['initialize', 'tools/list']);
+            expect(transport.getAuthSession(sessions[0]!)?.grantId).toBe('grant-unix');
+            expect(client.isClosed()).toBe(false);
+            client.close();
+        });
+
+        it('should close connections that do not authenticate first', async () => {
+            const client = await connect(socketPath);
+
+            client.send({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+            await vi.waitFor(() => expect(client.isClosed()).toBe(true));
+            expect(handled).toEqual([]);
+        });
+    });
+
+    describe('stop', () => {
+        it('should remove the socket file', async () => {
+            await start();
+            expect(fs.existsSync(socketPath)).toBe(true);
+
+            await transport.stop();
+
+            expect(fs.existsSync(socketPath)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,693 @@
+/**
+ * Unit Tests for MCP ProfileVault Memory Tools
+ *
+ * Tests cover:
+ * - update_memory field changes and validation
+ * - forget_memory removal
+ * - pin_memory keeping memories in short-term memory and ranking first
+ * - Audit entries with old and new versions
+ * - Verifying the persisted audit log on unlock
+ * - Failing tool calls whose vault write fails
+ * - Project listing, active project and project context
+ * - Ranked, budgeted context for get_context_for_task
+ * - Issuing, refreshing and revoking client tokens, no broader than the caller's scope
+ * - Revoking access grants the vault owner signed
+ * - Enriching conversations, memories and insights through sampling
+ * - Holding remote writes for review and reporting their status
+ * - Capturing session transcripts
+ * - Personas: selection, bound sessions and scoped reads and writes
+ * - Keeping persona-bound sessions out of the audit log and review inbox
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProfileVault } from '@/lib/mcp/vault';
+import { EncryptedVaultStore } from '@/lib/mcp/store';
+import { getAuditLogger, resetAuditLogger } from '@/lib/mcp/audit';
+import { AUDIT_DIRNAME, segmentFileName } from '@/lib/mcp/auditstore';
+import { createWalletIdentity, signAccessGrant } from '@/lib/vault/identity';
+import { MNEMONICS, PASSWORDS } from '../../fixtures/test-vectors';
+import { Conversation, MemoryFragment, PortableProfile } from '@/lib/types';
+
+vi.mock('@/lib/mcp/config', () => ({
+    VAULT_PATH: '/nonexistent',
+    log: vi.fn(),
+    logError: vi.fn(),
+    logAudit: vi.fn()
+}));
+
+function makeMemory(id: string, content: string): MemoryFragment {
+    return {
+        id,
+        timestamp: '2025-01-01T00:00:00.000Z',
+        content,
+        tags: ['rust'],
+        type: 'fact',
+        sourceModel: 'test',
+        sourceProvider: 'local',
+        confidence: 0.8
+    };
+}
+
+function makeConversation(id: string, title: string): Conversation {
+    return {
+        id,
+        title,
+        messages: [],
+        metadata: { provider: 'anthropic', model: 'test', createdAt: 0, updatedAt: 0, importedAt: 0, messageCount: 0, wordCount: 0 },
+        tags: []
+    };
+}
+
+function makeProfile(): PortableProfile {
+    return {
+        identity: { displayName: 'Ada', fullName: 'Ada Lovelace', email: '', location: '', role: '' },
+        preferences: [],
+        shortTermMemory: [
+            { ...makeMemory('m1', 'Uses Rust daily'), conversationId: 'c1' },
+            makeMemory('m2', 'Learning Rust macros')
+        ],
+        longTermMemory: [makeMemory('m3', 'Wrote Rust in 2019')],
+        projects: [
+            { id: 'p1', name: 'Compiler', description: 'Toy compiler', techStack: ['Rust'], relatedMemories: ['m1', 'm3'] },
+            { id: 'p2', name: 'Website', description: '', techStack: ['TypeScript'], relatedMemories: [], relatedConversations: ['c2'] }
+        ],
+        conversations: [makeConversation('c1', 'Parser design'), makeConversation('c2', 'Landing page')],
+        insights: [],
+        activeGrants: []
+    };
+}
+
+describe('ProfileVault tools', () => {
+    let dir: string;
+    let profileVault: ProfileVault;
+
+    beforeEach(async () => {
+        resetAuditLogger();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-vault-'));
+        // Seed through the legacy plaintext migration
+        fs.writeFileSync(path.join(dir, 'profile.json'), JSON.stringify(makeProfile()));
+        profileVault = new ProfileVault(new EncryptedVaultStore(dir));
+        await profileVault.unlock({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function readMemories() {
+        const result = await profileVault.readResource('profile://memory/all') as { memories: MemoryFragment[] };
+        return result.memories;
+    }
+
+    describe('update_memory', () => {
+        it('should change only the given fields', async () => {
+            const result = await profileVault.callTool('update_memory', { id: 'm1', content: 'Uses Go daily' }) as any;
+
+            expect(result.success).toBe(true);
+            expect(result.memory.content).toBe('Uses Go daily');
+            expect(result.memory.tags).toEqual(['rust']);
+            expect((await readMemories()).find(m => m.id === 'm1')?.content).toBe('Uses Go daily');
+        });
+
+        it('should update memories in long-term memory', async () => {
+            await profileVault.callTool('update_memory', { id: 'm3', confidence: 0.2 });
+            expect((await readMemories()).find(m => m.id === 'm3')?.confidence).toBe(0.2);
+        });
+
+        it('should audit the old and new versions', async () => {
+            await profileVault.callTool('update_memory', { id: 'm1', tags: ['go'] }, { sessionId: 'session-1' });
+
+            const [entry] = getAuditLogger().getLogsByType('memory_modified');
+            expect(entry.sessionId).toBe('session-1');
+            expect(entry.metadata).toMatchObject({
+                action: 'update',
+                memoryId: 'm1',
+                before: { tags: ['rust'] },
+                after: { tags: ['go'] }
+            });
+        });
+
+        it('should reject invalid or empty updates', async () => {
+            expect(await profileVault.callTool('update_memory', { id: 'm1' })).toHaveProperty('error');
+            expect(await profileVault.callTool('update_memory', { id: 'm1', type: 'secret' })).toHaveProperty('error');
+            expect(await profileVault.callTool('update_memory', { id: 'm1', confidence: 2 })).toHaveProperty('error');
+            expect(await profileVault.callTool('update_memory', { id: 'nope', content: 'x' }))
+                .toEqual({ error: 'Memory not found', code: 'not_found', id: 'nope' });
+            expect(getAuditLogger().getLogsByType('memory_modified')).toHaveLength(0);
+        });
+    });
+
+    describe('forget_memory', () => {
+        it('should remove the memory and audit its last version', async () => {
+            const result = await profileVault.callTool('forget_memory', { id: 'm2', reason: 'Wrong' });
+
+            expect(result).toMatchObject({ success: true, id: 'm2' });
+            expect((await readMemories()).map(m => m.id)).toEqual(['m1', 'm3']);
+
+            const [entry] = getAuditLogger().getLogsByType('memory_modified');
+            expect(entry.reason).toBe('Wrong');
+            expect(entry.metadata).toMatchObject({ action: 'forget', before: { content: 'Learning Rust macros' }, after: null });
+        });
+
+        it('should persist the removal', async () => {
+            await profileVault.callTool('forget_memory', { id: 'm3' });
+
+            const { profile } = await new EncryptedVaultStore(dir)
+                .open({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+            expect(profile?.longTermMemory).toEqual([]);
+        });
+    });
+
+    describe('saving', () => {
+        it('should fail the tool call when the vault cannot be written, and keep saving afterwards', async () => {
+            const write = vi.spyOn(EncryptedVaultStore.prototype, 'write').mockRejectedValueOnce(new Error('disk full'));
+            const changes = vi.fn();
+            profileVault.onChange(changes);
+
+            await expect(profileVault.callTool('forget_memory', { id: 'm3' })).rejects.toThrow('disk full');
+            expect(changes).not.toHaveBeenCalled();
+
+            await profileVault.callTool('forget_memory', { id: 'm2' });
+            const { profile } = await new EncryptedVaultStore(dir)
+                .open({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+            expect(profile?.longTermMemory).toEqual([]);
+            write.mockRestore();
+        });
+    });
+
+    describe('pin_memory', () => {
+        it('should move a pinned long-term memory to short-term memory', async () => {
+            await profileVault.callTool('pin_memory', { id: 'm3' });
+
+            const recent = await profileVault.readResource('profile://memory/recent') as { memories: MemoryFragment[] };
+            expect(recent.memories.find(m => m.id === 'm3')?.pinned).toBe(true);
+        });
+
+        it('should rank pinned memories first in search', async () => {
+            await profileVault.callTool('pin_memory', { id: 'm2' });
+
+            const result = await profileVault.callTool('search_memory', { query: 'rust' }) as { matches: MemoryFragment[] };
+            expect(result.matches[0].id).toBe('m2');
+        });
+
+        it('should keep pinned memories out of long-term rotation', async () => {
+            await profileVault.callTool('pin_memory', { id: 'm1' });
+            for (let i = 0; i < 50; i++) {
+                await profileVault.callTool('add_memory', { content: `Filler ${i}` });
+            }
+
+            const { profile } = await new EncryptedVaultStore(dir)
+                .open({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+            expect(profile?.shortTermMemory.map(m => m.id)).toContain('m1');
+            expect(profile?.longTermMemory.map(m => m.id)).toContain('m2');
+        });
+
+        it('should audit pin and unpin', async () => {
+            await profileVault.callTool('pin_memory', { id: 'm1' });
+            await profileVault.callTool('pin_memory', { id: 'm1', pinned: false });
+
+            const actions = getAuditLogger().getLogsByType('memory_modified').map(e => e.metadata?.action);
+            expect(actions).toEqual(['pin', 'unpin']);
+        });
+    });
+    describe('projects', () => {
+        it('should list projects with link counts', async () => {
+            const result = await profileVault.callTool('list_projects', {}) as any;
+
+            expect(result.count).toBe(2);
+            expect(result.activeProjectId).toBeNull();
+            expect(result.projects[0]).toMatchObject({ id: 'p1', memoryCount: 2, conversationCount: 1, active: false });
+        });
+
+        it('should return tech stack, related memories and linked conversations', async () => {
+            const result = await profileVault.callTool('get_project_context', { project_id: 'p1' }) as any;
+
+            expect(result.techStack).toEqual(['Rust']);
+            expect(result.relatedMemories.map((m: MemoryFragment) => m.id)).toEqual(['m1', 'm3']);
+            expect(result.conversations.map((c: Conversation) => c.title)).toEqual(['Parser design']);
+        });
+
+        it('should use explicitly linked conversations', async () => {
+            const result = await profileVault.callTool('get_project_context', { project_id: 'p2' }) as any;
+            expect(result.conversations.map((c: Conversation) => c.id)).toEqual(['c2']);
+        });
+
+        it('should default to the active project', async () => {
+            expect(await profileVault.callTool('get_project_context', {})).toHaveProperty('error');
+
+            await profileVault.callTool('set_active_project', { project_id: 'p2' });
+
+            const result = await profileVault.callTool('get_project_context', {}) as any;
+            expect(result.project.id).toBe('p2');
+            expect(result.active).toBe(true);
+            expect(await profileVault.readResource('profile://projects/active')).toMatchObject({ project: { id: 'p2' } });
+        });
+
+        it('should reject unknown projects and allow clearing', async () => {
+            expect(await profileVault.callTool('set_active_project', { project_id: 'nope' }))
+                .toEqual({ error: 'Project not found', code: 'not_found', id: 'nope' });
+
+            await profileVault.callTool('set_active_project', { project_id: 'p1' });
+            await profileVault.callTool('set_active_project', { project_id: null });
+
+            expect(await profileVault.readResource('profile://projects')).toMatchObject({ activeProjectId: null });
+        });
+    });
+
+    describe('get_context_for_task', () => {
+        it('should return ranked items with reasons within the budget', async () => {
+            const result = await profileVault.callTool('get_context_for_task', { task_description: 'Rust macros', max_tokens: 500 }) as any;
+
+            expect(result.items[0]).toMatchObject({ kind: 'memory', id: 'm2' });
+            expect(result.items[0].reasons[0]).toBe('matches rust, macros');
+            expect(result.context.memories.map((m: MemoryFragment) => m.id)).toContain('m1');
+            expect(result.budget.usedTokens).toBeLessThanOrEqual(500);
+        });
+    });
+
+    describe('tokens', () => {
+        it('should issue, refresh, list and revoke tokens', async () => {
+            const issued = await profileVault.callTool('issue_token', { client: 'cursor', scope: ['read:memories'] }) as any;
+            expect(issued.accessToken).toBeTruthy();
+
+            const refreshed = await profileVault.refreshToken(issued.refreshToken);
+            const listed = await profileVault.callTool('list_tokens', {}) as any;
+            expect(listed.tokens.map((t: any) => t.jti).sort()).toEqual([refreshed.jti, issued.jti].sort());
+
+            expect(await profileVault.callTool('revoke_token', { jti: refreshed.jti })).toEqual({ success: true, jti: refreshed.jti });
+            expect(profileVault.tokenService?.isRevoked(refreshed.jti)).toBe(true);
+            expect(await profileVault.callTool('revoke_token', { jti: 'nope' }))
+                .toEqual({ error: 'Token not found', code: 'not_found', jti: 'nope' });
+        });
+
+        it('should not issue tokens broader than the caller\'s scope', async () => {
+            const tokenAdmin = { scope: ['admin:tokens'] };
+
+            const broader = await profileVault.callTool('issue_token', { client: 'cursor', scope: ['admin:tokens', 'write:memories'] }, tokenAdmin) as any;
+            expect(broader).toMatchObject({ code: 'failed_precondition' });
+            expect(broader.error).toContain('write:memories');
+            expect((await profileVault.callTool('issue_token', { client: 'cursor', scope: ['*'] }, tokenAdmin) as any).code)
+                .toBe('failed_precondition');
+            expect(profileVault.tokenService?.list()).toEqual([]);
+
+            const narrower = await profileVault.callTool('issue_token', { client: 'cursor', scope: ['admin:tokens'] }, tokenAdmin) as any;
+            expect(narrower.accessToken).toBeTruthy();
+            expect((await profileVault.callTool('issue_token', { client: 'cli', scope: ['admin:settings'] }, { scope: ['*'] }) as any).accessToken)
+                .toBeTruthy();
+        });
+
+        it('should stop issuing once locked', async () => {
+            await profileVault.lock();
+            await expect(profileVault.refreshToken('x.y')).rejects.toThrow('Vault is locked');
+        });
+    });
+
+    describe('grants', () => {
+        const signGrant = async (mnemonic: string) => signAccessGrant({
+            id: 'grant-agent',
+            grantee: 'Agent',
+            permissions: ['read_memory'],
+            expiresAt: Date.now() + 3600000
+        }, (await createWalletIdentity(mnemonic)).keys.privateKey);
+
+        it('should revoke grants signed by the owner and refuse unknown ones', async () => {
+            expect(await profileVault.callTool('revoke_grant', { grant_id: 'typo' }))
+                .toMatchObject({ code: 'not_found', grantId: 'typo' });
+            expect(await profileVault.callTool('revoke_grant', { grant_id: 'grant-agent', grant: await signGrant(MNEMONICS.alternative) }))
+                .toMatchObject({ code: 'not_found' });
+            expect(profileVault.revokedGrantIds).toEqual([]);
+
+            const grant = await signGrant(MNEMONICS.standard);
+            expect(await profileVault.callTool('revoke_grant', { grant_id: 'grant-agent', grant })).toEqual({ success: true, grantId: 'grant-agent' });
+            // Revoking again needs no grant and changes nothing
+            expect(await profileVault.callTool('revoke_grant', { grant_id: 'grant-agent' })).toEqual({ success: true, grantId: 'grant-agent' });
+            expect(profileVault.revokedGrantIds).toEqual(['grant-agent']);
+        });
+    });
+
+    describe('audit log', () => {
+        beforeEach(() => {
+            getAuditLogger().logAuthSuccess({ sessionId: 's1', did: 'did:key:zA', client: 'claude' });
+            getAuditLogger().logResourceRead({ sessionId: 's1', resource: 'profile://identity', result: 'allowed' });
+        });
+
+        it('should query by client', async () => {
+            const result = await profileVault.callTool('query_audit_log', { client: 'claude', type: 'resource_read' }) as any;
+
+            expect(result.total).toBe(1);
+            expect(result.entries[0].resource).toBe('profile://identity');
+        });
+
+        it('should export CSV and JSONL', async () => {
+            const csv = await profileVault.callTool('query_audit_log', { client: 'claude', format: 'csv' }) as any;
+            expect(csv.format).toBe('csv');
+            expect(csv.content.split('\r\n')[1]).toContain('profile://identity');
+
+            const jsonl = await profileVault.callTool('query_audit_log', { client: 'claude', format: 'jsonl', limit: 1 }) as any;
+            expect(JSON.parse(jsonl.content).type).toBe('resource_read');
+            expect(jsonl.nextOffset).toBe(1);
+        });
+
+        it('should reject invalid times', async () => {
+            const result = await profileVault.callTool('query_audit_log', { since: 'yesterday-ish' }) as any;
+            expect(result.code).toBe('invalid_arguments');
+        });
+
+        it('should expose recent entries as a resource', async () => {
+            const result = await profileVault.readResource('profile://audit');
+
+            expect(result.stats.totalEntries).toBeGreaterThanOrEqual(2);
+            expect(result.recent[0].type).toBe('resource_read');
+        });
+
+        it('should persist audit entries across unlocks', async () => {
+            await profileVault.callTool('forget_memory', { id: 'm2' }, { sessionId: 'session-1' });
+            await profileVault.lock();
+
+            resetAuditLogger();
+            await profileVault.unlock({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+
+            expect(getAuditLogger().getLogsByType('memory_modified')).toHaveLength(1);
+            expect((await profileVault.auditStore!.verify()).valid).toBe(true);
+            expect(await profileVault.callTool('query_audit_log', {})).toMatchObject({ verified: true, issues: [] });
+        });
+
+        it('should verify the persisted log on unlock and report a broken chain', async () => {
+            await profileVault.callTool('forget_memory', { id: 'm2' });
+            await profileVault.callTool('forget_memory', { id: 'm3' });
+            await profileVault.lock();
+
+            // Drop an entry from the middle of the segment
+            const segmentPath = path.join(dir, AUDIT_DIRNAME, segmentFileName(1));
+            const lines = fs.readFileSync(segmentPath, 'utf8').split('\n').filter(Boolean);
+            fs.writeFileSync(segmentPath, [lines[0], ...lines.slice(2)].join('\n') + '\n');
+
+            resetAuditLogger();
+            await profileVault.unlock({ mnemonic: MNEMONICS.standard, password: PASSWORDS.simple });
+
+            const result = await profileVault.callTool('query_audit_log', {}) as any;
+            expect(result.verified).toBe(false);
+            expect(result.issues[0].message).toContain('does not follow');
+            expect((await profileVault.readResource('profile://audit')).verified).toBe(false);
+            const [broken] = getAuditLogger().getLogsByType('audit_chain_broken');
+            expect(broken.metadata?.issues).toEqual(result.issues);
+        });
+    });
+
+    describe('enrich_profile', () => {
+        function sampler(replies: string[]) {
+            const sample = vi.fn(async () => replies.shift() ?? '[]');
+            return { sample, maxInputChars: 2000 };
+        }
+
+        it('should refuse without sampling', async () => {
+            const result = await profileVault.callTool('enrich_profile', {}) as any;
+            expect(result.code).toBe('failed_precondition');
+        });
+
+        it('should write summaries, memories and insights', async () => {
+            const sampling = sampler([
+                'Designing a recursive descent parser.',
+                '[{"content": "Writes parsers in Rust", "type": "technical", "tags": ["rust"], "confidence": 0.9}]',
+                '[{"category": "expertise", "content": "Compiler construction", "confidence": 0.8, "derivedFrom": ["c1"]}]'
+            ]);
+
+            const result = await profileVault.callTool('enrich_profile', { conversation_ids: ['c1'] }, { sampling }) as any;
+
+            expect(result).toEqual({ summarized: ['c1'], memoriesAdded: 1, insightsAdded: 1, errors: [] });
+            const profile = (profileVault as any).profile as PortableProfile;
+            expect(profile.conversations.find(c => c.id === 'c1')!.summary).toBe('Designing a recursive descent parser.');
+            expect(profile.longTermMemory.at(-1)).toMatchObject({ content: 'Writes parsers in Rust', conversationId: 'c1', sourceModel: 'mcp-sampling' });
+            expect(profile.insights[0]).toMatchObject({ category: 'expertise', derivedFrom: ['c1'] });
+        });
+
+        it('should report failed requests and keep going', async () => {
+            const sample = vi.fn()
+                .mockRejectedValueOnce(new Error('Client declined sampling: User rejected'))
+                .mockResolvedValue('Landing page copy.');
+
+            const result = await profileVault.callTool('enrich_profile', { tasks: ['summaries'], limit: 2 }, {
+                sampling: { sample, maxInputChars: 2000 }
+            }) as any;
+
+            expect(result.summarized).toHaveLength(1);
+            expect(result.errors[0]).toMatchObject({ task: 'summaries', error: 'Client declined sampling: User rejected' });
+        });
+
+        it('should reject unknown conversations', async () => {
+            const result = await profileVault.callTool('enrich_profile', { conversation_ids: ['nope'] }, { sampling: sampler([]) }) as any;
+            expect(result.code).toBe('not_found');
+        });
+    });
+
+    describe('write review', () => {
+        const remote = { client: 'web-agent', reviewWrites: true };
+
+        it('should queue add_memory instead of storing it', async () => {
+            const result = await profileVault.callTool('add_memory', { content: 'Prefers tabs', reason: 'User said so' }, remote) as any;
+
+            expect(result).toMatchObject({ success: true, status: 'pending' });
+            expect((await readMemories()).some(m => m.content === 'Prefers tabs')).toBe(false);
+
+            const status = await profileVault.callTool('get_write_status', { id: result.writeId }, remote) as any;
+            expect(status).toMatchObject({ id: result.writeId, tool: 'add_memory', status: 'pending', summary: 'Add memory: Prefers tabs' });
+        });
+
+        it('should queue archive_conversation with the conversation it would store', async () => {
+            const result = await profileVault.callTool('archive_conversation', {
+                title: 'Chat',
+                messages: [{ role: 'user', content: 'hello' }]
+            }, remote) as any;
+            expect(result.status).toBe('pending');
+
+            const conversations = await profileVault.readResource('profile://conversations/recent') as any;
+            expect(JSON.stringify(conversations)).not.toContain('"Chat"');
+        });
+
+        it('should refuse edits and deletions it cannot hold for review', async () => {
+            const added = await profileVault.callTool('add_memory', { content: 'Prefers spaces' }) as any;
+
+            for (const [tool, args] of [
+                ['update_memory', { id: added.memory.id, content: 'Prefers tabs' }],
+                ['forget_memory', { id: added.memory.id }],
+                ['pin_memory', { id: added.memory.id }],
+                ['enrich_profile', {}]
+            ] as const) {
+                const result = await profileVault.callTool(tool, args, remote) as any;
+                expect(result.code).toBe('failed_precondition');
+            }
+            expect((await readMemories()).find(m => m.id === added.memory.id)?.content).toBe('Prefers spaces');
+        });
+
+        it('should store directly when review is off', async () => {
+            const result = await profileVault.callTool('add_memory', { content: 'Prefers spaces' }, { client: 'web-agent' }) as any;
+            expect(result.memory.content).toBe('Prefers spaces');
+        });
+
+        it('should only report a write to the client that made it', async () => {
+            const result = await profileVault.callTool('add_memory', { content: 'Prefers tabs' }, remote) as any;
+
+            const other = await profileVault.callTool('get_write_status', { id: result.writeId }, { client: 'other-agent' }) as any;
+            expect(other.code).toBe('not_found');
+
+            const local = await profileVault.callTool('get_write_status', { id: result.writeId }) as any;
+            expect(local.status).toBe('pending');
+        });
+    });
+
+    describe('session transcripts', () => {
+        const readConversation = (id: string) => profileVault.readResource(`profile://conversations/${id}`) as Promise<any>;
+
+        it('should start a conversation on the first append and extend it after', async () => {
+            const first = await profileVault.callTool('append_to_conversation', {
+                title: 'Helm chat',
+                messages: [{ role: 'user', content: 'How do helm charts work?' }]
+            }, { connectionId: 'conn-1' }) as any;
+            const second = await profileVault.callTool('append_to_conversation', {
+                messages: [{ role: 'assistant', content: 'They template manifests.' }]
+            }, { connectionId: 'conn-1' }) as any;
+
+            expect(first).toMatchObject({ success: true, messageCount: 1, finalized: false });
+            expect(second).toMatchObject({ conversationId: first.conversationId, messageCount: 2 });
+
+            const conversation = await readConversation(first.conversationId);
+            expect(conversation.title).toBe('Helm chat');
+            expect(conversation.messages).toHaveLength(2);
+            expect(conversation.summary).toBeUndefined();
+        });
+
+        it('should keep each connection\'s transcript separate', async () => {
+            const a = await profileVault.callTool('append_to_conversation', { messages: [{ role: 'user', content: 'a' }] }, { connectionId: 'conn-a' }) as any;
+            const b = await profileVault.callTool('append_to_conversation', { messages: [{ role: 'user', content: 'b' }] }, { connectionId: 'conn-b' }) as any;
+            expect(a.conversationId).not.toBe(b.conversationId);
+        });
+
+        it('should finalize on session end when auto-archive is on', async () => {
+            await profileVault.callTool('toggle_auto_archive', { enabled: true });
+            const result = await profileVault.callTool('append_to_conversation', {
+                messages: [{ role: 'user', content: 'Tuning postgres indexes for postgres queries' }]
+            }, { connectionId: 'conn-1' }) as any;
+
+            await profileVault.endSession('conn-1');
+
+            const conversation = await readConversation(result.conversationId);
+            expect(conversation.summary).toMatch(/^Discussion about: postgres/);
+            expect(conversation.tags).toContain('postgres');
+
+            // The next append starts a new conversation
+            const next = await profileVault.callTool('append_to_conversation', { messages: [{ role: 'user', content: 'again' }] }, { connectionId: 'conn-1' }) as any;
+            expect(next.conversationId).not.toBe(result.conversationId);
+        });
+
+        it('should leave the transcript as captured when auto-archive is off', async () => {
+            const result = await profileVault.callTool('append_to_conversation', {
+                messages: [{ role: 'user', content: 'Tuning postgres indexes' }]
+            }, { connectionId: 'conn-1' }) as any;
+
+            await profileVault.endSession('conn-1');
+
+            const conversation = await readConversation(result.conversationId);
+            expect(conversation.messages).toHaveLength(1);
+            expect(conversation.summary).toBeUndefined();
+        });
+
+        it('should finalize when asked', async () => {
+            const result = await profileVault.callTool('append_to_conversation', {
+                messages: [{ role: 'user', content: 'Tuning postgres indexes' }],
+                finalize: true
+            }, { connectionId: 'conn-1' }) as any;
+
+            expect(result.finalized).toBe(true);
+            expect((await readConversation(result.conversationId)).tags).toContain('postgres');
+        });
+
+        it('should hold a reviewed transcript and queue it for review when it ends', async () => {
+            const remote = { connectionId: 'conn-1', client: 'web-agent', reviewWrites: true };
+            const first = await profileVault.callTool('append_to_conversation', {
+                messages: [{ role: 'user', content: 'Tuning postgres indexes' }]
+            }, remote) as any;
+            expect((await readConversation(first.conversationId)).error).toBe('Conversation not found');
+
+            const result = await profileVault.callTool('append_to_conversation', {
+                messages: [{ role: 'assistant', content: 'Add a partial index' }],
+                finalize: true
+            }, remote) as any;
+
+            expect(result).toMatchObject({ success: true, status: 'pending', conversationId: first.conversationId, finalized: true });
+            const status = await profileVault.callTool('get_write_status', { id: result.writeId }, remote) as any;
+            expect(status).toMatchObject({ tool: 'archive_conversation', status: 'pending' });
+            expect(status.summary).toContain('(2 messages)');
+        });
+    });
+
+    describe('personas', () => {
+        async function savePersona(args: Record<string, unknown>) {
+            return (await profileVault.callTool('save_persona', args) as any).persona;
+        }
+
+        it('should create personas and reject duplicate names', async () => {
+            const persona = await savePersona({ name: 'Compiler', visibility: { includeTags: ['rust'] } });
+            expect(persona).toMatchObject({ name: 'Compiler', visibility: { includeTags: ['rust'] } });
+
+            const duplicate = await profileVault.callTool('save_persona', { name: 'compiler' }) as any;
+            expect(duplicate.code).toBe('invalid_arguments');
+
+            const listed = await profileVault.callTool('list_personas', {}) as any;
+            expect(listed).toEqual({ personas: [{ id: persona.id, name: 'Compiler' }], current: null, bound: false });
+        });
+
+        it('should scope reads to the selected persona for that connection only', async () => {
+            await savePersona({ name: 'Compiler', identity: { role: 'Compiler engineer' }, visibility: { projectIds: ['p1'], excludeTags: ['macros'] } });
+            await profileVault.callTool('update_memory', { id: 'm2', tags: ['rust', 'macros'] });
+            const conn = { connectionId: 'conn-1' };
+
+            expect(await profileVault.callTool('select_persona', { persona: 'compiler' }, conn)).toMatchObject({ success: true });
+
+            const projects = await profileVault.callTool('list_projects', {}, conn) as any;
+            expect(projects.projects.map((p: any) => p.id)).toEqual(['p1']);
+            const search = await profileVault.callTool('search_memory', { query: 'rust' }, conn) as any;
+            expect(search.matches.map((m: MemoryFragment) => m.id).sort()).toEqual(['m1', 'm3']);
+            expect((await profileVault.readResource('profile://identity', conn)).role).toBe('Compiler engineer');
+
+            // Other connections still see the whole profile
+            expect((await profileVault.callTool('list_projects', {}, { connectionId: 'conn-2' }) as any).count).toBe(2);
+
+            // The selection ends with the session
+            await profileVault.endSession('conn-1');
+            expect((await profileVault.callTool('list_projects', {}, conn) as any).count).toBe(2);
+        });
+
+        it('should tag writes so the persona keeps seeing them', async () => {
+            const persona = await savePersona({ name: 'Web', visibility: { includeTags: ['web'] } });
+            const bound = { persona: persona.id };
+
+            const added = await profileVault.callTool('add_memory', { content: 'Prefers Tailwind' }, bound) as any;
+            expect(added.memory.tags).toEqual(['web']);
+            expect((await profileVault.callTool('search_memory', { query: 'tailwind' }, bound) as any).count).toBe(1);
+        });
+
+        it('should keep a bound session inside its persona', async () => {
+            const persona = await savePersona({ name: 'Web', visibility: { includeTags: ['web'] } });
+            await savePersona({ name: 'Compiler' });
+            const bound = { persona: persona.id };
+
+            expect((await profileVault.callTool('select_persona', { persona: 'Compiler' }, bound) as any).code).toBe('failed_precondition');
+            expect((await profileVault.callTool('save_persona', { id: persona.id, name: 'Web' }, bound) as any).code).toBe('failed_precondition');
+            expect((await profileVault.callTool('list_personas', {}, bound) as any).personas).toEqual([{ id: persona.id, name: 'Web' }]);
+
+            // Memories outside the persona cannot be touched
+            expect((await profileVault.callTool('forget_memory', { id: 'm1' }, bound) as any).code).toBe('not_found');
+            expect((await readMemories()).some(m => m.id === 'm1')).toBe(true);
+
+            // Credentials it issues stay bound to the same persona
+            expect((await profileVault.callTool('issue_token', { client: 'cursor', scope: ['read:memories'], persona: 'Compiler' }, bound) as any).code)
+                .toBe('failed_precondition');
+            await profileVault.callTool('issue_token', { client: 'cursor', scope: ['read:memories'] }, bound);
+            expect(profileVault.tokenService?.list()[0].persona).toBe(persona.id);
+        });
+
+        it('should keep the active project and tokens of a bound session to its persona', async () => {
+            const persona = await savePersona({ name: 'Web' });
+            const bound = { persona: persona.id };
+
+            await profileVault.callTool('set_active_project', { project_id: 'p2' }, bound);
+            expect((await profileVault.callTool('list_projects', {}, bound) as any).activeProjectId).toBe('p2');
+            expect((await profileVault.callTool('list_projects', {}) as any).activeProjectId).not.toBe('p2');
+
+            const own = await profileVault.callTool('issue_token', { client: 'cursor', scope: ['read:memories'] }, bound) as any;
+            const other = await profileVault.callTool('issue_token', { client: 'claude', scope: ['read:memories'] }) as any;
+
+            const listed = await profileVault.callTool('list_tokens', {}, bound) as any;
+            expect(listed.tokens.map((t: any) => t.jti)).toEqual([own.jti]);
+            expect((await profileVault.callTool('revoke_token', { jti: other.jti }, bound) as any).code).toBe('not_found');
+            expect(profileVault.tokenService?.isRevoked(other.jti)).toBe(false);
+        });
+
+        it('should keep bound sessions out of the audit log and the review inbox', async () => {
+            const persona = await savePersona({ name: 'Web', visibility: { includeTags: ['web'] } });
+            const bound = { persona: persona.id };
+            await profileVault.callTool('update_memory', { id: 'm1', content: 'Works on the compiler' });
+
+            expect((await profileVault.callTool('query_audit_log', { type: 'memory_modified' }, bound) as any).code).toBe('failed_precondition');
+            expect((await profileVault.readResource('profile://audit', bound)).error).toContain('bound to a persona');
+            expect((await profileVault.callTool('list_pending_writes', {}, bound) as any).code).toBe('failed_precondition');
+            expect((await profileVault.callTool('review_write', { id: 'w1', decision: 'approve' }, bound) as any).code).toBe('failed_precondition');
+
+            // Unbound sessions, such as the dashboard's, still see everything
+            expect((await profileVault.callTool('query_audit_log', { type: 'memory_modified' }) as any).entries.length).toBeGreaterThan(0);
+        });
+
+        it('should fail closed when a bound persona is deleted', async () => {
+            const persona = await savePersona({ name: 'Web', visibility: { includeTags: ['web'] } });
+
+            expect(await profileVault.callTool('delete_persona', { id: persona.id })).toEqual({ success: true, id: persona.id });
+
+            const result = await profileVault.callTool('search_memory', { query: 'rust' }, { persona: persona.id }) as any;
+            expect(result.code).toBe('failed_precondition');
+            expect((await profileVault.readResource('profile://memory/all', { persona: persona.id })).error).toContain('Persona not found');
+        });
+    });
+});
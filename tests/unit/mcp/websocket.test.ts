@@ -0,0 +1,291 @@
+/**
+ * Unit Tests for the MCP WebSocket Transport
+ *
+ * Tests cover:
+ * - Upgrade handshake and JSON-RPC round trips
+ * - Refusing upgrades from origins that are not allowlisted
+ * - Accepting an AccessGrant in initialize
+ * - Queueing messages pipelined behind an initialize whose grant is being checked
+ * - Session closed listeners firing when a client disconnects
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as net from 'net';
+import { randomBytes } from 'crypto';
+import { WebSocketTransport } from '@/lib/mcp/transports/websocket';
+import { DEFAULT_NETWORK_POLICY } from '@/lib/mcp/transports/network';
+import { McpAuthMiddleware } from '@/lib/mcp/auth';
+import { AuditLogger } from '@/lib/mcp/audit';
+import { McpRequest } from '@/lib/mcp/types';
+import { createWalletIdentity, signAccessGrant } from '@/lib/vault/identity';
+import { MNEMONICS } from '../../fixtures/test-vectors';
+
+vi.mock('@/lib/mcp/config', () => ({
+    log: vi.fn(),
+    logError: vi.fn()
+}));
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.on('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+/**
+ * Encode a masked client text frame.
+ */
+function textFrame(message: unknown): Buffer {
+    const payload = Buffer.from(JSON.stringify(message));
+    const header = payload.length < 126
+        ? Buffer.from([0x81, 0x80 | payload.length])
+        : Buffer.from([0x81, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+    const mask = randomBytes(4);
+    const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+    return Buffer.concat([header, mask, masked]);
+}
+
+/**
+ * Minimal client on a raw socket, so tests control which frames are sent together.
+ */
+class TestClient {
+    readonly messages: Array<Record<string, unknown>> = [];
+    closeCode: number | null = null;
+    private buffer = Buffer.alloc(0);
+
+    private constructor(private socket: net.Socket) {
+        socket.on('data', chunk => this.receive(chunk));
+    }
+
+    /**
+     * Perform the upgrade; resolves with the HTTP status and, on 101, the client.
+     */
+    static connect(port: number, headers: Record<string, string> = {}): Promise<{ status: number; client?: TestClient }> {
+        return new Promise((resolve, reject) => {
+            const socket = net.connect(port, '127.0.0.1');
+            socket.on('error', reject);
+            socket.once('connect', () => {
+                socket.write([
+                    'GET /ws HTTP/1.1',
+                    `Host: 127.0.0.1:${port}`,
+                    'Upgrade: websocket',
+                    'Connection: Upgrade',
+                    `Sec-WebSocket-Key: ${randomBytes(16).toString('base64')}`,
+                    'Sec-WebSocket-Version: 13',
+                    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+                    '',
+                    ''
+                ].join('\r\n'));
+            });
+
+            let head = Buffer.alloc(0);
+            const onData = (chunk: Buffer) => {
+                head = Buffer.concat([head, chunk]);
+                const end = head.indexOf('\r\n\r\n');
+                if (end === -1) return;
+                socket.off('data', onData);
+
+                const status = parseInt(head.toString('latin1').split(' ')[1], 10);
+                if (status !== 101) {
+                    socket.destroy();
+                    resolve({ status });
+                    return;
+                }
+                const client = new TestClient(socket);
+                const rest = head.subarray(end + 4);
+                if (rest.length > 0) client.receive(rest);
+                resolve({ status, client });
+            };
+            socket.on('data', onData);
+        });
+    }
+
+    send(...messages: unknown[]): void {
+        // One write, so the server receives every frame in the same chunk
+        this.socket.write(Buffer.concat(messages.map(textFrame)));
+    }
+
+    close(): void {
+        this.socket.destroy();
+    }
+
+    private receive(chunk: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (this.buffer.length >= 2) {
+            const opcode = this.buffer[0] & 0x0f;
+            let length = this.buffer[1] & 0x7f;
+            let offset = 2;
+            if (length === 126) {
+                if (this.buffer.length < 4) return;
+                length = this.buffer.readUInt16BE(2);
+                offset = 4;
+            }
+            if (this.buffer.length < offset + length) return;
+
+            const payload = this.buffer.subarray(offset, offset + length);
+            this.buffer = this.buffer.subarray(offset + length);
+            if (opcode === 0x1) {
+                this.messages.push(JSON.parse(payload.toString('utf8')));
+            } else if (opcode === 0x8) {
+                this.closeCode = payload.readUInt16BE(0);
+            }
+        }
+    }
+}
+
+const APP_ORIGIN = 'http://app.example.com';
+
+describe('WebSocketTransport', () => {
+    let transport: WebSocketTransport;
+    let port: number;
+    let handled: string[];
+
+    beforeEach(async () => {
+        port = await freePort();
+        handled = [];
+        transport = new WebSocketTransport(port, { ...DEFAULT_NETWORK_POLICY, allowedOrigins: [APP_ORIGIN] });
+    });
+
+    afterEach(async () => {
+        await transport.stop();
+    });
+
+    const start = () => transport.start(async (req: McpRequest, sessionId?: string) => {
+        handled.push(req.method);
+        if (req.id !== undefined) {
+            await transport.send({ jsonrpc: '2.0', id: req.id, result: { method: req.method } }, sessionId);
+        }
+    });
+
+    describe('connections', () => {
+        it('should answer requests over the upgraded connection', async () => {
+            await start();
+            const { status, client } = await TestClient.connect(port);
+            expect(status).toBe(101);
+
+            client!.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+            await vi.waitFor(() => expect(client!.messages).toEqual([
+                { jsonrpc: '2.0', id: 1, result: { method: 'initialize' } }
+            ]));
+            client!.close();
+        });
+
+        it('should notify session closed listeners when a client disconnects', async () => {
+            await start();
+            const closed = vi.fn();
+            transport.onSessionClosed(closed);
+            const { client } = await TestClient.connect(port);
+            client!.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+            await vi.waitFor(() => expect(client!.messages).toHaveLength(1));
+
+            client!.close();
+
+            await vi.waitFor(() => expect(closed).toHaveBeenCalledTimes(1));
+        });
+    });
+
+    describe('origin policy', () => {
+        it('should refuse upgrades from origins that are not allowlisted', async () => {
+            await start();
+
+            const { status } = await TestClient.connect(port, { Origin: 'https://evil.example' });
+
+            expect(status).toBe(403);
+        });
+
+        it('should accept upgrades from allowlisted origins and clients without an Origin', async () => {
+            await start();
+
+            const browser = await TestClient.connect(port, { Origin: APP_ORIGIN });
+            const agent = await TestClient.connect(port);
+
+            expect(browser.status).toBe(101);
+            expect(agent.status).toBe(101);
+            browser.client!.close();
+            agent.client!.close();
+        });
+    });
+
+    describe('pending authentication', () => {
+        it('should accept an AccessGrant in initialize', async () => {
+            const owner = await createWalletIdentity(MNEMONICS.standard);
+            transport.setAuthMiddleware(new McpAuthMiddleware({
+                transport: 'websocket',
+                ownerDid: owner.identity.did,
+                auditLogger: new AuditLogger({ maxLogs: 100 })
+            }));
+            await start();
+
+            const accessGrant = await signAccessGrant({
+                id: 'grant-ws',
+                grantee: 'Browser Agent',
+                permissions: ['read_memory'],
+                expiresAt: Date.now() + 3600000
+            }, owner.keys.privateKey);
+            const { client } = await TestClient.connect(port);
+
+            client!.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { accessGrant } });
+            await vi.waitFor(() => expect(client!.messages.map(m => m.id)).toEqual([1]));
+            client!.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+            await vi.waitFor(() => expect(client!.messages.map(m => m.id)).toEqual([1, 2]));
+            expect(handled).toEqual(['initialize', 'tools/list']);
+            expect(client!.closeCode).toBeNull();
+            client!.close();
+        });
+
+        it('should queue messages pipelined behind initialize until its grant is checked', async () => {
+            const owner = await createWalletIdentity(MNEMONICS.standard);
+            const middleware = new McpAuthMiddleware({
+                transport: 'websocket',
+                ownerDid: owner.identity.did,
+                auditLogger: new AuditLogger({ maxLogs: 100 })
+            });
+            // Hold the grant check open so the next message arrives while it runs
+            const authenticateWithGrant = middleware.authenticateWithGrant.bind(middleware);
+            vi.spyOn(middleware, 'authenticateWithGrant').mockImplementation(async (...args) => {
+                await new Promise(resolve => setTimeout(resolve, 50));
+                return authenticateWithGrant(...args);
+            });
+            transport.setAuthMiddleware(middleware);
+            await start();
+
+            const accessGrant = await signAccessGrant({
+                id: 'grant-ws',
+                grantee: 'Browser Agent',
+                permissions: ['read_memory'],
+                expiresAt: Date.now() + 3600000
+            }, owner.keys.privateKey);
+            const { client } = await TestClient.connect(port);
+
+            client!.send(
+                { jsonrpc: '2.0', id: 1, method: 'initialize', params: { accessGrant } },
+                { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+            );
+
+            await vi.waitFor(() => expect(client!.messages.map(m => m.id)).toEqual([1, 2]));
+            expect(handled).toEqual(['initialize', 'tools/list']);
+            expect(client!.closeCode).toBeNull();
+            client!.close();
+        });
+
+        it('should close connections whose first message is not an authenticating initialize', async () => {
+            transport.setAuthMiddleware(new McpAuthMiddleware({
+                transport: 'websocket',
+                auditLogger: new AuditLogger({ maxLogs: 100 })
+            }));
+            await start();
+            const { client } = await TestClient.connect(port);
+
+            client!.send({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+            await vi.waitFor(() => expect(client!.closeCode).toBe(1008));
+            expect(handled).toEqual([]);
+        });
+    });
+});
@@ -700,4 +700,34 @@ describe('SummarizationService', () => {
             }
         });
     });
+
+    describe('clusterConversationsAsync()', () => {
+        const conversations = [
+            createMockConversation({ id: 'conv-1', title: 'React hooks guide', metadata: { ...createMockConversation().metadata, createdAt: 3 } }),
+            createMockConversation({ id: 'conv-2', title: 'React hooks tutorial', metadata: { ...createMockConversation().metadata, createdAt: 2 } }),
+            createMockConversation({ id: 'conv-3', title: 'Sourdough baking', metadata: { ...createMockConversation().metadata, createdAt: 1 } })
+        ];
+
+        it('should match clusterConversations and report progress', async () => {
+            const progress: number[] = [];
+
+            const clusters = await SummarizationService.clusterConversationsAsync(conversations, {
+                onProgress: done => progress.push(done)
+            });
+
+            expect(clusters).toEqual(SummarizationService.clusterConversations(conversations));
+            expect(progress).toEqual([2, 3]);
+        });
+
+        it('should stop when aborted', async () => {
+            const controller = new AbortController();
+
+            const clustering = SummarizationService.clusterConversationsAsync(conversations, {
+                signal: controller.signal,
+                onProgress: () => controller.abort(new Error('Cancelled by client'))
+            });
+
+            await expect(clustering).rejects.toThrow('Cancelled by client');
+        });
+    });
 });
@@ -15,7 +15,9 @@ import type {
     SystemPreference,
     ProjectContext,
     UserIdentity,
-    AccessGrant
+    AccessGrant,
+    PendingWrite,
+    Persona
 } from '@/lib/types';
 import type { Conflict } from '@/lib/sync/types';
 
@@ -738,6 +740,58 @@ describe('smartMerge - Grants', () => {
         const grant1Count = result.merged.activeGrants.filter(g => g.id === 'grant-1').length;
         expect(grant1Count).toBe(1);
     });
+
+    it('should keep a grant revoked on either side revoked', async () => {
+        remote.activeGrants = [];
+        remote.revokedGrantIds = ['grant-1'];
+
+        const result = await smartMerge(local, remote, base);
+
+        expect(result.merged.activeGrants.find(g => g.id === 'grant-1')).toBeUndefined();
+        expect(result.merged.revokedGrantIds).toEqual(['grant-1']);
+    });
+});
+
+describe('smartMerge - Pending Writes', () => {
+    function makeWrite(id: string, status: PendingWrite['status']): PendingWrite {
+        return {
+            id,
+            tool: 'add_memory',
+            client: 'web-agent',
+            summary: `Add memory: ${id}`,
+            diff: { before: null, after: { id: `mem-${id}`, timestamp: '', content: id, tags: [], type: 'fact', sourceModel: 'mcp-client', sourceProvider: 'local', confidence: 0.9 } },
+            status,
+            createdAt: 1000
+        };
+    }
+
+    it('should union both inboxes and let decisions win over pending', async () => {
+        const base = createBaseProfile();
+        const local = { ...cloneProfile(base), pendingWrites: [makeWrite('w1', 'pending'), makeWrite('w2', 'approved')] };
+        const remote = { ...cloneProfile(base), pendingWrites: [makeWrite('w1', 'rejected'), makeWrite('w2', 'pending'), makeWrite('w3', 'pending')] };
+
+        const result = await smartMerge(local, remote, base);
+
+        const statuses = Object.fromEntries((result.merged.pendingWrites || []).map(w => [w.id, w.status]));
+        expect(statuses).toEqual({ w1: 'rejected', w2: 'approved', w3: 'pending' });
+    });
+});
+
+describe('smartMerge - Personas', () => {
+    function makePersona(id: string, name: string, updatedAt: number): Persona {
+        return { id, name, createdAt: 1000, updatedAt };
+    }
+
+    it('should union personas and keep the most recently updated definition', async () => {
+        const base = createBaseProfile();
+        const local = { ...cloneProfile(base), personas: [makePersona('p1', 'work', 2000), makePersona('p2', 'side', 1000)] };
+        const remote = { ...cloneProfile(base), personas: [makePersona('p1', 'job', 1500), makePersona('p2', 'hobby', 3000), makePersona('p3', 'family', 1000)] };
+
+        const result = await smartMerge(local, remote, base);
+
+        const names = Object.fromEntries((result.merged.personas || []).map(p => [p.id, p.name]));
+        expect(names).toEqual({ p1: 'work', p2: 'hobby', p3: 'family' });
+    });
 });
 
 // ============================================================
@@ -11,6 +11,7 @@ import {
   validateMnemonic,
   deriveKeysFromMnemonic,
   createDidFromPublicKey,
+  resolveDidKey,
   createWalletIdentity,
   deriveEncryptionKey,
   signMessage,
@@ -18,6 +19,7 @@ import {
   exportIdentity,
   importIdentity,
   signAccessGrant,
+  verifyAccessGrantSignature,
   deriveJwtSigningKey,
   createJwt,
   verifyJwt,
@@ -202,6 +204,25 @@ describe('Identity Module', () => {
     })
   })
 
+  describe('DID Resolution', () => {
+    it('should resolve a did:key back to its public key', async () => {
+      const keys = await deriveKeysFromMnemonic(MNEMONICS.standard)
+      const did = createDidFromPublicKey(keys.publicKey)
+
+      expect(resolveDidKey(did)).toEqual(keys.publicKey)
+    })
+
+    it('should reject other DID methods and encodings', () => {
+      expect(() => resolveDidKey('did:web:example.com')).toThrow('Unsupported DID')
+      expect(() => resolveDidKey('did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK')).toThrow('Unsupported DID')
+    })
+
+    it('should reject keys without the Ed25519 multicodec prefix', () => {
+      expect(() => resolveDidKey('did:key:z' + '12'.repeat(34))).toThrow('not an Ed25519 did:key')
+      expect(() => resolveDidKey('did:key:zed01')).toThrow('not an Ed25519 did:key')
+    })
+  })
+
   // ============================================================
   // Wallet Identity Tests
   // ============================================================
@@ -547,6 +568,46 @@ describe('Identity Module', () => {
     })
   })
 
+  describe('Access Grant Verification', () => {
+    let keys: WalletKeys
+    let did: string
+
+    const grant = {
+      id: 'grant_123',
+      grantee: 'Claude',
+      permissions: ['read_memory'] as ('read_memory' | 'write_memory')[],
+      expiresAt: 1704067200000
+    }
+
+    beforeAll(async () => {
+      keys = await deriveKeysFromMnemonic(MNEMONICS.standard)
+      did = createDidFromPublicKey(keys.publicKey)
+    })
+
+    it('should accept a grant signed by the issuer', async () => {
+      const signed = await signAccessGrant(grant, keys.privateKey)
+      expect(await verifyAccessGrantSignature(signed, did)).toBe(true)
+    })
+
+    it('should reject tampered grants', async () => {
+      const signed = await signAccessGrant(grant, keys.privateKey)
+
+      expect(await verifyAccessGrantSignature({ ...signed, permissions: ['read_memory', 'write_memory'] }, did)).toBe(false)
+      expect(await verifyAccessGrantSignature({ ...signed, expiresAt: signed.expiresAt + 1 }, did)).toBe(false)
+    })
+
+    it('should reject grants signed by another identity', async () => {
+      const otherKeys = await deriveKeysFromMnemonic(MNEMONICS.alternative)
+      const signed = await signAccessGrant(grant, otherKeys.privateKey)
+
+      expect(await verifyAccessGrantSignature(signed, did)).toBe(false)
+    })
+
+    it('should reject malformed signatures', async () => {
+      expect(await verifyAccessGrantSignature({ ...grant, signature: 'fake-signature' }, did)).toBe(false)
+    })
+  })
+
   // ============================================================
   // JWT Key Derivation Tests
   // ============================================================